@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { CircleAlert, ArrowLeft, Mail, CheckCircle } from 'lucide-react';
-import axios from 'axios';
+import { authApi, ApiError } from '@/services/apiClient';
 
 /**
  * Forgot Password Page Component
@@ -33,22 +33,14 @@ const ForgotPasswordPage = () => {
 
         try {
             // Make API call to forgot password endpoint
-            const response = await axios.post(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/auth/forgot-password`, {
-                email,
-            });
+            await authApi.forgotPassword(email);
             
             // Handle successful response
-            if (response.status === 200) {
-                setSuccess('Password reset link sent to your email.');
-                setEmail(''); // Clear email input on success
-            }
+            setSuccess('Password reset link sent to your email.');
+            setEmail(''); // Clear email input on success
         } catch (error) {
             // Handle API errors with appropriate user feedback
-            if (axios.isAxiosError(error)) {
-                setError(error.response?.data?.message);
-            } else {
-                setError('Something went wrong. Please try again.');
-            }
+            setError(error instanceof ApiError ? error.message : 'Something went wrong. Please try again.');
         } finally {
             // Always reset loading state
             setIsLoading(false);
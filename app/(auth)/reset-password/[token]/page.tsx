@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
-import axios from 'axios';
+import { authApi, ApiError } from '@/services/apiClient';
 import { CircleAlert, Eye, EyeOff, CheckCircle } from 'lucide-react';
 
 /**
@@ -112,13 +112,11 @@ const ResetPasswordPage = () => {
 
         try {
             // Make API call to reset password endpoint with token
-            const response = await axios.post(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/auth/reset-password/${token}`, {
-                password: passwords.password
-            });
+            const response = await authApi.resetPassword(token, passwords.password);
 
             // Handle successful password reset
-            if (response.data.success) {
-                setSuccess(response.data.message || 'Password has been reset successfully! Redirecting to login...');
+            if (response.success) {
+                setSuccess(response.message || 'Password has been reset successfully! Redirecting to login...');
                 setPasswords({ password: '', confirmPassword: '' });
 
                 // Auto-redirect to signin after 3 seconds
@@ -129,10 +127,10 @@ const ResetPasswordPage = () => {
 
         } catch (error) {
             // Handle API errors with appropriate user feedback
-            if (axios.isAxiosError(error) && error.response) {
-                setError(error.response?.data?.message || error.response?.data?.error);
+            if (error instanceof ApiError && error.status !== null) {
+                setError(error.message);
                 // Mark token as invalid for 400/404 errors
-                if (error.response?.status === 400 || error.response?.status === 404) {
+                if (error.status === 400 || error.status === 404) {
                     setTokenValid(false);
                 }
             } else {
@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import axios from 'axios';
+import { authApi, ApiError } from '@/services/apiClient';
 import { CircleAlert, Eye, EyeOff } from 'lucide-react';
 import GoogleLogin from '@/components/auth/GoogleAuthButton';
 
@@ -47,23 +47,14 @@ const SigninPage = () => {
 
         try {
             // Make API call to login endpoint with credentials
-            await axios.post(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/auth/login`, {
-                email: form.email,
-                password: form.password,
-            }, {
-                withCredentials: true, // Include cookies for session management
-            });
+            await authApi.login(form.email, form.password);
 
             // Redirect to dashboard on successful authentication
             router.push('/dashboard');
 
         } catch (error) {
             // Handle authentication errors with user-friendly messages
-            if (axios.isAxiosError(error)) {
-                setError(error.response?.data?.message)
-            } else {
-                setError('Something went wrong. Please try again.');
-            }
+            setError(error instanceof ApiError ? error.message : 'Something went wrong. Please try again.');
         } finally {
             // Always reset loading state
             setLoading(false);
@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { CircleAlert, Check, X, Eye, EyeOff } from 'lucide-react';
-import axios from 'axios';
+import { authApi, ApiError } from '@/services/apiClient';
 import GoogleLogin from '@/components/auth/GoogleAuthButton';
 
 /**
@@ -102,24 +102,14 @@ const SignupPage = () => {
 
         try {
             // Make API call to signup endpoint with user credentials
-            await axios.post(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/auth/signup`, {
-                name: form.name,
-                email: form.email,
-                password: form.password,
-            }, {
-                withCredentials: true, // Include cookies for session management
-            });
+            await authApi.signup(form.name, form.email, form.password);
 
             // Navigate to OTP verification page with email parameter on successful signup
             router.push(`/verify-email?email=${encodeURIComponent(form.email)}`);
 
         } catch (error) {
             // Handle signup errors with user-friendly messages
-            if (axios.isAxiosError(error)) {
-                setError(error.response?.data?.message)
-            } else {
-                setError('Something went wrong. Please try again.');
-            }
+            setError(error instanceof ApiError ? error.message : 'Something went wrong. Please try again.');
         } finally {
             // Always reset loading state
             setLoading(false);
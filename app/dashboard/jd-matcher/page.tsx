@@ -5,7 +5,8 @@ import { Upload, FileCheck } from 'lucide-react';
 import AnalysisProgressOverlay from '@/components/dashboard/jd-matcher/AnalysisProgressOverlay';
 import { useRouter } from 'next/navigation';
 import { useDashboard } from '@/context/DashboardContext';
-import axios from 'axios';
+import { useToast } from '@/context/ToastContext';
+import { resumeApi } from '@/services/apiClient';
 
 /**
  * Interface for resume file data structure
@@ -59,6 +60,7 @@ export default function ResumeScanner() {
     
     // Context and router hooks
     const { setResumeAnalysisData } = useDashboard();
+    const toast = useToast();
     const router = useRouter();
 
     /**
@@ -141,33 +143,23 @@ export default function ResumeScanner() {
 
             setIsScanning(true);
 
-            // Create FormData for file upload
-            const formData = new FormData();
-            formData.append('resume_file', resumeFile.file);
-            formData.append('job_description', jobDetails.description);
-            formData.append('job_title', jobDetails.title);
-
             try {
                 // API call to backend analysis service
-                const response = await axios.post(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/analyse`, formData, {
-                    withCredentials: true,
-                    headers: {
-                        'Content-Type': 'multipart/form-data',
-                    }
-                });
+                const analysis = await resumeApi.analyse(resumeFile.file, jobDetails.title, jobDetails.description);
 
                 // Store analysis results in global context
-                setResumeAnalysisData(response.data);
+                setResumeAnalysisData(analysis);
                 
                 // Navigate to results page
                 router.push('/dashboard/jd-matcher/resume-analysis');
 
             } catch (error) {
                 // Handle API errors with proper error checking
-                if (axios.isAxiosError(error)) {
-                    console.error('Error:', error.response?.data || error.message);
-                    // TODO: Add user-facing error notification/toast
-                }
+                console.error('Error:', error);
+                toast.error(error instanceof Error ? error.message : 'Could not analyse your resume.', {
+                    title: 'Analysis failed',
+                    action: { label: 'Retry', onClick: handleStartScanning },
+                });
             }
             setIsScanning(false);
         }
@@ -8,6 +8,7 @@ import { SectionCard } from '@/components/dashboard/jd-matcher/SectionCard';
 import { ResumeJDUpload } from '@/components/dashboard/ResumeJdUpload';
 import { Copy } from 'lucide-react';
 import { useDashboard } from '@/context/DashboardContext';
+import { useToast } from '@/context/ToastContext';
 
 /**
  * JD Matcher Component
@@ -28,6 +29,7 @@ export default function JdMatcher() {
 
   // Extract necessary data and functions from dashboard context
   const { openDialog, setOpenDialog, resumeAnalysisData } = useDashboard();
+  const toast = useToast();
 
   /**
    * Handles the download functionality for the analysis report
@@ -52,12 +54,13 @@ export default function JdMatcher() {
   const handleCopyToClipboard = () => {
     navigator.clipboard.writeText(resumeAnalysisData?.resume_analysis?.llm_analysis?.overall_analysis?.resume_summary || '')
       .then(() => {
-        console.log('Summary copied to clipboard');
-        // TODO: Add user-facing success notification/toast
+        toast.success('Summary copied to clipboard');
       })
       .catch(err => {
         console.error('Failed to copy summary: ', err);
-        // TODO: Add user-facing error notification
+        toast.error('Your browser blocked clipboard access. Select the text and copy it instead.', {
+          title: 'Could not copy summary',
+        });
       });
   };
 
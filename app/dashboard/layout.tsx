@@ -1,16 +1,19 @@
 import Sidebar from "@/components/dashboard/Sidebar";
+import { ToastProvider } from "@/context/ToastContext";
 
 const DashboardLayout = ({ children }: Readonly<{ children: React.ReactNode; }>) => {
     return (
-        <div className="h-screen flex">
-            {/* Sidebar Navigation */}
-            <Sidebar/>
+        <ToastProvider>
+            <div className="h-screen flex">
+                {/* Sidebar Navigation */}
+                <Sidebar/>
 
-            {/* Main Content Area */}
-            <div className=" h-screen w-full bg-white">
-                    {children}
+                {/* Main Content Area */}
+                <div className=" h-screen w-full bg-white">
+                        {children}
+                </div>
             </div>
-        </div>
+        </ToastProvider>
     )
 }
 
@@ -7,8 +7,9 @@ import StrengthsAndImprovements from '@/components/dashboard/StrengthsAndImprove
 import CurrentResume from '@/components/dashboard/CurrentResume';
 import ScoreCard from '@/components/dashboard/ScoreCard';
 import { useRouter } from 'next/navigation';
-import axios from 'axios';
-import { LatestResumeData } from '@/types/resume';
+import { LatestAnalysis, LatestResumeData } from '@/types/resume';
+import { resumeApi, ApiError, isCancelledError } from '@/services/apiClient';
+import { useAbortSignal } from '@/lib/useAbortSignal';
 
 
 const ResumeDashboard: React.FC = () => {
@@ -18,47 +19,10 @@ const ResumeDashboard: React.FC = () => {
   const [userName, setUserName] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
-
-  interface ApiResumeResponse {
-    _id: string;
-    resume_id: string;
-    updated_at: string;
-    resume_metadata: {
-      resume_name?: string;
-    };
-    ats_score: {
-      ats_score: number;
-    };
-    job_match_score: number;
-    llm_analysis: {
-      overall_analysis: {
-        overall_strengths: {
-          description: string;
-          weightage: number;
-        }[];
-        areas_for_improvement: {
-          description: string;
-          weightage: number;
-        }[];
-        ats_optimization_suggestions:{
-          description: string;
-          weightage: number;
-        }[];
-        job_fit_assessment: {
-          score: number;
-          notes: string;
-        };
-        recommendation_score: number;
-        resume_summary: string;
-      };
-    };
-    techinal_skills: string[];
-    soft_skills: string[];
-    job_title: string;
-  }
+  const getSignal = useAbortSignal();
 
   // Transform API response to component format
-  const transformApiResponse = (data: ApiResumeResponse): LatestResumeData => ({
+  const transformApiResponse = (data: LatestAnalysis): LatestResumeData => ({
     id: data._id,
     resumeId: data.resume_id,
     fileName: data.resume_metadata.resume_name || 'Latest Resume',
@@ -119,45 +83,44 @@ const ResumeDashboard: React.FC = () => {
 
         console.log('Fetching latest resume data from API');
 
-        const response = await axios.get(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/latest-analysis`, {
-          withCredentials: true,
-        });
+        const response = await resumeApi.latestAnalysis(getSignal());
 
         console.log('Successfully fetched resume data');
 
-        if (response.data.success && response.data.resume_analysis) {
+        if (response.success && response.resume_analysis) {
           setHasResume(true);
-          const transformedData = transformApiResponse(response.data.resume_analysis);
+          const transformedData = transformApiResponse(response.resume_analysis);
           setResumeData(transformedData);
 
           // Skills context is managed by SkillExtraction component
-          setUserName(response.data.user_name || 'User');
+          setUserName(response.user_name || 'User');
         } else {
           setHasResume(false);
           setResumeData(null);
           // Skills context is managed by SkillExtraction component
         }
       } catch (err) {
+        // Left the page before the request finished
+        if (isCancelledError(err)) return;
         console.error('Error fetching resume data:', err);
 
-        if (axios.isAxiosError(err)) {
-          if (err.response?.status === 404) {
+        if (err instanceof ApiError) {
+          if (err.kind === 'not_found') {
             // No resume found
             setHasResume(false);
             setResumeData(null);
           } else {
-            setError(`API Error: ${err.response?.data?.message || err.message}`);
+            setError(`API Error: ${err.message}`);
           }
         } else {
           setError('An unexpected error occurred while fetching resume data');
         }
-      } finally {
-        setIsLoading(false);
       }
+      setIsLoading(false);
     };
 
     fetchResumeData();
-  }, []); // Empty dependency array to run only once
+  }, [getSignal]); // getSignal is stable, so this still runs only once
 
   if (isLoading) {
     return (
@@ -2,26 +2,13 @@
 
 import React, { useState, useEffect } from 'react';
 import { User, Edit3, LogOut, ExternalLink, Github, Linkedin, Globe, FileText, Trophy, Calendar, Activity, MapPin, Phone, Briefcase, Mail, Save, X, AlertCircle } from 'lucide-react';
-import axios from 'axios';
 import { useRouter } from 'next/navigation';
-
-/**
- * Interface representing the user profile data structure
- */
-interface UserProfile {
-  _id: string;
-  email: string;
-  name: string;
-  isVerified: boolean;
-  current_profession: string | null;
-  mobile_number: string | null;
-  location: string;
-  github: string | null;
-  linkedin: string | null;
-  portfolio: string | null;
-  createdAt: string;
-  updatedAt: string;
-}
+import { UserProfile } from '@/types/resume';
+import { userApi, authApi, isCancelledError } from '@/services/apiClient';
+import { useAbortSignal } from '@/lib/useAbortSignal';
+import { deleteUserDrafts } from '@/lib/draftStore';
+import { clearAssessmentHistory } from '@/lib/assessmentHistory';
+import { useAuthContext } from '@/context/AuthenticationContext';
 
 /**
  * Interface representing the dashboard statistics data
@@ -59,6 +46,7 @@ const ProfilePage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false); // Loading state for save operations
   const [isFetching, setIsFetching] = useState(true); // Loading state for initial data fetch
   const [error, setError] = useState<string | null>(null); // Error message state
+  const { user } = useAuthContext(); // Signed-in user, whose local data is cleared on logout
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null); // Current user profile data
   const [editedProfile, setEditedProfile] = useState<UserProfile | null>(null); // Edited profile data (draft)
   const [showLogoutDialog, setShowLogoutDialog] = useState(false); // Controls logout confirmation dialog
@@ -70,39 +58,37 @@ const ProfilePage: React.FC = () => {
   }); // Dashboard statistics
 
   const router = useRouter();
+  const getSignal = useAbortSignal();
 
-  // Fetch user data on component mount
+  // Fetch user data on component mount, cancelled if the page is left first
   useEffect(() => {
-    fetchUserData();
-  }, []);
+    fetchUserData(getSignal());
+  }, [getSignal]);
 
   /**
    * Fetches user profile data and dashboard statistics from the API
    * Updates both userProfile and dashboardStats state
    * Handles loading states and error management
+   * 
+   * @param {AbortSignal} signal - Cancels the request when the page unmounts
    */
-  const fetchUserData = async () => {
+  const fetchUserData = async (signal?: AbortSignal) => {
     try {
       setIsFetching(true);
       setError(null);
 
       // API call to fetch user data with credentials
-      const response = await axios.get(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/user/`, {
-        withCredentials: true,
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
+      const response = await userApi.get(signal);
 
-      if (response.data.success) {
-        const userData = response.data.user;
+      if (response.success) {
+        const userData = response.user;
         setUserProfile(userData);
         setEditedProfile(userData); // Initialize edited profile with current data
 
         // Format and set dashboard statistics
         setDashboardStats({
-          totalResumes: response.data.total_resumes,
-          bestScore: response.data.best_score,
+          totalResumes: response.total_resumes,
+          bestScore: response.best_score,
           accountCreated: new Date(userData.createdAt).toLocaleDateString('en-US', {
             month: 'long',
             year: 'numeric'
@@ -114,11 +100,11 @@ const ProfilePage: React.FC = () => {
         });
       }
     } catch (error) {
+      if (isCancelledError(error)) return;
       console.error('Error fetching user data:', error);
       setError('Failed to load profile data. Please try again.');
-    } finally {
-      setIsFetching(false);
     }
+    setIsFetching(false);
   };
 
   /**
@@ -134,16 +120,9 @@ const ProfilePage: React.FC = () => {
 
     try {
       // API call to update user profile with form-encoded data
-      const response = await axios.patch(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/user/`, {
-        "user_details": JSON.stringify(editedProfile)
-      }, {
-        withCredentials: true,
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded'
-        }
-      });
+      const response = await userApi.update(editedProfile);
 
-      if (response.data.success) {
+      if (response.success) {
         setUserProfile(editedProfile); // Update the main profile state
         setIsEditing(false); // Exit edit mode
       } else {
@@ -183,19 +162,20 @@ const ProfilePage: React.FC = () => {
   /**
    * Handles user logout functionality
    * Makes API call to logout endpoint and clears session
+   * The user's offline resume drafts and assessment history are removed so the next person on this browser can't see them
    */
   const handleLogout = async () => {
     try {
-      await axios.get(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/auth/logout`, {
-        withCredentials: true,
-      });
+      await authApi.logout();
+      if (user?.userId) {
+        clearAssessmentHistory(user.userId);
+        await deleteUserDrafts(user.userId).catch(error => console.error("Error clearing resume drafts:", error));
+      }
       setShowLogoutDialog(false);
       // Redirect to login page after successful logout
       router.push('/');
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        setError(error.response?.data?.message || 'Failed to log out. Please try again.');
-      }
+      setError(error instanceof Error ? error.message : 'Failed to log out. Please try again.');
       setShowLogoutDialog(false);
     }
   };
@@ -227,7 +207,7 @@ const ProfilePage: React.FC = () => {
           <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
           <p className="text-gray-600 mb-4 text-sm sm:text-base">Failed to load profile</p>
           <button
-            onClick={fetchUserData}
+            onClick={() => fetchUserData()}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm sm:text-base"
           >
             Try Again
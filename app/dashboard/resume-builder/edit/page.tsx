@@ -1,7 +1,7 @@
 "use client";
 
-import React, { useState, useCallback } from 'react';
-import { User, GraduationCap, Code, Briefcase, Award, Users, X, Edit2, Check } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { User, GraduationCap, Code, Briefcase, Award, Users, X, Edit2, Check, Trophy, Languages, BookOpen, AlertTriangle, History, ListOrdered } from 'lucide-react';
 import PersonalInfoForm from '@/components/dashboard/resume-builder/PersonalInfoForm';
 import EducationForm from '@/components/dashboard/resume-builder/EducationForm';
 import ProjectsForm from '@/components/dashboard/resume-builder/ProjectsForm';
@@ -9,11 +9,37 @@ import ExperienceForm from '@/components/dashboard/resume-builder/ExperienceForm
 import TechnicalSkillsForm from '@/components/dashboard/resume-builder/TechnicalSkillsForm';
 import ExtracurricularForm from '@/components/dashboard/resume-builder/ExtracurricularForm';
 import CertificationsForm from '@/components/dashboard/resume-builder/CertificationsForm';
+import AchievementsForm from '@/components/dashboard/resume-builder/AchievementsForm';
+import LanguagesForm from '@/components/dashboard/resume-builder/LanguagesForm';
+import PublicationsForm from '@/components/dashboard/resume-builder/PublicationsForm';
 import ResumeTemplate from '@/components/dashboard/resume-builder/ResumeTemplate';
 import BuilderHeader from '@/components/dashboard/resume-builder/BuilderHeader';
-import { PersonalInfo, Education, Project, WorkExperience, Extracurricular, Certification, Skill } from '@/types/resume';
+import ValidationSummary from '@/components/dashboard/resume-builder/ValidationSummary';
+import SectionOrderForm, { SectionLayout } from '@/components/dashboard/resume-builder/SectionOrderForm';
+import { PersonalInfo, Education, Project, WorkExperience, Extracurricular, Certification, Skill, Achievement, Language, Publication, ResumeTemplateId, ResumeData } from '@/types/resume';
+import { getResumeTemplate } from '@/components/dashboard/resume-builder/templates';
 import { useDashboard } from '@/context/DashboardContext';
-import axios from 'axios';
+import { useToast } from '@/context/ToastContext';
+import { useAuthContext } from '@/context/AuthenticationContext';
+import { useAutosave, SaveConflictError } from '@/lib/useAutosave';
+import { formatDate } from '@/lib/utils';
+import { ValidationSectionKey } from '@/lib/resumeValidation';
+import { ResumeDraft, saveDraft, loadDraft, loadLatestDraft, deleteDraft, getDraftKey } from '@/lib/draftStore';
+import { resumeApi, ApiError } from '@/services/apiClient';
+
+/**
+ * Fetches the stored copy of a resume to compare its updated_at with ours
+ * @param {string} id - The resume id
+ * @returns {Promise<ResumeData | null>} The stored resume, or null when it no longer exists
+ */
+const fetchServerCopy = async (id: string): Promise<ResumeData | null> => {
+  try {
+    return await resumeApi.get(id);
+  } catch (error) {
+    if (error instanceof ApiError && error.kind === 'not_found') return null;
+    throw error;
+  }
+};
 
 /**
  * ResumeBuilder Component
@@ -24,15 +50,23 @@ import axios from 'axios';
  * Features:
  * - Multi-section form navigation (Personal Info, Education, Projects, Experience, Skills, etc.)
  * - Live preview of resume changes
- * - Auto-save functionality
+ * - Drag-and-drop reordering of entries and a per-resume section order
+ * - Debounced auto-save with unsaved-changes guard and conflict detection
+ * - Field validation shown inline and in a summary; hard errors block save and export
+ * - Offline drafts in IndexedDB, offered for restore after a refresh
  * - ATS score calculation and refresh
  * - Resume name editing with inline editing capabilities
+ * - Undo/redo of resume edits (Ctrl+Z / Ctrl+Shift+Z)
  * - Responsive design with grid layout
  * 
  * @returns {JSX.Element} The complete resume builder interface
  */
 const ResumeBuilder: React.FC = () => {
-  const { resumeData, setResumeData } = useDashboard();
+  const { resumeData, setResumeData, resumeHistory, resumeValidation } = useDashboard();
+  const toast = useToast();
+  const { user } = useAuthContext();
+  const userId = user?.userId;
+  const { undo, redo, clearHistory, reset: resetResumeData, rewrite: rewriteResumeData } = resumeHistory;
   
   // State for managing the currently active form section
   const [activeSection, setActiveSection] = useState<string>('personal');
@@ -45,6 +79,67 @@ const ResumeBuilder: React.FC = () => {
   const [isEditingName, setIsEditingName] = useState(false);
   const [editNameValue, setEditNameValue] = useState('');
 
+  // Server copy that changed since load, set when a save detects the conflict
+  const [conflictCopy, setConflictCopy] = useState<(ResumeData & { updated_at: string }) | null>(null);
+
+  // updated_at of the server copy our edits are based on, and the resume it belongs to
+  const serverUpdatedAtRef = useRef<string | undefined>(resumeData.updated_at);
+  const baselineIdRef = useRef<string>(resumeData._id);
+
+  // Offline draft found on mount, offered to the user before anything is overwritten
+  const initialResumeRef = useRef<ResumeData>(resumeData);
+  const [pendingDraft, setPendingDraft] = useState<ResumeDraft | null>(null);
+  const [isDraftChecked, setIsDraftChecked] = useState(false);
+
+  // Start every editing session with a clean history so loading a resume can't be undone
+  useEffect(() => {
+    clearHistory();
+  }, [clearHistory]);
+
+  /**
+   * Looks for the signed-in user's unsaved draft of this resume in IndexedDB
+   * After a refresh the context is empty, so their most recent draft of any resume is offered instead
+   */
+  useEffect(() => {
+    if (!userId) return;
+    const initial = initialResumeRef.current;
+    const lookup = initial._id ? loadDraft(userId, initial._id) : loadLatestDraft(userId);
+
+    lookup
+      .then(draft => {
+        if (draft && JSON.stringify(draft.data) !== JSON.stringify(initial)) {
+          setPendingDraft(draft);
+        }
+      })
+      .catch(error => console.error("Error loading resume draft:", error))
+      .finally(() => setIsDraftChecked(true));
+  }, [userId]);
+
+  /**
+   * Binds undo/redo keyboard shortcuts for the whole builder
+   * Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl+Y redo
+   * Editable fields keep the browser's own text undo
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
   /**
    * Updates the personal information section of the resume
    * @param {PersonalInfo} data - The personal information data to update
@@ -101,44 +196,196 @@ const ResumeBuilder: React.FC = () => {
     setResumeData(prev => ({ ...prev, certifications: data }));
   }, [setResumeData]);
 
+  /**
+   * Updates the achievements section of the resume
+   * @param {Achievement[]} data - Array of achievement entries to update
+   */
+  const updateAchievements = useCallback((data: Achievement[]) => {
+    setResumeData(prev => ({ ...prev, achievements: data }));
+  }, [setResumeData]);
+
+  /**
+   * Updates the languages section of the resume
+   * @param {Language[]} data - Array of language entries to update
+   */
+  const updateLanguages = useCallback((data: Language[]) => {
+    setResumeData(prev => ({ ...prev, languages: data }));
+  }, [setResumeData]);
+
+  /**
+   * Updates the publications section of the resume
+   * @param {Publication[]} data - Array of publication entries to update
+   */
+  const updatePublications = useCallback((data: Publication[]) => {
+    setResumeData(prev => ({ ...prev, publications: data }));
+  }, [setResumeData]);
+
+  /**
+   * Updates the custom section order and hidden sections of the resume
+   * @param {SectionLayout} layout - Section order and hidden sections, undefined to use the template's defaults
+   */
+  const updateSectionLayout = useCallback((layout: SectionLayout) => {
+    setResumeData(prev => ({ ...prev, ...layout }));
+  }, [setResumeData]);
+
+  /**
+   * Switches the layout used for preview and export
+   * The template id is stored on the resume so it reopens with the same look
+   * @param {ResumeTemplateId} templateId - Id of the template picked in the header
+   */
+  const updateTemplate = useCallback((templateId: ResumeTemplateId) => {
+    setResumeData(prev => ({ ...prev, template_id: templateId }));
+  }, [setResumeData]);
+
   /**
    * Refreshes the ATS (Applicant Tracking System) score for the current resume
    * Makes an API call to recalculate the ATS score based on current resume data
    */
   const handleRefresh = async () => {
     try {
-      const res = await axios.post(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/ats-score`, {
-        resume_json: JSON.stringify(resumeData)
-      }, {
-        withCredentials: true,
-        headers: {
-          "Content-Type": "multipart/form-data",
-        },
-      });
-      setResumeData(prev => ({ ...prev, ats_score: res.data.ats_score.ats_score }));
+      const res = await resumeApi.atsScore(resumeData);
+      setResumeData(prev => ({ ...prev, ats_score: res.ats_score.ats_score }));
     } catch (error) {
       console.error("Error refreshing ATS score:", error);
+      toast.error(error instanceof Error ? error.message : "Could not refresh the ATS score.", {
+        title: "ATS score not updated",
+        action: { label: "Retry", onClick: handleRefresh },
+      });
     }
   }
 
+  /**
+   * Keeps the conflict baseline on the resume being edited
+   * A resume loaded or restored without a known updated_at takes the stored copy's as its baseline
+   */
+  useEffect(() => {
+    const id = resumeData._id;
+    if (!id) return;
+    if (baselineIdRef.current !== id) {
+      baselineIdRef.current = id;
+      serverUpdatedAtRef.current = resumeData.updated_at;
+    }
+    if (serverUpdatedAtRef.current) return;
+
+    let cancelled = false;
+    fetchServerCopy(id)
+      .then(copy => {
+        if (!cancelled && baselineIdRef.current === id && !serverUpdatedAtRef.current) {
+          serverUpdatedAtRef.current = copy?.updated_at;
+        }
+      })
+      .catch(error => console.error("Error loading resume baseline:", error));
+    return () => { cancelled = true; };
+  }, [resumeData._id, resumeData.updated_at]);
+
   /**
    * Performs the actual save operation to the backend
-   * @param {Object} dataToSave - The resume data to save (defaults to current resumeData)
+   * Unless forced, first checks that nobody saved this resume elsewhere since it was loaded
+   * @param {ResumeData} dataToSave - The resume data to save
+   * @param {boolean} force - Skip the conflict check and overwrite the server copy
+   * @returns {Promise<ResumeData>} The saved resume, carrying the server-assigned _id when it was just created
+   * @throws {SaveConflictError} When the server copy moved since load
    */
-  const performSave = async (dataToSave = resumeData) => {
+  const performSave = async (dataToSave: ResumeData, force = false): Promise<ResumeData> => {
+    // A save queued while a new resume's first save was in flight still lacks the id it was given
+    const toSave = dataToSave._id || !baselineIdRef.current ? dataToSave : { ...dataToSave, _id: baselineIdRef.current };
     try {
-      await axios.patch(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume`, {
-        "resume_update_data": JSON.stringify(dataToSave)
-      }, {
-        withCredentials: true,
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-      });
+      if (toSave._id && !force) {
+        const serverCopy = await fetchServerCopy(toSave._id);
+        if (serverCopy?.updated_at && serverUpdatedAtRef.current && serverCopy.updated_at !== serverUpdatedAtRef.current) {
+          setConflictCopy({ ...serverCopy, updated_at: serverCopy.updated_at });
+          throw new SaveConflictError();
+        }
+      }
+
+      // updated_at is our load baseline, not something the server should store
+      const response = await resumeApi.update({ ...toSave, updated_at: undefined });
+
+      // The server now holds these edits, so the offline draft is no longer needed
+      if (userId) {
+        deleteDraft(getDraftKey(userId, dataToSave)).catch(error => console.error("Error clearing resume draft:", error));
+      }
+
+      // Our own save moves updated_at, so the value it returns is the new baseline
+      const savedId = response._id || toSave._id;
+      baselineIdRef.current = savedId;
+      serverUpdatedAtRef.current = response.updated_at;
+
+      if (savedId === dataToSave._id) return dataToSave;
+
+      // Stamp the new id on every snapshot so later saves, undo included, update this resume instead of creating another
+      const saved = { ...dataToSave, _id: savedId };
+      rewriteResumeData(snapshot => (snapshot === dataToSave ? saved : snapshot._id ? snapshot : { ...snapshot, _id: savedId }));
+      return saved;
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        console.error("Error saving resume:", error.response?.data || error.message);
+      if (!(error instanceof SaveConflictError)) {
+        console.error("Error saving resume:", error);
       }
+      throw error;
+    }
+  }
+
+  // Debounced autosave; waits for a resume name since the backend requires one
+  // and pauses while hard validation errors remain (the offline draft still keeps the edits)
+  const autosave = useAutosave(resumeData, performSave, {
+    delay: 2000,
+    enabled: resumeData.resume_name.trim() !== '' && !resumeValidation.hasErrors,
+  });
+
+  /**
+   * Mirrors unsaved edits into IndexedDB so a refresh can restore them
+   * Paused until the restore prompt is answered so an offered draft is never overwritten
+   */
+  useEffect(() => {
+    if (!userId || !autosave.isDirty || !isDraftChecked || pendingDraft) return;
+
+    const timer = setTimeout(() => {
+      saveDraft(userId, resumeData, serverUpdatedAtRef.current).catch(error => console.error("Error saving resume draft:", error));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [userId, resumeData, autosave.isDirty, isDraftChecked, pendingDraft]);
+
+  /**
+   * Replaces the current resume with the offline draft offered on load
+   */
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return;
+    baselineIdRef.current = pendingDraft.data._id;
+    serverUpdatedAtRef.current = pendingDraft.base_updated_at ?? pendingDraft.data.updated_at;
+    // A restore replaces the resume outright, so it is not an undoable step
+    resetResumeData(pendingDraft.data);
+    setPendingDraft(null);
+  }
+
+  /**
+   * Deletes the offered offline draft and keeps the current resume
+   */
+  const handleDiscardDraft = () => {
+    if (!pendingDraft) return;
+    deleteDraft(pendingDraft.key).catch(error => console.error("Error discarding resume draft:", error));
+    setPendingDraft(null);
+  }
+
+  /**
+   * Saves immediately, bypassing the autosave debounce
+   * Failures are already reflected in the header status, so they are only logged here
+   * Blocked while hard validation errors remain, with a toast that leads to the first one
+   * @param {ResumeData} dataToSave - Optional data to save instead of the current state
+   */
+  const saveImmediately = async (dataToSave?: ResumeData) => {
+    const firstError = resumeValidation.issues.find(issue => issue.severity === 'error');
+    if (firstError) {
+      const { errorCount } = resumeValidation;
+      toast.error(`${firstError.label}: ${firstError.message}`, {
+        title: `Fix ${errorCount} ${errorCount === 1 ? 'error' : 'errors'} before saving`,
+        action: { label: 'Show', onClick: () => setActiveSection(validationSections[firstError.section]) },
+      });
+      return;
+    }
+    try {
+      await autosave.saveNow(dataToSave);
+    } catch (error) {
+      console.error("Error saving resume:", error);
     }
   }
 
@@ -152,7 +399,35 @@ const ResumeBuilder: React.FC = () => {
       setShowNameDialog(true);
       return;
     }
-    await performSave();
+    await saveImmediately();
+  }
+
+  /**
+   * Resolves a save conflict by overwriting the server copy with the local edits
+   */
+  const handleKeepLocalCopy = async () => {
+    setConflictCopy(null);
+    try {
+      autosave.markSaved(await performSave(resumeData, true));
+    } catch (error) {
+      console.error("Error overwriting resume:", error);
+      toast.error(error instanceof Error ? error.message : "Could not save your copy.", {
+        title: "Overwrite failed",
+        action: { label: "Retry", onClick: handleKeepLocalCopy },
+      });
+    }
+  }
+
+  /**
+   * Resolves a save conflict by discarding local edits and loading the server copy
+   */
+  const handleKeepServerCopy = () => {
+    if (!conflictCopy) return;
+    baselineIdRef.current = conflictCopy._id;
+    serverUpdatedAtRef.current = conflictCopy.updated_at;
+    setConflictCopy(null);
+    resetResumeData(conflictCopy);
+    autosave.markSaved(conflictCopy);
   }
 
   /**
@@ -173,7 +448,7 @@ const ResumeBuilder: React.FC = () => {
     setTempResumeName('');
     
     // Perform the actual save with updated data
-    await performSave(updatedResumeData);
+    await saveImmediately(updatedResumeData);
   }
 
   /**
@@ -213,7 +488,7 @@ const ResumeBuilder: React.FC = () => {
     setEditNameValue('');
     
     // Auto-save the resume with updated name
-    await performSave(updatedResumeData);
+    await saveImmediately(updatedResumeData);
   }
 
   /**
@@ -234,8 +509,26 @@ const ResumeBuilder: React.FC = () => {
     { id: 'skills', label: 'Technical Skill', icon: <Code className="w-4 h-4" /> },
     { id: 'extracurricular', label: 'Extracurricular', icon: <Users className="w-4 h-4" /> },
     { id: 'certifications', label: 'Certifications', icon: <Award className="w-4 h-4" /> },
+    { id: 'achievements', label: 'Achievements', icon: <Trophy className="w-4 h-4" /> },
+    { id: 'languages', label: 'Languages', icon: <Languages className="w-4 h-4" /> },
+    { id: 'publications', label: 'Publications', icon: <BookOpen className="w-4 h-4" /> },
+    { id: 'layout', label: 'Section Order', icon: <ListOrdered className="w-4 h-4" /> },
   ];
 
+  // Form section that fixes each validation issue
+  const validationSections: Record<ValidationSectionKey, string> = {
+    personal_info: 'personal',
+    educations: 'education',
+    projects: 'projects',
+    work_experiences: 'experience',
+    skills: 'skills',
+    extracurriculars: 'extracurricular',
+    certifications: 'certifications',
+    achievements: 'achievements',
+    languages: 'languages',
+    publications: 'publications',
+  };
+
   /**
    * Renders the appropriate form component based on the active section
    * @returns {JSX.Element | null} The form component for the active section
@@ -257,6 +550,14 @@ const ResumeBuilder: React.FC = () => {
         return <ExtracurricularForm data={resumeData.extracurriculars} onChange={updateExtracurricular} />;
       case 'certifications':
         return <CertificationsForm data={resumeData.certifications} onChange={updateCertifications} />;
+      case 'achievements':
+        return <AchievementsForm data={resumeData.achievements} onChange={updateAchievements} />;
+      case 'languages':
+        return <LanguagesForm data={resumeData.languages} onChange={updateLanguages} />;
+      case 'publications':
+        return <PublicationsForm data={resumeData.publications} onChange={updatePublications} />;
+      case 'layout':
+        return <SectionOrderForm data={resumeData} onChange={updateSectionLayout} />;
       default:
         return <PersonalInfoForm data={resumeData.personal_info} onChange={updatePersonalInfo} />;
     }
@@ -268,6 +569,13 @@ const ResumeBuilder: React.FC = () => {
       <div className="sticky top-0 bg-white shadow-sm border-b border-gray-100">
         <BuilderHeader
           score={resumeData?.ats_score}
+          templateId={getResumeTemplate(resumeData).id}
+          onTemplateChange={updateTemplate}
+          onUndo={undo}
+          onRedo={redo}
+          canUndo={resumeHistory.canUndo}
+          canRedo={resumeHistory.canRedo}
+          saveStatus={autosave.status}
           onSave={handleSave}
           onRefresh={handleRefresh}
         />
@@ -297,6 +605,9 @@ const ResumeBuilder: React.FC = () => {
               </div>
             </div>
 
+            {/* Validation Summary - Every issue in the resume, linked to its form section */}
+            <ValidationSummary onSelectSection={(section) => setActiveSection(validationSections[section])} />
+
             {/* Active Form Section - Renders the form for the currently selected section */}
             <div className="bg-white rounded-lg shadow-sm p-6">
               {renderActiveSection()}
@@ -372,6 +683,67 @@ const ResumeBuilder: React.FC = () => {
         </div>
       </div>
 
+      {/* Restore Draft Dialog - Unsaved edits found from a previous session */}
+      {pendingDraft && (
+        <div className="fixed inset-0 backdrop-blur-xs bg-black/30 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4 border-gray-200 ">
+            <div className="flex items-center gap-2 mb-4">
+              <History className="w-5 h-5 text-blue-600" />
+              <h3 className="text-lg font-semibold">Restore unsaved draft?</h3>
+            </div>
+            <p className="text-sm text-gray-600">
+              We found unsaved edits to {pendingDraft.data.resume_name ? <>&quot;{pendingDraft.data.resume_name}&quot;</> : 'a new resume'} from {formatDate(pendingDraft.saved_at)} at {new Date(pendingDraft.saved_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}.
+            </p>
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                onClick={handleDiscardDraft}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                Discard
+              </button>
+              <button
+                onClick={handleRestoreDraft}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                Restore draft
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Save Conflict Dialog - Server copy changed since this resume was loaded */}
+      {conflictCopy && (
+        <div className="fixed inset-0 backdrop-blur-xs bg-black/30 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4 border-gray-200 ">
+            <div className="flex items-center gap-2 mb-4">
+              <AlertTriangle className="w-5 h-5 text-amber-500" />
+              <h3 className="text-lg font-semibold">This resume changed elsewhere</h3>
+            </div>
+            <p className="text-sm text-gray-600 mb-2">
+              &quot;{conflictCopy.resume_name}&quot; was saved from another tab or device on {formatDate(conflictCopy.updated_at)}, after you opened it here.
+            </p>
+            <p className="text-sm text-gray-600">
+              Keep your edits to overwrite that version, or load the saved copy and discard your unsaved edits.
+            </p>
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                onClick={handleKeepServerCopy}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                Load saved copy
+              </button>
+              <button
+                onClick={handleKeepLocalCopy}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                Keep my edits
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Resume Name Dialog - Modal for entering resume name when saving */}
       {showNameDialog && (
         <div className="fixed inset-0 backdrop-blur-xs bg-black/30 flex items-center justify-center z-50">
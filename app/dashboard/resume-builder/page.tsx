@@ -1,22 +1,27 @@
 "use client";
 
 import { useState } from "react";
-import { Upload, Plus } from "lucide-react";
+import { Upload, Plus, FileJson } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useDashboard } from "@/context/DashboardContext";
+import { useToast } from "@/context/ToastContext";
 import Loader from "@/components/dashboard/Loader";
-import axios from "axios";
+import { resumeApi } from "@/services/apiClient";
+import UnmappedFieldsDialog from "@/components/dashboard/resume-builder/UnmappedFieldsDialog";
+import { jsonResumeToResumeData, parseJsonResume } from "@/lib/jsonResume";
 
 /**
  * ResumeStarter Component
  * 
- * A landing page component that provides users with two options to begin creating their resume:
+ * A landing page component that provides users with three options to begin creating their resume:
  * 1. Import an existing resume file (PDF, DOC, DOCX) for AI-powered optimization
- * 2. Create a new resume from scratch using guided setup
+ * 2. Import a JSON Resume (.json) file, mapped into the builder's format
+ * 3. Create a new resume from scratch using guided setup
  * 
  * Features:
  * - File upload functionality with support for multiple formats
  * - AI-powered resume extraction and parsing
+ * - JSON Resume import with a report of fields that have no counterpart
  * - Navigation to resume builder with pre-populated or empty data
  * - Loading states during file processing
  * - Responsive design with hover effects
@@ -26,12 +31,47 @@ import axios from "axios";
 export default function ResumeStarter() {
 
   const { setResumeData } = useDashboard();
+  const toast = useToast();
 
   const router = useRouter();
   
   // State to manage loading state during file upload and processing
   const [isLoading, setIsLoading] = useState(false);
 
+  // JSON Resume import feedback: a parse error, or fields that could not be mapped
+  const [jsonImportError, setJsonImportError] = useState<string | null>(null);
+  const [unmappedFields, setUnmappedFields] = useState<string[]>([]);
+
+  /**
+   * Sends a resume file for AI extraction and opens the builder with the result
+   * On failure, offers to retry the same file from the error toast
+   */
+  const importResumeFile = async (file: File) => {
+    setIsLoading(true); // Show loading state
+
+    try {
+      // Send file to backend for AI processing and extraction
+      const res = await resumeApi.upload(file);
+
+      // Extract the parsed resume data from response
+      const resumeExtracts = res.resume_details;
+
+      // Set the extracted data in global state
+      setResumeData(resumeExtracts);
+      
+      // Navigate to resume builder with populated data
+      router.push("/dashboard/resume-builder/edit");
+    } catch (error) {
+      console.error("Error importing resume:", error);
+      toast.error(error instanceof Error ? error.message : "Could not import the resume.", {
+        title: `Import of ${file.name} failed`,
+        action: { label: "Retry", onClick: () => importResumeFile(file) },
+      });
+    } finally {
+      setIsLoading(false); // Hide loading state
+    }
+  };
+
   /**
    * Handles the import existing resume functionality
    * Creates a file input element, processes the uploaded file through AI extraction,
@@ -47,42 +87,55 @@ export default function ResumeStarter() {
     input.onchange = async (event: Event) => {
       const file = (event.target as HTMLInputElement).files?.[0];
       if (!file) return;
+      await importResumeFile(file);
+    };
 
-      setIsLoading(true); // Show loading state
+    // Trigger file selection dialog
+    input.click();
+  };
 
-      try {
-        // Prepare form data for file upload
-        const formData = new FormData();
-        formData.append("resume_file", file);
-
-        // Send file to backend for AI processing and extraction
-        const res = await axios.post(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/`, formData, {
-          withCredentials: true,
-          headers: {
-            "Content-Type": "multipart/form-data",
-          },
-        });
+  /**
+   * Handles the JSON Resume import functionality
+   * Reads the selected .json file in the browser, maps it to the builder's format
+   * and reports any fields that have no counterpart before opening the builder
+   */
+  const handleJsonImportClick = () => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".json,application/json";
 
-        // Extract the parsed resume data from response
-        const resumeExtracts = res.data.resume_details;
+    input.onchange = async (event: Event) => {
+      const file = (event.target as HTMLInputElement).files?.[0];
+      if (!file) return;
 
-        // Set the extracted data in global state
-        setResumeData(resumeExtracts);
-        
-        // Navigate to resume builder with populated data
-        router.push("/dashboard/resume-builder/edit");
+      setJsonImportError(null);
+      try {
+        const { result, unmapped } = jsonResumeToResumeData(parseJsonResume(await file.text()));
+        setResumeData(result);
+
+        if (unmapped.length > 0) {
+          // Navigation continues once the user has seen what was left out
+          setUnmappedFields(unmapped);
+        } else {
+          router.push("/dashboard/resume-builder/edit");
+        }
       } catch (error) {
-        console.error("Error importing resume:", error);
-        // TODO: Add user-friendly error handling/notification
-      } finally {
-        setIsLoading(false); // Hide loading state
+        console.error("Error importing JSON Resume:", error);
+        setJsonImportError(error instanceof Error ? error.message : "Could not read the selected file.");
       }
     };
 
-    // Trigger file selection dialog
     input.click();
   };
 
+  /**
+   * Opens the builder after the unmapped fields report is dismissed
+   */
+  const handleUnmappedDialogClose = () => {
+    setUnmappedFields([]);
+    router.push("/dashboard/resume-builder/edit");
+  };
+
   /**
    * Handles the create new resume functionality
    * Initializes empty resume data structure and navigates to the resume builder
@@ -148,8 +201,8 @@ export default function ResumeStarter() {
           </p>
         </div>
 
-        {/* Options Grid - Two main action cards */}
-        <div className="w-full max-w-2xl grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6 px-4 sm:px-0">
+        {/* Options Grid - Three main action cards */}
+        <div className="w-full max-w-4xl grid grid-cols-1 sm:grid-cols-3 gap-4 sm:gap-6 px-4 sm:px-0">
           {/* Import Existing Resume Option */}
           <div className="bg-white rounded-xl p-6 sm:p-8 shadow-sm border border-gray-200 hover:shadow-md transition-shadow cursor-pointer group"
             onClick={handleImportClick}>
@@ -167,6 +220,23 @@ export default function ResumeStarter() {
             </div>
           </div>
 
+          {/* Import JSON Resume Option */}
+          <div className="bg-white rounded-xl p-6 sm:p-8 shadow-sm border border-gray-200 hover:shadow-md transition-shadow cursor-pointer group"
+            onClick={handleJsonImportClick}>
+            <div className="flex flex-col items-center text-center">
+              {/* Icon container with hover effect */}
+              <div className="w-12 h-12 sm:w-13 sm:h-13 bg-green-100 rounded-2xl flex items-center justify-center mb-4 sm:mb-6 group-hover:bg-green-200 transition-colors">
+                <FileJson className="w-5 h-5 sm:w-6 sm:h-6 text-green-600" />
+              </div>
+              <h3 className="text-lg sm:text-xl font-semibold text-gray-900 mb-2 sm:mb-3">
+                Import JSON Resume
+              </h3>
+              <p className="text-gray-600 text-sm leading-relaxed">
+                Bring in a resume kept in the open JSON Resume format.
+              </p>
+            </div>
+          </div>
+
           {/* Create New Resume Option */}
           <div className="bg-white rounded-xl p-6 sm:p-8 shadow-sm border border-gray-200 hover:shadow-md transition-shadow cursor-pointer group"
             onClick={handleCreateClick}>
@@ -185,6 +255,13 @@ export default function ResumeStarter() {
           </div>
         </div>
 
+        {/* JSON Resume import error */}
+        {jsonImportError && (
+          <p className="mt-4 text-sm text-red-600 text-center px-4 sm:px-0" role="alert">
+            {jsonImportError}
+          </p>
+        )}
+
         {/* Footer Section - Additional guidance text */}
         <div className="text-center mt-8 sm:mt-12 px-4 sm:px-0">
           <p className="text-xs sm:text-sm text-gray-500">
@@ -192,6 +269,16 @@ export default function ResumeStarter() {
           </p>
         </div>
       </div>
+
+      {/* Fields from the JSON Resume that the builder has no place for */}
+      <UnmappedFieldsDialog
+        isOpen={unmappedFields.length > 0}
+        title="Some fields were not imported"
+        message="These JSON Resume fields have no counterpart in the resume builder and were left out:"
+        fields={unmappedFields}
+        confirmButtonText="Continue to builder"
+        onClose={handleUnmappedDialogClose}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,71 +1,20 @@
 "use client";
 
 import React, { useState, useEffect } from 'react';
-import axios from 'axios';
 import { useRouter } from 'next/navigation';
-import { Search, FileText, Layers2 } from 'lucide-react';
+import { Search, FileText, Layers2, Download, Trash2, X } from 'lucide-react';
 import { useDashboard } from '@/context/DashboardContext';
-import { ResumeData, JobMatch, Resume, ResumeAnalysis } from '@/types/resume';
+import { useToast } from '@/context/ToastContext';
+import { JobMatch, Resume, ResumeAnalysis } from '@/types/resume';
 import JobMatchCard from '@/components/dashboard/resume-manager/JobMatchCard';
 import ResumeCard from '@/components/dashboard/resume-manager/ResumeCard';
 import DeleteConfirmationDialog from '@/components/dashboard/resume-manager/DeleteConfirmationDialog';
 import EmptyState from '@/components/dashboard/resume-manager/EmptyState';
-import { sortByDate } from '@/lib/utils';
+import { sortByDate, resumeToResumeData, downloadBlob } from '@/lib/utils';
 import Shimmer from '@/components/dashboard/resume-manager/Shimmer';
-
-/**
- * API service object containing all resume-related HTTP operations
- * Handles communication with the backend API for resume and job match operations
- */
-const api = {
-  /**
-   * Fetches all resumes from the backend API
-   * @returns Promise<Resume[]> Array of resume objects
-   * @throws {Error} When API request fails
-   */
-  getResumes: async (): Promise<Resume[]> => {
-    const response = await axios.get(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume`, {
-      withCredentials: true
-    });
-    return response.data.resume;
-  },
-
-  /**
-   * Fetches all job matches/resume analysis from the backend API
-   * @returns Promise<JobMatch[]> Array of job match analysis objects
-   * @throws {Error} When API request fails
-   */
-  getJobMatches: async (): Promise<JobMatch[]> => {
-    const response = await axios.get(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/resume-analysis`, {
-      withCredentials: true
-    });
-    return response.data.resume_analysis;
-  },
-
-  /**
-   * Deletes a specific resume by ID
-   * @param id - The unique identifier of the resume to delete
-   * @returns Promise<void>
-   * @throws {Error} When delete operation fails
-   */
-  deleteResume: async (id: string): Promise<void> => {
-    await axios.delete(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/${id}`, {
-      withCredentials: true
-    });
-  },
-
-  /**
-   * Deletes a specific job match analysis by ID
-   * @param id - The unique identifier of the job match to delete
-   * @returns Promise<void>
-   * @throws {Error} When delete operation fails
-   */
-  deleteJobMatch: async (id: string): Promise<void> => {
-    await axios.delete(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/resume-analysis/${id}`, {
-      withCredentials: true
-    });
-  },
-};
+import { resumeApi, isCancelledError } from '@/services/apiClient';
+import { useAbortSignal } from '@/lib/useAbortSignal';
+import { useUndoableDelete, DEFAULT_UNDO_WINDOW_MS } from '@/lib/useUndoableDelete';
 
 /**
  * ResumeManager Component
@@ -76,7 +25,8 @@ const api = {
  * Features:
  * - Tabbed interface for different views (All, Resume Builder, Job Matches)
  * - Search functionality across all items
- * - Delete confirmation dialogs
+ * - Delete confirmation dialogs, with a short undo window before anything is deleted
+ * - Multi-select for bulk delete and bulk export
  * - Loading states and error handling
  * - Integration with resume builder and job matcher
  * - Full mobile responsiveness
@@ -99,56 +49,66 @@ const ResumeManager: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [error, setError] = useState<string | null>(null);
   
+  // Ids of the cards ticked for bulk actions
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  
   // Dashboard context for sharing data between components
   const { setResumeData, setResumeAnalysisData } = useDashboard();
+  const toast = useToast();
+
+  // Deleted items stay hidden while their delete request is held back for undo
+  const { pendingIds, scheduleDelete, undo } = useUndoableDelete();
+
+  // Cancels the initial load if the page is left before it finishes
+  const getSignal = useAbortSignal();
 
   /**
    * Delete confirmation modal state
    * Manages the state for the delete confirmation dialog
+   * 'selection' deletes every selected card; id is unused then
    */
   const [deleteConfirmation, setDeleteConfirmation] = useState<{
     isOpen: boolean;
-    type: 'resume' | 'jobMatch';
+    type: 'resume' | 'jobMatch' | 'selection';
     id: string;
     name: string;
-    isDeleting: boolean;
   }>({
     isOpen: false,
     type: 'resume',
     id: '',
-    name: '',
-    isDeleting: false
+    name: ''
   });
 
   // Load data on component mount
   useEffect(() => {
-    loadData();
-  }, []);
+    loadData(getSignal());
+  }, [getSignal]);
 
   /**
    * Loads all resume and job match data from the API
    * Handles loading states and error management
    * Sorts data by date after successful fetch
+   * @param signal - Cancels the requests when the page unmounts
    */
-  const loadData = async () => {
+  const loadData = async (signal?: AbortSignal) => {
     setLoading(true);
     setError(null);
     try {
       // Fetch both resumes and job matches concurrently
       const [resumesData, matchesData] = await Promise.all([
-        api.getResumes(),
-        api.getJobMatches()
+        resumeApi.list(signal),
+        resumeApi.listAnalyses(signal)
       ]);
 
       // Sort data by date and update state
       setResumes(sortByDate(resumesData));
       setJobMatches(sortByDate(matchesData));
     } catch (error) {
+      if (isCancelledError(error)) return;
       console.error('Error loading data:', error);
       setError('Failed to load data. Please try again.');
-    } finally {
-      setLoading(false);
     }
+    setLoading(false);
   };
 
   /**
@@ -164,8 +124,7 @@ const ResumeManager: React.FC = () => {
       isOpen: true,
       type: 'resume',
       id,
-      name: resume.resume_name,
-      isDeleting: false
+      name: resume.resume_name
     });
   };
 
@@ -182,61 +141,141 @@ const ResumeManager: React.FC = () => {
       isOpen: true,
       type: 'jobMatch',
       id,
-      name: match.resume_metadata.resume_name,
-      isDeleting: false
+      name: match.resume_metadata.resume_name
     });
   };
 
   /**
-   * Confirms and executes the deletion operation
-   * Handles both resume and job match deletions
-   * Updates local state after successful deletion
+   * Sends the delete requests once the undo window has closed
+   * Items that fail to delete are restored and can be retried from the error toast
+   * @param resumeIds - Resumes to delete
+   * @param matchIds - Job matches to delete
+   * @param label - How the items are named in notifications
+   * @param keepalive - Whether the page is closing, so the requests must outlive it
    */
-  const confirmDelete = async () => {
-    setDeleteConfirmation(prev => ({ ...prev, isDeleting: true }));
+  const commitDelete = async (resumeIds: string[], matchIds: string[], label: string, keepalive = false) => {
+    const ids = [...resumeIds, ...matchIds];
+    const results = await Promise.allSettled([
+      ...resumeIds.map(id => resumeApi.remove(id, keepalive)),
+      ...matchIds.map(id => resumeApi.removeAnalysis(id, keepalive))
+    ]);
+    const deleted = new Set(ids.filter((_, index) => results[index].status === 'fulfilled'));
+
+    // Remove deleted items from local state
+    setResumes(prev => prev.filter(resume => !deleted.has(resume._id)));
+    setJobMatches(prev => prev.filter(match => !deleted.has(match._id)));
+
+    const failedCount = ids.length - deleted.size;
+    if (failedCount > 0) {
+      console.error('Error deleting:', results.filter(result => result.status === 'rejected'));
+      toast.error(`${failedCount} of ${ids.length} items could not be deleted and were restored.`, {
+        title: `Deleting ${label} failed`,
+        action: {
+          label: 'Retry',
+          onClick: () => deleteItems(resumeIds.filter(id => !deleted.has(id)), matchIds.filter(id => !deleted.has(id)), label)
+        }
+      });
+    }
+  };
 
-    try {
-      if (deleteConfirmation.type === 'resume') {
-        await api.deleteResume(deleteConfirmation.id);
-        // Remove deleted resume from local state
-        setResumes(prev => prev.filter(resume => resume._id !== deleteConfirmation.id));
-      } else {
-        await api.deleteJobMatch(deleteConfirmation.id);
-        // Remove deleted job match from local state
-        setJobMatches(prev => prev.filter(match => match._id !== deleteConfirmation.id));
-      }
+  /**
+   * Hides items right away and holds their delete back so it can be undone
+   * @param resumeIds - Resumes to delete
+   * @param matchIds - Job matches to delete
+   * @param label - How the items are named in notifications, e.g. "3 items"
+   */
+  const deleteItems = (resumeIds: string[], matchIds: string[], label: string) => {
+    const ids = [...resumeIds, ...matchIds];
+    setSelectedIds(prev => new Set([...prev].filter(id => !ids.includes(id))));
+
+    const batchId = scheduleDelete(ids, keepalive => commitDelete(resumeIds, matchIds, label, keepalive));
+    toast.info(`Deleted ${label}.`, {
+      action: { label: 'Undo', onClick: () => undo(batchId) },
+      duration: DEFAULT_UNDO_WINDOW_MS
+    });
+  };
 
-      // Reset confirmation dialog state
-      setDeleteConfirmation({
-        isOpen: false,
-        type: 'resume',
-        id: '',
-        name: '',
-        isDeleting: false
-      });
-    } catch (error) {
-      console.error('Error deleting:', error);
-      setError(`Failed to delete ${deleteConfirmation.type}. Please try again.`);
-      setDeleteConfirmation(prev => ({ ...prev, isDeleting: false }));
+  /**
+   * Confirms the deletion and starts the undo window
+   * Handles single resumes, single job matches and the current selection
+   */
+  const confirmDelete = () => {
+    const { type, id, name } = deleteConfirmation;
+    closeDeleteConfirmation();
+
+    if (type === 'resume') {
+      deleteItems([id], [], `"${name}"`);
+    } else if (type === 'jobMatch') {
+      deleteItems([], [id], `"${name}"`);
+    } else {
+      deleteItems(selectedResumes.map(resume => resume._id), selectedJobMatches.map(match => match._id), name);
     }
   };
 
   /**
    * Closes the delete confirmation dialog
-   * Prevents closing if deletion is in progress
    */
   const closeDeleteConfirmation = () => {
-    if (deleteConfirmation.isDeleting) return;
-
     setDeleteConfirmation({
       isOpen: false,
       type: 'resume',
       id: '',
-      name: '',
-      isDeleting: false
+      name: ''
+    });
+  };
+
+  /**
+   * Adds or removes one card from the selection
+   * @param id - The ID of the resume or job match
+   */
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Selects every card in the current tab and search results
+   */
+  const selectAllInView = () => {
+    setSelectedIds(new Set([...tabResumes, ...tabJobMatches].map(item => item._id)));
+  };
+
+  /**
+   * Opens the confirmation dialog for deleting the selection
+   */
+  const handleDeleteSelected = () => {
+    setDeleteConfirmation({
+      isOpen: true,
+      type: 'selection',
+      id: '',
+      name: selectionLabel
     });
   };
 
+  /**
+   * Downloads the selected resumes (in builder format) and job match analyses as one JSON file
+   */
+  const handleExportSelected = () => {
+    const exportedAt = new Date().toISOString();
+    const payload = {
+      exported_at: exportedAt,
+      resumes: selectedResumes.map(resumeToResumeData),
+      job_matches: selectedJobMatches
+    };
+    downloadBlob(
+      new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }),
+      `resume-manager-export-${exportedAt.slice(0, 10)}.json`
+    );
+    toast.success(`Exported ${selectionLabel}.`);
+  };
+
   /**
    * Handles resume editing by navigating to the resume builder
    * Transforms resume data to the expected format and sets it in context
@@ -244,22 +283,7 @@ const ResumeManager: React.FC = () => {
    */
   const handleEditResume = (resume: Resume) => {
     // Transform resume data to match ResumeData interface
-    const resumeData: ResumeData = {
-      _id: resume._id,
-      resume_name: resume.resume_name,
-      is_primary: resume.is_primary,
-      personal_info: resume.personal_info,
-      educations: resume.educations,
-      work_experiences: resume.work_experiences,
-      projects: resume.projects,
-      skills: resume.skills,
-      achievements: resume.achievements,
-      certifications: resume.certifications,
-      languages: resume.languages,
-      publications: resume.publications,
-      extracurriculars: resume.extracurriculars,
-      ats_score: resume.ats_score,
-    };
+    const resumeData = resumeToResumeData(resume);
 
     // Set resume data in context and navigate to edit page
     setResumeData(resumeData);
@@ -306,16 +330,28 @@ const ResumeManager: React.FC = () => {
     router.push('/dashboard/jd-matcher/resume-analysis');
   };
 
+  // Items waiting out their undo window are hidden everywhere
+  const visibleResumes = resumes.filter(resume => !pendingIds.has(resume._id));
+  const visibleJobMatches = jobMatches.filter(match => !pendingIds.has(match._id));
+
   // Filter resumes based on search term
-  const filteredResumes = resumes.filter(resume =>
+  const filteredResumes = visibleResumes.filter(resume =>
     resume.resume_name.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   // Filter job matches based on search term
-  const filteredJobMatches = jobMatches.filter(match =>
+  const filteredJobMatches = visibleJobMatches.filter(match =>
     match.resume_metadata.resume_name.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  // Bulk actions only apply to selected cards the user can currently see
+  const tabResumes = activeTab === 'matches' ? [] : filteredResumes;
+  const tabJobMatches = activeTab === 'builder' ? [] : filteredJobMatches;
+  const selectedResumes = tabResumes.filter(resume => selectedIds.has(resume._id));
+  const selectedJobMatches = tabJobMatches.filter(match => selectedIds.has(match._id));
+  const selectedCount = selectedResumes.length + selectedJobMatches.length;
+  const selectionLabel = `${selectedCount} ${selectedCount === 1 ? 'item' : 'items'}`;
+
   /**
    * Renders the main content based on current state and active tab
    * Handles loading states, errors, and different tab views
@@ -345,7 +381,7 @@ const ResumeManager: React.FC = () => {
           <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-2">Error Loading Data</h3>
           <p className="text-sm sm:text-base text-gray-600 mb-6">{error}</p>
           <button
-            onClick={loadData}
+            onClick={() => loadData()}
             className="bg-blue-600 text-white px-4 sm:px-6 py-2 sm:py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium text-sm sm:text-base"
           >
             Try Again
@@ -357,14 +393,14 @@ const ResumeManager: React.FC = () => {
     // Render content based on active tab
     if (activeTab === 'all') {
       // Show empty state if no data exists
-      if (resumes.length === 0 && jobMatches.length === 0) {
+      if (visibleResumes.length === 0 && visibleJobMatches.length === 0) {
         return <EmptyState />;
       }
 
       return (
         <div className="space-y-6">
           {/* Resume Builder Section - Only show if resumes exist */}
-          {resumes.length > 0 && (
+          {visibleResumes.length > 0 && (
             <div className="bg-white rounded-lg border border-gray-200 p-4 sm:p-6">
               <h2 className="text-base sm:text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
                 <FileText className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
@@ -378,6 +414,8 @@ const ResumeManager: React.FC = () => {
                     onEdit={handleEditResume}
                     onDownload={(id) => console.log('Download', id)} // TODO: Implement download functionality
                     onDelete={handleDeleteResume}
+                    isSelected={selectedIds.has(resume._id)}
+                    onToggleSelect={toggleSelected}
                   />
                 ))}
               </div>
@@ -385,7 +423,7 @@ const ResumeManager: React.FC = () => {
           )}
 
           {/* Job Matches Section - Only show if job matches exist */}
-          {jobMatches.length > 0 && (
+          {visibleJobMatches.length > 0 && (
             <div className="bg-white rounded-lg border border-gray-200 p-4 sm:p-6">
               <h2 className="text-base sm:text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
                 <Search className="w-4 h-4 sm:w-5 sm:h-5 text-green-600" />
@@ -398,6 +436,8 @@ const ResumeManager: React.FC = () => {
                     match={match}
                     onViewResults={handleViewJobMatch}
                     onDelete={handleDeleteJobMatch}
+                    isSelected={selectedIds.has(match._id)}
+                    onToggleSelect={toggleSelected}
                   />
                 ))}
               </div>
@@ -409,7 +449,7 @@ const ResumeManager: React.FC = () => {
 
     // Builder tab - Show only resumes
     if (activeTab === 'builder') {
-      if (resumes.length === 0) {
+      if (visibleResumes.length === 0) {
         return <EmptyState />;
       }
 
@@ -428,6 +468,8 @@ const ResumeManager: React.FC = () => {
                   onEdit={handleEditResume}
                   onDownload={(id) => console.log('Download', id)} // TODO: Implement download functionality
                   onDelete={handleDeleteResume}
+                  isSelected={selectedIds.has(resume._id)}
+                  onToggleSelect={toggleSelected}
                 />
               ))}
             </div>
@@ -438,7 +480,7 @@ const ResumeManager: React.FC = () => {
 
     // Matches tab - Show only job matches
     if (activeTab === 'matches') {
-      if (jobMatches.length === 0) {
+      if (visibleJobMatches.length === 0) {
         return (
           <div className="text-center py-12 px-4">
             <div className="w-12 h-12 sm:w-16 sm:h-16 mx-auto mb-4 bg-blue-100 rounded-full flex items-center justify-center">
@@ -464,6 +506,8 @@ const ResumeManager: React.FC = () => {
                   match={match}
                   onViewResults={handleViewJobMatch}
                   onDelete={handleDeleteJobMatch}
+                  isSelected={selectedIds.has(match._id)}
+                  onToggleSelect={toggleSelected}
                 />
               ))}
             </div>
@@ -491,9 +535,9 @@ const ResumeManager: React.FC = () => {
           {/* Tab Navigation */}
           <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg w-full lg:w-fit overflow-x-auto">
             {[
-              { id: 'all', label: 'All Files', count: resumes.length + jobMatches.length },
-              { id: 'builder', label: 'Resume Builder', count: resumes.length },
-              { id: 'matches', label: 'Job Matches', count: jobMatches.length }
+              { id: 'all', label: 'All Files', count: visibleResumes.length + visibleJobMatches.length },
+              { id: 'builder', label: 'Resume Builder', count: visibleResumes.length },
+              { id: 'matches', label: 'Job Matches', count: visibleJobMatches.length }
             ].map(tab => (
               <button
                 key={tab.id}
@@ -525,6 +569,44 @@ const ResumeManager: React.FC = () => {
           </div>
         </div>
 
+        {/* Bulk Actions Bar - Shown while cards are selected */}
+        {selectedCount > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6 px-4 py-3 bg-blue-50 border border-blue-200 rounded-lg">
+            <div className="flex items-center gap-3 text-sm">
+              <span className="font-medium text-blue-900">{selectionLabel} selected</span>
+              <button
+                onClick={selectAllInView}
+                className="text-blue-600 hover:text-blue-800 font-medium"
+              >
+                Select all
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleExportSelected}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+              >
+                <Download className="w-4 h-4" />
+                <span>Export</span>
+              </button>
+              <button
+                onClick={handleDeleteSelected}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-white bg-red-600 rounded hover:bg-red-700"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Delete</span>
+              </button>
+              <button
+                onClick={() => setSelectedIds(new Set())}
+                aria-label="Clear selection"
+                className="p-1.5 text-gray-500 hover:text-gray-700 rounded hover:bg-blue-100"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Main Content Area */}
         <div className="pb-4">
           {renderContent()}
@@ -536,14 +618,20 @@ const ResumeManager: React.FC = () => {
         isOpen={deleteConfirmation.isOpen}
         onClose={closeDeleteConfirmation}
         onConfirm={confirmDelete}
-        title={deleteConfirmation.type === 'resume' ? 'Delete Resume' : 'Delete Job Match'}
+        title={
+          deleteConfirmation.type === 'resume' ? 'Delete Resume'
+            : deleteConfirmation.type === 'jobMatch' ? 'Delete Job Match'
+            : 'Delete Selected Items'
+        }
         message={
           deleteConfirmation.type === 'resume'
-            ? `Are you sure you want to delete this resume? This action cannot be undone.`
-            : `Are you sure you want to delete this job match analysis? This action cannot be undone.`
+            ? `Are you sure you want to delete this resume? You can undo this for a few seconds afterwards.`
+            : deleteConfirmation.type === 'jobMatch'
+              ? `Are you sure you want to delete this job match analysis? You can undo this for a few seconds afterwards.`
+              : `Are you sure you want to delete the selected resumes and job matches? You can undo this for a few seconds afterwards.`
         }
         itemName={deleteConfirmation.name}
-        isDeleting={deleteConfirmation.isDeleting}
+        isDeleting={false}
       />
     </div>
   );
@@ -0,0 +1,179 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { AlertCircle, ArrowLeft, History, WifiOff } from 'lucide-react';
+import { AssessmentAttempt } from '@/types/resume';
+import { loadAssessmentHistory } from '@/lib/assessmentHistory';
+import { isCancelledError } from '@/services/apiClient';
+import { useAbortSignal } from '@/lib/useAbortSignal';
+import { useAuthContext } from '@/context/AuthenticationContext';
+import { formatDate } from '@/lib/utils';
+import Loader from '@/components/dashboard/Loader';
+import SkillTrendChart from '@/components/dashboard/skill-assessment/SkillTrendChart';
+import AttemptComparison from '@/components/dashboard/skill-assessment/AttemptComparison';
+
+/**
+ * AssessmentHistory Component
+ *
+ * Lists every completed skill assessment and shows how each skill's score
+ * moved over the attempts. Any two attempts can be compared skill by skill.
+ *
+ * @returns {JSX.Element} The assessment history view
+ */
+const AssessmentHistory: React.FC = () => {
+  // Oldest first, so attempt numbers match the order they were taken
+  const [attempts, setAttempts] = useState<AssessmentAttempt[]>([]);
+  const [isLocalOnly, setIsLocalOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped by "Try Again" to run the load once more
+  const [loadCount, setLoadCount] = useState(0);
+
+  const getSignal = useAbortSignal();
+  const { user } = useAuthContext();
+  const userId = user?.userId;
+
+  // Waits for the signed-in user, whose attempts are the only ones read from this device
+  useEffect(() => {
+    if (!userId) return;
+    const loadHistory = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const history = await loadAssessmentHistory(userId, getSignal());
+        setAttempts(history.attempts);
+        setIsLocalOnly(history.isLocalOnly);
+      } catch (error) {
+        if (isCancelledError(error)) return;
+        console.error("Error loading assessment history:", error);
+        setError(error instanceof Error ? error.message : 'Could not load your assessment history.');
+      }
+      setLoading(false);
+    };
+    loadHistory();
+  }, [getSignal, userId, loadCount]);
+
+  // One trend per skill, in the order skills were first assessed
+  const skillTrends = Array.from(new Set(attempts.flatMap(attempt => attempt.skill_scores.map(score => score.skill))))
+    .map(skill => ({
+      skill,
+      points: attempts.flatMap((attempt, index) => {
+        const score = attempt.skill_scores.find(item => item.skill === skill);
+        return score ? [{ attemptNumber: index + 1, date: formatDate(attempt.completed_at), score: score.score }] : [];
+      }),
+    }));
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="py-16">
+          <Loader message="Loading your assessment history..." />
+        </div>
+      );
+    }
+
+    // Shown instead of the empty state, which would read as having no attempts
+    if (error) {
+      return (
+        <div className="text-center py-12 px-4 bg-white rounded-lg border border-gray-200">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-2">Failed to load your assessment history</h3>
+          <p className="text-sm sm:text-base text-gray-600 mb-6">{error}</p>
+          <button
+            onClick={() => setLoadCount(count => count + 1)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm sm:text-base"
+          >
+            Try Again
+          </button>
+        </div>
+      );
+    }
+
+    if (attempts.length === 0) {
+      return (
+        <div className="text-center py-12 px-4 bg-white rounded-lg border border-gray-200">
+          <div className="w-12 h-12 sm:w-16 sm:h-16 mx-auto mb-4 bg-blue-100 rounded-full flex items-center justify-center">
+            <History className="w-6 h-6 sm:w-8 sm:h-8 text-blue-600" />
+          </div>
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-2">No assessments yet</h3>
+          <p className="text-sm sm:text-base text-gray-600 mb-6">Complete a skill assessment to start tracking your progress.</p>
+          <Link
+            href="/dashboard/skill-assessment"
+            className="bg-blue-600 text-white px-4 sm:px-6 py-2 sm:py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium text-sm sm:text-base"
+          >
+            Take an Assessment
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        {/* Past Attempts - Newest first */}
+        <div className="bg-white p-4 sm:p-6 rounded-lg border border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Attempts</h2>
+          <ul className="divide-y divide-gray-100">
+            {attempts.map((attempt, index) => ({ attempt, number: index + 1 })).reverse().map(({ attempt, number }) => (
+              <li key={attempt._id} className="flex items-center justify-between py-3 gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">Attempt #{number}</p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {formatDate(attempt.completed_at)} · {attempt.skill_scores.map(score => score.skill).join(', ')}
+                  </p>
+                </div>
+                <span className={`text-lg font-bold ${attempt.overall_score >= 80 ? 'text-green-600' : attempt.overall_score >= 60 ? 'text-yellow-600' : 'text-red-600'}`}>
+                  {attempt.overall_score}%
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Per-skill Score Trends */}
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Skill Trends</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {skillTrends.map(trend => (
+              <SkillTrendChart key={trend.skill} skill={trend.skill} points={trend.points} />
+            ))}
+          </div>
+        </div>
+
+        {/* Side-by-side Comparison - Needs two attempts */}
+        {attempts.length > 1 && <AttemptComparison attempts={attempts} />}
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-screen w-full bg-gray-50 overflow-y-scroll">
+      <div className="max-w-6xl mx-auto px-4 py-6">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/dashboard/skill-assessment"
+            className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 mb-3"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to assessment
+          </Link>
+          <h1 className="text-2xl sm:text-3xl font-semibold text-gray-900 mb-1">Assessment History</h1>
+          <p className="text-gray-600 text-sm sm:text-base">Track how your skill scores change across attempts</p>
+        </div>
+
+        {/* Offline Notice */}
+        {isLocalOnly && (
+          <div className="flex items-center gap-2 mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            <WifiOff className="w-4 h-4 flex-shrink-0" />
+            <p>Could not reach the server, so only attempts saved on this device are shown.</p>
+          </div>
+        )}
+
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default AssessmentHistory;
@@ -1,46 +1,61 @@
 "use client";
 
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { History } from 'lucide-react';
 import ProgressSteppe from '@/components/dashboard/skill-assessment/ProgressSteppe';
 import SkillExtraction from '@/components/dashboard/skill-assessment/SkillExtraction';
 import Assessment from '@/components/dashboard/skill-assessment/Assessment';
+import AnswerReview, { AnswerReviewFilter } from '@/components/dashboard/skill-assessment/AnswerReview';
 import CareerFeedback from '@/components/dashboard/skill-assessment/CareerFeedback';
-import { AssessmentData, APIResponse } from '@/types/resume';
-import axios from 'axios';
+import { AssessmentData, AssessmentAttempt, AssessmentMode, AssessmentQuestion, AdaptiveProgress } from '@/types/resume';
+import { assessmentApi } from '@/services/apiClient';
+import { loadSkillBenchmarks } from '@/services/benchmarkProvider';
+import { estimatePercentile } from '@/lib/skillBenchmarks';
+import { createAttemptId, saveAssessmentAttempt } from '@/lib/assessmentHistory';
+import { canGradeAssessment, gradeAssessment } from '@/lib/assessmentGrading';
+import { useToast } from '@/context/ToastContext';
+import { useAuthContext } from '@/context/AuthenticationContext';
 
 /**
- * Interface defining the structure of a question object
+ * Converts a question from the API to the internal question structure
  */
-interface Question {
-  id: string;
-  question: string;
-  options: string[];
-  answer: string;
-  topic: string;
-  type: 'multiple-choice';
-}
+const toAssessmentQuestion = (q: AssessmentQuestion, index: number): AssessmentData['questions'][number] => ({
+  id: index.toString(),
+  question: q.question,
+  options: q.options,
+  answer: q.answer,
+  explanation: q.explanation,
+  difficulty: q.difficulty,
+  topic: q.topic,
+  type: 'multiple-choice' as const
+});
 
 /**
  * SkillAssessmentDashboard Component
  * 
  * Main dashboard component that manages the complete skill assessment workflow.
- * Handles three main steps:
+ * Handles four main steps:
  * 1. Skill Extraction - User selects or confirms their skills
  * 2. Assessment - User takes the generated assessment
- * 3. Career Feedback - User receives results and career suggestions
+ * 3. Answer Review - User sees every graded question with explanations
+ * 4. Career Feedback - User receives results and career suggestions
  * 
  * Features:
  * - Multi-step assessment process with progress tracking
  * - Timed assessment with 15-minute countdown
  * - Question navigation (next/previous)
  * - Answer persistence across question navigation
- * - Real-time score calculation and feedback
+ * - Server-side grading with per-question results and explanations
+ * - Adaptive mode: the backend picks each next question by per-skill difficulty,
+ *   stopping early once each skill's proficiency level is clear
  * - Assessment retake functionality
+ * - Every completed attempt is saved to the history view
  * 
  * @returns {JSX.Element} The skill assessment dashboard component
  */
 const SkillAssessmentDashboard: React.FC = () => {
-  // Step management state (1: Skill Extraction, 2: Assessment, 3: Feedback)
+  // Step management state (1: Skill Extraction, 2: Assessment, 3: Answer Review, 4: Feedback)
   const [currentStep, setCurrentStep] = useState(1);
   
   // Main assessment data structure containing skills, questions, answers, and results
@@ -69,6 +84,17 @@ const SkillAssessmentDashboard: React.FC = () => {
   // Track user answers by question index to allow navigation between questions
   const [userAnswers, setUserAnswers] = useState<{ [key: number]: string }>({});
 
+  // Mode picked for the next run, and how far the backend says an adaptive run has got
+  const [mode, setMode] = useState<AssessmentMode>('fixed');
+  const [adaptiveProgress, setAdaptiveProgress] = useState<AdaptiveProgress | null>(null);
+  const isAdaptive = assessmentData.mode === 'adaptive';
+
+  // Filter the review opens with; set when coming back from a weak skill in the feedback
+  const [reviewFilter, setReviewFilter] = useState<AnswerReviewFilter>();
+
+  const toast = useToast();
+  const { user } = useAuthContext();
+
   /**
    * Timer effect for assessment countdown
    * Manages the 15-minute assessment timer and auto-submits when time runs out
@@ -106,33 +132,21 @@ const SkillAssessmentDashboard: React.FC = () => {
       const softSkills = assessmentData.skills.filter(skill => skill.type === 'soft').map(skill => skill.name);
 
       // API call to generate assessment questions
-      const response = await axios.post(
-        `${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/skill-assessment`,
-        {
-          "technical_skills": JSON.stringify(technicalSkills),
-          "soft_skills": JSON.stringify(softSkills)
-        },
-        {
-          withCredentials: true,
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-          },
-        }
-      );
+      const response = await assessmentApi.questions(technicalSkills, softSkills, mode);
 
-      if (response.data.success) {
+      // Adaptive runs are driven by the backend session, so they can't go without one
+      const hasGrader = mode === 'adaptive' ? Boolean(response.session_id) : canGradeAssessment(response.session_id);
+      if (response.success && !hasGrader) {
+        setError('The assessment service did not start a grading session. Please try again.');
+      } else if (response.success) {
         // Transform API response to match internal question structure
-        const questions = response.data.questions.map((q: Question, index: number) => ({
-          id: index.toString(),
-          question: q.question,
-          options: q.options,
-          answer: q.answer,
-          topic: q.topic,
-          type: 'multiple-choice' as const
-        }));
+        // Adaptive runs receive only their first question here
+        const questions = response.questions.map(toAssessmentQuestion);
+        setAdaptiveProgress(response.progress ?? null);
+        setCurrentQuestion(0);
 
         // Update assessment data with fetched questions
-        setAssessmentData(prev => ({ ...prev, questions }));
+        setAssessmentData(prev => ({ ...prev, session_id: response.session_id, mode, questions }));
         setCurrentStep(2);
         setAssessmentStarted(true);
       } else {
@@ -159,16 +173,53 @@ const SkillAssessmentDashboard: React.FC = () => {
     }));
   };
 
+  /**
+   * Sends an adaptive answer to the backend, which records it and picks the next question
+   * Correctness stays on the backend until grading; submits once every skill has finished
+   *
+   * @param {string} answer - The selected answer option, empty when skipped
+   */
+  const handleAdaptiveAnswer = async (answer: string) => {
+    if (!assessmentData.session_id) return;
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await assessmentApi.answerAdaptive(assessmentData.session_id, answer);
+      setUserAnswers(prev => ({ ...prev, [currentQuestion]: answer }));
+      setAdaptiveProgress(response.progress);
+
+      if (response.next_question) {
+        // Issued questions are kept in order, so graded answers can refer to them by index
+        const nextIndex = assessmentData.questions.length;
+        const nextQuestion = toAssessmentQuestion(response.next_question, nextIndex);
+        setAssessmentData(prev => ({ ...prev, questions: [...prev.questions, nextQuestion] }));
+        setCurrentQuestion(nextIndex);
+      } else {
+        await submitAssessment();
+      }
+    } catch (error) {
+      console.error("Error sending answer:", error);
+      setError(error instanceof Error ? error.message : 'Failed to send your answer. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   /**
    * Navigates to the next question or submits assessment if on last question
    * Handles both progression through questions and final submission
+   *
+   * @param {string} answer - The answer given for the current question, empty when skipped
    */
-  const handleNextQuestion = () => {
-    if (currentQuestion < assessmentData.questions.length - 1) {
+  const handleNextQuestion = (answer: string) => {
+    if (isAdaptive) {
+      handleAdaptiveAnswer(answer);
+    } else if (currentQuestion < assessmentData.questions.length - 1) {
       setCurrentQuestion(prev => prev + 1);
     } else {
-      // Submit assessment when reaching the last question
-      submitAssessment();
+      // Submit assessment when reaching the last question, including the answer just given
+      submitAssessment({ ...userAnswers, [currentQuestion]: answer });
     }
   };
 
@@ -184,93 +235,98 @@ const SkillAssessmentDashboard: React.FC = () => {
 
   /**
    * Submits the complete assessment for scoring
-   * Processes user answers, calculates scores, and fetches career suggestions
-   * Transitions to step 3 (Career Feedback) on success
+   * Sends the raw selections to the grader, which returns per-question results,
+   * scores and career suggestions
+   * Transitions to step 3 (Answer Review) on success
+   *
+   * @param answers - Answers by question index, when newer than the state
    */
-  const submitAssessment = async () => {
+  const submitAssessment = async (answers: { [key: number]: string } = userAnswers) => {
     setLoading(true);
     setError('');
 
     try {
-      // Convert userAnswers object to the format expected by the backend
-      const formattedAnswers = Object.entries(userAnswers).map(([questionIndex, answer]) => {
-        const question = assessmentData.questions[parseInt(questionIndex)];
-        const isCorrect = question.answer === answer;
-
-        return {
-          questionId: question.question,
-          answer,
-          isCorrect,
-          skill: question.topic
-        };
-      });
-
-      // Update local assessment data with formatted answers
-      setAssessmentData(prev => ({
-        ...prev,
-        answers: formattedAnswers
-      }));
-
-      // Calculate skill-wise scores for backend processing
-      const skillScoreMap = new Map<string, { total: number; correct: number }>();
-
-      formattedAnswers.forEach(answer => {
-        const question = assessmentData.questions.find(q => q.question === answer.questionId);
-        const skill = question?.topic || 'Unknown';
+      // Adaptive sessions are graded from the answers the backend recorded; fixed runs submit every question, empty when skipped
+      const submitted = isAdaptive
+        ? undefined
+        : assessmentData.questions.map((_, index) => ({ question_index: index, answer: answers[index] ?? '' }));
+      const response = await gradeAssessment(assessmentData, submitted);
+
+      if (response.status) {
+        const formattedAnswers = response.graded_answers.map(graded => ({
+          questionId: assessmentData.questions[graded.question_index]?.question ?? '',
+          answer: graded.selected,
+          isCorrect: graded.is_correct,
+          skill: graded.topic,
+          correctAnswer: graded.correct_answer,
+          explanation: graded.explanation,
+        }));
 
-        const current = skillScoreMap.get(skill) || { total: 0, correct: 0 };
-        skillScoreMap.set(skill, {
-          total: current.total + 1,
-          correct: current.correct + (answer.isCorrect ? 1 : 0)
+        // Place each skill score within its benchmark distribution, and add adaptive proficiency levels
+        const { source, benchmarks } = await loadSkillBenchmarks(response.skill_wise_scores.map(score => score.skill));
+        const skillScoresWithAverage = response.skill_wise_scores.map(score => {
+          const benchmark = benchmarks.find(item => item.skill === score.skill);
+          const proficiency = response.proficiency?.find(item => item.skill === score.skill);
+          return {
+            ...score,
+            ...(benchmark ? {
+              industryAverage: benchmark.average,
+              percentile: estimatePercentile(score.score, benchmark),
+              benchmarkMatched: benchmark.matched,
+            } : {}),
+            ...(proficiency ? {
+              proficiency: proficiency.level,
+              questionsAsked: proficiency.questions_asked,
+            } : {}),
+          };
         });
-      });
-
-      // Transform skill scores for API submission
-      const scoreData = Array.from(skillScoreMap.entries()).map(([skill, scores]) => ({
-        skill,
-        total_questions: scores.total,
-        correct_questions: scores.correct
-      }));
-
-      // Submit scores to get detailed feedback and career suggestions
-      const response = await axios.post<APIResponse>(
-        `${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/skill-assessment-score`,
-        {
-          "skills": JSON.stringify(scoreData),
-        },
-        {
-          withCredentials: true,
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-          },
-        }
-      );
-
-      if (response.data.status) {
-        // Add mock industry averages to skill scores for comparison
-        const skillScoresWithAverage = response.data.skill_wise_scores.map(score => ({
-          ...score,
-          industryAverage: Math.floor(Math.random() * 30) + 60 // Mock industry average (60-90%)
-        }));
 
         // Update assessment data with final results
         setAssessmentData(prev => ({
           ...prev,
+          answers: formattedAnswers,
           results: {
-            overall_score: response.data.overall_score,
+            overall_score: response.overall_score,
             skill_scores: skillScoresWithAverage,
-            career_suggestions: response.data.career_suggestions,
+            benchmark_source: source,
+            career_suggestions: response.career_suggestions,
           }
         }));
 
-        // Transition to feedback step
+        // Keep the attempt so it survives a retake and shows up in the history view
+        const attempt: AssessmentAttempt = {
+          _id: createAttemptId(),
+          completed_at: new Date().toISOString(),
+          overall_score: response.overall_score,
+          skills: assessmentData.skills,
+          skill_scores: response.skill_wise_scores,
+          career_suggestions: response.career_suggestions,
+        };
+        // The device copy is kept per user, so it waits for the signed-in user to be known
+        const saving = user ? saveAssessmentAttempt(user.userId, attempt) : assessmentApi.saveAttempt(attempt);
+        saving.catch(error => {
+          console.error("Error saving assessment attempt:", error);
+          if (user) {
+            toast.info('Your results are saved on this device and will sync to your account later.', {
+              title: 'Could not save to your account'
+            });
+          } else {
+            // Without a user there is no device copy, so nothing will sync later
+            toast.error('This attempt will not appear in your assessment history.', {
+              title: 'Could not save your results'
+            });
+          }
+        });
+
+        // Transition to answer review step
+        setReviewFilter(undefined);
         setCurrentStep(3);
       } else {
         setError('Failed to calculate scores. Please try again.');
       }
     } catch (error) {
       console.error("Error submitting assessment:", error);
-      setError('Failed to submit assessment. Please try again.');
+      setError(error instanceof Error ? error.message : 'Failed to submit assessment. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -286,10 +342,14 @@ const SkillAssessmentDashboard: React.FC = () => {
     setTimeRemaining(900);
     setAssessmentStarted(false);
     setUserAnswers({}); // Clear all user answers
+    setAdaptiveProgress(null);
+    setReviewFilter(undefined);
     
     // Reset assessment data to initial state
     setAssessmentData(prev => ({
       ...prev,
+      session_id: undefined,
+      mode: undefined,
       questions: [],
       answers: [],
       results: {
@@ -305,6 +365,18 @@ const SkillAssessmentDashboard: React.FC = () => {
     setError('');
   };
 
+  /**
+   * Returns to the answer review showing one skill's wrong answers
+   * Called from CareerFeedback for an improvement area
+   *
+   * @param {string} skill - Improvement area skill, matched to the graded topics ignoring case
+   */
+  const handleReviewSkill = (skill: string) => {
+    const topic = assessmentData.answers.find(answer => answer.skill.toLowerCase() === skill.toLowerCase())?.skill;
+    setReviewFilter({ skill: topic ?? 'all', wrongOnly: true });
+    setCurrentStep(3);
+  };
+
   /**
    * Updates the skills in assessment data
    * Called from SkillExtraction component when skills are modified
@@ -319,9 +391,18 @@ const SkillAssessmentDashboard: React.FC = () => {
     <div className="h-screen w-full bg-gray-50 overflow-y-scroll">
       <div className="max-w-6xl mx-auto px-4 py-6">
         {/* Dashboard Header */}
-        <div className="mb-8">
-          <h1 className="text-2xl sm:text-3xl font-semibold text-gray-900 mb-1">Skill Assessment Dashboard</h1>
-          <p className="text-gray-600 text-sm sm:text-base">Evaluate your skills with AI-generated questions and get personalized career feedback</p>
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-semibold text-gray-900 mb-1">Skill Assessment Dashboard</h1>
+            <p className="text-gray-600 text-sm sm:text-base">Evaluate your skills with AI-generated questions and get personalized career feedback</p>
+          </div>
+          <Link
+            href="/dashboard/skill-assessment/history"
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 self-start"
+          >
+            <History className="w-4 h-4" />
+            Assessment History
+          </Link>
         </div>
 
         {/* Error Display */}
@@ -332,13 +413,15 @@ const SkillAssessmentDashboard: React.FC = () => {
         )}
 
         {/* Progress Stepper */}
-        <ProgressSteppe currentStep={currentStep} totalSteps={3} />
+        <ProgressSteppe currentStep={currentStep} totalSteps={4} />
 
         {/* Step 1: Skill Extraction */}
         {currentStep === 1 && (
           <SkillExtraction
             onSkillsChange={updateSkills}
             onNext={handleStartAssessment}
+            mode={mode}
+            onModeChange={setMode}
             loading={loading}
           />
         )}
@@ -347,23 +430,34 @@ const SkillAssessmentDashboard: React.FC = () => {
         {currentStep === 2 && assessmentData.questions.length > 0 && (
           <Assessment
             question={assessmentData.questions[currentQuestion]}
-            questionNumber={currentQuestion + 1}
-            totalQuestions={assessmentData.questions.length}
+            questionNumber={isAdaptive && adaptiveProgress ? adaptiveProgress.answered + 1 : currentQuestion + 1}
+            totalQuestions={isAdaptive && adaptiveProgress ? adaptiveProgress.max_questions : assessmentData.questions.length}
+            adaptive={isAdaptive}
             timeRemaining={timeRemaining}
             currentAnswer={userAnswers[currentQuestion] || ''} // Pass current answer for persistence
             onAnswer={handleAnswer}
             onNext={handleNextQuestion}
             onPrevious={handlePreviousQuestion} // Enable backward navigation
-            onSkip={handleNextQuestion}
+            onSkip={() => handleNextQuestion('')}
             loading={loading}
           />
         )}
 
-        {/* Step 3: Career Feedback */}
+        {/* Step 3: Answer Review */}
         {currentStep === 3 && (
+          <AnswerReview
+            assessmentData={assessmentData}
+            initialFilter={reviewFilter}
+            onContinue={() => setCurrentStep(4)}
+          />
+        )}
+
+        {/* Step 4: Career Feedback */}
+        {currentStep === 4 && (
           <CareerFeedback
             assessmentData={assessmentData}
             onRetakeAssessment={handleRetakeAssessment}
+            onReviewAnswers={handleReviewSkill}
           />
         )}
       </div>
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import "./globals.css";
 import { AuthProvider } from "@/context/AuthenticationContext";
 import { ContextProvider } from "@/context/DashboardContext";
+import MockBackendBadge from "@/components/MockBackendBadge";
 
 export const metadata: Metadata = {
   title: "IntelliResume - Your AI Resume Builder",
@@ -21,6 +22,7 @@ export default function RootLayout({
             {children}
           </ContextProvider>
         </AuthProvider>
+        <MockBackendBadge />
       </body>
     </html>
   );
@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { FlaskConical, RotateCcw, X } from 'lucide-react';
+import { isMockBackendEnabled, resetMockBackend, setMockBackendEnabled } from '@/services/mockBackend';
+
+/**
+ * Mock Backend Badge Component
+ * Reminds developers that requests are answered by the in-browser mock backend
+ * and offers to reset its data or switch back to the real services
+ */
+const MockBackendBadge: React.FC = () => {
+  // Read after mount so server and client render the same markup
+  const [isEnabled, setIsEnabled] = useState(false);
+
+  useEffect(() => {
+    setIsEnabled(isMockBackendEnabled());
+  }, []);
+
+  if (!isEnabled) return null;
+
+  const handleReset = () => {
+    resetMockBackend();
+    window.location.reload();
+  };
+
+  const handleTurnOff = () => {
+    setMockBackendEnabled(false);
+    window.location.reload();
+  };
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 flex items-center gap-2 px-3 py-2 bg-amber-100 border border-amber-300 rounded-lg shadow-sm text-sm text-amber-900">
+      <FlaskConical className="w-4 h-4" />
+      <span className="font-medium">Mock backend</span>
+      <button
+        onClick={handleReset}
+        title="Reset mock data"
+        className="p-1 rounded hover:bg-amber-200 transition-colors"
+      >
+        <RotateCcw className="w-3 h-3" />
+      </button>
+      {process.env.NEXT_PUBLIC_MOCK_BACKEND !== 'true' && (
+        <button
+          onClick={handleTurnOff}
+          title="Use the real backend"
+          className="p-1 rounded hover:bg-amber-200 transition-colors"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MockBackendBadge;
@@ -3,7 +3,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { CircleAlert, Check } from 'lucide-react';
-import axios from 'axios';
+import { authApi, ApiError } from '@/services/apiClient';
 
 interface OTPVerificationProps {
     email: string;
@@ -112,28 +112,16 @@ const OTPVerification: React.FC<OTPVerificationProps> = ({ email }) => {
 
         try {
             // API request to verify OTP
-            const response = await axios.post(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/auth/verify-email`, {
-                email: email,
-                code: otpString,
-            });
-
-            if (response.status === 200) {
-                setSuccess(true);
-
-                // Redirect to dashboard after successful verification
-                setTimeout(() => {
-                    router.push('/dashboard');
-                }, 1500);
-            } else {
-                setError(response.data.message || 'Verification failed');
-            }
+            await authApi.verifyEmail(email, otpString);
+            setSuccess(true);
+
+            // Redirect to dashboard after successful verification
+            setTimeout(() => {
+                router.push('/dashboard');
+            }, 1500);
 
         } catch (error) {
-            if (axios.isAxiosError(error)) {
-                setError(error.response?.data?.message);
-            } else {
-                setError('An unexpected error occurred. Please try again.');
-            }
+            setError(error instanceof ApiError ? error.message : 'An unexpected error occurred. Please try again.');
         } finally {
             setIsLoading(false);
         }
@@ -147,9 +135,7 @@ const OTPVerification: React.FC<OTPVerificationProps> = ({ email }) => {
             setError('');
 
             // API request to resend OTP (you may need to implement this endpoint)
-            await axios.post(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/auth/regenerate-verification-token`, {
-                email: email,
-            });
+            await authApi.resendVerification(email);
 
             // Start 60-second cooldown timer
             setResendTimer(60);
@@ -161,11 +147,7 @@ const OTPVerification: React.FC<OTPVerificationProps> = ({ email }) => {
             inputRefs.current[0]?.focus();
 
         } catch (error) {
-            if (axios.isAxiosError(error)) {
-                setError(error.response?.data?.message);
-            } else {
-                setError('Failed to resend code. Please try again.');
-            }
+            setError(error instanceof ApiError ? error.message : 'Failed to resend code. Please try again.');
         }
     };
 
@@ -2,8 +2,9 @@
 
 import { FileText, Calendar, Download, Upload, Sparkles } from 'lucide-react';
 import { LatestResumeData } from '@/types/resume';
-import axios from 'axios';
+import { resumeApi } from '@/services/apiClient';
 import { useDashboard } from '@/context/DashboardContext';
+import { useToast } from '@/context/ToastContext';
 import { useRouter } from 'next/navigation';
 
 const CurrentResume: React.FC<{
@@ -12,38 +13,35 @@ const CurrentResume: React.FC<{
 }> = ({ data, onUpload }) => {
 
     const { setResumeData, setResumeAnalysisData } = useDashboard();
+    const toast = useToast();
     const router = useRouter();
 
     const handlEditResume = async () => {
         try {
-            const res = await axios.get(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/resume/${data?.resumeId}`, {
-                withCredentials: true,
-                headers: {
-                    "Content-Type": "application/json",
-                },
-            })
-            setResumeData(res.data.resume);
+            if (!data) return;
+            setResumeData(await resumeApi.get(data.resumeId));
             router.push('/dashboard/resume-builder/edit');
         } catch (error) {
             console.error("Error fetching resume data:", error);
+            toast.error(error instanceof Error ? error.message : 'Could not open the resume.', {
+                title: 'Resume not loaded',
+                action: { label: 'Retry', onClick: handlEditResume },
+            });
         }
     }
 
     const handleViewResume = async () => {
         try {
-            console.log("Viewing resume:", data?.id);
-            const res = await axios.get(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/resume-analysis/${data?.id}`, {
-                withCredentials: true,
-                headers: {
-                    "Content-Type": "application/json",
-                },
-            });
-
-            setResumeAnalysisData(res.data);
+            if (!data) return;
+            setResumeAnalysisData(await resumeApi.getAnalysis(data.id));
             router.push('/dashboard/jd-matcher/resume-analysis');
 
         } catch (error) {
             console.error("Error downloading resume:", error);
+            toast.error(error instanceof Error ? error.message : 'Could not open the analysis.', {
+                title: 'Analysis not loaded',
+                action: { label: 'Retry', onClick: handleViewResume },
+            });
         }
     }
 
@@ -5,7 +5,8 @@ import { Upload, FileCheck, X } from 'lucide-react';
 import AnalysisProgressOverlay from '@/components/dashboard/jd-matcher/AnalysisProgressOverlay';
 import { useRouter } from 'next/navigation';
 import { useDashboard } from '@/context/DashboardContext';
-import axios from 'axios';
+import { useToast } from '@/context/ToastContext';
+import { resumeApi } from '@/services/apiClient';
 
 interface ResumeFile {
   file: File;
@@ -28,6 +29,7 @@ export function ResumeJDUpload() {
   });
   const [isScanning, setIsScanning] = useState<boolean>(false);
   const { setOpenDialog, setResumeAnalysisData } = useDashboard();
+  const toast = useToast();
   const router = useRouter();
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>): void => {
@@ -70,27 +72,19 @@ export function ResumeJDUpload() {
 
       setIsScanning(true);
       setResumeAnalysisData(null);
-      const formData = new FormData();
-
-      formData.append('resume_file', resumeFile.file);
-      formData.append('job_description', jobDetails.description);
-      formData.append('job_title', jobDetails.title);
 
       try {
-        const response = await axios.post(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/analyse`, formData, {
-          withCredentials: true,
-          headers: {
-            'Content-Type': 'multipart/form-data',
-          }
-        });
+        const analysis = await resumeApi.analyse(resumeFile.file, jobDetails.title, jobDetails.description);
 
         setOpenDialog(false);
-        setResumeAnalysisData(response.data);
+        setResumeAnalysisData(analysis);
         router.push('/dashboard/jd-matcher/resume-analysis');
       } catch (error) {
-        if (axios.isAxiosError(error)) {
-          console.error('Error:', error.response?.data || error.message);
-        }
+        console.error('Error:', error);
+        toast.error(error instanceof Error ? error.message : 'Could not analyse your resume.', {
+          title: 'Analysis failed',
+          action: { label: 'Retry', onClick: handleStartScanning },
+        });
       } finally {
         setIsScanning(false);
       }
@@ -0,0 +1,77 @@
+"use client";
+
+import { CheckCircle2, AlertCircle, Info, Loader2, X } from 'lucide-react';
+import type { Toast, ToastVariant } from '@/context/ToastContext';
+
+interface ToastStackProps {
+  toasts: Toast[];
+  onDismiss: (id: string) => void;
+  onAction: (toast: Toast) => void;
+}
+
+const VARIANT_STYLES: Record<ToastVariant, { container: string; icon: React.ReactNode }> = {
+  success: {
+    container: 'border-green-200 bg-green-50 text-green-900',
+    icon: <CheckCircle2 className="w-5 h-5 text-green-600" />,
+  },
+  error: {
+    container: 'border-red-200 bg-red-50 text-red-900',
+    icon: <AlertCircle className="w-5 h-5 text-red-600" />,
+  },
+  info: {
+    container: 'border-blue-200 bg-blue-50 text-blue-900',
+    icon: <Info className="w-5 h-5 text-blue-600" />,
+  },
+  progress: {
+    container: 'border-gray-200 bg-white text-gray-900',
+    icon: <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />,
+  },
+};
+
+/**
+ * Toast Stack Component
+ * Renders the app's toasts stacked in the bottom-right corner, newest at the bottom
+ * Errors are announced assertively; everything else politely
+ */
+const ToastStack: React.FC<ToastStackProps> = ({ toasts, onDismiss, onAction }) => {
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-full max-w-sm pointer-events-none">
+      {toasts.map(toast => {
+        const style = VARIANT_STYLES[toast.variant];
+        return (
+          <div
+            key={toast.id}
+            role={toast.variant === 'error' ? 'alert' : 'status'}
+            aria-live={toast.variant === 'error' ? 'assertive' : 'polite'}
+            className={`pointer-events-auto flex items-start gap-3 p-4 border rounded-lg shadow-lg ${style.container}`}
+          >
+            <div className="flex-shrink-0 mt-0.5">{style.icon}</div>
+            <div className="flex-1 min-w-0">
+              {toast.title && <p className="text-sm font-semibold">{toast.title}</p>}
+              <p className="text-sm">{toast.message}</p>
+              {toast.action && (
+                <button
+                  onClick={() => onAction(toast)}
+                  className="mt-2 text-sm font-medium underline hover:no-underline"
+                >
+                  {toast.action.label}
+                </button>
+              )}
+            </div>
+            {toast.variant !== 'progress' && (
+              <button
+                onClick={() => onDismiss(toast.id)}
+                aria-label="Dismiss notification"
+                className="flex-shrink-0 p-1 rounded opacity-60 hover:opacity-100 transition-opacity"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ToastStack;
@@ -1,30 +1,72 @@
 "use client";
 
+import { useEffect, useState } from 'react';
 import { Sparkles, X, RotateCcw, Check } from 'lucide-react';
+import { AISuggestionOptions, AISuggestionTone } from '@/types/resume';
+
+// Tone presets offered in the dialog, sent to the backend as-is
+const TONES: { id: AISuggestionTone; label: string; description: string }[] = [
+  { id: 'concise', label: 'Concise', description: 'Short, direct statements' },
+  { id: 'quantified', label: 'Quantified', description: 'Lead with metrics and results' },
+  { id: 'leadership', label: 'Leadership', description: 'Ownership, mentoring and influence' },
+];
+
+const BULLET_COUNTS = [2, 3, 4, 5, 6];
+const VARIANT_COUNTS = [1, 2, 3, 4];
 
 interface AIDialogProps {
   isOpen: boolean;
-  suggestions: string[];
+  variants: string[][];
+  options: AISuggestionOptions;
+  onOptionsChange: (options: AISuggestionOptions) => void;
   isLoading?: boolean;
   onClose: () => void;
-  onAccept: () => void;
+  onAccept: (bullets: string[]) => void;
   onRegenerate: () => void;
 }
 
+/**
+ * AI Dialog Component
+ * Shows alternative sets of AI bullets side by side so they can be compared
+ * Bullets can be picked individually across sets, or a whole set taken at once
+ * Tone and counts apply the next time the sets are regenerated
+ */
 const AIDialog: React.FC<AIDialogProps> = ({
   isOpen,
-  suggestions,
+  variants,
+  options,
+  onOptionsChange,
   isLoading = false,
   onClose,
   onAccept,
   onRegenerate
 }) => {
+  // Picked bullets as "variant:bullet" keys, in the order they were picked
+  const [selected, setSelected] = useState<string[]>([]);
+
+  // A new batch of sets invalidates the previous picks
+  useEffect(() => {
+    setSelected([]);
+  }, [variants]);
+
   if (!isOpen) return null;
 
+  const toggleBullet = (variantIndex: number, bulletIndex: number) => {
+    const key = `${variantIndex}:${bulletIndex}`;
+    setSelected(prev => prev.includes(key) ? prev.filter(item => item !== key) : [...prev, key]);
+  };
+
+  const acceptSelected = () => {
+    onAccept(selected.map(key => {
+      const [variantIndex, bulletIndex] = key.split(':').map(Number);
+      return variants[variantIndex][bulletIndex];
+    }));
+  };
+
   return (
     <div className="fixed inset-0 bg-black/30 backdrop-blur-sm border-gray-200 flex items-center justify-center p-4 z-50">
-      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
-        <div className="p-6 border-b border-gray-200">
+      <div className="bg-white rounded-lg max-w-6xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-200 space-y-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
               <Sparkles className="w-5 h-5 text-purple-600" />
@@ -33,53 +75,135 @@ const AIDialog: React.FC<AIDialogProps> = ({
             <button
               onClick={onClose}
               className="text-gray-500 hover:text-gray-700 transition-colors"
+              aria-label="Close dialog"
             >
               <X className="w-5 h-5" />
             </button>
           </div>
-          <p className="text-sm text-gray-600 mt-2">
-            Here are optimized descriptions for your {suggestions.length} description points:
-          </p>
-        </div>
 
-        <div className="p-6 space-y-4">
-          {suggestions.map((suggestion, index) => (
-            <div key={index} className="p-4 bg-gray-50 rounded-lg">
-              <div className="flex items-center gap-2 mb-2">
-                <span className="text-sm font-medium text-gray-700">Point {index + 1}</span>
+          {/* Generation settings - applied on regenerate */}
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <span className="block text-xs font-medium text-gray-500 mb-1">Tone</span>
+              <div className="flex rounded-lg border border-gray-300 overflow-hidden" role="radiogroup" aria-label="Tone">
+                {TONES.map(tone => (
+                  <button
+                    key={tone.id}
+                    type="button"
+                    role="radio"
+                    aria-checked={options.tone === tone.id}
+                    title={tone.description}
+                    onClick={() => onOptionsChange({ ...options, tone: tone.id })}
+                    className={`px-3 py-1.5 text-sm transition-colors border-l first:border-l-0 border-gray-300 ${options.tone === tone.id ? 'bg-purple-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    {tone.label}
+                  </button>
+                ))}
               </div>
-              <p className="text-sm text-gray-800 leading-relaxed">{suggestion}</p>
             </div>
-          ))}
+            <label className="text-xs font-medium text-gray-500">
+              Bullets per set
+              <select
+                value={options.bulletCount}
+                onChange={(e) => onOptionsChange({ ...options, bulletCount: Number(e.target.value) })}
+                className="block mt-1 p-1.5 border border-gray-300 rounded-lg bg-white text-sm text-gray-800"
+              >
+                {BULLET_COUNTS.map(count => <option key={count} value={count}>{count}</option>)}
+              </select>
+            </label>
+            <label className="text-xs font-medium text-gray-500">
+              Sets to compare
+              <select
+                value={options.variantCount}
+                onChange={(e) => onOptionsChange({ ...options, variantCount: Number(e.target.value) })}
+                className="block mt-1 p-1.5 border border-gray-300 rounded-lg bg-white text-sm text-gray-800"
+              >
+                {VARIANT_COUNTS.map(count => <option key={count} value={count}>{count}</option>)}
+              </select>
+            </label>
+            <button
+              onClick={onRegenerate}
+              disabled={isLoading}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-purple-600 border border-purple-200 rounded-lg hover:bg-purple-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <RotateCcw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              {isLoading ? 'Regenerating...' : 'Regenerate'}
+            </button>
+          </div>
+        </div>
+
+        {/* Alternative sets side by side */}
+        <div className="p-6 overflow-y-auto">
+          {variants.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              {isLoading ? 'Generating suggestions...' : 'No suggestions came back. Try regenerating.'}
+            </p>
+          ) : (
+            <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(auto-fit, minmax(240px, 1fr))` }}>
+              {variants.map((bullets, variantIndex) => (
+                <div key={variantIndex} className="flex flex-col border border-gray-200 rounded-lg">
+                  <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+                    <span className="text-sm font-medium text-gray-700">Option {variantIndex + 1}</span>
+                    <button
+                      onClick={() => onAccept(bullets)}
+                      className="text-xs font-medium text-purple-600 hover:text-purple-800 transition-colors"
+                    >
+                      Use this set
+                    </button>
+                  </div>
+                  <ul className="p-2 space-y-1 flex-1">
+                    {bullets.map((bullet, bulletIndex) => {
+                      const order = selected.indexOf(`${variantIndex}:${bulletIndex}`);
+                      return (
+                        <li key={bulletIndex}>
+                          <button
+                            type="button"
+                            onClick={() => toggleBullet(variantIndex, bulletIndex)}
+                            aria-pressed={order >= 0}
+                            className={`w-full flex items-start gap-2 p-2 rounded text-left text-sm leading-relaxed transition-colors ${order >= 0 ? 'bg-purple-50 ring-1 ring-purple-300' : 'hover:bg-gray-50'}`}
+                          >
+                            <span className={`mt-0.5 w-5 h-5 flex-shrink-0 rounded-full border text-xs flex items-center justify-center ${order >= 0 ? 'bg-purple-600 border-purple-600 text-white' : 'border-gray-300'}`}>
+                              {order >= 0 ? order + 1 : ''}
+                            </span>
+                            <span className="text-gray-800">{bullet}</span>
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
-        <div className="p-6 border-t border-gray-200 flex items-center justify-end gap-3">
-          <button
-            onClick={onClose}
-            className="flex items-center gap-1 px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
-          >
-            <X className="w-4 h-4" />
-            Decline
-          </button>
-          <button
-            onClick={onRegenerate}
-            disabled={isLoading}
-            className="flex items-center gap-1 px-4 py-2 text-purple-600 hover:text-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            <RotateCcw className="w-4 h-4" />
-            {isLoading ? 'Regenerating...' : 'Regenerate'}
-          </button>
-          <button
-            onClick={onAccept}
-            className="flex items-center gap-1 px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-700 transition-colors"
-          >
-            <Check className="w-4 h-4" />
-            Accept All
-          </button>
+        <div className="p-6 border-t border-gray-200 flex items-center justify-between gap-3">
+          <p className="text-sm text-gray-600">
+            {selected.length > 0
+              ? `${selected.length} ${selected.length === 1 ? 'bullet' : 'bullets'} picked, in the order shown`
+              : 'Pick bullets from any option, or use a whole set'}
+          </p>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onClose}
+              className="flex items-center gap-1 px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              <X className="w-4 h-4" />
+              Decline
+            </button>
+            <button
+              onClick={acceptSelected}
+              disabled={selected.length === 0}
+              className="flex items-center gap-1 px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Check className="w-4 h-4" />
+              Use Selected
+            </button>
+          </div>
         </div>
       </div>
     </div>
   );
 };
 
-export default AIDialog;
\ No newline at end of file
+export default AIDialog;
@@ -1,33 +1,57 @@
 "use client";
 
 import { Sparkles, X, RotateCcw, Check } from 'lucide-react';
+import { diffWords } from '@/lib/wordDiff';
 
 interface AISuggestionBoxProps {
-  suggestion: string;
+  original: string;
+  // Null while the first rewrite is still loading
+  suggestion: string | null;
+  isLoading?: boolean;
   onAccept: () => void;
   onDecline: () => void;
   onRegenerate: () => void;
   className?: string;
 }
 
+/**
+ * AI Suggestion Box Component
+ * Shows an AI rewrite of one bullet as a word-level diff against the original
+ * Removed words are struck through in red, added words highlighted in green
+ */
 const AISuggestionBox: React.FC<AISuggestionBoxProps> = ({
+  original,
   suggestion,
+  isLoading = false,
   onAccept,
   onDecline,
   onRegenerate,
   className = ""
 }) => {
+  const parts = suggestion !== null ? diffWords(original, suggestion) : [];
+  const isUnchanged = parts.every(part => part.type === 'equal');
+
   return (
-    <div className={`p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-3 ${className}`}>
+    <div className={`p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-2 ${className}`}>
       <div className="flex items-center gap-2">
         <Sparkles className="w-4 h-4 text-blue-600" />
-        <span className="text-sm font-medium text-blue-800">AI Suggestion</span>
+        <span className="text-sm font-medium text-blue-800">AI Rewrite</span>
       </div>
-      <p className="text-sm text-gray-700 leading-relaxed">
-        Here&apos;s an optimized description that includes more metrics and achievements:
-      </p>
-      <div className="p-3 bg-white border border-blue-200 rounded text-sm text-gray-800 leading-relaxed">
-        {suggestion}
+      <div className="p-3 bg-white border border-blue-200 rounded text-sm text-gray-800 leading-relaxed" aria-live="polite">
+        {suggestion === null ? (
+          <span className="text-gray-500">Rewriting this bullet...</span>
+        ) : isUnchanged ? (
+          <span className="text-gray-500">No changes suggested. Try regenerating.</span>
+        ) : (
+          parts.map((part, index) => (
+            <span key={index}>
+              {index > 0 && ' '}
+              {part.type === 'equal' && part.text}
+              {part.type === 'removed' && <del className="bg-red-50 text-red-700 line-through">{part.text}</del>}
+              {part.type === 'added' && <ins className="bg-green-100 text-green-800 no-underline">{part.text}</ins>}
+            </span>
+          ))
+        )}
       </div>
       <div className="flex items-center gap-2">
         <button
@@ -35,18 +59,20 @@ const AISuggestionBox: React.FC<AISuggestionBoxProps> = ({
           className="flex items-center gap-1 px-3 py-1.5 text-gray-600 hover:text-gray-800 text-sm transition-colors"
         >
           <X className="w-3 h-3" />
-          Decline
+          Reject
         </button>
         <button
           onClick={onRegenerate}
-          className="flex items-center gap-1 px-3 py-1.5 text-blue-600 hover:text-blue-800 text-sm transition-colors"
+          disabled={isLoading}
+          className="flex items-center gap-1 px-3 py-1.5 text-blue-600 hover:text-blue-800 text-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
-          <RotateCcw className="w-3 h-3" />
-          Regenerate
+          <RotateCcw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
+          {isLoading ? 'Regenerating...' : 'Regenerate'}
         </button>
         <button
           onClick={onAccept}
-          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition-colors"
+          disabled={isLoading || suggestion === null || isUnchanged}
+          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
           <Check className="w-3 h-3" />
           Accept
@@ -56,4 +82,4 @@ const AISuggestionBox: React.FC<AISuggestionBoxProps> = ({
   );
 };
 
-export default AISuggestionBox;
\ No newline at end of file
+export default AISuggestionBox;
@@ -0,0 +1,73 @@
+"use client";
+
+import { Sparkles, X, RotateCcw, Check } from 'lucide-react';
+
+interface AISummaryBoxProps {
+  drafts: string[];
+  isLoading?: boolean;
+  onAccept: (summary: string) => void;
+  onDecline: () => void;
+  onRegenerate: () => void;
+  className?: string;
+}
+
+/**
+ * AI Summary Box Component
+ * Lists AI-drafted professional summaries so one can be picked to replace the current summary
+ */
+const AISummaryBox: React.FC<AISummaryBoxProps> = ({
+  drafts,
+  isLoading = false,
+  onAccept,
+  onDecline,
+  onRegenerate,
+  className = ""
+}) => {
+  return (
+    <div className={`p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-3 ${className}`}>
+      <div className="flex items-center gap-2">
+        <Sparkles className="w-4 h-4 text-blue-600" />
+        <span className="text-sm font-medium text-blue-800">AI Summary Drafts</span>
+      </div>
+
+      {drafts.length === 0 ? (
+        <p className="text-sm text-gray-600">No drafts came back. Try regenerating.</p>
+      ) : (
+        <ul className="space-y-2">
+          {drafts.map((draft, index) => (
+            <li key={index} className="p-3 bg-white border border-blue-200 rounded space-y-2">
+              <p className="text-sm text-gray-800 leading-relaxed">{draft}</p>
+              <button
+                onClick={() => onAccept(draft)}
+                className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition-colors"
+              >
+                <Check className="w-3 h-3" />
+                Use this summary
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onDecline}
+          className="flex items-center gap-1 px-3 py-1.5 text-gray-600 hover:text-gray-800 text-sm transition-colors"
+        >
+          <X className="w-3 h-3" />
+          Decline
+        </button>
+        <button
+          onClick={onRegenerate}
+          disabled={isLoading}
+          className="flex items-center gap-1 px-3 py-1.5 text-blue-600 hover:text-blue-800 text-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <RotateCcw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
+          {isLoading ? 'Regenerating...' : 'Regenerate'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AISummaryBox;
@@ -0,0 +1,158 @@
+"use client";
+
+import { Trophy, Plus, Trash2 } from 'lucide-react';
+import { Achievement } from '@/types/resume';
+import FieldError from './FieldError';
+
+/**
+ * Achievements Form Component
+ * Manages dynamic list of achievements with add/remove functionality
+ * Provides form fields for achievement details including title, organization, date, and description
+ */
+const AchievementsForm: React.FC<{
+  data: Achievement[];
+  onChange: (data: Achievement[]) => void;
+}> = ({ data, onChange }) => {
+
+  /**
+   * Add new achievement to the list
+   * Creates a new achievement object with empty fields and appends to existing data
+   */
+  const addAchievement = () => {
+    const newAchievement: Achievement = {
+      title: '',
+      description: '',
+      date_achieved: '',
+      organization: ''
+    };
+    onChange([...data, newAchievement]);
+  };
+
+  /**
+   * Remove achievement from the list by index
+   * Filters out the achievement at the specified index and updates the data
+   */
+  const removeAchievement = (index: number) => {
+    const updatedData = data.filter((_, i) => i !== index);
+    onChange(updatedData);
+  };
+
+  /**
+   * Update specific field of an achievement
+   * Updates the achievement at the given index with new field value
+   * Uses immutable update pattern to maintain React state consistency
+   */
+  const updateAchievement = (index: number, field: keyof Achievement, value: string) => {
+    const updatedData = data.map((achievement, i) =>
+      i === index ? { ...achievement, [field]: value } : achievement
+    );
+    onChange(updatedData);
+  };
+
+  return (
+    <div className="space-y-4">
+
+      {/* Section header with icon, title, and add button */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {/* Trophy icon for visual identification */}
+          <Trophy className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold">Achievements</h3>
+        </div>
+
+        {/* Add achievement button with plus icon */}
+        <button
+          type="button"
+          onClick={addAchievement}
+          className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Achievement
+        </button>
+      </div>
+
+      {/* Dynamic list of achievement forms */}
+      {data.map((achievement, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-3">
+
+          {/* Individual achievement header with remove button */}
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-gray-800">Achievement {index + 1}</h4>
+
+            {/* Remove achievement button with trash icon */}
+            <button
+              type="button"
+              onClick={() => removeAchievement(index)}
+              className="text-red-600 hover:text-red-700 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <FieldError path={`achievements.${index}`} />
+
+          {/* Achievement form fields in responsive grid layout */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+
+            {/* Title field - required field */}
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Title *
+              </label>
+              <input
+                type="text"
+                placeholder="First place, National Hackathon"
+                value={achievement.title}
+                onChange={(e) => updateAchievement(index, 'title', e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
+              />
+              <FieldError path={`achievements.${index}.title`} />
+            </div>
+
+            {/* Organization field - optional awarding body */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Organization
+              </label>
+              <input
+                type="text"
+                placeholder="Smart India Hackathon"
+                value={achievement.organization}
+                onChange={(e) => updateAchievement(index, 'organization', e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
+              />
+            </div>
+
+            {/* Date Achieved field - optional date picker */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Date Achieved
+              </label>
+              <input
+                type="date"
+                value={achievement.date_achieved}
+                onChange={(e) => updateAchievement(index, 'date_achieved', e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
+              />
+            </div>
+          </div>
+
+          {/* Description field - full width textarea for detailed information */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Description
+            </label>
+            <textarea
+              placeholder="What you achieved and why it matters..."
+              value={achievement.description}
+              onChange={(e) => updateAchievement(index, 'description', e.target.value)}
+              rows={3}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AchievementsForm;
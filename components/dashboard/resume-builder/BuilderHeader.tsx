@@ -1,52 +1,170 @@
 "use client";
 
-import { Save, Download, RefreshCw } from 'lucide-react';
+import { Save, Download, RefreshCw, LayoutTemplate, ChevronDown, Check, Undo2, Redo2, CloudCheck, CloudUpload, CircleDot, AlertCircle, FileText, FileType, FileCode, FileJson, Copy } from 'lucide-react';
 import { useDashboard } from '@/context/DashboardContext';
-import ReactToPdf from 'react-to-pdf';
+import { useToast } from '@/context/ToastContext';
 import { useState } from 'react';
+import { ResumeData, ResumeTemplateId } from '@/types/resume';
+import { RESUME_TEMPLATES, ResumeTemplateDefinition } from './templates';
+import { AutosaveStatus } from '@/lib/useAutosave';
+import { PageFitSettings } from '@/lib/usePageFit';
+import { downloadResumePdf } from '@/lib/resumePdf';
+import { downloadResumeDocx } from '@/lib/resumeDocx';
+import { downloadJsonResume } from '@/lib/jsonResume';
+import UnmappedFieldsDialog from './UnmappedFieldsDialog';
+import { downloadResumeText, downloadResumeMarkdown, copyResumeText, copyResumeMarkdown } from '@/lib/resumeText';
+
+// Label, icon and color for each autosave state shown next to the save button
+const SAVE_STATUS_DISPLAY: Record<AutosaveStatus, { label: string; icon: React.ReactNode; className: string }> = {
+    saved: { label: 'Saved', icon: <CloudCheck size={16} />, className: 'text-green-600' },
+    saving: { label: 'Saving...', icon: <CloudUpload size={16} className="animate-pulse" />, className: 'text-gray-500' },
+    unsaved: { label: 'Unsaved changes', icon: <CircleDot size={16} />, className: 'text-amber-600' },
+    error: { label: 'Save failed', icon: <AlertCircle size={16} />, className: 'text-red-600' },
+    conflict: { label: 'Save conflict', icon: <AlertCircle size={16} />, className: 'text-red-600' },
+};
+
+// Shown instead of "Unsaved changes" while validation errors hold back saving
+const BLOCKED_STATUS_DISPLAY = { label: 'Fix errors to save', icon: <AlertCircle size={16} />, className: 'text-red-600' };
+
+// Formats offered in the export menu, all generated in the browser from ResumeData
+const EXPORT_OPTIONS: {
+    id: string;
+    label: string;
+    description: string;
+    icon: React.ReactNode;
+    // Clipboard actions confirm with a "Copied" label instead of a file download
+    isCopy?: boolean;
+    // May return fields the format could not hold, which are reported to the user; only paged formats use the fit settings
+    run: (data: ResumeData, template: ResumeTemplateDefinition, fit: PageFitSettings) => void | string[] | Promise<void>;
+}[] = [
+    {
+        id: 'pdf',
+        label: 'Download PDF',
+        description: 'Selectable text, best for online applications',
+        icon: <FileText size={16} />,
+        run: downloadResumePdf,
+    },
+    {
+        id: 'docx',
+        label: 'Download .docx',
+        description: 'Editable Word document',
+        icon: <FileType size={16} />,
+        run: downloadResumeDocx,
+    },
+    {
+        id: 'txt',
+        label: 'Download .txt',
+        description: 'Plain text for job-portal text boxes',
+        icon: <FileText size={16} />,
+        run: downloadResumeText,
+    },
+    {
+        id: 'md',
+        label: 'Download .md',
+        description: 'Markdown, easy to keep in git',
+        icon: <FileCode size={16} />,
+        run: downloadResumeMarkdown,
+    },
+    {
+        id: 'json',
+        label: 'Download JSON Resume',
+        description: 'Open jsonresume.org format',
+        icon: <FileJson size={16} />,
+        run: downloadJsonResume,
+    },
+    {
+        id: 'copy-txt',
+        label: 'Copy as plain text',
+        description: 'Paste straight into an application form',
+        icon: <Copy size={16} />,
+        isCopy: true,
+        run: copyResumeText,
+    },
+    {
+        id: 'copy-md',
+        label: 'Copy as Markdown',
+        description: 'Paste into a README or notes',
+        icon: <Copy size={16} />,
+        isCopy: true,
+        run: copyResumeMarkdown,
+    },
+];
 
 const BuilderHeader: React.FC<{
     score: number;
-    onSave: () => void;
+    templateId: ResumeTemplateId;
+    onTemplateChange: (templateId: ResumeTemplateId) => void;
+    onUndo: () => void;
+    onRedo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    saveStatus: AutosaveStatus;
+    onSave: () => Promise<void>;
     onRefresh: () => void;
-}> = ({ score, onSave, onRefresh }) => {
+}> = ({ score, templateId, onTemplateChange, onUndo, onRedo, canUndo, canRedo, saveStatus, onSave, onRefresh }) => {
 
-    const { resumeRef } = useDashboard();
+    const { resumeData, resumeValidation, pageFit } = useDashboard();
+    const toast = useToast();
     const [isRefreshing, setIsRefreshing] = useState(false);
-    const [isSaving, setIsSaving] = useState(false);
-
-    const handleDownloadPdf = async () => {
-        if (resumeRef?.current) {
-            try {
-                await ReactToPdf(resumeRef, {
-                    filename: 'resume.pdf',
-                    page: {
-                        margin: 5,
-                        format: 'a4',
-                    },
-                    canvas: {
-                        mimeType: 'image/png',
-                        qualityRatio: 1,
-                    },
-                });
-            } catch (error) {
-                console.error('Error generating PDF:', error);
+    const [isTemplateMenuOpen, setIsTemplateMenuOpen] = useState(false);
+    const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [hasCopied, setHasCopied] = useState(false);
+    const [unmappedExportFields, setUnmappedExportFields] = useState<string[]>([]);
+
+    const activeTemplate = RESUME_TEMPLATES.find(template => template.id === templateId) ?? RESUME_TEMPLATES[0];
+
+    const handleTemplateSelect = (id: ResumeTemplateId) => {
+        onTemplateChange(id);
+        setIsTemplateMenuOpen(false);
+    };
+
+    const handleExport = async (option: typeof EXPORT_OPTIONS[number]) => {
+        if (resumeValidation.hasErrors) return;
+        setIsExportMenuOpen(false);
+        setIsExporting(true);
+        // Clipboard actions finish instantly and confirm on the button instead
+        const progressId = option.isCopy ? null : toast.progress('Preparing your file...', { title: option.label });
+        try {
+            // Rendered from the data rather than the preview DOM so text stays selectable and ATS-readable
+            const unmapped = await option.run(resumeData, activeTemplate, pageFit);
+            if (Array.isArray(unmapped) && unmapped.length > 0) {
+                setUnmappedExportFields(unmapped);
+            }
+            if (option.isCopy) {
+                setHasCopied(true);
+                setTimeout(() => setHasCopied(false), 2000);
+            }
+            if (progressId) {
+                toast.update(progressId, 'success', 'Your resume has been downloaded.', { title: option.label });
             }
+        } catch (error) {
+            console.error(`Error exporting resume (${option.id}):`, error);
+            const failure = {
+                title: option.isCopy ? 'Copy failed' : 'Export failed',
+                action: { label: 'Retry', onClick: () => handleExport(option) },
+            };
+            const message = error instanceof Error ? error.message : 'The file could not be created.';
+            if (progressId) {
+                toast.update(progressId, 'error', message, failure);
+            } else {
+                toast.error(message, failure);
+            }
+        } finally {
+            setIsExporting(false);
         }
     };
 
+    const isSaving = saveStatus === 'saving';
+    const isSaveBlocked = resumeValidation.hasErrors;
+    const statusDisplay = isSaveBlocked && saveStatus === 'unsaved' ? BLOCKED_STATUS_DISPLAY : SAVE_STATUS_DISPLAY[saveStatus];
+    const blockedMessage = `Fix ${resumeValidation.errorCount} ${resumeValidation.errorCount === 1 ? 'error' : 'errors'} in the resume first`;
+
     const handleSave = async () => {
-        setIsSaving(true);
         try {
-            // Simulate save operation
-            await new Promise(resolve => setTimeout(resolve, 1500));
-
-            // Call the actual save function
-            onSave();
+            await onSave();
         } catch (error) {
             console.error('Error saving resume:', error);
-        } finally {
-            setIsSaving(false);
         }
     };
 
@@ -125,30 +243,148 @@ const BuilderHeader: React.FC<{
                         </div>
                     </div>
 
+                    {/* History Controls */}
+                    <div className="flex items-center justify-center border border-gray-300 rounded-lg overflow-hidden">
+                        <button
+                            onClick={onUndo}
+                            disabled={!canUndo}
+                            className="p-2.5 text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                            aria-label="Undo"
+                            title="Undo (Ctrl+Z)"
+                        >
+                            <Undo2 size={16} />
+                        </button>
+                        <button
+                            onClick={onRedo}
+                            disabled={!canRedo}
+                            className="p-2.5 text-gray-700 border-l border-gray-300 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                            aria-label="Redo"
+                            title="Redo (Ctrl+Shift+Z)"
+                        >
+                            <Redo2 size={16} />
+                        </button>
+                    </div>
+
+                    {/* Template Picker */}
+                    <div className="relative">
+                        <button
+                            onClick={() => setIsTemplateMenuOpen(open => !open)}
+                            className="w-full flex items-center justify-center space-x-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-300"
+                            aria-haspopup="listbox"
+                            aria-expanded={isTemplateMenuOpen}
+                            aria-label="Choose resume template"
+                        >
+                            <LayoutTemplate size={16} />
+                            <span className="text-sm sm:text-base">{activeTemplate.name}</span>
+                            <ChevronDown size={16} className={`transition-transform ${isTemplateMenuOpen ? 'rotate-180' : ''}`} />
+                        </button>
+
+                        {isTemplateMenuOpen && (
+                            <ul
+                                role="listbox"
+                                className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1"
+                            >
+                                {RESUME_TEMPLATES.map(template => (
+                                    <li key={template.id}>
+                                        <button
+                                            role="option"
+                                            aria-selected={template.id === activeTemplate.id}
+                                            onClick={() => handleTemplateSelect(template.id)}
+                                            className={`w-full flex items-start gap-2 px-3 py-2 text-left hover:bg-gray-50 transition-colors ${template.id === activeTemplate.id ? 'bg-blue-50' : ''}`}
+                                        >
+                                            <Check size={16} className={`mt-0.5 flex-shrink-0 text-blue-600 ${template.id === activeTemplate.id ? '' : 'invisible'}`} />
+                                            <span>
+                                                <span className="block text-sm font-medium text-gray-900">{template.name}</span>
+                                                <span className="block text-xs text-gray-500">{template.description}</span>
+                                            </span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    {/* Save Status Indicator */}
+                    <div
+                        className={`flex items-center justify-center gap-1.5 text-sm font-medium whitespace-nowrap ${statusDisplay.className}`}
+                        role="status"
+                        aria-live="polite"
+                    >
+                        {statusDisplay.icon}
+                        <span>{statusDisplay.label}</span>
+                    </div>
+
                     {/* Action Buttons */}
                     <div className="flex justify-between gap-2 sm:gap-2">
                         <button
                             onClick={handleSave}
-                            disabled={isSaving}
-                            className={`flex items-center justify-center space-x-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-300 ${isSaving ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+                            disabled={isSaving || isSaveBlocked}
+                            className={`flex items-center justify-center space-x-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-300 ${isSaving || isSaveBlocked ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
                                 }`}
                             aria-label={isSaving ? 'Saving resume...' : 'Save resume'}
+                            title={isSaveBlocked ? blockedMessage : undefined}
                         >
                             <Save size={16} className={isSaving ? 'animate-pulse' : ''} />
                             <span className="text-sm sm:text-base">{isSaving ? 'Saving...' : 'Save'}</span>
                         </button>
 
-                        <button
-                            onClick={handleDownloadPdf}
-                            className="flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 active:bg-blue-800 transition-colors duration-300"
-                            aria-label="Download resume as PDF"
-                        >
-                            <Download className="w-4 h-4" />
-                            <span className="text-sm sm:text-base">Download PDF</span>
-                        </button>
+                        <div className="relative">
+                            <button
+                                onClick={() => setIsExportMenuOpen(open => !open)}
+                                disabled={isExporting}
+                                className={`w-full flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 active:bg-blue-800 transition-colors duration-300 ${isExporting ? 'opacity-50 cursor-not-allowed' : ''}`}
+                                aria-haspopup="menu"
+                                aria-expanded={isExportMenuOpen}
+                                aria-label="Download resume"
+                            >
+                                {hasCopied ? <Check className="w-4 h-4" /> : <Download className={`w-4 h-4 ${isExporting ? 'animate-pulse' : ''}`} />}
+                                <span className="text-sm sm:text-base">{isExporting ? 'Exporting...' : hasCopied ? 'Copied' : 'Download'}</span>
+                                <ChevronDown size={16} className={`transition-transform ${isExportMenuOpen ? 'rotate-180' : ''}`} />
+                            </button>
+
+                            {isExportMenuOpen && (
+                                <ul
+                                    role="menu"
+                                    className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1"
+                                >
+                                    {/* Exports are held back until hard validation errors are fixed */}
+                                    {isSaveBlocked && (
+                                        <li role="presentation" className="flex items-start gap-2 mx-2 my-1 p-2 bg-red-50 rounded text-xs text-red-700">
+                                            <AlertCircle size={14} className="mt-0.5 flex-shrink-0" />
+                                            <span>{blockedMessage}. The list above the form shows what to fix.</span>
+                                        </li>
+                                    )}
+                                    {EXPORT_OPTIONS.map(option => (
+                                        <li key={option.id}>
+                                            <button
+                                                role="menuitem"
+                                                onClick={() => handleExport(option)}
+                                                disabled={isSaveBlocked}
+                                                className="w-full flex items-start gap-2 px-3 py-2 text-left hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-white"
+                                            >
+                                                <span className="mt-0.5 flex-shrink-0 text-blue-600">{option.icon}</span>
+                                                <span>
+                                                    <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                                                    <span className="block text-xs text-gray-500">{option.description}</span>
+                                                </span>
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
                     </div>
                 </div>
             </div>
+
+            {/* Fields the JSON Resume export had no place for */}
+            <UnmappedFieldsDialog
+                isOpen={unmappedExportFields.length > 0}
+                title="Some fields were not exported"
+                message="JSON Resume has no counterpart for these fields, so they are missing from the downloaded file:"
+                fields={unmappedExportFields}
+                onClose={() => setUnmappedExportFields([])}
+            />
         </div>
     )
 };
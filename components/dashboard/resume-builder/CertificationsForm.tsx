@@ -2,6 +2,7 @@
 
 import { Award, Plus, Trash2 } from 'lucide-react';
 import { Certification } from '@/types/resume';
+import FieldError from './FieldError';
 
 /**
  * Certifications Form Component
@@ -88,6 +89,7 @@ const CertificationsForm: React.FC<{
               <Trash2 className="w-4 h-4" />
             </button>
           </div>
+          <FieldError path={`certifications.${index}`} />
 
           {/* Certification form fields in responsive grid layout */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
@@ -104,6 +106,7 @@ const CertificationsForm: React.FC<{
                 onChange={(e) => updateCertification(index, 'certification_name', e.target.value)}
                 className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={`certifications.${index}.certification_name`} />
             </div>
 
             {/* Issuing Organization field - required field */}
@@ -118,6 +121,7 @@ const CertificationsForm: React.FC<{
                 onChange={(e) => updateCertification(index, 'issuing_organisation', e.target.value)}
                 className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={`certifications.${index}.issuing_organisation`} />
             </div>
 
             {/* Date Issued field - optional date picker */}
@@ -0,0 +1,135 @@
+"use client";
+
+import { AlertCircle } from 'lucide-react';
+import { DateRange } from '@/types/resume';
+import { MONTH_NAMES, PRESENT, isPresent, parseResumeDate, toResumeDate, getDateRangeError } from '@/lib/resumeDates';
+
+const CURRENT_YEAR = new Date().getFullYear();
+// Newest first, with a few future years for expected graduation dates
+const YEARS = Array.from({ length: 67 }, (_, i) => CURRENT_YEAR + 6 - i);
+
+const selectClassName = 'w-full p-2 border border-gray-300 rounded-lg bg-white focus:ring-1 focus:outline-none transition-colors disabled:bg-gray-50 disabled:text-gray-400';
+
+/**
+ * Month Year Select Component
+ * Month and year dropdowns for one stored date; the month may be left blank for a year-only date
+ */
+const MonthYearSelect: React.FC<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ label, value, onChange }) => {
+  const date = parseResumeDate(value);
+  // Text saved before the picker existed that couldn't be read as a date
+  const legacyText = !date && value.trim() && !isPresent(value) ? value.trim() : '';
+  const years = date && !YEARS.includes(date.year) ? [date.year, ...YEARS] : YEARS;
+
+  /**
+   * Update the month, defaulting the year to this year when none is picked yet
+   */
+  const updateMonth = (month: string) => {
+    onChange(toResumeDate({ year: date?.year ?? CURRENT_YEAR, month: month ? Number(month) : null }));
+  };
+
+  /**
+   * Update the year, clearing the date when the year is cleared
+   */
+  const updateYear = (year: string) => {
+    onChange(year ? toResumeDate({ year: Number(year), month: date?.month ?? null }) : '');
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          aria-label={`${label} month`}
+          value={date?.month ?? ''}
+          onChange={(e) => updateMonth(e.target.value)}
+          className={selectClassName}
+        >
+          <option value="">Month</option>
+          {MONTH_NAMES.map((name, index) => (
+            <option key={name} value={index + 1}>{name}</option>
+          ))}
+        </select>
+        <select
+          aria-label={`${label} year`}
+          value={date?.year ?? ''}
+          onChange={(e) => updateYear(e.target.value)}
+          className={selectClassName}
+        >
+          <option value="">Year</option>
+          {years.map(year => (
+            <option key={year} value={year}>{year}</option>
+          ))}
+        </select>
+      </div>
+      {legacyText && (
+        <p className="mt-1 text-xs text-amber-600">Previously entered as &quot;{legacyText}&quot;. Pick a month and year to replace it.</p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Date Range Picker Component
+ * Shared start/end month pickers for resume entries with a toggle for ongoing entries
+ * Shows an inline error when the range is invalid, such as an end date before the start
+ */
+const DateRangePicker: React.FC<{
+  value: DateRange;
+  onChange: (value: DateRange) => void;
+  presentLabel: string;
+}> = ({ value, onChange, presentLabel }) => {
+  const isOngoing = isPresent(value.end);
+  const error = getDateRangeError(value);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <MonthYearSelect
+          label="Start Date"
+          value={value.start}
+          onChange={(start) => onChange({ ...value, start })}
+        />
+        {isOngoing ? (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              End Date
+            </label>
+            <p className="p-2 border border-gray-200 rounded-lg bg-gray-50 text-gray-500">{PRESENT}</p>
+          </div>
+        ) : (
+          <MonthYearSelect
+            label="End Date"
+            value={value.end}
+            onChange={(end) => onChange({ ...value, end })}
+          />
+        )}
+      </div>
+
+      {/* Ongoing toggle - stores "Present" as the end date */}
+      <label className="inline-flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={isOngoing}
+          onChange={(e) => onChange({ ...value, end: e.target.checked ? PRESENT : '' })}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        {presentLabel}
+      </label>
+
+      {error && (
+        <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DateRangePicker;
@@ -1,12 +1,17 @@
 "use client";
 
-import { GraduationCap, Plus, Trash2 } from 'lucide-react';
-import { Education } from '@/types/resume';
+import { GraduationCap, Plus, Trash2, CalendarArrowDown } from 'lucide-react';
+import { Education, DateRange } from '@/types/resume';
 import React from 'react';
+import ReorderControls from './ReorderControls';
+import DateRangePicker from './DateRangePicker';
+import { useReorderableList, moveItem } from '@/lib/useReorderableList';
+import { getDateOrder } from '@/lib/resumeDates';
+import FieldError from './FieldError';
 
 /**
  * Education Form Component
- * Manages dynamic list of education entries with add/remove functionality
+ * Manages dynamic list of education entries with add/remove and drag-and-drop reorder functionality
  * Provides form fields for education details including institute, degree, dates, and coursework
  */
 const EducationForm: React.FC<{
@@ -43,6 +48,22 @@ const EducationForm: React.FC<{
     onChange(updatedData);
   };
 
+  /**
+   * Move education entry to a new position in the list
+   */
+  const moveEducation = (from: number, to: number) => {
+    onChange(moveItem(data, from, to));
+  };
+
+  const reorder = useReorderableList(data.length, moveEducation, 'education');
+
+  /**
+   * Sort education entries by date, most recent first
+   */
+  const sortEducationByDate = () => {
+    onChange(getDateOrder(data).map(index => data[index]));
+  };
+
   /**
    * Update specific field of an education entry
    * Updates the education at the given index with new field value
@@ -61,25 +82,18 @@ const EducationForm: React.FC<{
 
   /**
    * Update date fields for education entry
-   * Handles nested date object updates for start and end dates
-   * Maintains immutability while updating nested object properties
+   * Replaces the start/end pair picked in the date range picker
    */
-  const updateEducationDates = (index: number, dateField: keyof Education['date'], value: string) => {
+  const updateEducationDates = (index: number, date: DateRange) => {
     const updatedData = [...data];
-    updatedData[index] = {
-      ...updatedData[index],
-      date: {
-        ...updatedData[index].date,
-        [dateField]: value
-      }
-    };
+    updatedData[index] = { ...updatedData[index], date };
     onChange(updatedData);
   };
 
   return (
     <div className="space-y-4">
 
-      {/* Section header with icon, title, and add button */}
+      {/* Section header with icon, title, sort and add buttons */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
           {/* GraduationCap icon for visual identification */}
@@ -87,24 +101,51 @@ const EducationForm: React.FC<{
           <h3 className="text-lg font-semibold">Education</h3>
         </div>
         
-        {/* Add education button with plus icon */}
-        <button
-          type="button"
-          onClick={addEducation}
-          className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          Add Education
-        </button>
+        <div className="flex items-center gap-2">
+          {/* Sort by date button - most recent first */}
+          <button
+            type="button"
+            onClick={sortEducationByDate}
+            disabled={data.length < 2}
+            title="Most recent first"
+            className="flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <CalendarArrowDown className="w-4 h-4" />
+            Sort by Date
+          </button>
+
+          {/* Add education button with plus icon */}
+          <button
+            type="button"
+            onClick={addEducation}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Education
+          </button>
+        </div>
       </div>
 
       {/* Dynamic list of education forms */}
       {data.map((edu, index) => (
-        <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-3">
+        <div
+          key={index}
+          {...reorder.getItemProps(index)}
+          className={`border rounded-lg p-4 space-y-3 transition-colors ${reorder.dropIndex === index && reorder.draggedIndex !== index ? 'border-blue-400 bg-blue-50/40' : 'border-gray-200'} ${reorder.draggedIndex === index ? 'opacity-50' : ''}`}
+        >
           
-          {/* Individual education header with remove button */}
+          {/* Individual education header with reorder controls and remove button */}
           <div className="flex items-center justify-between">
-            <h4 className="font-medium text-gray-800">Education {index + 1}</h4>
+            <div className="flex items-center gap-2">
+              <ReorderControls
+                index={index}
+                count={data.length}
+                handleProps={reorder.getHandleProps(index)}
+                onMoveUp={() => reorder.moveUp(index)}
+                onMoveDown={() => reorder.moveDown(index)}
+              />
+              <h4 className="font-medium text-gray-800">Education {index + 1}</h4>
+            </div>
             
             {/* Remove education button with trash icon */}
             <button
@@ -115,6 +156,7 @@ const EducationForm: React.FC<{
               <Trash2 className="w-4 h-4" />
             </button>
           </div>
+          <FieldError path={`educations.${index}`} />
 
           {/* Education form fields in responsive grid layout */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
@@ -131,6 +173,7 @@ const EducationForm: React.FC<{
                 onChange={(e) => updateEducation(index, 'institute_name', e.target.value)}
                 className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={`educations.${index}.institute_name`} />
             </div>
 
             {/* Degree field - required field */}
@@ -145,6 +188,7 @@ const EducationForm: React.FC<{
                 onChange={(e) => updateEducation(index, 'degree', e.target.value)}
                 className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={`educations.${index}.degree`} />
             </div>
 
             {/* Specialization field - optional field for major/field of study */}
@@ -175,31 +219,12 @@ const EducationForm: React.FC<{
               />
             </div>
 
-            {/* Start Date field - education commencement date */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Start Date
-              </label>
-              <input
-                type="text"
-                placeholder="MM YYYY"
-                value={edu.date.start}
-                onChange={(e) => updateEducationDates(index, 'start', e.target.value)}
-                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
-              />
-            </div>
-
-            {/* End Date field - education completion date */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                End Date
-              </label>
-              <input
-                type="text"
-                placeholder="MM YYYY"
-                value={edu.date.end}
-                onChange={(e) => updateEducationDates(index, 'end', e.target.value)}
-                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
+            {/* Start and end dates - month/year pickers spanning the full row */}
+            <div className="md:col-span-2">
+              <DateRangePicker
+                value={edu.date}
+                onChange={(date) => updateEducationDates(index, date)}
+                presentLabel="I currently study here"
               />
             </div>
           </div>
@@ -1,16 +1,25 @@
 // ExperienceForm.tsx
 "use client";
 
-import { Plus, Trash2, Sparkles, Briefcase, AlertCircle } from 'lucide-react';
+import { Plus, Trash2, Sparkles, Briefcase, CalendarArrowDown, Wand2 } from 'lucide-react';
 import { useState } from 'react';
-import { WorkExperience, LoadingStates, AISuggestions, AIDialogState } from '@/types/resume';
-import { generateExperienceResponsibilities } from '@/services/aiService';
-import AISuggestionBox from './AISuggestionBox';
+import { WorkExperience, DateRange, LoadingStates, AIDialogState, AISuggestionOptions } from '@/types/resume';
+import { generateExperienceResponsibilities, improveBulletPoint, DEFAULT_AI_SUGGESTION_OPTIONS } from '@/services/aiService';
 import AIDialog from './AIDialog';
+import AISuggestionBox from './AISuggestionBox';
+import ReorderControls from './ReorderControls';
+import DateRangePicker from './DateRangePicker';
+import { useReorderableList, moveItem, reindexRecord, permuteRecord } from '@/lib/useReorderableList';
+import { getDateOrder } from '@/lib/resumeDates';
+import FieldError from './FieldError';
+import { useDashboard } from '@/context/DashboardContext';
+import { getEntryIssues } from '@/lib/resumeValidation';
+import { useBulletRewrite } from '@/lib/useBulletRewrite';
+import { useToast } from '@/context/ToastContext';
 
 /**
  * Experience Form Component
- * Manages dynamic list of work experiences with add/remove functionality
+ * Manages dynamic list of work experiences with add/remove and drag-and-drop reorder functionality
  * Provides form fields for experience details including company, job title, dates, and bullet points
  * Includes AI-powered suggestion generation with validation requirements
  */
@@ -19,15 +28,20 @@ interface ExperienceFormProps {
   onChange: (data: WorkExperience[]) => void;
 }
 
+// Fields the AI needs before it can write bullet points
+const AI_FIELDS = ['company_name', 'job_title'];
+
 const ExperienceForm: React.FC<ExperienceFormProps> = ({ data, onChange }) => {
-  const [aiSuggestions, setAiSuggestions] = useState<AISuggestions>({});
   const [loadingStates, setLoadingStates] = useState<LoadingStates>({});
-  const [validationErrors, setValidationErrors] = useState<{ [key: number]: string }>({});
+  const { resumeValidation } = useDashboard();
   const [dialogState, setDialogState] = useState<AIDialogState>({
     isOpen: false,
     projectId: null,
-    suggestions: []
+    variants: []
   });
+  const [aiOptions, setAiOptions] = useState<AISuggestionOptions>(DEFAULT_AI_SUGGESTION_OPTIONS);
+  const bulletRewrite = useBulletRewrite();
+  const toast = useToast();
 
   /**
    * Add new experience to the list
@@ -52,49 +66,40 @@ const ExperienceForm: React.FC<ExperienceFormProps> = ({ data, onChange }) => {
    * Updates the experience at the given index with new field value
    * Uses immutable update pattern to maintain React state consistency
    */
-  const updateExperience = (index: number, field: keyof WorkExperience, value: string | string[] | { start: string; end: string }): void => {
+  const updateExperience = (index: number, field: keyof WorkExperience, value: string | string[] | DateRange): void => {
     const newData = [...data];
     newData[index] = { ...newData[index], [field]: value };
     onChange(newData);
-    
-    // Clear validation error when user starts typing
-    if (validationErrors[index]) {
-      setValidationErrors(prev => {
-        const newErrors = { ...prev };
-        delete newErrors[index];
-        return newErrors;
-      });
-    }
   };
 
   /**
-   * Update experience date fields
-   * Updates the specific date field (start or end) for the experience at given index
+   * Move experience to a new position in the list
+   * Per-index loading flags follow the moved experience
    */
-  const updateDateField = (index: number, dateField: 'start' | 'end', value: string): void => {
-    const experience = data[index];
-    if (experience) {
-      const newDate = { ...experience.date, [dateField]: value };
-      updateExperience(index, 'date', newDate);
-    }
+  const moveExperience = (from: number, to: number): void => {
+    onChange(moveItem(data, from, to));
+    setLoadingStates(prev => reindexRecord(prev, from, to));
+  };
+
+  const reorder = useReorderableList(data.length, moveExperience, 'experience');
+
+  /**
+   * Sort experiences by date, most recent first
+   * Per-index loading flags follow their experience
+   */
+  const sortExperiencesByDate = (): void => {
+    const order = getDateOrder(data);
+    onChange(order.map(index => data[index]));
+    setLoadingStates(prev => permuteRecord(prev, order));
   };
 
   /**
    * Remove experience from the list by index
-   * Filters out the experience at the specified index and cleans up related state
+   * Filters out the experience at the specified index
    */
   const removeExperience = (index: number): void => {
     const newData = data.filter((_, i) => i !== index);
     onChange(newData);
-    
-    // Clean up AI suggestions and validation errors for removed experience
-    const newSuggestions = { ...aiSuggestions };
-    delete newSuggestions[index.toString()];
-    setAiSuggestions(newSuggestions);
-    
-    const newErrors = { ...validationErrors };
-    delete newErrors[index];
-    setValidationErrors(newErrors);
   };
 
   /**
@@ -134,110 +139,72 @@ const ExperienceForm: React.FC<ExperienceFormProps> = ({ data, onChange }) => {
   };
 
   /**
-   * Validate experience fields before AI generation
-   * Checks if company name and job title are filled
-   * Returns validation error message if fields are missing
+   * Ask the AI to improve a single bullet point
+   * The rewrite is shown as a diff under the bullet until accepted or rejected
    */
-  const validateExperienceForAI = (experience: WorkExperience): string | null => {
-    const missingFields = [];
-    
-    if (!experience.company_name.trim()) {
-      missingFields.push('Company Name');
-    }
-    
-    if (!experience.job_title.trim()) {
-      missingFields.push('Job Title');
-    }
-    
-    if (missingFields.length > 0) {
-      return `Please fill in the following fields first: ${missingFields.join(', ')}`;
-    }
-    
-    return null;
+  const improveBullet = (experienceIndex: number, bulletIndex: number): void => {
+    const experience = data[experienceIndex];
+    const bullet = experience?.bullet_points[bulletIndex];
+    if (!experience || !bullet?.trim()) return;
+
+    const heading = [experience.job_title, experience.company_name].filter(Boolean).join(' at ');
+    bulletRewrite.requestRewrite(experienceIndex, bulletIndex, bullet, text =>
+      improveBulletPoint(text, { section: 'experience', heading }, aiOptions.tone)
+    );
+  };
+
+  /**
+   * Accept the AI rewrite of a single bullet point
+   */
+  const acceptBulletRewrite = (experienceIndex: number, bulletIndex: number, rewrite: string): void => {
+    updateBulletPoint(experienceIndex, bulletIndex, rewrite);
+    bulletRewrite.clearRewrite(experienceIndex, bulletIndex);
   };
 
   /**
    * Generate AI suggestions for experience bullet points
-   * Validates required fields before making API call
-   * Handles both single and multiple bullet point scenarios
+   * Checks the fields the AI needs before making API call
+   * Opens the comparison dialog with alternative sets in the chosen tone
    */
   const generateAISuggestion = async (experienceIndex: number): Promise<void> => {
     const experience = data[experienceIndex];
     if (!experience) return;
 
-    // Validate required fields
-    const validationError = validateExperienceForAI(experience);
-    if (validationError) {
-      setValidationErrors(prev => ({ ...prev, [experienceIndex]: validationError }));
+    // Required and recommended fields the AI needs, as reported by validateResume
+    const missing = getEntryIssues(resumeValidation, `work_experiences.${experienceIndex}`, AI_FIELDS);
+    if (missing.length > 0) {
+      toast.error(missing.map(issue => issue.message).join('. '), { title: 'Fill in the experience details first' });
       return;
     }
 
-    // Clear any existing validation errors
-    setValidationErrors(prev => {
-      const newErrors = { ...prev };
-      delete newErrors[experienceIndex];
-      return newErrors;
-    });
-
     setLoadingStates(prev => ({ ...prev, [experienceIndex]: true }));
 
     try {
-      const suggestions = await generateExperienceResponsibilities(experience);
-
-      if (experience.bullet_points.length === 1) {
-        // Single bullet point - show inline suggestion
-        setAiSuggestions(prev => ({ ...prev, [experienceIndex]: suggestions }));
-      } else {
-        // Multiple bullet points - show dialog
-        setDialogState({
-          isOpen: true,
-          projectId: experienceIndex,
-          suggestions: suggestions
-        });
-      }
+      const variants = await generateExperienceResponsibilities(experience, aiOptions);
+      setDialogState({
+        isOpen: true,
+        projectId: experienceIndex,
+        variants
+      });
     } catch (error) {
       console.error('Failed to generate AI suggestion:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not generate bullet points.', {
+        title: 'AI suggestions failed',
+        action: { label: 'Retry', onClick: () => generateAISuggestion(experienceIndex) },
+      });
     } finally {
       setLoadingStates(prev => ({ ...prev, [experienceIndex]: false }));
     }
   };
 
-  /**
-   * Accept AI suggestion and update experience bullet points
-   * Replaces current bullet points with AI-generated suggestions
-   */
-  const acceptAISuggestion = (experienceIndex: number): void => {
-    const suggestions = aiSuggestions[experienceIndex];
-    if (suggestions) {
-      updateExperience(experienceIndex, 'bullet_points', suggestions);
-      setAiSuggestions(prev => ({ ...prev, [experienceIndex]: null }));
-    }
-  };
-
-  /**
-   * Decline AI suggestion and clear suggestion state
-   * Removes the suggestion without applying changes
-   */
-  const declineAISuggestion = (experienceIndex: number): void => {
-    setAiSuggestions(prev => ({ ...prev, [experienceIndex]: null }));
-  };
-
-  /**
-   * Regenerate AI suggestion for the same experience
-   * Calls the AI generation function again with the same experience data
-   */
-  const regenerateAISuggestion = async (experienceIndex: number): Promise<void> => {
-    await generateAISuggestion(experienceIndex);
-  };
-
   /**
    * Handle dialog accept action
-   * Applies AI suggestions from dialog to the experience
+   * Applies the bullets picked in the dialog to the experience
    */
-  const acceptDialogSuggestions = (): void => {
+  const acceptDialogSuggestions = (bullets: string[]): void => {
     if (dialogState.projectId !== null) {
-      updateExperience(dialogState.projectId, 'bullet_points', dialogState.suggestions);
-      setDialogState({ isOpen: false, projectId: null, suggestions: [] });
+      updateExperience(dialogState.projectId, 'bullet_points', bullets);
+      setDialogState({ isOpen: false, projectId: null, variants: [] });
     }
   };
 
@@ -246,7 +213,7 @@ const ExperienceForm: React.FC<ExperienceFormProps> = ({ data, onChange }) => {
    * Closes the dialog without applying changes
    */
   const declineDialogSuggestions = (): void => {
-    setDialogState({ isOpen: false, projectId: null, suggestions: [] });
+    setDialogState({ isOpen: false, projectId: null, variants: [] });
   };
 
   /**
@@ -262,10 +229,14 @@ const ExperienceForm: React.FC<ExperienceFormProps> = ({ data, onChange }) => {
     setLoadingStates(prev => ({ ...prev, [dialogState.projectId!]: true }));
 
     try {
-      const suggestions = await generateExperienceResponsibilities(experience);
-      setDialogState(prev => ({ ...prev, suggestions }));
+      const variants = await generateExperienceResponsibilities(experience, aiOptions);
+      setDialogState(prev => ({ ...prev, variants }));
     } catch (error) {
       console.error('Failed to regenerate AI suggestions:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not generate bullet points.', {
+        title: 'AI suggestions failed',
+        action: { label: 'Retry', onClick: regenerateDialogSuggestions },
+      });
     } finally {
       setLoadingStates(prev => ({ ...prev, [dialogState.projectId!]: false }));
     }
@@ -275,7 +246,7 @@ const ExperienceForm: React.FC<ExperienceFormProps> = ({ data, onChange }) => {
     <>
       <div className="space-y-4">
         
-        {/* Section header with icon, title, and add button */}
+        {/* Section header with icon, title, sort and add buttons */}
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             {/* Briefcase icon for visual identification */}
@@ -283,23 +254,50 @@ const ExperienceForm: React.FC<ExperienceFormProps> = ({ data, onChange }) => {
             <h3 className="text-lg font-semibold">Experience</h3>
           </div>
           
-          {/* Add experience button with plus icon */}
-          <button
-            onClick={addExperience}
-            className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            Add Experience
-          </button>
+          <div className="flex items-center gap-2">
+            {/* Sort by date button - most recent first */}
+            <button
+              type="button"
+              onClick={sortExperiencesByDate}
+              disabled={data.length < 2}
+              title="Most recent first"
+              className="flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <CalendarArrowDown className="w-4 h-4" />
+              Sort by Date
+            </button>
+
+            {/* Add experience button with plus icon */}
+            <button
+              onClick={addExperience}
+              className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Experience
+            </button>
+          </div>
         </div>
 
         {/* Dynamic list of experience forms */}
         {data.map((experience, experienceIndex) => (
-          <div key={experienceIndex} className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <div
+            key={experienceIndex}
+            {...reorder.getItemProps(experienceIndex)}
+            className={`p-4 border rounded-lg space-y-3 transition-colors ${reorder.dropIndex === experienceIndex && reorder.draggedIndex !== experienceIndex ? 'border-blue-400 bg-blue-50/40' : 'border-gray-200'} ${reorder.draggedIndex === experienceIndex ? 'opacity-50' : ''}`}
+          >
             
-            {/* Individual experience header with remove button */}
+            {/* Individual experience header with reorder controls and remove button */}
             <div className="flex justify-between items-center">
-              <h4 className="font-medium text-gray-700">Experience {experienceIndex + 1}</h4>
+              <div className="flex items-center gap-2">
+                <ReorderControls
+                  index={experienceIndex}
+                  count={data.length}
+                  handleProps={reorder.getHandleProps(experienceIndex)}
+                  onMoveUp={() => reorder.moveUp(experienceIndex)}
+                  onMoveDown={() => reorder.moveDown(experienceIndex)}
+                />
+                <h4 className="font-medium text-gray-700">Experience {experienceIndex + 1}</h4>
+              </div>
               
               {/* Remove experience button with trash icon */}
               <button
@@ -309,6 +307,7 @@ const ExperienceForm: React.FC<ExperienceFormProps> = ({ data, onChange }) => {
                 <Trash2 className="w-4 h-4" />
               </button>
             </div>
+            <FieldError path={`work_experiences.${experienceIndex}`} />
 
             {/* Experience details in responsive grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
@@ -325,6 +324,7 @@ const ExperienceForm: React.FC<ExperienceFormProps> = ({ data, onChange }) => {
                   onChange={(e) => updateExperience(experienceIndex, 'company_name', e.target.value)}
                   className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
                 />
+                <FieldError path={`work_experiences.${experienceIndex}.company_name`} />
               </div>
               
               {/* Job Title field - required for AI generation */}
@@ -339,6 +339,7 @@ const ExperienceForm: React.FC<ExperienceFormProps> = ({ data, onChange }) => {
                   onChange={(e) => updateExperience(experienceIndex, 'job_title', e.target.value)}
                   className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
                 />
+                <FieldError path={`work_experiences.${experienceIndex}.job_title`} />
               </div>
               
               {/* Location field */}
@@ -355,32 +356,13 @@ const ExperienceForm: React.FC<ExperienceFormProps> = ({ data, onChange }) => {
                 />
               </div>
               
-              {/* Date fields */}
-              <div className="grid grid-cols-2 gap-2">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Start Date
-                  </label>
-                  <input
-                    type="text"
-                    placeholder="MM YYYY"
-                    value={experience.date.start}
-                    onChange={(e) => updateDateField(experienceIndex, 'start', e.target.value)}
-                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    End Date
-                  </label>
-                  <input
-                    type="text"
-                    placeholder="MM YYYY"
-                    value={experience.date.end}
-                    onChange={(e) => updateDateField(experienceIndex, 'end', e.target.value)}
-                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
-                  />
-                </div>
+              {/* Date fields - month/year pickers spanning the full row */}
+              <div className="md:col-span-2">
+                <DateRangePicker
+                  value={experience.date}
+                  onChange={(date) => updateExperience(experienceIndex, 'date', date)}
+                  presentLabel="I currently work here"
+                />
               </div>
             </div>
 
@@ -412,46 +394,55 @@ const ExperienceForm: React.FC<ExperienceFormProps> = ({ data, onChange }) => {
                 </div>
               </div>
 
-              {/* Validation error message */}
-              {validationErrors[experienceIndex] && (
-                <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
-                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
-                  <span>{validationErrors[experienceIndex]}</span>
-                </div>
-              )}
-
-              {/* AI Suggestion Box for single bullet point */}
-              {aiSuggestions[experienceIndex] && experience.bullet_points.length === 1 && (
-                <AISuggestionBox
-                  suggestion={aiSuggestions[experienceIndex]![0]}
-                  onAccept={() => acceptAISuggestion(experienceIndex)}
-                  onDecline={() => declineAISuggestion(experienceIndex)}
-                  onRegenerate={() => regenerateAISuggestion(experienceIndex)}
-                  className="mb-3"
-                />
-              )}
 
               {/* Dynamic bullet point inputs */}
-              {experience.bullet_points.map((bulletPoint, bulletIndex) => (
-                <div key={bulletIndex} className="flex gap-2">
-                  <textarea
-                    placeholder="Describe your responsibilities and achievements..."
-                    value={bulletPoint}
-                    onChange={(e) => updateBulletPoint(experienceIndex, bulletIndex, e.target.value)}
-                    className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors resize-none"
-                    rows={bulletPoint.length > 100 ? 3 : 2}
-                  />
-                  {/* Remove bullet point button - only show if more than one exists */}
-                  {experience.bullet_points.length > 1 && (
+              {experience.bullet_points.map((bulletPoint, bulletIndex) => {
+                const rewrite = bulletRewrite.getRewrite(experienceIndex, bulletIndex, bulletPoint);
+                return (
+                  <div key={bulletIndex} className="flex gap-2">
+                    <div className="flex-1">
+                      <textarea
+                        placeholder="Describe your responsibilities and achievements..."
+                        value={bulletPoint}
+                        onChange={(e) => updateBulletPoint(experienceIndex, bulletIndex, e.target.value)}
+                        className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors resize-none"
+                        rows={bulletPoint.length > 100 ? 3 : 2}
+                      />
+                      <FieldError path={`work_experiences.${experienceIndex}.bullet_points.${bulletIndex}`} />
+                      {rewrite && (
+                        <AISuggestionBox
+                          original={rewrite.original}
+                          suggestion={rewrite.rewrite}
+                          isLoading={rewrite.isLoading}
+                          onAccept={() => rewrite.rewrite && acceptBulletRewrite(experienceIndex, bulletIndex, rewrite.rewrite)}
+                          onDecline={() => bulletRewrite.clearRewrite(experienceIndex, bulletIndex)}
+                          onRegenerate={() => improveBullet(experienceIndex, bulletIndex)}
+                          className="mt-2"
+                        />
+                      )}
+                    </div>
+                    {/* Improve bullet point button - asks the AI to rewrite just this bullet */}
                     <button
-                      onClick={() => removeBulletPoint(experienceIndex, bulletIndex)}
-                      className="text-red-500 hover:text-red-700 transition-colors"
+                      onClick={() => improveBullet(experienceIndex, bulletIndex)}
+                      disabled={!bulletPoint.trim() || rewrite?.isLoading}
+                      className="text-purple-600 hover:text-purple-800 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                      title="Improve this bullet with AI"
+                      aria-label="Improve this bullet with AI"
                     >
-                      <Trash2 className="w-4 h-4" />
+                      <Wand2 className="w-4 h-4" />
                     </button>
-                  )}
-                </div>
-              ))}
+                    {/* Remove bullet point button - only show if more than one exists */}
+                    {experience.bullet_points.length > 1 && (
+                      <button
+                        onClick={() => removeBulletPoint(experienceIndex, bulletIndex)}
+                        className="text-red-500 hover:text-red-700 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </div>
         ))}
@@ -460,7 +451,9 @@ const ExperienceForm: React.FC<ExperienceFormProps> = ({ data, onChange }) => {
       {/* AI Dialog for multiple bullet points */}
       <AIDialog
         isOpen={dialogState.isOpen}
-        suggestions={dialogState.suggestions}
+        variants={dialogState.variants}
+        options={aiOptions}
+        onOptionsChange={setAiOptions}
         isLoading={dialogState.projectId !== null ? loadingStates[dialogState.projectId] || false : false}
         onClose={declineDialogSuggestions}
         onAccept={acceptDialogSuggestions}
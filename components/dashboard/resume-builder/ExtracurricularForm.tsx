@@ -1,16 +1,25 @@
 // ExtracurricularForm.tsx
 "use client";
 
-import { Plus, Trash2, Users, Sparkles, AlertCircle } from 'lucide-react';
+import { Plus, Trash2, Users, Sparkles, CalendarArrowDown, Wand2 } from 'lucide-react';
 import { useState } from 'react';
-import { Extracurricular, LoadingStates, AISuggestions, AIDialogState } from '@/types/resume';
-import { generateExtracurricularResponsibilities } from '@/services/aiService';
-import AISuggestionBox from './AISuggestionBox';
+import { Extracurricular, DateRange, LoadingStates, AIDialogState, AISuggestionOptions } from '@/types/resume';
+import { generateExtracurricularResponsibilities, improveBulletPoint, DEFAULT_AI_SUGGESTION_OPTIONS } from '@/services/aiService';
 import AIDialog from './AIDialog';
+import AISuggestionBox from './AISuggestionBox';
+import ReorderControls from './ReorderControls';
+import DateRangePicker from './DateRangePicker';
+import { useReorderableList, moveItem, reindexRecord, permuteRecord } from '@/lib/useReorderableList';
+import { getDateOrder } from '@/lib/resumeDates';
+import FieldError from './FieldError';
+import { useDashboard } from '@/context/DashboardContext';
+import { getEntryIssues } from '@/lib/resumeValidation';
+import { useBulletRewrite } from '@/lib/useBulletRewrite';
+import { useToast } from '@/context/ToastContext';
 
 /**
  * Extracurricular Activities Form Component
- * Manages dynamic list of extracurricular activities with add/remove functionality
+ * Manages dynamic list of extracurricular activities with add/remove and drag-and-drop reorder functionality
  * Provides form fields for activity details including title, organization, role, dates, and bullet points
  * Includes AI-powered suggestion generation with validation requirements
  */
@@ -19,15 +28,20 @@ interface ExtracurricularFormProps {
   onChange: (data: Extracurricular[]) => void;
 }
 
+// Fields the AI needs before it can write bullet points
+const AI_FIELDS = ['title', 'organization_name', 'role'];
+
 const ExtracurricularForm: React.FC<ExtracurricularFormProps> = ({ data, onChange }) => {
-  const [aiSuggestions, setAiSuggestions] = useState<AISuggestions>({});
   const [loadingStates, setLoadingStates] = useState<LoadingStates>({});
-  const [validationErrors, setValidationErrors] = useState<{ [key: number]: string }>({});
+  const { resumeValidation } = useDashboard();
   const [dialogState, setDialogState] = useState<AIDialogState>({
     isOpen: false,
     projectId: null,
-    suggestions: []
+    variants: []
   });
+  const [aiOptions, setAiOptions] = useState<AISuggestionOptions>(DEFAULT_AI_SUGGESTION_OPTIONS);
+  const bulletRewrite = useBulletRewrite();
+  const toast = useToast();
 
   /**
    * Add new extracurricular activity to the list
@@ -54,49 +68,40 @@ const ExtracurricularForm: React.FC<ExtracurricularFormProps> = ({ data, onChang
    * Updates the activity at the given index with new field value
    * Uses immutable update pattern to maintain React state consistency
    */
-  const updateActivity = (index: number, field: keyof Extracurricular, value: string | string[] | { start: string; end: string }): void => {
+  const updateActivity = (index: number, field: keyof Extracurricular, value: string | string[] | DateRange): void => {
     const newData = [...data];
     newData[index] = { ...newData[index], [field]: value };
     onChange(newData);
-    
-    // Clear validation error when user starts typing
-    if (validationErrors[index]) {
-      setValidationErrors(prev => {
-        const newErrors = { ...prev };
-        delete newErrors[index];
-        return newErrors;
-      });
-    }
   };
 
   /**
-   * Update activity date fields
-   * Updates the specific date field (start or end) for the activity at given index
+   * Move activity to a new position in the list
+   * Per-index loading flags follow the moved activity
    */
-  const updateDateField = (index: number, dateField: 'start' | 'end', value: string): void => {
-    const activity = data[index];
-    if (activity) {
-      const newDate = { ...activity.date, [dateField]: value };
-      updateActivity(index, 'date', newDate);
-    }
+  const moveActivity = (from: number, to: number): void => {
+    onChange(moveItem(data, from, to));
+    setLoadingStates(prev => reindexRecord(prev, from, to));
+  };
+
+  const reorder = useReorderableList(data.length, moveActivity, 'activity');
+
+  /**
+   * Sort activities by date, most recent first
+   * Per-index loading flags follow their activity
+   */
+  const sortActivitiesByDate = (): void => {
+    const order = getDateOrder(data);
+    onChange(order.map(index => data[index]));
+    setLoadingStates(prev => permuteRecord(prev, order));
   };
 
   /**
    * Remove activity from the list by index
-   * Filters out the activity at the specified index and cleans up related state
+   * Filters out the activity at the specified index
    */
   const removeActivity = (index: number): void => {
     const newData = data.filter((_, i) => i !== index);
     onChange(newData);
-    
-    // Clean up AI suggestions and validation errors for removed activity
-    const newSuggestions = { ...aiSuggestions };
-    delete newSuggestions[index];
-    setAiSuggestions(newSuggestions);
-    
-    const newErrors = { ...validationErrors };
-    delete newErrors[index];
-    setValidationErrors(newErrors);
   };
 
   /**
@@ -136,106 +141,72 @@ const ExtracurricularForm: React.FC<ExtracurricularFormProps> = ({ data, onChang
   };
 
   /**
-   * Validate activity fields before AI generation
-   * Checks if activity title, organization name, and role are filled
-   * Returns validation error message if fields are missing
+   * Ask the AI to improve a single bullet point
+   * The rewrite is shown as a diff under the bullet until accepted or rejected
    */
-  const validateActivityForAI = (activity: Extracurricular): string | null => {
-    const missingFields = [];
-    
-    if (!activity.title.trim()) {
-      missingFields.push('Activity Title');
-    }
-    
-    if (!activity.organization_name.trim()) {
-      missingFields.push('Organization Name');
-    }
-    
-    if (!activity.role.trim()) {
-      missingFields.push('Role/Position');
-    }
-    
-    if (missingFields.length > 0) {
-      return `Please fill in the following fields first: ${missingFields.join(', ')}`;
-    }
-    
-    return null;
+  const improveBullet = (activityIndex: number, bulletIndex: number): void => {
+    const activity = data[activityIndex];
+    const bullet = activity?.bullet_points[bulletIndex];
+    if (!activity || !bullet?.trim()) return;
+
+    const heading = [activity.role, activity.organization_name].filter(Boolean).join(' at ');
+    bulletRewrite.requestRewrite(activityIndex, bulletIndex, bullet, text =>
+      improveBulletPoint(text, { section: 'extracurricular', heading }, aiOptions.tone)
+    );
+  };
+
+  /**
+   * Accept the AI rewrite of a single bullet point
+   */
+  const acceptBulletRewrite = (activityIndex: number, bulletIndex: number, rewrite: string): void => {
+    updateBulletPoint(activityIndex, bulletIndex, rewrite);
+    bulletRewrite.clearRewrite(activityIndex, bulletIndex);
   };
 
   /**
    * Generate AI suggestions for activity bullet points
-   * Validates required fields before making API call
-   * Handles both single and multiple bullet point scenarios
+   * Checks the fields the AI needs before making API call
+   * Opens the comparison dialog with alternative sets in the chosen tone
    */
   const generateAISuggestion = async (activityIndex: number): Promise<void> => {
     const activity = data[activityIndex];
     if (!activity) return;
 
-    // Validate required fields
-    const validationError = validateActivityForAI(activity);
-    if (validationError) {
-      setValidationErrors(prev => ({ ...prev, [activityIndex]: validationError }));
+    // Required and recommended fields the AI needs, as reported by validateResume
+    const missing = getEntryIssues(resumeValidation, `extracurriculars.${activityIndex}`, AI_FIELDS);
+    if (missing.length > 0) {
+      toast.error(missing.map(issue => issue.message).join('. '), { title: 'Fill in the activity details first' });
       return;
     }
 
-    // Clear any existing validation errors
-    setValidationErrors(prev => {
-      const newErrors = { ...prev };
-      delete newErrors[activityIndex];
-      return newErrors;
-    });
-
     setLoadingStates(prev => ({ ...prev, [activityIndex]: true }));
     
     try {
-      const suggestions = await generateExtracurricularResponsibilities(activity);
-      
-      if (activity.bullet_points.length === 1) {
-        // Single bullet point - show inline suggestion
-        setAiSuggestions(prev => ({ ...prev, [activityIndex]: suggestions }));
-      } else {
-        // Multiple bullet points - show dialog
-        setDialogState({
-          isOpen: true,
-          projectId: activityIndex,
-          suggestions: suggestions
-        });
-      }
+      const variants = await generateExtracurricularResponsibilities(activity, aiOptions);
+      setDialogState({
+        isOpen: true,
+        projectId: activityIndex,
+        variants
+      });
     } catch (error) {
       console.error('Failed to generate AI suggestion:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not generate bullet points.', {
+        title: 'AI suggestions failed',
+        action: { label: 'Retry', onClick: () => generateAISuggestion(activityIndex) },
+      });
     } finally {
       setLoadingStates(prev => ({ ...prev, [activityIndex]: false }));
     }
   };
 
-  /**
-   * Accept AI suggestion and update activity bullet points
-   * Replaces current bullet points with AI-generated suggestions
-   */
-  const acceptAISuggestion = (activityIndex: number): void => {
-    const suggestions = aiSuggestions[activityIndex];
-    if (suggestions) {
-      updateActivity(activityIndex, 'bullet_points', suggestions);
-      setAiSuggestions(prev => ({ ...prev, [activityIndex]: null }));
-    }
-  };
-
-  /**
-   * Decline AI suggestion and clear suggestion state
-   * Removes the suggestion without applying changes
-   */
-  const declineAISuggestion = (activityIndex: number): void => {
-    setAiSuggestions(prev => ({ ...prev, [activityIndex]: null }));
-  };
-
   /**
    * Accept dialog suggestions and update activity
-   * Applies AI suggestions from dialog to the activity
+   * Applies the bullets picked in the dialog to the activity
    */
-  const acceptDialogSuggestions = (): void => {
+  const acceptDialogSuggestions = (bullets: string[]): void => {
     if (dialogState.projectId !== null) {
-      updateActivity(dialogState.projectId, 'bullet_points', dialogState.suggestions);
-      setDialogState({ isOpen: false, projectId: null, suggestions: [] });
+      updateActivity(dialogState.projectId, 'bullet_points', bullets);
+      setDialogState({ isOpen: false, projectId: null, variants: [] });
     }
   };
 
@@ -244,7 +215,7 @@ const ExtracurricularForm: React.FC<ExtracurricularFormProps> = ({ data, onChang
    * Closes the dialog without applying changes
    */
   const declineDialogSuggestions = (): void => {
-    setDialogState({ isOpen: false, projectId: null, suggestions: [] });
+    setDialogState({ isOpen: false, projectId: null, variants: [] });
   };
 
   /**
@@ -260,10 +231,14 @@ const ExtracurricularForm: React.FC<ExtracurricularFormProps> = ({ data, onChang
     setLoadingStates(prev => ({ ...prev, [dialogState.projectId!]: true }));
     
     try {
-      const suggestions = await generateExtracurricularResponsibilities(activity);
-      setDialogState(prev => ({ ...prev, suggestions }));
+      const variants = await generateExtracurricularResponsibilities(activity, aiOptions);
+      setDialogState(prev => ({ ...prev, variants }));
     } catch (error) {
       console.error('Failed to regenerate AI suggestions:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not generate bullet points.', {
+        title: 'AI suggestions failed',
+        action: { label: 'Retry', onClick: regenerateDialogSuggestions },
+      });
     } finally {
       setLoadingStates(prev => ({ ...prev, [dialogState.projectId!]: false }));
     }
@@ -273,7 +248,7 @@ const ExtracurricularForm: React.FC<ExtracurricularFormProps> = ({ data, onChang
     <>
       <div className="space-y-4">
         
-        {/* Section header with icon, title, and add button */}
+        {/* Section header with icon, title, sort and add buttons */}
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             {/* Users icon for visual identification */}
@@ -281,23 +256,50 @@ const ExtracurricularForm: React.FC<ExtracurricularFormProps> = ({ data, onChang
             <h3 className="text-lg font-semibold">Extracurricular Activities</h3>
           </div>
           
-          {/* Add activity button with plus icon */}
-          <button
-            onClick={addActivity}
-            className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            Add Activity
-          </button>
+          <div className="flex items-center gap-2">
+            {/* Sort by date button - most recent first */}
+            <button
+              type="button"
+              onClick={sortActivitiesByDate}
+              disabled={data.length < 2}
+              title="Most recent first"
+              className="flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <CalendarArrowDown className="w-4 h-4" />
+              Sort by Date
+            </button>
+
+            {/* Add activity button with plus icon */}
+            <button
+              onClick={addActivity}
+              className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Activity
+            </button>
+          </div>
         </div>
 
         {/* Dynamic list of activity forms */}
         {data.map((activity, activityIndex) => (
-          <div key={activityIndex} className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <div
+            key={activityIndex}
+            {...reorder.getItemProps(activityIndex)}
+            className={`p-4 border rounded-lg space-y-3 transition-colors ${reorder.dropIndex === activityIndex && reorder.draggedIndex !== activityIndex ? 'border-blue-400 bg-blue-50/40' : 'border-gray-200'} ${reorder.draggedIndex === activityIndex ? 'opacity-50' : ''}`}
+          >
             
-            {/* Individual activity header with remove button */}
+            {/* Individual activity header with reorder controls and remove button */}
             <div className="flex justify-between items-center">
-              <h4 className="font-medium text-gray-700">Activity {activityIndex + 1}</h4>
+              <div className="flex items-center gap-2">
+                <ReorderControls
+                  index={activityIndex}
+                  count={data.length}
+                  handleProps={reorder.getHandleProps(activityIndex)}
+                  onMoveUp={() => reorder.moveUp(activityIndex)}
+                  onMoveDown={() => reorder.moveDown(activityIndex)}
+                />
+                <h4 className="font-medium text-gray-700">Activity {activityIndex + 1}</h4>
+              </div>
               
               {/* Remove activity button with trash icon */}
               <button
@@ -307,6 +309,7 @@ const ExtracurricularForm: React.FC<ExtracurricularFormProps> = ({ data, onChang
                 <Trash2 className="w-4 h-4" />
               </button>
             </div>
+            <FieldError path={`extracurriculars.${activityIndex}`} />
 
             {/* Activity Title field - required for AI generation */}
             <div>
@@ -320,6 +323,7 @@ const ExtracurricularForm: React.FC<ExtracurricularFormProps> = ({ data, onChang
                 onChange={(e) => updateActivity(activityIndex, 'title', e.target.value)}
                 className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={`extracurriculars.${activityIndex}.title`} />
             </div>
 
             {/* Organization Name field - required for AI generation */}
@@ -334,12 +338,13 @@ const ExtracurricularForm: React.FC<ExtracurricularFormProps> = ({ data, onChang
                 onChange={(e) => updateActivity(activityIndex, 'organization_name', e.target.value)}
                 className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={`extracurriculars.${activityIndex}.organization_name`} />
             </div>
 
-            {/* Role/Position field - required for AI generation */}
+            {/* Role/Position field - recommended, needed for AI generation */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Role/Position *
+                Role/Position
               </label>
               <input
                 type="text"
@@ -348,35 +353,15 @@ const ExtracurricularForm: React.FC<ExtracurricularFormProps> = ({ data, onChang
                 onChange={(e) => updateActivity(activityIndex, 'role', e.target.value)}
                 className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={`extracurriculars.${activityIndex}.role`} />
             </div>
 
-            {/* Activity date fields in responsive grid */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Start Date
-                </label>
-                <input
-                  type="text"
-                  placeholder="MM YYYY"
-                  value={activity.date.start}
-                  onChange={(e) => updateDateField(activityIndex, 'start', e.target.value)}
-                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  End Date
-                </label>
-                <input
-                  type="text"
-                  placeholder="MM YYYY"
-                  value={activity.date.end}
-                  onChange={(e) => updateDateField(activityIndex, 'end', e.target.value)}
-                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
-                />
-              </div>
-            </div>
+            {/* Activity date fields - month/year pickers */}
+            <DateRangePicker
+              value={activity.date}
+              onChange={(date) => updateActivity(activityIndex, 'date', date)}
+              presentLabel="I'm currently involved"
+            />
 
             {/* Location and Certificate fields in responsive grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
@@ -434,46 +419,55 @@ const ExtracurricularForm: React.FC<ExtracurricularFormProps> = ({ data, onChang
                 </div>
               </div>
 
-              {/* Validation error message */}
-              {validationErrors[activityIndex] && (
-                <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
-                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
-                  <span>{validationErrors[activityIndex]}</span>
-                </div>
-              )}
-
-              {/* AI Suggestion Box for single bullet point */}
-              {aiSuggestions[activityIndex] && activity.bullet_points.length === 1 && (
-                <AISuggestionBox
-                  suggestion={aiSuggestions[activityIndex]![0]}
-                  onAccept={() => acceptAISuggestion(activityIndex)}
-                  onDecline={() => declineAISuggestion(activityIndex)}
-                  onRegenerate={() => generateAISuggestion(activityIndex)}
-                  className="mb-3"
-                />
-              )}
 
               {/* Dynamic bullet point inputs */}
-              {activity.bullet_points.map((bulletPoint, bulletIndex) => (
-                <div key={bulletIndex} className="flex gap-2">
-                  <textarea
-                    placeholder="Describe your activity achievement or responsibility..."
-                    value={bulletPoint}
-                    onChange={(e) => updateBulletPoint(activityIndex, bulletIndex, e.target.value)}
-                    className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors resize-none"
-                    rows={bulletPoint.length > 100 ? 3 : 2}
-                  />
-                  {/* Remove bullet point button - only show if more than one exists */}
-                  {activity.bullet_points.length > 1 && (
+              {activity.bullet_points.map((bulletPoint, bulletIndex) => {
+                const rewrite = bulletRewrite.getRewrite(activityIndex, bulletIndex, bulletPoint);
+                return (
+                  <div key={bulletIndex} className="flex gap-2">
+                    <div className="flex-1">
+                      <textarea
+                        placeholder="Describe your activity achievement or responsibility..."
+                        value={bulletPoint}
+                        onChange={(e) => updateBulletPoint(activityIndex, bulletIndex, e.target.value)}
+                        className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors resize-none"
+                        rows={bulletPoint.length > 100 ? 3 : 2}
+                      />
+                      <FieldError path={`extracurriculars.${activityIndex}.bullet_points.${bulletIndex}`} />
+                      {rewrite && (
+                        <AISuggestionBox
+                          original={rewrite.original}
+                          suggestion={rewrite.rewrite}
+                          isLoading={rewrite.isLoading}
+                          onAccept={() => rewrite.rewrite && acceptBulletRewrite(activityIndex, bulletIndex, rewrite.rewrite)}
+                          onDecline={() => bulletRewrite.clearRewrite(activityIndex, bulletIndex)}
+                          onRegenerate={() => improveBullet(activityIndex, bulletIndex)}
+                          className="mt-2"
+                        />
+                      )}
+                    </div>
+                    {/* Improve bullet point button - asks the AI to rewrite just this bullet */}
                     <button
-                      onClick={() => removeBulletPoint(activityIndex, bulletIndex)}
-                      className="text-red-500 hover:text-red-700 transition-colors"
+                      onClick={() => improveBullet(activityIndex, bulletIndex)}
+                      disabled={!bulletPoint.trim() || rewrite?.isLoading}
+                      className="text-purple-600 hover:text-purple-800 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                      title="Improve this bullet with AI"
+                      aria-label="Improve this bullet with AI"
                     >
-                      <Trash2 className="w-4 h-4" />
+                      <Wand2 className="w-4 h-4" />
                     </button>
-                  )}
-                </div>
-              ))}
+                    {/* Remove bullet point button - only show if more than one exists */}
+                    {activity.bullet_points.length > 1 && (
+                      <button
+                        onClick={() => removeBulletPoint(activityIndex, bulletIndex)}
+                        className="text-red-500 hover:text-red-700 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </div>
         ))}
@@ -482,7 +476,9 @@ const ExtracurricularForm: React.FC<ExtracurricularFormProps> = ({ data, onChang
       {/* AI Dialog for multiple bullet points */}
       <AIDialog
         isOpen={dialogState.isOpen}
-        suggestions={dialogState.suggestions}
+        variants={dialogState.variants}
+        options={aiOptions}
+        onOptionsChange={setAiOptions}
         isLoading={loadingStates[dialogState.projectId || 0]}
         onClose={declineDialogSuggestions}
         onAccept={acceptDialogSuggestions}
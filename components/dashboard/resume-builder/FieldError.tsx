@@ -0,0 +1,30 @@
+"use client";
+
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { useDashboard } from '@/context/DashboardContext';
+import { getFieldIssue } from '@/lib/resumeValidation';
+
+/**
+ * Field Error Component
+ * Shows the validation issue for one ResumeData path under its input
+ * Errors are red and block save/export; warnings are amber and only advise
+ */
+const FieldError: React.FC<{
+  path: string;
+}> = ({ path }) => {
+  const { resumeValidation } = useDashboard();
+  const issue = getFieldIssue(resumeValidation, path);
+  if (!issue) return null;
+
+  const isError = issue.severity === 'error';
+  const Icon = isError ? AlertCircle : AlertTriangle;
+
+  return (
+    <p className={`mt-1 flex items-center gap-1 text-xs ${isError ? 'text-red-600' : 'text-amber-600'}`} role={isError ? 'alert' : undefined}>
+      <Icon className="w-3.5 h-3.5 flex-shrink-0" />
+      <span>{issue.message}</span>
+    </p>
+  );
+};
+
+export default FieldError;
@@ -0,0 +1,140 @@
+"use client";
+
+import { Languages, Plus, Trash2 } from 'lucide-react';
+import { Language } from '@/types/resume';
+import FieldError from './FieldError';
+
+// Suggested proficiency levels; free text is still accepted for imported values
+const PROFICIENCY_LEVELS = ['Native', 'Fluent', 'Professional', 'Intermediate', 'Basic'];
+
+/**
+ * Languages Form Component
+ * Manages dynamic list of spoken languages with add/remove functionality
+ * Provides form fields for the language name and proficiency level
+ */
+const LanguagesForm: React.FC<{
+  data: Language[];
+  onChange: (data: Language[]) => void;
+}> = ({ data, onChange }) => {
+
+  /**
+   * Add new language to the list
+   * Creates a new language object with empty fields and appends to existing data
+   */
+  const addLanguage = () => {
+    const newLanguage: Language = {
+      language: '',
+      proficiency: ''
+    };
+    onChange([...data, newLanguage]);
+  };
+
+  /**
+   * Remove language from the list by index
+   * Filters out the language at the specified index and updates the data
+   */
+  const removeLanguage = (index: number) => {
+    const updatedData = data.filter((_, i) => i !== index);
+    onChange(updatedData);
+  };
+
+  /**
+   * Update specific field of a language
+   * Updates the language at the given index with new field value
+   * Uses immutable update pattern to maintain React state consistency
+   */
+  const updateLanguage = (index: number, field: keyof Language, value: string) => {
+    const updatedData = data.map((lang, i) =>
+      i === index ? { ...lang, [field]: value } : lang
+    );
+    onChange(updatedData);
+  };
+
+  return (
+    <div className="space-y-4">
+
+      {/* Section header with icon, title, and add button */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {/* Languages icon for visual identification */}
+          <Languages className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold">Languages</h3>
+        </div>
+
+        {/* Add language button with plus icon */}
+        <button
+          type="button"
+          onClick={addLanguage}
+          className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Language
+        </button>
+      </div>
+
+      {/* Dynamic list of language forms */}
+      {data.map((lang, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-3">
+
+          {/* Individual language header with remove button */}
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-gray-800">Language {index + 1}</h4>
+
+            {/* Remove language button with trash icon */}
+            <button
+              type="button"
+              onClick={() => removeLanguage(index)}
+              className="text-red-600 hover:text-red-700 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <FieldError path={`languages.${index}`} />
+
+          {/* Language form fields in responsive grid layout */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+
+            {/* Language field - required field */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Language *
+              </label>
+              <input
+                type="text"
+                placeholder="English"
+                value={lang.language}
+                onChange={(e) => updateLanguage(index, 'language', e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
+              />
+              <FieldError path={`languages.${index}.language`} />
+            </div>
+
+            {/* Proficiency field - suggestions via datalist */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Proficiency
+              </label>
+              <input
+                type="text"
+                list="language-proficiency-levels"
+                placeholder="Fluent"
+                value={lang.proficiency}
+                onChange={(e) => updateLanguage(index, 'proficiency', e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {/* Shared proficiency suggestions for every language entry */}
+      <datalist id="language-proficiency-levels">
+        {PROFICIENCY_LEVELS.map(level => (
+          <option key={level} value={level} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default LanguagesForm;
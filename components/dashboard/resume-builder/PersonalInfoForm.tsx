@@ -1,17 +1,28 @@
 "use client";
 
-import { User } from 'lucide-react';
+import { useState } from 'react';
+import { User, Sparkles, AlertCircle } from 'lucide-react';
 import { PersonalInfo } from '@/types/resume';
+import { useDashboard } from '@/context/DashboardContext';
+import { generateProfessionalSummaries } from '@/services/aiService';
+import FieldError from './FieldError';
+import AISummaryBox from './AISummaryBox';
 
 /**
  * Personal Information Form Component
  * Manages user's personal details including contact information and social links
  * Handles nested object updates for contact info and social links
+ * Professional summary can be drafted by AI from the rest of the resume
  */
 const PersonalInfoForm: React.FC<{
   data: PersonalInfo;
   onChange: (data: PersonalInfo) => void;
 }> = ({ data, onChange }) => {
+  const { resumeData } = useDashboard();
+  const [targetJobTitle, setTargetJobTitle] = useState('');
+  const [summaryDrafts, setSummaryDrafts] = useState<string[] | null>(null);
+  const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
+  const [summaryError, setSummaryError] = useState<string | null>(null);
   
   /**
    * Handle contact information field updates
@@ -52,6 +63,37 @@ const PersonalInfoForm: React.FC<{
     onChange({ ...data, [field]: value });
   };
 
+  /**
+   * Generate professional summary drafts with AI
+   * Needs some experience, projects or education to write from
+   */
+  const generateSummaryDrafts = async () => {
+    const { work_experiences, projects, educations } = resumeData;
+    if (work_experiences.length === 0 && projects.length === 0 && educations.length === 0) {
+      setSummaryError('Add some experience, projects or education first so the summary has something to draw on');
+      return;
+    }
+
+    setSummaryError(null);
+    setIsGeneratingSummary(true);
+    try {
+      setSummaryDrafts(await generateProfessionalSummaries(resumeData, targetJobTitle));
+    } catch (error) {
+      console.error('Failed to generate professional summary:', error);
+      setSummaryError('Could not generate a summary right now. Please try again.');
+    } finally {
+      setIsGeneratingSummary(false);
+    }
+  };
+
+  /**
+   * Replace the summary with the chosen draft
+   */
+  const acceptSummaryDraft = (summary: string) => {
+    handleDirectChange('professional_summary', summary);
+    setSummaryDrafts(null);
+  };
+
   return (
     <div className="space-y-4">
       
@@ -81,6 +123,7 @@ const PersonalInfoForm: React.FC<{
               onChange={(e) => handleDirectChange('name', e.target.value)}
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
             />
+            <FieldError path={'personal_info.name'} />
           </div>
         </div>
 
@@ -102,12 +145,13 @@ const PersonalInfoForm: React.FC<{
                 onChange={(e) => handleContactChange('email', e.target.value)}
                 className="w-full p-3 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={'personal_info.contact_info.email'} />
             </div>
 
-            {/* Mobile field - required field */}
+            {/* Mobile field - recommended, warns when blank */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Mobile Number *
+                Mobile Number
               </label>
               <input
                 type="tel"
@@ -116,6 +160,7 @@ const PersonalInfoForm: React.FC<{
                 onChange={(e) => handleContactChange('mobile', e.target.value)}
                 className="w-full p-3 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={'personal_info.contact_info.mobile'} />
             </div>
 
             {/* Location field - optional field for current location */}
@@ -152,6 +197,7 @@ const PersonalInfoForm: React.FC<{
                 onChange={(e) => handleSocialChange('linkedin', e.target.value)}
                 className="w-full p-3 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={'personal_info.contact_info.social_links.linkedin'} />
             </div>
 
             {/* GitHub Profile field - code repository showcase */}
@@ -166,6 +212,7 @@ const PersonalInfoForm: React.FC<{
                 onChange={(e) => handleSocialChange('github', e.target.value)}
                 className="w-full p-3 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={'personal_info.contact_info.social_links.github'} />
             </div>
 
             {/* Portfolio Website field - personal website showcase */}
@@ -180,9 +227,68 @@ const PersonalInfoForm: React.FC<{
                 onChange={(e) => handleSocialChange('portfolio', e.target.value)}
                 className="w-full p-3 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={'personal_info.contact_info.social_links.portfolio'} />
             </div>
           </div>
         </div>
+
+        {/* Professional summary section with AI drafts */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-medium text-gray-800">Professional Summary</h4>
+            
+            {/* AI Generate button - drafts from the rest of the resume */}
+            <button
+              onClick={generateSummaryDrafts}
+              disabled={isGeneratingSummary}
+              className="flex items-center gap-1 px-3 py-1.5 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Sparkles className="w-3 h-3" />
+              {isGeneratingSummary ? 'Generating...' : 'AI Generate'}
+            </button>
+          </div>
+
+          {/* Target Job Title field - optional, steers the AI drafts */}
+          <div className="mb-3">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Target Job Title
+            </label>
+            <input
+              type="text"
+              placeholder="Frontend Engineer (optional, used for AI drafts)"
+              value={targetJobTitle}
+              onChange={(e) => setTargetJobTitle(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
+            />
+          </div>
+
+          {/* Error message when drafts can't be generated */}
+          {summaryError && (
+            <div className="flex items-center gap-2 p-2 mb-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{summaryError}</span>
+            </div>
+          )}
+
+          <textarea
+            placeholder="Two or three sentences on who you are, what you do best and what you're looking for..."
+            value={data?.professional_summary || ''}
+            onChange={(e) => handleDirectChange('professional_summary', e.target.value)}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors resize-none"
+            rows={4}
+          />
+
+          {summaryDrafts && (
+            <AISummaryBox
+              drafts={summaryDrafts}
+              isLoading={isGeneratingSummary}
+              onAccept={acceptSummaryDraft}
+              onDecline={() => setSummaryDrafts(null)}
+              onRegenerate={generateSummaryDrafts}
+              className="mt-3"
+            />
+          )}
+        </div>
       </div>
     </div>
   );
@@ -1,16 +1,25 @@
 // ProjectsForm.tsx
 "use client";
 
-import { Plus, Code, Trash2, Sparkles, AlertCircle } from 'lucide-react';
+import { Plus, Code, Trash2, Sparkles, CalendarArrowDown, Wand2 } from 'lucide-react';
 import { useState } from 'react';
-import { Project, LoadingStates, AISuggestions, AIDialogState } from '@/types/resume';
-import { generateProjectSuggestions } from '@/services/aiService';
-import AISuggestionBox from './AISuggestionBox';
+import { Project, DateRange, LoadingStates, AIDialogState, AISuggestionOptions } from '@/types/resume';
+import { generateProjectSuggestions, improveBulletPoint, DEFAULT_AI_SUGGESTION_OPTIONS } from '@/services/aiService';
 import AIDialog from './AIDialog';
+import AISuggestionBox from './AISuggestionBox';
+import ReorderControls from './ReorderControls';
+import DateRangePicker from './DateRangePicker';
+import { useReorderableList, moveItem, reindexRecord, permuteRecord } from '@/lib/useReorderableList';
+import { getDateOrder } from '@/lib/resumeDates';
+import FieldError from './FieldError';
+import { useDashboard } from '@/context/DashboardContext';
+import { getEntryIssues } from '@/lib/resumeValidation';
+import { useBulletRewrite } from '@/lib/useBulletRewrite';
+import { useToast } from '@/context/ToastContext';
 
 /**
  * Projects Form Component
- * Manages dynamic list of projects with add/remove functionality
+ * Manages dynamic list of projects with add/remove and drag-and-drop reorder functionality
  * Provides form fields for project details including title, dates, technologies, and bullet points
  * Includes AI-powered suggestion generation with validation requirements
  */
@@ -19,15 +28,20 @@ interface ProjectsFormProps {
   onChange: (data: Project[]) => void;
 }
 
+// Fields the AI needs before it can write bullet points
+const AI_FIELDS = ['title', 'technologies_used'];
+
 const ProjectsForm: React.FC<ProjectsFormProps> = ({ data, onChange }) => {
-  const [aiSuggestions, setAiSuggestions] = useState<AISuggestions>({});
   const [loadingStates, setLoadingStates] = useState<LoadingStates>({});
-  const [validationErrors, setValidationErrors] = useState<{ [key: number]: string }>({});
+  const { resumeValidation } = useDashboard();
   const [dialogState, setDialogState] = useState<AIDialogState>({
     isOpen: false,
     projectId: null,
-    suggestions: []
+    variants: []
   });
+  const [aiOptions, setAiOptions] = useState<AISuggestionOptions>(DEFAULT_AI_SUGGESTION_OPTIONS);
+  const bulletRewrite = useBulletRewrite();
+  const toast = useToast();
 
   /**
    * Add new project to the list
@@ -58,30 +72,15 @@ const ProjectsForm: React.FC<ProjectsFormProps> = ({ data, onChange }) => {
     const updatedData = [...data];
     updatedData[index] = { ...updatedData[index], [field]: value };
     onChange(updatedData);
-    
-    // Clear validation error when user starts typing
-    if (validationErrors[index]) {
-      setValidationErrors(prev => {
-        const newErrors = { ...prev };
-        delete newErrors[index];
-        return newErrors;
-      });
-    }
   };
 
   /**
-   * Update project date fields
-   * Updates the specific date field (start or end) for the project at given index
+   * Update project dates
+   * Replaces the start/end pair for the project at given index
    */
-  const updateProjectDate = (index: number, dateField: keyof Project['date'], value: string): void => {
+  const updateProjectDate = (index: number, date: DateRange): void => {
     const updatedData = [...data];
-    updatedData[index] = {
-      ...updatedData[index],
-      date: {
-        ...updatedData[index].date,
-        [dateField]: value
-      }
-    };
+    updatedData[index] = { ...updatedData[index], date };
     onChange(updatedData);
   };
 
@@ -111,32 +110,35 @@ const ProjectsForm: React.FC<ProjectsFormProps> = ({ data, onChange }) => {
     }
     
     onChange(updatedData);
-    
-    // Clear validation error when user starts typing
-    if (validationErrors[index]) {
-      setValidationErrors(prev => {
-        const newErrors = { ...prev };
-        delete newErrors[index];
-        return newErrors;
-      });
-    }
+  };
+
+  /**
+   * Move project to a new position in the list
+   * Per-index loading flags follow the moved project
+   */
+  const moveProject = (from: number, to: number): void => {
+    onChange(moveItem(data, from, to));
+    setLoadingStates(prev => reindexRecord(prev, from, to));
+  };
+
+  const reorder = useReorderableList(data.length, moveProject, 'project');
+
+  /**
+   * Sort projects by date, most recent first
+   * Per-index loading flags follow their project
+   */
+  const sortProjectsByDate = (): void => {
+    const order = getDateOrder(data);
+    onChange(order.map(index => data[index]));
+    setLoadingStates(prev => permuteRecord(prev, order));
   };
 
   /**
    * Remove project from the list by index
-   * Filters out the project at the specified index and cleans up related state
+   * Filters out the project at the specified index
    */
   const removeProject = (index: number): void => {
     onChange(data.filter((_, i) => i !== index));
-    
-    // Clean up AI suggestions and validation errors for removed project
-    const newSuggestions = { ...aiSuggestions };
-    delete newSuggestions[index.toString()];
-    setAiSuggestions(newSuggestions);
-    
-    const newErrors = { ...validationErrors };
-    delete newErrors[index];
-    setValidationErrors(newErrors);
   };
 
   /**
@@ -184,111 +186,75 @@ const ProjectsForm: React.FC<ProjectsFormProps> = ({ data, onChange }) => {
   };
 
   /**
-   * Validate project fields before AI generation
-   * Checks if project title and technologies are filled
-   * Returns validation error message if fields are missing
+   * Ask the AI to improve a single bullet point
+   * The rewrite is shown as a diff under the bullet until accepted or rejected
    */
-  const validateProjectForAI = (project: Project): string | null => {
-    const missingFields = [];
-    
-    if (!project.title.trim()) {
-      missingFields.push('Project Title');
-    }
-    
-    if (!project.technologies_used.length || project.technologies_used.every(tech => !tech.trim())) {
-      missingFields.push('Technologies Used');
-    }
-    
-    if (missingFields.length > 0) {
-      return `Please fill in the following fields first: ${missingFields.join(', ')}`;
-    }
-    
-    return null;
+  const improveBullet = (projectIndex: number, bulletIndex: number): void => {
+    const project = data[projectIndex];
+    const bullet = project?.bullet_points[bulletIndex];
+    if (!project || !bullet?.trim()) return;
+
+    const heading = project.technologies_used.length > 0
+        ? `${project.title} (${project.technologies_used.join(', ')})`
+        : project.title;
+    bulletRewrite.requestRewrite(projectIndex, bulletIndex, bullet, text =>
+      improveBulletPoint(text, { section: 'project', heading }, aiOptions.tone)
+    );
+  };
+
+  /**
+   * Accept the AI rewrite of a single bullet point
+   */
+  const acceptBulletRewrite = (projectIndex: number, bulletIndex: number, rewrite: string): void => {
+    updateBulletPoint(projectIndex, bulletIndex, rewrite);
+    bulletRewrite.clearRewrite(projectIndex, bulletIndex);
   };
 
   /**
    * Generate AI suggestions for project bullet points
-   * Validates required fields before making API call
-   * Handles both single and multiple bullet point scenarios
+   * Checks the fields the AI needs before making API call
+   * Opens the comparison dialog with alternative sets in the chosen tone
    */
   const generateAISuggestion = async (projectIndex: number): Promise<void> => {
     const project = data[projectIndex];
     if (!project) return;
 
-    // Validate required fields
-    const validationError = validateProjectForAI(project);
-    if (validationError) {
-      setValidationErrors(prev => ({ ...prev, [projectIndex]: validationError }));
+    // Required and recommended fields the AI needs, as reported by validateResume
+    const missing = getEntryIssues(resumeValidation, `projects.${projectIndex}`, AI_FIELDS);
+    if (missing.length > 0) {
+      toast.error(missing.map(issue => issue.message).join('. '), { title: 'Fill in the project details first' });
       return;
     }
 
-    // Clear any existing validation errors
-    setValidationErrors(prev => {
-      const newErrors = { ...prev };
-      delete newErrors[projectIndex];
-      return newErrors;
-    });
-
     setLoadingStates(prev => ({ ...prev, [projectIndex]: true }));
 
     try {
-      const suggestions = await generateProjectSuggestions(project);
-
-      if (project.bullet_points.length === 1) {
-        // Single bullet point - show inline suggestion
-        setAiSuggestions(prev => ({ ...prev, [projectIndex]: suggestions }));
-      } else {
-        // Multiple bullet points - show dialog
-        setDialogState({
-          isOpen: true,
-          projectId: projectIndex,
-          suggestions: suggestions
-        });
-      }
+      const variants = await generateProjectSuggestions(project, aiOptions);
+      setDialogState({
+        isOpen: true,
+        projectId: projectIndex,
+        variants
+      });
     } catch (error) {
       console.error('Failed to generate AI suggestion:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not generate bullet points.', {
+        title: 'AI suggestions failed',
+        action: { label: 'Retry', onClick: () => generateAISuggestion(projectIndex) },
+      });
     } finally {
       setLoadingStates(prev => ({ ...prev, [projectIndex]: false }));
     }
   };
 
-  /**
-   * Accept AI suggestion and update project bullet points
-   * Replaces current bullet points with AI-generated suggestions
-   */
-  const acceptAISuggestion = (projectIndex: number): void => {
-    const suggestions = aiSuggestions[projectIndex];
-    if (suggestions) {
-      updateProject(projectIndex, 'bullet_points', suggestions);
-      setAiSuggestions(prev => ({ ...prev, [projectIndex]: null }));
-    }
-  };
-
-  /**
-   * Decline AI suggestion and clear suggestion state
-   * Removes the suggestion without applying changes
-   */
-  const declineAISuggestion = (projectIndex: number): void => {
-    setAiSuggestions(prev => ({ ...prev, [projectIndex]: null }));
-  };
-
-  /**
-   * Regenerate AI suggestion for the same project
-   * Calls the AI generation function again with the same project data
-   */
-  const regenerateAISuggestion = async (projectIndex: number): Promise<void> => {
-    await generateAISuggestion(projectIndex);
-  };
-
   /**
    * Handle dialog accept action
-   * Applies AI suggestions from dialog to the project
+   * Applies the bullets picked in the dialog to the project
    */
-  const handleDialogAccept = (): void => {
+  const handleDialogAccept = (bullets: string[]): void => {
     if (dialogState.projectId !== null) {
       const projectIndex = dialogState.projectId;
-      updateProject(projectIndex, 'bullet_points', dialogState.suggestions);
-      setDialogState({ isOpen: false, projectId: null, suggestions: [] });
+      updateProject(projectIndex, 'bullet_points', bullets);
+      setDialogState({ isOpen: false, projectId: null, variants: [] });
     }
   };
 
@@ -304,11 +270,15 @@ const ProjectsForm: React.FC<ProjectsFormProps> = ({ data, onChange }) => {
       try {
         const project = data[projectIndex];
         if (project) {
-          const newSuggestions = await generateProjectSuggestions(project);
-          setDialogState(prev => ({ ...prev, suggestions: newSuggestions }));
+          const variants = await generateProjectSuggestions(project, aiOptions);
+          setDialogState(prev => ({ ...prev, variants }));
         }
       } catch (error) {
         console.error('Failed to regenerate AI suggestions:', error);
+        toast.error(error instanceof Error ? error.message : 'Could not generate bullet points.', {
+          title: 'AI suggestions failed',
+          action: { label: 'Retry', onClick: handleDialogRegenerate },
+        });
       } finally {
         setLoadingStates(prev => ({ ...prev, [projectIndex]: false }));
       }
@@ -320,14 +290,14 @@ const ProjectsForm: React.FC<ProjectsFormProps> = ({ data, onChange }) => {
    * Closes the dialog without applying changes
    */
   const handleDialogClose = (): void => {
-    setDialogState({ isOpen: false, projectId: null, suggestions: [] });
+    setDialogState({ isOpen: false, projectId: null, variants: [] });
   };
 
   return (
     <>
       <div className="space-y-4">
         
-        {/* Section header with icon, title, and add button */}
+        {/* Section header with icon, title, sort and add buttons */}
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             {/* Code icon for visual identification */}
@@ -335,23 +305,50 @@ const ProjectsForm: React.FC<ProjectsFormProps> = ({ data, onChange }) => {
             <h3 className="text-lg font-semibold">Projects</h3>
           </div>
           
-          {/* Add project button with plus icon */}
-          <button
-            onClick={addProject}
-            className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            Add Project
-          </button>
+          <div className="flex items-center gap-2">
+            {/* Sort by date button - most recent first */}
+            <button
+              type="button"
+              onClick={sortProjectsByDate}
+              disabled={data.length < 2}
+              title="Most recent first"
+              className="flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <CalendarArrowDown className="w-4 h-4" />
+              Sort by Date
+            </button>
+
+            {/* Add project button with plus icon */}
+            <button
+              onClick={addProject}
+              className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Project
+            </button>
+          </div>
         </div>
 
         {/* Dynamic list of project forms */}
         {data.map((project, index) => (
-          <div key={index} className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <div
+            key={index}
+            {...reorder.getItemProps(index)}
+            className={`p-4 border rounded-lg space-y-3 transition-colors ${reorder.dropIndex === index && reorder.draggedIndex !== index ? 'border-blue-400 bg-blue-50/40' : 'border-gray-200'} ${reorder.draggedIndex === index ? 'opacity-50' : ''}`}
+          >
             
-            {/* Individual project header with remove button */}
+            {/* Individual project header with reorder controls and remove button */}
             <div className="flex justify-between items-center">
-              <h4 className="font-medium text-gray-700">Project {index+1}</h4>
+              <div className="flex items-center gap-2">
+                <ReorderControls
+                  index={index}
+                  count={data.length}
+                  handleProps={reorder.getHandleProps(index)}
+                  onMoveUp={() => reorder.moveUp(index)}
+                  onMoveDown={() => reorder.moveDown(index)}
+                />
+                <h4 className="font-medium text-gray-700">Project {index+1}</h4>
+              </div>
               
               {/* Remove project button with trash icon */}
               <button
@@ -361,6 +358,7 @@ const ProjectsForm: React.FC<ProjectsFormProps> = ({ data, onChange }) => {
                 <Trash2 className="w-4 h-4" />
               </button>
             </div>
+            <FieldError path={`projects.${index}`} />
 
             {/* Project Title field - required for AI generation */}
             <div>
@@ -374,40 +372,20 @@ const ProjectsForm: React.FC<ProjectsFormProps> = ({ data, onChange }) => {
                 onChange={(e) => updateProject(index, 'title', e.target.value)}
                 className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={`projects.${index}.title`} />
             </div>
             
-            {/* Project date fields in responsive grid */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Start Date
-                </label>
-                <input
-                  type="text"
-                  placeholder="MM YYYY"
-                  value={project.date.start}
-                  onChange={(e) => updateProjectDate(index, 'start', e.target.value)}
-                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  End Date
-                </label>
-                <input
-                  type="text"
-                  placeholder="MM YYYY"
-                  value={project.date.end}
-                  onChange={(e) => updateProjectDate(index, 'end', e.target.value)}
-                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
-                />
-              </div>
-            </div>
-
-            {/* Technologies Used field - required for AI generation */}
+            {/* Project date fields - month/year pickers */}
+            <DateRangePicker
+              value={project.date}
+              onChange={(date) => updateProjectDate(index, date)}
+              presentLabel="This project is ongoing"
+            />
+
+            {/* Technologies Used field - recommended, needed for AI generation */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Technologies Used *
+                Technologies Used
               </label>
               <input
                 type="text"
@@ -416,6 +394,7 @@ const ProjectsForm: React.FC<ProjectsFormProps> = ({ data, onChange }) => {
                 onChange={(e) => updateTechnologies(index, e.target.value)}
                 className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={`projects.${index}.technologies_used`} />
             </div>
 
             {/* Bullet Points section with AI generation */}
@@ -446,46 +425,55 @@ const ProjectsForm: React.FC<ProjectsFormProps> = ({ data, onChange }) => {
                 </div>
               </div>
 
-              {/* Validation error message */}
-              {validationErrors[index] && (
-                <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
-                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
-                  <span>{validationErrors[index]}</span>
-                </div>
-              )}
-
-              {/* AI Suggestion Box for single bullet point */}
-              {aiSuggestions[index] && project.bullet_points.length === 1 && (
-                <AISuggestionBox
-                  suggestion={aiSuggestions[index]![0]}
-                  onAccept={() => acceptAISuggestion(index)}
-                  onDecline={() => declineAISuggestion(index)}
-                  onRegenerate={() => regenerateAISuggestion(index)}
-                  className="mb-3"
-                />
-              )}
 
               {/* Dynamic bullet point inputs */}
-              {project.bullet_points.map((point, bulletIndex) => (
-                <div key={bulletIndex} className="flex gap-2">
-                  <textarea
-                    placeholder="Describe your project achievement or responsibility..."
-                    value={point}
-                    onChange={(e) => updateBulletPoint(index, bulletIndex, e.target.value)}
-                    className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors resize-none"
-                    rows={point.length > 100 ? 3 : 2}
-                  />
-                  {/* Remove bullet point button - only show if more than one exists */}
-                  {project.bullet_points.length > 1 && (
+              {project.bullet_points.map((point, bulletIndex) => {
+                const rewrite = bulletRewrite.getRewrite(index, bulletIndex, point);
+                return (
+                  <div key={bulletIndex} className="flex gap-2">
+                    <div className="flex-1">
+                      <textarea
+                        placeholder="Describe your project achievement or responsibility..."
+                        value={point}
+                        onChange={(e) => updateBulletPoint(index, bulletIndex, e.target.value)}
+                        className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors resize-none"
+                        rows={point.length > 100 ? 3 : 2}
+                      />
+                      <FieldError path={`projects.${index}.bullet_points.${bulletIndex}`} />
+                      {rewrite && (
+                        <AISuggestionBox
+                          original={rewrite.original}
+                          suggestion={rewrite.rewrite}
+                          isLoading={rewrite.isLoading}
+                          onAccept={() => rewrite.rewrite && acceptBulletRewrite(index, bulletIndex, rewrite.rewrite)}
+                          onDecline={() => bulletRewrite.clearRewrite(index, bulletIndex)}
+                          onRegenerate={() => improveBullet(index, bulletIndex)}
+                          className="mt-2"
+                        />
+                      )}
+                    </div>
+                    {/* Improve bullet point button - asks the AI to rewrite just this bullet */}
                     <button
-                      onClick={() => removeBulletPoint(index, bulletIndex)}
-                      className="text-red-500 hover:text-red-700 transition-colors"
+                      onClick={() => improveBullet(index, bulletIndex)}
+                      disabled={!point.trim() || rewrite?.isLoading}
+                      className="text-purple-600 hover:text-purple-800 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                      title="Improve this bullet with AI"
+                      aria-label="Improve this bullet with AI"
                     >
-                      <Trash2 className="w-4 h-4" />
+                      <Wand2 className="w-4 h-4" />
                     </button>
-                  )}
-                </div>
-              ))}
+                    {/* Remove bullet point button - only show if more than one exists */}
+                    {project.bullet_points.length > 1 && (
+                      <button
+                        onClick={() => removeBulletPoint(index, bulletIndex)}
+                        className="text-red-500 hover:text-red-700 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
             </div>
             
             {/* Project Link field - optional URL input */}
@@ -500,6 +488,7 @@ const ProjectsForm: React.FC<ProjectsFormProps> = ({ data, onChange }) => {
                 onChange={(e) => updateProject(index, 'project_link', e.target.value)}
                 className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
               />
+              <FieldError path={`projects.${index}.project_link`} />
             </div>
           </div>
         ))}
@@ -508,7 +497,9 @@ const ProjectsForm: React.FC<ProjectsFormProps> = ({ data, onChange }) => {
       {/* AI Dialog for multiple bullet points */}
       <AIDialog
         isOpen={dialogState.isOpen}
-        suggestions={dialogState.suggestions}
+        variants={dialogState.variants}
+        options={aiOptions}
+        onOptionsChange={setAiOptions}
         isLoading={dialogState.projectId !== null ? loadingStates[dialogState.projectId] || false : false}
         onClose={handleDialogClose}
         onAccept={handleDialogAccept}
@@ -0,0 +1,143 @@
+"use client";
+
+import { BookOpen, Plus, Trash2 } from 'lucide-react';
+import { Publication } from '@/types/resume';
+import FieldError from './FieldError';
+
+/**
+ * Publications Form Component
+ * Manages dynamic list of publications with add/remove functionality
+ * Provides form fields for publication details including title, date, and description
+ */
+const PublicationsForm: React.FC<{
+  data: Publication[];
+  onChange: (data: Publication[]) => void;
+}> = ({ data, onChange }) => {
+
+  /**
+   * Add new publication to the list
+   * Creates a new publication object with empty fields and appends to existing data
+   */
+  const addPublication = () => {
+    const newPublication: Publication = {
+      title: '',
+      date: '',
+      description: ''
+    };
+    onChange([...data, newPublication]);
+  };
+
+  /**
+   * Remove publication from the list by index
+   * Filters out the publication at the specified index and updates the data
+   */
+  const removePublication = (index: number) => {
+    const updatedData = data.filter((_, i) => i !== index);
+    onChange(updatedData);
+  };
+
+  /**
+   * Update specific field of a publication
+   * Updates the publication at the given index with new field value
+   * Uses immutable update pattern to maintain React state consistency
+   */
+  const updatePublication = (index: number, field: keyof Publication, value: string) => {
+    const updatedData = data.map((pub, i) =>
+      i === index ? { ...pub, [field]: value } : pub
+    );
+    onChange(updatedData);
+  };
+
+  return (
+    <div className="space-y-4">
+
+      {/* Section header with icon, title, and add button */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {/* BookOpen icon for visual identification */}
+          <BookOpen className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold">Publications</h3>
+        </div>
+
+        {/* Add publication button with plus icon */}
+        <button
+          type="button"
+          onClick={addPublication}
+          className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Publication
+        </button>
+      </div>
+
+      {/* Dynamic list of publication forms */}
+      {data.map((pub, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-3">
+
+          {/* Individual publication header with remove button */}
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-gray-800">Publication {index + 1}</h4>
+
+            {/* Remove publication button with trash icon */}
+            <button
+              type="button"
+              onClick={() => removePublication(index)}
+              className="text-red-600 hover:text-red-700 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <FieldError path={`publications.${index}`} />
+
+          {/* Publication form fields in responsive grid layout */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+
+            {/* Title field - required field */}
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Title *
+              </label>
+              <input
+                type="text"
+                placeholder="Efficient Transformers for Edge Devices"
+                value={pub.title}
+                onChange={(e) => updatePublication(index, 'title', e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
+              />
+              <FieldError path={`publications.${index}.title`} />
+            </div>
+
+            {/* Publication Date field - optional date picker */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Date
+              </label>
+              <input
+                type="date"
+                value={pub.date}
+                onChange={(e) => updatePublication(index, 'date', e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
+              />
+            </div>
+          </div>
+
+          {/* Description field - venue, co-authors, or abstract summary */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Description
+            </label>
+            <textarea
+              placeholder="Venue, co-authors, or a one-line summary..."
+              value={pub.description}
+              onChange={(e) => updatePublication(index, 'description', e.target.value)}
+              rows={3}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-1 focus:outline-none transition-colors"
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PublicationsForm;
@@ -0,0 +1,49 @@
+"use client";
+
+import { GripVertical, ChevronUp, ChevronDown } from 'lucide-react';
+import { ReorderHandleProps } from '@/lib/useReorderableList';
+
+/**
+ * Reorder Controls Component
+ * Drag handle plus move up/down buttons shown in the header of each reorderable entry
+ */
+const ReorderControls: React.FC<{
+  index: number;
+  count: number;
+  handleProps: ReorderHandleProps;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+}> = ({ index, count, handleProps, onMoveUp, onMoveDown }) => {
+  return (
+    <div className="flex items-center gap-0.5 text-gray-400">
+      {/* Drag handle - also moves the entry with the arrow keys when focused */}
+      <span
+        {...handleProps}
+        className="p-1 rounded cursor-grab active:cursor-grabbing hover:text-gray-600 hover:bg-gray-100 focus:outline-none focus:ring-1 focus:ring-blue-500"
+      >
+        <GripVertical className="w-4 h-4" />
+      </span>
+
+      <button
+        type="button"
+        onClick={onMoveUp}
+        disabled={index === 0}
+        className="p-1 rounded hover:text-gray-600 hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed"
+        aria-label="Move up"
+      >
+        <ChevronUp className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        onClick={onMoveDown}
+        disabled={index === count - 1}
+        className="p-1 rounded hover:text-gray-600 hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed"
+        aria-label="Move down"
+      >
+        <ChevronDown className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default ReorderControls;
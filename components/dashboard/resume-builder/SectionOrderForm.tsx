@@ -0,0 +1,118 @@
+"use client";
+
+import { ListOrdered, Eye, EyeOff, RotateCcw } from 'lucide-react';
+import { ResumeData, ResumeSectionId } from '@/types/resume';
+import { getResumeTemplate, getSectionOrder, getSectionTitle } from './templates';
+import { moveItem, useReorderableList } from '@/lib/useReorderableList';
+import ReorderControls from './ReorderControls';
+
+export type SectionLayout = Pick<ResumeData, 'section_order' | 'hidden_sections'>;
+
+/**
+ * Section Order Form Component
+ * Lets the user reorder resume sections and hide ones they don't want on this resume
+ * The layout is saved on the resume and applied to the preview and every export format
+ */
+const SectionOrderForm: React.FC<{
+  data: ResumeData;
+  onChange: (layout: SectionLayout) => void;
+}> = ({ data, onChange }) => {
+  const template = getResumeTemplate(data);
+  const order = getSectionOrder(data, template);
+  const hidden = data.hidden_sections ?? [];
+  const isCustomized = Boolean(data.section_order?.length || hidden.length);
+
+  /**
+   * Move a section to a new position
+   * Saves the full order so the resume keeps it even after switching templates
+   */
+  const moveSection = (from: number, to: number) => {
+    onChange({ section_order: moveItem(order, from, to), hidden_sections: data.hidden_sections });
+  };
+
+  const reorder = useReorderableList(order.length, moveSection, 'section');
+
+  /**
+   * Show or hide a section in the preview and exports without deleting its content
+   */
+  const toggleSection = (section: ResumeSectionId) => {
+    const hiddenSections = hidden.includes(section)
+      ? hidden.filter(id => id !== section)
+      : [...hidden, section];
+    onChange({ section_order: data.section_order, hidden_sections: hiddenSections });
+  };
+
+  /**
+   * Drop the custom layout and fall back to the template's default order
+   */
+  const resetLayout = () => {
+    onChange({ section_order: undefined, hidden_sections: undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+
+      {/* Section header with icon, title, and reset button */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ListOrdered className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold">Section Order</h3>
+        </div>
+
+        <button
+          type="button"
+          onClick={resetLayout}
+          disabled={!isCustomized}
+          className="flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Reset to template order
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Drag sections or use the arrow keys on a handle to change their order. Hidden sections keep their content but are left out of the preview and exports.
+      </p>
+
+      {/* Reorderable list of sections */}
+      <div className="space-y-2">
+        {order.map((section, index) => {
+          const isHidden = hidden.includes(section);
+          return (
+            <div
+              key={section}
+              {...reorder.getItemProps(index)}
+              className={`flex items-center justify-between border rounded-lg px-3 py-2 transition-colors ${reorder.dropIndex === index && reorder.draggedIndex !== index ? 'border-blue-400 bg-blue-50/40' : 'border-gray-200'} ${reorder.draggedIndex === index ? 'opacity-50' : ''}`}
+            >
+              <div className="flex items-center gap-2">
+                <ReorderControls
+                  index={index}
+                  count={order.length}
+                  handleProps={reorder.getHandleProps(index)}
+                  onMoveUp={() => reorder.moveUp(index)}
+                  onMoveDown={() => reorder.moveDown(index)}
+                />
+                <span className={`font-medium ${isHidden ? 'text-gray-400 line-through' : 'text-gray-800'}`}>
+                  {getSectionTitle(template, section)}
+                </span>
+              </div>
+
+              {/* Visibility toggle */}
+              <button
+                type="button"
+                onClick={() => toggleSection(section)}
+                className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                aria-label={isHidden ? 'Show section' : 'Hide section'}
+                aria-pressed={isHidden}
+              >
+                {isHidden ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SectionOrderForm;
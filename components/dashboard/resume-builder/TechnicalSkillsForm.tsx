@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Code, Plus, X, Trash2 } from 'lucide-react';
 
 /**
@@ -49,6 +49,23 @@ const TechnicalSkillsForm: React.FC<{
         return initialValues;
     });
 
+    /**
+     * Keep input text in sync when data changes from outside this form (undo/redo, restore)
+     * Inputs whose parsed value already matches the data keep the user's exact typing
+     */
+    useEffect(() => {
+        setInputValues(prev => {
+            const synced: Record<string, string> = {};
+            data.forEach(item => {
+                const current = prev[item.skill_group];
+                const parsed = current?.split(',').map(skill => skill.trim()).filter(skill => skill) ?? [];
+                const matches = current !== undefined && parsed.join('\u0000') === item.skills.join('\u0000');
+                synced[item.skill_group] = matches ? current : item.skills.join(', ');
+            });
+            return synced;
+        });
+    }, [data]);
+
     // State for new skill group input management
     const [newGroupName, setNewGroupName] = useState('');
     const [showAddGroup, setShowAddGroup] = useState(false);
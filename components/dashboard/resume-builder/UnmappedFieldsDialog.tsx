@@ -0,0 +1,71 @@
+"use client";
+
+import { X, Info } from 'lucide-react';
+
+interface UnmappedFieldsDialogProps {
+    isOpen: boolean;
+    title: string;
+    message: string;
+    fields: string[];
+    confirmButtonText?: string;
+    onClose: () => void;
+}
+
+/**
+ * Lists fields that could not be carried over during a JSON Resume import or export
+ */
+const UnmappedFieldsDialog: React.FC<UnmappedFieldsDialogProps> = ({
+    isOpen,
+    title,
+    message,
+    fields,
+    confirmButtonText = 'Got it',
+    onClose,
+}) => {
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="bg-white border-gray-200 rounded-lg p-6 max-w-md w-full mx-4 shadow-xl">
+                {/* Header */}
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center space-x-3">
+                        <div className="w-10 h-10 bg-amber-100 rounded-full flex items-center justify-center flex-shrink-0">
+                            <Info className="w-5 h-5 text-amber-600" />
+                        </div>
+                        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-gray-600 transition-colors"
+                        aria-label="Close dialog"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="mb-6">
+                    <p className="text-gray-600 text-sm">{message}</p>
+                    <ul className="mt-3 p-3 bg-gray-50 rounded-lg max-h-60 overflow-y-auto space-y-1">
+                        {fields.map(field => (
+                            <li key={field} className="text-sm text-gray-700 font-mono break-all">{field}</li>
+                        ))}
+                    </ul>
+                </div>
+
+                {/* Actions */}
+                <div className="flex justify-end">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                        {confirmButtonText}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default UnmappedFieldsDialog;
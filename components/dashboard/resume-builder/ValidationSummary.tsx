@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { useDashboard } from '@/context/DashboardContext';
+import { ValidationSectionKey } from '@/lib/resumeValidation';
+
+/**
+ * Validation Summary Component
+ * Lists every validation issue in the resume with a link to the form that fixes it
+ * Hard errors are called out because they block saving and exporting
+ */
+const ValidationSummary: React.FC<{
+  onSelectSection: (section: ValidationSectionKey) => void;
+}> = ({ onSelectSection }) => {
+  const { resumeValidation } = useDashboard();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { issues, errorCount, warningCount, hasErrors } = resumeValidation;
+
+  if (issues.length === 0) return null;
+
+  const counts = [
+    errorCount > 0 && `${errorCount} ${errorCount === 1 ? 'error' : 'errors'}`,
+    warningCount > 0 && `${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className={`rounded-lg border p-4 ${hasErrors ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+
+      {/* Summary header with counts and expand toggle */}
+      <button
+        type="button"
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex items-center justify-between gap-3 text-left"
+        aria-expanded={isExpanded}
+      >
+        <div className="flex items-center gap-2">
+          {hasErrors
+            ? <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            : <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0" />}
+          <div>
+            <p className={`text-sm font-semibold ${hasErrors ? 'text-red-800' : 'text-amber-800'}`}>{counts}</p>
+            <p className={`text-xs ${hasErrors ? 'text-red-700' : 'text-amber-700'}`}>
+              {hasErrors ? 'Fix the errors to save or export this resume.' : 'Warnings won’t stop you from saving or exporting.'}
+            </p>
+          </div>
+        </div>
+        {isExpanded ? <ChevronUp className="w-4 h-4 text-gray-500" /> : <ChevronDown className="w-4 h-4 text-gray-500" />}
+      </button>
+
+      {/* Issue list - each entry jumps to the form section it belongs to */}
+      {isExpanded && (
+        <ul className="mt-3 space-y-1 max-h-60 overflow-y-auto">
+          {issues.map((issue, index) => (
+            <li key={`${issue.path}-${index}`}>
+              <button
+                type="button"
+                onClick={() => onSelectSection(issue.section)}
+                className="w-full flex items-start gap-2 px-2 py-1 rounded text-left text-sm hover:bg-white/60 transition-colors"
+              >
+                {issue.severity === 'error'
+                  ? <AlertCircle className="w-4 h-4 mt-0.5 text-red-600 flex-shrink-0" />
+                  : <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-600 flex-shrink-0" />}
+                <span className="text-gray-800">
+                  <span className="font-medium">{issue.label}:</span> {issue.message}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationSummary;
@@ -0,0 +1,162 @@
+"use client";
+
+import { ResumeSectionId } from '@/types/resume';
+import { ResumeTemplateProps, SECTION_TITLES, formatDateRange, formatLanguages, hasSectionContent } from './shared';
+
+// Academic CVs use a few field-specific headings
+export const ACADEMIC_TITLES: Partial<Record<ResumeSectionId, string>> = {
+    summary: 'Research Interests',
+    experience: 'Research & Professional Experience',
+    achievements: 'Honors & Awards',
+    skills: 'Skills',
+};
+
+/**
+ * Academic CV Template
+ * Left-aligned serif layout with dates in a margin column, education and publications first
+ */
+const AcademicTemplate: React.FC<ResumeTemplateProps> = ({ data, sectionOrder, dateFormat }) => {
+    const { personal_info, educations, work_experiences, projects, skills, certifications, extracurriculars, achievements, publications } = data;
+    const { contact_info } = personal_info;
+
+    const heading = (section: ResumeSectionId) => (
+        <h2 className="text-sm font-semibold uppercase tracking-[0.2em] text-gray-800 border-b border-gray-300 pb-0.5 mb-2">
+            {ACADEMIC_TITLES[section] ?? SECTION_TITLES[section]}
+        </h2>
+    );
+
+    // Dates sit in a fixed-width margin column, the entry body flows to the right
+    const row = (key: number, dates: string, body: React.ReactNode) => (
+        <div key={key} className="flex gap-4 mb-2 text-sm">
+            <p className="w-28 flex-shrink-0 text-gray-600">{dates}</p>
+            <div className="flex-1 min-w-0">{body}</div>
+        </div>
+    );
+
+    const bullets = (items: string[]) => (
+        <ul className="list-disc list-outside pl-5 mt-0.5">
+            {items.filter(item => item.trim()).map((item, index) => (
+                <li key={index} className="break-words">{item}</li>
+            ))}
+        </ul>
+    );
+
+    const sections: Record<ResumeSectionId, React.ReactNode> = {
+        summary: (
+            <p className="text-sm break-words">{personal_info.professional_summary}</p>
+        ),
+
+        education: educations.map((edu, index) => row(index, formatDateRange(edu.date.start, edu.date.end, dateFormat), (
+            <>
+                <p className="break-words">
+                    <span className="font-semibold">{edu.degree}{edu.specialisation && `, ${edu.specialisation}`}</span>
+                    {edu.gpa && <span> (GPA {edu.gpa})</span>}
+                </p>
+                <p className="italic break-words">{[edu.institute_name, edu.location].filter(Boolean).join(', ')}</p>
+                {edu.relevant_coursework.length > 0 && (
+                    <p className="text-xs text-gray-700 break-words">Coursework: {edu.relevant_coursework.join(', ')}</p>
+                )}
+            </>
+        ))),
+
+        publications: (
+            <ol className="list-decimal list-outside pl-5 space-y-1 text-sm">
+                {publications.map((pub, index) => (
+                    <li key={index} className="break-words">
+                        <span className="font-semibold">{pub.title}</span>
+                        {pub.description && <span>. {pub.description}</span>}
+                        {pub.date && <span className="text-gray-600"> ({pub.date})</span>}
+                    </li>
+                ))}
+            </ol>
+        ),
+
+        experience: work_experiences.map((exp, index) => row(index, formatDateRange(exp.date.start, exp.date.end, dateFormat), (
+            <>
+                <p className="font-semibold break-words">{exp.job_title}</p>
+                <p className="italic break-words">{[exp.company_name, exp.location].filter(Boolean).join(', ')}</p>
+                {bullets(exp.bullet_points)}
+            </>
+        ))),
+
+        projects: projects.map((project, index) => row(index, formatDateRange(project.date.start, project.date.end, dateFormat), (
+            <>
+                <p className="font-semibold break-words">{project.title}</p>
+                {project.technologies_used.length > 0 && (
+                    <p className="italic break-words">{project.technologies_used.join(', ')}</p>
+                )}
+                {bullets(project.bullet_points)}
+                {project.project_link && <p className="text-xs break-all">{project.project_link}</p>}
+            </>
+        ))),
+
+        achievements: achievements.map((achievement, index) => row(index, achievement.date_achieved, (
+            <>
+                <p className="break-words">
+                    <span className="font-semibold">{achievement.title}</span>
+                    {achievement.organization && <span className="italic">, {achievement.organization}</span>}
+                </p>
+                {achievement.description && <p className="text-xs text-gray-700 break-words">{achievement.description}</p>}
+            </>
+        ))),
+
+        extracurriculars: extracurriculars.map((activity, index) => row(index, formatDateRange(activity.date.start, activity.date.end, dateFormat), (
+            <>
+                <p className="font-semibold break-words">{[activity.role, activity.title].filter(Boolean).join(', ')}</p>
+                <p className="italic break-words">{[activity.organization_name, activity.location].filter(Boolean).join(', ')}</p>
+                {bullets(activity.certificate ? [...activity.bullet_points, activity.certificate] : activity.bullet_points)}
+            </>
+        ))),
+
+        certifications: certifications.map((cert, index) => row(index, formatDateRange(cert.date_issued, cert.expiry_date, dateFormat), (
+            <p className="break-words">
+                <span className="font-semibold">{cert.certification_name}</span>
+                {cert.issuing_organisation && <span className="italic">, {cert.issuing_organisation}</span>}
+            </p>
+        ))),
+
+        skills: (
+            <div className="text-sm space-y-0.5">
+                {skills.map((skill, index) => (
+                    <p key={index} className="break-words">
+                        <span className="font-semibold">{skill.skill_group}:</span> {skill.skills.join(', ')}
+                    </p>
+                ))}
+            </div>
+        ),
+
+        languages: (
+            <p className="text-sm break-words">{formatLanguages(data)}</p>
+        ),
+    };
+
+    const links = [
+        contact_info.email,
+        contact_info.mobile,
+        contact_info.social_links.portfolio,
+        contact_info.social_links.linkedin,
+        contact_info.social_links.github,
+    ].filter(Boolean);
+
+    return (
+        <div className="font-serif" style={{ padding: "calc(14mm * var(--resume-margin-scale, 1)) calc(16mm * var(--resume-margin-scale, 1))" }}>
+
+            {/* Header */}
+            <div className="mb-5">
+                <h1 className="text-3xl font-semibold break-words">{personal_info.name}</h1>
+                {contact_info.location && <p className="text-sm text-gray-700">{contact_info.location}</p>}
+                {links.length > 0 && <p className="text-sm text-gray-700 break-all">{links.join(' · ')}</p>}
+            </div>
+
+            {/* Sections in template order, empty ones skipped */}
+            {sectionOrder.filter(section => hasSectionContent(data, section)).map(section => (
+                <div key={section} className="mb-4">
+                    {heading(section)}
+                    {sections[section]}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default AcademicTemplate;
@@ -0,0 +1,265 @@
+"use client";
+
+import { Phone, Mail, Globe } from 'lucide-react';
+import { ResumeSectionId } from '@/types/resume';
+import { ResumeTemplateProps, LinkedInIcon, GitHubIcon, SECTION_TITLES, formatDateRange, formatLanguages, hasSectionContent } from './shared';
+
+/**
+ * Classic Template
+ * Single-column serif layout with centered header and underlined section headings
+ */
+const ClassicTemplate: React.FC<ResumeTemplateProps> = ({ data, sectionOrder, dateFormat }) => {
+    const { personal_info, educations, work_experiences, projects, skills, certifications, extracurriculars, achievements, publications } = data;
+
+    const heading = (section: ResumeSectionId) => (
+        <h2 className="w-full border-b font-medium text-base mb-2 uppercase tracking-wide">
+            {SECTION_TITLES[section]}
+        </h2>
+    );
+
+    const sections: Record<ResumeSectionId, React.ReactNode> = {
+        summary: (
+            <p className="text-sm break-words">{personal_info.professional_summary}</p>
+        ),
+
+        education: educations.map((edu, index) => (
+            <div key={index} className="mb-1">
+                <div className="flex justify-between items-start flex-wrap gap-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                        <p className="font-bold break-words" >{edu.institute_name}</p>
+                        <p className="italic break-words" >
+                            {edu.degree} {edu.specialisation && `in ${edu.specialisation}`} {edu.gpa && `- CGPA ${edu.gpa}`}
+                        </p>
+                    </div>
+                    <div className="text-right flex-shrink-0 text-xs">
+                        <p className="font-semibold whitespace-nowrap">{formatDateRange(edu.date.start, edu.date.end, dateFormat)}</p>
+                        <p className="italic break-words">{edu.location}</p>
+                    </div>
+                </div>
+            </div>
+        )),
+
+        projects: projects.map((project, index) => (
+            <div key={index} className="mb-4 text-sm">
+                <div className="flex justify-between items-start flex-wrap gap-2 mb-1">
+                    <div className='flex gap-1'>
+                        <p className="font-bold break-words underline underline-offset-4" >
+                            {project.title}
+                        </p>
+                        {project.technologies_used.length > 0 &&
+                            <span className='text-x'>|</span>
+                        }
+                        <p className="font-bold break-words underline underline-offset-4" >
+                            {project.technologies_used.join(', ')}
+                        </p>
+
+                    </div>
+                    <p className="font-semibold flex-shrink-0 whitespace-nowrap ">{formatDateRange(project.date.start, project.date.end, dateFormat)}</p>
+                </div>
+                <ul className="list-disc list-outside pl-6 space-y-1">
+                    {project.bullet_points.filter(desc => desc.trim()).map((desc, index) => (
+                        <li key={index} className="break-words">{desc}</li>
+                    ))}
+                    {project.project_link &&
+                        <li className='underline underline-offset-4'>{project.project_link}</li>
+                    }
+                </ul>
+            </div>
+        )),
+
+        experience: work_experiences.map((exp, index) => (
+            <div key={index} className="mb-3 text-sm">
+                <div className="flex justify-between items-start flex-wrap gap-2">
+                    <div className="flex-1 min-w-0">
+                        <p className="font-bold break-words" >{exp.company_name} </p>
+                        <p className="italic font-semibold break-words" >{exp.job_title}</p>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                        <p className="font-semibold whitespace-nowrap">{formatDateRange(exp.date.start, exp.date.end, dateFormat)}</p>
+                        <p className="italic break-words">{exp.location}</p>
+                    </div>
+                </div>
+                <ul className="list-disc list-inside ml-4 mt-2">
+                    {exp.bullet_points.filter(resp => resp.trim()).map((resp, index) => (
+                        <li key={index} className="break-words" >{resp}</li>
+                    ))}
+                </ul>
+            </div>
+        )),
+
+        skills: (
+            <div className="text-sm">
+                {
+                    skills.map((skill, index) => (
+                        <p key={index} className="break-words" >
+                            <span className="font-bold">{skill.skill_group}:</span> {skill.skills.join(', ')}
+                        </p>
+                    ))
+                }
+            </div>
+        ),
+
+        extracurriculars: extracurriculars.map((activity, index) => (
+            <div key={index} className="mb-3 text-sm">
+                <div className="flex justify-between items-start flex-wrap gap-2">
+                    <div className="flex-1 min-w-0">
+                        <div className='flex gap-1'>
+                            <p className="font-bold break-words" >{activity.title} </p>
+                            {
+                                activity.organization_name && <span>|</span>
+                            }
+                            <p className="font-bold break-words" >{activity.organization_name} </p>
+                        </div>
+                        <p className="italic font-semibold break-words" >{activity.role}</p>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                        <p className="font-semibold whitespace-nowrap">{formatDateRange(activity.date.start, activity.date.end, dateFormat)}</p>
+                        <p className="italic break-words">{activity.location}</p>
+                    </div>
+                </div>
+                <ul className="list-disc list-inside ml-4 mt-2">
+                    {activity.bullet_points.filter(resp => resp.trim()).map((resp, index) => (
+                        <li key={index} className="break-words" >{resp}</li>
+                    ))}
+                    {activity.certificate && <li>{activity.certificate} </li>}
+                </ul>
+            </div>
+        )),
+
+        certifications: (
+            <div className="space-y-2 text-sm">
+                {certifications.map((cert, index) => (
+                    <div key={index} className="mb-2">
+                        <div className="flex justify-between items-start flex-wrap gap-2">
+                            <div className="flex-1 min-w-0">
+                                <p className="font-bold break-words">{cert.certification_name}</p>
+                                {cert.issuing_organisation && (
+                                    <p className="italic break-words">{cert.issuing_organisation}</p>
+                                )}
+                            </div>
+                            <div className="text-right flex-shrink-0 text-xs">
+                                {cert.date_issued && (
+                                    <p className="font-semibold whitespace-nowrap">
+                                        {formatDateRange(cert.date_issued, cert.expiry_date, dateFormat)}
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+                        {cert.description && (
+                            <p className="text-xs mt-1 break-words text-gray-700">{cert.description}</p>
+                        )}
+                    </div>
+                ))}
+            </div>
+        ),
+
+        achievements: (
+            <div className="space-y-2 text-sm">
+                {achievements.map((achievement, index) => (
+                    <div key={index} className="mb-2">
+                        <div className="flex justify-between items-start flex-wrap gap-2">
+                            <div className="flex-1 min-w-0">
+                                <p className="font-bold break-words">{achievement.title}</p>
+                                {achievement.organization && (
+                                    <p className="italic break-words">{achievement.organization}</p>
+                                )}
+                            </div>
+                            {achievement.date_achieved && (
+                                <div className="text-right flex-shrink-0 text-xs">
+                                    <p className="font-semibold whitespace-nowrap">{achievement.date_achieved}</p>
+                                </div>
+                            )}
+                        </div>
+                        {achievement.description && (
+                            <p className="text-xs mt-1 break-words text-gray-700">{achievement.description}</p>
+                        )}
+                    </div>
+                ))}
+            </div>
+        ),
+
+        publications: (
+            <div className="space-y-2 text-sm">
+                {publications.map((pub, index) => (
+                    <div key={index} className="mb-2">
+                        <div className="flex justify-between items-start flex-wrap gap-2">
+                            <p className="flex-1 min-w-0 font-bold break-words">{pub.title}</p>
+                            {pub.date && (
+                                <p className="text-right flex-shrink-0 text-xs font-semibold whitespace-nowrap">{pub.date}</p>
+                            )}
+                        </div>
+                        {pub.description && (
+                            <p className="text-xs mt-1 break-words text-gray-700">{pub.description}</p>
+                        )}
+                    </div>
+                ))}
+            </div>
+        ),
+
+        languages: (
+            <p className="text-sm break-words">{formatLanguages(data)}</p>
+        ),
+    };
+
+    return (
+        <div className="font-serif" style={{ padding: "calc(10mm * var(--resume-margin-scale, 1))" }}>
+
+            {/* Header */}
+            <div className="text-center mb-4">
+                <h1 className="text-3xl tracking-wide uppercase break-words">
+                    {personal_info.name}
+                </h1>
+                <p className="mb-1 text-base">
+                    {personal_info.contact_info.location}
+                </p>
+
+                <div className="flex justify-center items-center flex-wrap gap-3" >
+                    {personal_info.contact_info.mobile && (
+                        <span className="text-sm flex gap-1 items-center underline underline-offset-4 whitespace-nowrap">
+                            <Phone size={10} />
+                            <span className="break-all">{personal_info.contact_info.mobile}</span>
+                        </span>
+                    )}
+                    {personal_info.contact_info.email && (
+                        <span className="text-sm flex gap-1 items-center underline underline-offset-4 whitespace-nowrap">
+                            <Mail size={10} />
+                            <span className="break-all">{personal_info.contact_info.email}</span>
+                        </span>
+                    )}
+                    {personal_info.contact_info.social_links.linkedin && (
+                        <span className="text-sm flex gap-1 items-center underline underline-offset-4 whitespace-nowrap">
+                            <div>
+                                <LinkedInIcon />
+                            </div>
+                            <span className="break-all">{personal_info.contact_info.social_links.linkedin}</span>
+                        </span>
+                    )}
+                    {personal_info.contact_info.social_links.github && (
+                        <span className="text-sm flex gap-1 items-center underline underline-offset-4 whitespace-nowrap">
+                            <div>
+                                <GitHubIcon />
+                            </div>
+                            <span className="break-all">{personal_info.contact_info.social_links.github}</span>
+                        </span>
+                    )}
+                    {personal_info.contact_info.social_links.portfolio && (
+                        <span className="text-sm flex gap-1 items-center underline underline-offset-4 whitespace-nowrap">
+                            <Globe size={10} />
+                            <span className="break-all">{personal_info.contact_info.social_links.portfolio}</span>
+                        </span>
+                    )}
+                </div>
+            </div>
+
+            {/* Sections in template order, empty ones skipped */}
+            {sectionOrder.filter(section => hasSectionContent(data, section)).map(section => (
+                <div key={section} className="mb-2">
+                    {heading(section)}
+                    {sections[section]}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default ClassicTemplate;
@@ -0,0 +1,137 @@
+"use client";
+
+import { ResumeSectionId } from '@/types/resume';
+import { ResumeTemplateProps, SECTION_TITLES, formatDateRange, formatLanguages, hasSectionContent } from './shared';
+
+/**
+ * Compact Template
+ * Dense single-column layout with small type and inline dates, aimed at fitting on one page
+ */
+const CompactTemplate: React.FC<ResumeTemplateProps> = ({ data, sectionOrder, dateFormat }) => {
+    const { personal_info, educations, work_experiences, projects, skills, certifications, extracurriculars, achievements, publications } = data;
+    const { contact_info } = personal_info;
+
+    const heading = (section: ResumeSectionId) => (
+        <h2 className="text-[11px] font-bold uppercase tracking-wider border-b border-gray-400 mb-1">
+            {SECTION_TITLES[section]}
+        </h2>
+    );
+
+    // One line per entry: bold title, muted subtitle, dates pushed right
+    const entryHeader = (title: string, subtitle: string, dates: string) => (
+        <div className="flex justify-between gap-2">
+            <p className="break-words">
+                <span className="font-semibold">{title}</span>
+                {subtitle && <span className="text-gray-700"> — {subtitle}</span>}
+            </p>
+            {dates && <p className="whitespace-nowrap text-gray-700">{dates}</p>}
+        </div>
+    );
+
+    const bullets = (items: string[]) => (
+        <ul className="list-disc list-outside pl-4">
+            {items.filter(item => item.trim()).map((item, index) => (
+                <li key={index} className="break-words">{item}</li>
+            ))}
+        </ul>
+    );
+
+    const sections: Record<ResumeSectionId, React.ReactNode> = {
+        summary: (
+            <p className="break-words">{personal_info.professional_summary}</p>
+        ),
+
+        education: educations.map((edu, index) => (
+            <div key={index} className="mb-1">
+                {entryHeader(
+                    edu.institute_name,
+                    [`${edu.degree}${edu.specialisation ? ` in ${edu.specialisation}` : ''}`, edu.gpa && `CGPA ${edu.gpa}`].filter(Boolean).join(', '),
+                    formatDateRange(edu.date.start, edu.date.end, dateFormat)
+                )}
+            </div>
+        )),
+
+        experience: work_experiences.map((exp, index) => (
+            <div key={index} className="mb-1">
+                {entryHeader(exp.company_name, [exp.job_title, exp.location].filter(Boolean).join(', '), formatDateRange(exp.date.start, exp.date.end, dateFormat))}
+                {bullets(exp.bullet_points)}
+            </div>
+        )),
+
+        projects: projects.map((project, index) => (
+            <div key={index} className="mb-1">
+                {entryHeader(project.title, project.technologies_used.join(', '), formatDateRange(project.date.start, project.date.end, dateFormat))}
+                {bullets(project.project_link ? [...project.bullet_points, project.project_link] : project.bullet_points)}
+            </div>
+        )),
+
+        skills: skills.map((skill, index) => (
+            <p key={index} className="break-words">
+                <span className="font-semibold">{skill.skill_group}:</span> {skill.skills.join(', ')}
+            </p>
+        )),
+
+        extracurriculars: extracurriculars.map((activity, index) => (
+            <div key={index} className="mb-1">
+                {entryHeader(
+                    [activity.title, activity.organization_name].filter(Boolean).join(' | '),
+                    activity.role,
+                    formatDateRange(activity.date.start, activity.date.end, dateFormat)
+                )}
+                {bullets(activity.certificate ? [...activity.bullet_points, activity.certificate] : activity.bullet_points)}
+            </div>
+        )),
+
+        certifications: certifications.map((cert, index) => (
+            <div key={index}>
+                {entryHeader(cert.certification_name, cert.issuing_organisation, formatDateRange(cert.date_issued, cert.expiry_date, dateFormat))}
+            </div>
+        )),
+
+        achievements: achievements.map((achievement, index) => (
+            <div key={index}>
+                {entryHeader(achievement.title, achievement.organization, achievement.date_achieved)}
+            </div>
+        )),
+
+        publications: publications.map((pub, index) => (
+            <div key={index}>
+                {entryHeader(pub.title, pub.description, pub.date)}
+            </div>
+        )),
+
+        languages: (
+            <p className="break-words">{formatLanguages(data)}</p>
+        ),
+    };
+
+    const contactLine = [
+        contact_info.location,
+        contact_info.mobile,
+        contact_info.email,
+        contact_info.social_links.linkedin,
+        contact_info.social_links.github,
+        contact_info.social_links.portfolio,
+    ].filter(Boolean).join(' | ');
+
+    return (
+        <div className="font-sans text-xs leading-snug" style={{ padding: "calc(7mm * var(--resume-margin-scale, 1))" }}>
+
+            {/* Header */}
+            <div className="text-center mb-2">
+                <h1 className="text-xl font-bold uppercase tracking-wide break-words">{personal_info.name}</h1>
+                {contactLine && <p className="break-all">{contactLine}</p>}
+            </div>
+
+            {/* Sections in template order, empty ones skipped */}
+            {sectionOrder.filter(section => hasSectionContent(data, section)).map(section => (
+                <div key={section} className="mb-1.5">
+                    {heading(section)}
+                    {sections[section]}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default CompactTemplate;
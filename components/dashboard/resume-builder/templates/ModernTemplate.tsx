@@ -0,0 +1,182 @@
+"use client";
+
+import { Phone, Mail, Globe, MapPin } from 'lucide-react';
+import { ResumeSectionId } from '@/types/resume';
+import { ResumeTemplateProps, LinkedInIcon, GitHubIcon, SECTION_TITLES, formatDateRange, formatLanguages, hasSectionContent } from './shared';
+
+// Short, list-like sections that live in the left column, also used by the exporters
+export const SIDEBAR_SECTIONS: ResumeSectionId[] = ['skills', 'languages', 'certifications'];
+
+/**
+ * Modern Template
+ * Two-column sans-serif layout with a tinted sidebar for contact details and skills
+ */
+const ModernTemplate: React.FC<ResumeTemplateProps> = ({ data, sectionOrder, dateFormat }) => {
+    const { personal_info, educations, work_experiences, projects, skills, certifications, extracurriculars, achievements, publications } = data;
+    const { contact_info } = personal_info;
+
+    const heading = (section: ResumeSectionId) => (
+        <h2 className="text-xs font-bold uppercase tracking-widest text-blue-700 mb-2">
+            {SECTION_TITLES[section]}
+        </h2>
+    );
+
+    const bullets = (items: string[]) => (
+        <ul className="list-disc list-outside pl-4 mt-1 space-y-0.5">
+            {items.filter(item => item.trim()).map((item, index) => (
+                <li key={index} className="break-words">{item}</li>
+            ))}
+        </ul>
+    );
+
+    const sections: Record<ResumeSectionId, React.ReactNode> = {
+        summary: (
+            <p className="text-sm leading-relaxed break-words">{personal_info.professional_summary}</p>
+        ),
+
+        education: educations.map((edu, index) => (
+            <div key={index} className="mb-2 text-sm">
+                <div className="flex justify-between gap-2">
+                    <p className="font-semibold break-words">{edu.institute_name}</p>
+                    <p className="text-xs text-gray-600 whitespace-nowrap">{formatDateRange(edu.date.start, edu.date.end, dateFormat)}</p>
+                </div>
+                <p className="text-gray-700 break-words">
+                    {edu.degree}{edu.specialisation && ` in ${edu.specialisation}`}{edu.gpa && ` · CGPA ${edu.gpa}`}
+                </p>
+            </div>
+        )),
+
+        experience: work_experiences.map((exp, index) => (
+            <div key={index} className="mb-3 text-sm">
+                <div className="flex justify-between gap-2">
+                    <p className="font-semibold break-words">{exp.job_title}</p>
+                    <p className="text-xs text-gray-600 whitespace-nowrap">{formatDateRange(exp.date.start, exp.date.end, dateFormat)}</p>
+                </div>
+                <p className="text-blue-700 break-words">{[exp.company_name, exp.location].filter(Boolean).join(' · ')}</p>
+                {bullets(exp.bullet_points)}
+            </div>
+        )),
+
+        projects: projects.map((project, index) => (
+            <div key={index} className="mb-3 text-sm">
+                <div className="flex justify-between gap-2">
+                    <p className="font-semibold break-words">{project.title}</p>
+                    <p className="text-xs text-gray-600 whitespace-nowrap">{formatDateRange(project.date.start, project.date.end, dateFormat)}</p>
+                </div>
+                {project.technologies_used.length > 0 && (
+                    <p className="text-xs text-blue-700 break-words">{project.technologies_used.join(' · ')}</p>
+                )}
+                {bullets(project.bullet_points)}
+                {project.project_link && (
+                    <p className="text-xs text-gray-600 underline break-all mt-1">{project.project_link}</p>
+                )}
+            </div>
+        )),
+
+        extracurriculars: extracurriculars.map((activity, index) => (
+            <div key={index} className="mb-3 text-sm">
+                <div className="flex justify-between gap-2">
+                    <p className="font-semibold break-words">{[activity.role, activity.title].filter(Boolean).join(', ')}</p>
+                    <p className="text-xs text-gray-600 whitespace-nowrap">{formatDateRange(activity.date.start, activity.date.end, dateFormat)}</p>
+                </div>
+                <p className="text-blue-700 break-words">{[activity.organization_name, activity.location].filter(Boolean).join(' · ')}</p>
+                {bullets(activity.certificate ? [...activity.bullet_points, activity.certificate] : activity.bullet_points)}
+            </div>
+        )),
+
+        achievements: achievements.map((achievement, index) => (
+            <div key={index} className="mb-2 text-sm">
+                <div className="flex justify-between gap-2">
+                    <p className="font-semibold break-words">{achievement.title}</p>
+                    <p className="text-xs text-gray-600 whitespace-nowrap">{achievement.date_achieved}</p>
+                </div>
+                {achievement.organization && <p className="text-blue-700 break-words">{achievement.organization}</p>}
+                {achievement.description && <p className="text-xs text-gray-700 break-words">{achievement.description}</p>}
+            </div>
+        )),
+
+        publications: publications.map((pub, index) => (
+            <div key={index} className="mb-2 text-sm">
+                <div className="flex justify-between gap-2">
+                    <p className="font-semibold break-words">{pub.title}</p>
+                    <p className="text-xs text-gray-600 whitespace-nowrap">{pub.date}</p>
+                </div>
+                {pub.description && <p className="text-xs text-gray-700 break-words">{pub.description}</p>}
+            </div>
+        )),
+
+        skills: skills.map((skill, index) => (
+            <div key={index} className="mb-2 text-xs">
+                <p className="font-semibold">{skill.skill_group}</p>
+                <p className="text-gray-700 break-words">{skill.skills.join(', ')}</p>
+            </div>
+        )),
+
+        languages: (
+            <p className="text-xs text-gray-700 break-words">{formatLanguages(data)}</p>
+        ),
+
+        certifications: certifications.map((cert, index) => (
+            <div key={index} className="mb-2 text-xs">
+                <p className="font-semibold break-words">{cert.certification_name}</p>
+                <p className="text-gray-700 break-words">{cert.issuing_organisation}</p>
+                {cert.date_issued && (
+                    <p className="text-gray-600">{formatDateRange(cert.date_issued, cert.expiry_date, dateFormat)}</p>
+                )}
+            </div>
+        )),
+    };
+
+    const visible = sectionOrder.filter(section => hasSectionContent(data, section));
+    const sidebar = visible.filter(section => SIDEBAR_SECTIONS.includes(section));
+    const main = visible.filter(section => !SIDEBAR_SECTIONS.includes(section));
+
+    const contactItems = [
+        { key: 'mobile', icon: <Phone size={10} />, value: contact_info.mobile },
+        { key: 'email', icon: <Mail size={10} />, value: contact_info.email },
+        { key: 'location', icon: <MapPin size={10} />, value: contact_info.location },
+        { key: 'linkedin', icon: <LinkedInIcon />, value: contact_info.social_links.linkedin },
+        { key: 'github', icon: <GitHubIcon />, value: contact_info.social_links.github },
+        { key: 'portfolio', icon: <Globe size={10} />, value: contact_info.social_links.portfolio },
+    ].filter(item => item.value);
+
+    return (
+        <div className="font-sans flex min-h-[297mm]">
+
+            {/* Sidebar - contact details and short list sections */}
+            <aside className="w-[34%] bg-slate-100 px-5 py-8 space-y-5">
+                <div>
+                    <h1 className="text-2xl font-bold leading-tight break-words">{personal_info.name}</h1>
+                </div>
+                {contactItems.length > 0 && (
+                    <div className="space-y-1.5 text-xs">
+                        {contactItems.map(item => (
+                            <p key={item.key} className="flex items-center gap-1.5 break-all">
+                                <span className="flex-shrink-0 text-blue-700">{item.icon}</span>
+                                {item.value}
+                            </p>
+                        ))}
+                    </div>
+                )}
+                {sidebar.map(section => (
+                    <div key={section}>
+                        {heading(section)}
+                        {sections[section]}
+                    </div>
+                ))}
+            </aside>
+
+            {/* Main column - narrative sections in template order */}
+            <main className="flex-1 px-6 py-8 space-y-4">
+                {main.map(section => (
+                    <div key={section}>
+                        {heading(section)}
+                        {sections[section]}
+                    </div>
+                ))}
+            </main>
+        </div>
+    );
+};
+
+export default ModernTemplate;
@@ -0,0 +1,95 @@
+import { ResumeData, ResumeSectionId, ResumeTemplateId } from '@/types/resume';
+import { ResumeTemplateProps, SECTION_TITLES } from './shared';
+import { ResumeDateFormat } from '@/lib/resumeDates';
+import ClassicTemplate from './ClassicTemplate';
+import ModernTemplate from './ModernTemplate';
+import CompactTemplate from './CompactTemplate';
+import AcademicTemplate, { ACADEMIC_TITLES } from './AcademicTemplate';
+
+/**
+ * Resume Template Registry
+ *
+ * Every template renders the same ResumeData; the registry pairs each layout
+ * with the metadata the builder needs (picker label, default section order, date format).
+ */
+export interface ResumeTemplateDefinition {
+    id: ResumeTemplateId;
+    name: string;
+    description: string;
+    sectionOrder: ResumeSectionId[];
+    dateFormat: ResumeDateFormat;
+    // Headings that differ from SECTION_TITLES for this layout
+    sectionTitles?: Partial<Record<ResumeSectionId, string>>;
+    component: React.FC<ResumeTemplateProps>;
+}
+
+export const DEFAULT_TEMPLATE_ID: ResumeTemplateId = 'classic';
+
+export const RESUME_TEMPLATES: ResumeTemplateDefinition[] = [
+    {
+        id: 'classic',
+        name: 'Classic',
+        description: 'Single column, serif, centered header',
+        sectionOrder: ['summary', 'education', 'projects', 'experience', 'skills', 'extracurriculars', 'certifications', 'achievements', 'publications', 'languages'],
+        dateFormat: 'short',
+        component: ClassicTemplate,
+    },
+    {
+        id: 'modern',
+        name: 'Modern',
+        description: 'Two columns with a skills sidebar',
+        sectionOrder: ['summary', 'experience', 'projects', 'education', 'extracurriculars', 'achievements', 'publications', 'skills', 'languages', 'certifications'],
+        dateFormat: 'long',
+        component: ModernTemplate,
+    },
+    {
+        id: 'compact',
+        name: 'Compact',
+        description: 'Dense layout for a one-page resume',
+        sectionOrder: ['summary', 'experience', 'projects', 'education', 'skills', 'achievements', 'certifications', 'extracurriculars', 'publications', 'languages'],
+        dateFormat: 'numeric',
+        component: CompactTemplate,
+    },
+    {
+        id: 'academic',
+        name: 'Academic CV',
+        description: 'Education and publications first, dates in the margin',
+        sectionOrder: ['summary', 'education', 'publications', 'experience', 'projects', 'achievements', 'certifications', 'extracurriculars', 'skills', 'languages'],
+        dateFormat: 'year',
+        sectionTitles: ACADEMIC_TITLES,
+        component: AcademicTemplate,
+    },
+];
+
+/**
+ * Resolves the template for a resume, falling back to the default for
+ * resumes saved before templates existed or with an unknown id
+ */
+export const getResumeTemplate = (data: Pick<ResumeData, 'template_id'>): ResumeTemplateDefinition => {
+    return RESUME_TEMPLATES.find(template => template.id === data.template_id)
+        ?? RESUME_TEMPLATES.find(template => template.id === DEFAULT_TEMPLATE_ID)!;
+};
+
+/**
+ * Full section order for a resume, hidden sections included
+ * A saved per-resume order wins; sections it does not mention keep their template order at the end
+ */
+export const getSectionOrder = (data: Pick<ResumeData, 'section_order'>, template: ResumeTemplateDefinition): ResumeSectionId[] => {
+    const saved = (data.section_order ?? []).filter(section => template.sectionOrder.includes(section));
+    return [...new Set([...saved, ...template.sectionOrder])];
+};
+
+/**
+ * Sections to render for a resume, in order, without the ones the user hid
+ */
+export const getVisibleSectionOrder = (data: Pick<ResumeData, 'section_order' | 'hidden_sections'>, template: ResumeTemplateDefinition): ResumeSectionId[] => {
+    const hidden = data.hidden_sections ?? [];
+    return getSectionOrder(data, template).filter(section => !hidden.includes(section));
+};
+
+/**
+ * Heading a template uses for a section, shared by the preview and exporters
+ */
+export const getSectionTitle = (template: ResumeTemplateDefinition, section: ResumeSectionId): string => {
+    return template.sectionTitles?.[section] ?? SECTION_TITLES[section];
+};
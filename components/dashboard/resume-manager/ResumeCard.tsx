@@ -10,7 +10,9 @@ const ResumeCard: React.FC<{
   onEdit: (resume: Resume) => void;
   onDownload: (id: string) => void;
   onDelete: (id: string) => void;
-}> = ({ resume, onEdit, onDownload, onDelete }) => {
+  isSelected?: boolean;
+  onToggleSelect?: (id: string) => void;
+}> = ({ resume, onEdit, onDownload, onDelete, isSelected = false, onToggleSelect }) => {
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'text-green-600';
     if (score >= 60) return 'text-yellow-600';
@@ -24,9 +26,18 @@ const ResumeCard: React.FC<{
   };
 
   return (
-    <div className="bg-white rounded-lg border border-gray-200 p-4 sm:p-6 hover:shadow-md transition-shadow">
+    <div className={`bg-white rounded-lg border p-4 sm:p-6 hover:shadow-md transition-shadow ${isSelected ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200'}`}>
       <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between mb-4">
         <div className="flex items-center space-x-3 mb-3 sm:mb-0">
+          {onToggleSelect && (
+            <input
+              type="checkbox"
+              checked={isSelected}
+              onChange={() => onToggleSelect(resume._id)}
+              aria-label={`Select ${resume.resume_name}`}
+              className="w-4 h-4 accent-blue-600 cursor-pointer flex-shrink-0"
+            />
+          )}
           <div className="w-48 sm:w-70">
             <h3 className="font-semibold text-gray-900 text-base sm:text-lg truncate">
               {resume.resume_name}
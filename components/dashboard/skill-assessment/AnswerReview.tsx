@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from 'react';
+import { CheckCircle, XCircle, ListChecks, AlertCircle, ChevronRight } from 'lucide-react';
+import { AssessmentData } from '@/types/resume';
+
+export interface AnswerReviewFilter {
+  // 'all' or one skill name
+  skill: string;
+  wrongOnly: boolean;
+}
+
+interface AnswerReviewProps {
+  assessmentData: AssessmentData;
+  // Filter to open with, e.g. one weak skill when coming from the feedback step
+  initialFilter?: AnswerReviewFilter;
+  onContinue: () => void;
+}
+
+/**
+ * Answer Review Component
+ * Lists every graded question with the selected and correct options and the grader's explanation
+ * Filterable by skill and to wrong answers only; skills with misses link to their improvement area
+ */
+const AnswerReview: React.FC<AnswerReviewProps> = ({
+  assessmentData,
+  initialFilter = { skill: 'all', wrongOnly: false },
+  onContinue,
+}) => {
+  const [filter, setFilter] = useState<AnswerReviewFilter>(initialFilter);
+
+  const { questions, answers, results } = assessmentData;
+  const improvementAreas = results.career_suggestions.improvement_areas;
+
+  // Numbered in the order they were asked, before filtering
+  const numberedAnswers = answers.map((answer, index) => ({ ...answer, number: index + 1 }));
+  const skills = Array.from(new Set(answers.map(answer => answer.skill)));
+  const correctCount = answers.filter(answer => answer.isCorrect).length;
+
+  const getWrongCount = (skill: string) =>
+    answers.filter(answer => answer.skill === skill && !answer.isCorrect).length;
+
+  // The grader and the career suggestions may differ in casing
+  const getImprovementArea = (skill: string) =>
+    improvementAreas.find(area => area.skill.toLowerCase() === skill.toLowerCase());
+
+  // Full option text for a letter, e.g. "B" -> "B. Reproduce the issue"
+  const getOptionText = (questionText: string, letter: string) => {
+    const question = questions.find(item => item.question === questionText);
+    return question?.options.find(option => option.startsWith(`${letter}.`)) ?? letter;
+  };
+
+  // Skills with misses, most missed first
+  const weakSkills = skills
+    .map(skill => ({ skill, wrong: getWrongCount(skill), area: getImprovementArea(skill) }))
+    .filter(item => item.wrong > 0)
+    .sort((a, b) => b.wrong - a.wrong);
+
+  // Filtered answers, grouped by skill in the order skills were first asked
+  const visibleGroups = skills
+    .filter(skill => filter.skill === 'all' || filter.skill === skill)
+    .map(skill => ({
+      skill,
+      area: getImprovementArea(skill),
+      answers: numberedAnswers.filter(answer => answer.skill === skill && (!filter.wrongOnly || !answer.isCorrect)),
+    }))
+    .filter(group => group.answers.length > 0);
+
+  return (
+    <div className="w-full mx-auto max-w-6xl space-y-4 sm:space-y-6">
+      {/* Summary and Filters */}
+      <div className="bg-white p-4 sm:p-6 rounded-lg shadow-sm">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <ListChecks className="text-blue-500" size={24} />
+            <div>
+              <h2 className="text-xl sm:text-2xl font-semibold">Review Your Answers</h2>
+              <p className="text-sm text-gray-600">{correctCount} of {answers.length} correct</p>
+            </div>
+          </div>
+          <button
+            onClick={onContinue}
+            className="px-4 sm:px-6 py-2 sm:py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 flex items-center justify-center gap-2 font-medium"
+          >
+            Continue to Career Feedback
+            <ChevronRight size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <select
+            value={filter.skill}
+            onChange={(e) => setFilter(prev => ({ ...prev, skill: e.target.value }))}
+            aria-label="Filter by skill"
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white outline-none focus:ring-1"
+          >
+            <option value="all">All skills</option>
+            {skills.map(skill => (
+              <option key={skill} value={skill}>{skill} ({getWrongCount(skill)} wrong)</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={filter.wrongOnly}
+              onChange={(e) => setFilter(prev => ({ ...prev, wrongOnly: e.target.checked }))}
+              className="w-4 h-4 text-blue-600"
+            />
+            Wrong answers only
+          </label>
+        </div>
+
+        {/* Weak Topics - Jump straight to a skill's misses */}
+        {weakSkills.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-gray-100">
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Weak topics</p>
+            <div className="flex flex-wrap gap-2">
+              {weakSkills.map(({ skill, wrong, area }) => (
+                <button
+                  key={skill}
+                  onClick={() => setFilter({ skill, wrongOnly: true })}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${filter.skill === skill && filter.wrongOnly
+                    ? 'bg-orange-100 border-orange-300 text-orange-900'
+                    : 'bg-white border-gray-200 text-gray-700 hover:bg-orange-50'
+                    }`}
+                >
+                  {skill} · {wrong} wrong{area ? ' · improvement area' : ''}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Questions by Skill */}
+      {visibleGroups.length === 0 ? (
+        <div className="bg-white p-8 rounded-lg shadow-sm text-center text-gray-600">
+          {filter.wrongOnly ? 'No wrong answers here. Nice work!' : 'No questions match this filter.'}
+        </div>
+      ) : visibleGroups.map(group => (
+        <div key={group.skill} className="bg-white p-4 sm:p-6 rounded-lg shadow-sm">
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <h3 className="text-lg font-semibold text-gray-900">{group.skill}</h3>
+            <span className="text-sm text-gray-600">{getWrongCount(group.skill)} wrong</span>
+          </div>
+
+          {/* Linked improvement area from the career suggestions */}
+          {group.area && getWrongCount(group.skill) > 0 && (
+            <div className="flex items-start gap-2 p-3 mb-3 bg-orange-50 border border-orange-200 rounded-lg text-sm">
+              <AlertCircle className="w-4 h-4 text-orange-500 flex-shrink-0 mt-0.5" />
+              <p className="text-orange-800">
+                <span className="font-semibold">Improvement area:</span> {group.area.improvement_point}
+              </p>
+            </div>
+          )}
+
+          <ol className="space-y-3">
+            {group.answers.map(answer => (
+              <li
+                key={answer.number}
+                className={`p-3 sm:p-4 rounded-lg border ${answer.isCorrect ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}
+              >
+                <div className="flex items-start gap-2">
+                  {answer.isCorrect
+                    ? <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+                    : <XCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />}
+                  <div className="min-w-0 text-sm">
+                    <p className="font-medium text-gray-900 mb-2">{answer.number}. {answer.questionId}</p>
+                    <p className="text-gray-700">
+                      Your answer: {answer.answer ? getOptionText(answer.questionId, answer.answer) : <span className="italic">Skipped</span>}
+                    </p>
+                    {!answer.isCorrect && answer.correctAnswer && (
+                      <p className="text-gray-700">Correct answer: {getOptionText(answer.questionId, answer.correctAnswer)}</p>
+                    )}
+                    {answer.explanation && (
+                      <p className="text-gray-600 mt-2">{answer.explanation}</p>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AnswerReview;
@@ -10,13 +10,21 @@ interface AssessmentProps {
   totalQuestions: number;
   timeRemaining: number;
   onAnswer: (answer: string) => void;
-  onNext: () => void;
+  onNext: (answer: string) => void;
   onPrevious: () => void;
   onSkip: () => void;
   loading?: boolean;
   currentAnswer?: string; // Add this prop to receive the current answer
+  // Adaptive runs have no fixed length and answers cannot be revisited
+  adaptive?: boolean;
 }
 
+const DIFFICULTY_STYLES = {
+  beginner: 'bg-green-100 text-green-800',
+  intermediate: 'bg-yellow-100 text-yellow-800',
+  advanced: 'bg-red-100 text-red-800',
+};
+
 const Assessment: React.FC<AssessmentProps> = ({ 
   question, 
   questionNumber, 
@@ -27,7 +35,8 @@ const Assessment: React.FC<AssessmentProps> = ({
   onPrevious, 
   onSkip,
   loading = false,
-  currentAnswer = '' // Default to empty string
+  currentAnswer = '', // Default to empty string
+  adaptive = false
 }) => {
   const [selectedAnswer, setSelectedAnswer] = useState<string>(currentAnswer);
 
@@ -46,7 +55,7 @@ const Assessment: React.FC<AssessmentProps> = ({
     if (selectedAnswer) {
       onAnswer(selectedAnswer);
     }
-    onNext();
+    onNext(selectedAnswer);
   };
 
   const handleSkip = () => {
@@ -61,7 +70,7 @@ const Assessment: React.FC<AssessmentProps> = ({
     onPrevious();
   };
 
-  const isLastQuestion = questionNumber === totalQuestions;
+  const isLastQuestion = !adaptive && questionNumber === totalQuestions;
 
   return (
     <div className="bg-white p-8 rounded-lg shadow-sm max-w-6xl mx-auto">
@@ -75,7 +84,7 @@ const Assessment: React.FC<AssessmentProps> = ({
             </span>
           </div>
           <span className="bg-blue-500/20 px-2 py-1 rounded-full">
-            Question {questionNumber} of {totalQuestions}
+            Question {questionNumber} of {adaptive ? 'up to ' : ''}{totalQuestions}
           </span>
         </div>
       </div>
@@ -85,6 +94,12 @@ const Assessment: React.FC<AssessmentProps> = ({
           <span className="px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm">
             {question.topic}
           </span>
+          {/* In adaptive runs the next difficulty follows the last answer, so showing it would give the grade away */}
+          {question.difficulty && !adaptive && (
+            <span className={`px-3 py-1 rounded-full text-sm capitalize ${DIFFICULTY_STYLES[question.difficulty]}`}>
+              {question.difficulty}
+            </span>
+          )}
           <span className="text-gray-500">• Multiple Choice</span>
         </div>
       </div>
@@ -126,9 +141,9 @@ const Assessment: React.FC<AssessmentProps> = ({
       <div className="flex justify-between items-center">
         <button
           onClick={handlePrevious}
-          disabled={questionNumber === 1}
+          disabled={questionNumber === 1 || adaptive}
           className={`px-4 py-2 flex items-center gap-2 rounded-lg ${
-            questionNumber === 1 
+            questionNumber === 1 || adaptive
               ? 'text-gray-400 cursor-not-allowed' 
               : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
           }`}
@@ -140,7 +155,8 @@ const Assessment: React.FC<AssessmentProps> = ({
         <div className="flex gap-3">
           <button
             onClick={handleSkip}
-            className="px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-50 rounded-lg"
+            disabled={loading}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-50 rounded-lg disabled:text-gray-400 disabled:cursor-not-allowed"
           >
             Skip Question
           </button>
@@ -154,7 +170,7 @@ const Assessment: React.FC<AssessmentProps> = ({
                 : 'bg-blue-500 text-white hover:bg-blue-600'
             }`}
           >
-            {loading ? 'Submitting...' : isLastQuestion ? 'Submit Assessment' : 'Next Question'}
+            {loading ? 'Submitting...' : isLastQuestion ? 'Submit Assessment' : adaptive ? 'Submit Answer' : 'Next Question'}
           </button>
         </div>
       </div>
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { AssessmentAttempt } from '@/types/resume';
+import { formatDate } from '@/lib/utils';
+
+interface AttemptComparisonProps {
+  // Oldest first; needs at least two
+  attempts: AssessmentAttempt[];
+}
+
+const formatChange = (change: number | null) => {
+  if (change === null) return <span className="text-gray-400">—</span>;
+  const color = change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-gray-500';
+  return <span className={`font-medium ${color}`}>{change > 0 ? '+' : ''}{change}</span>;
+};
+
+/**
+ * Attempt Comparison Component
+ * Puts any two assessment attempts side by side, skill by skill, with the change between them
+ * Defaults to the two most recent attempts
+ */
+const AttemptComparison: React.FC<AttemptComparisonProps> = ({ attempts }) => {
+  const [baseId, setBaseId] = useState(attempts[attempts.length - 2]?._id ?? '');
+  const [compareId, setCompareId] = useState(attempts[attempts.length - 1]?._id ?? '');
+
+  const base = attempts.find(attempt => attempt._id === baseId);
+  const compare = attempts.find(attempt => attempt._id === compareId);
+
+  const getScore = (attempt: AssessmentAttempt | undefined, skill: string) =>
+    attempt?.skill_scores.find(score => score.skill === skill)?.score ?? null;
+
+  // Skills from either attempt, in the order they were first assessed
+  const skills = Array.from(new Set([
+    ...(base?.skill_scores ?? []).map(score => score.skill),
+    ...(compare?.skill_scores ?? []).map(score => score.skill),
+  ]));
+
+  const renderSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <label className="flex-1">
+      <span className="block text-xs font-medium text-gray-600 mb-1">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white outline-none focus:ring-1"
+      >
+        {attempts.map((attempt, index) => (
+          <option key={attempt._id} value={attempt._id}>
+            #{index + 1} · {formatDate(attempt.completed_at)} · {attempt.overall_score}%
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="bg-white p-4 sm:p-6 rounded-lg border border-gray-200">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Compare Attempts</h2>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3 mb-6">
+        {renderSelect(baseId, setBaseId, 'From')}
+        <ArrowRight className="hidden sm:block w-5 h-5 text-gray-400 mb-2.5" />
+        {renderSelect(compareId, setCompareId, 'To')}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b border-gray-200">
+              <th className="py-2 pr-4 font-medium">Skill</th>
+              <th className="py-2 px-4 font-medium text-right">From</th>
+              <th className="py-2 px-4 font-medium text-right">To</th>
+              <th className="py-2 pl-4 font-medium text-right">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-gray-100 font-semibold text-gray-900">
+              <td className="py-2 pr-4">Overall</td>
+              <td className="py-2 px-4 text-right">{base ? `${base.overall_score}%` : '—'}</td>
+              <td className="py-2 px-4 text-right">{compare ? `${compare.overall_score}%` : '—'}</td>
+              <td className="py-2 pl-4 text-right">
+                {formatChange(base && compare ? compare.overall_score - base.overall_score : null)}
+              </td>
+            </tr>
+            {skills.map(skill => {
+              const from = getScore(base, skill);
+              const to = getScore(compare, skill);
+              return (
+                <tr key={skill} className="border-b border-gray-100 text-gray-700">
+                  <td className="py-2 pr-4">{skill}</td>
+                  <td className="py-2 px-4 text-right">{from !== null ? `${from}%` : <span className="text-gray-400">Not assessed</span>}</td>
+                  <td className="py-2 px-4 text-right">{to !== null ? `${to}%` : <span className="text-gray-400">Not assessed</span>}</td>
+                  <td className="py-2 pl-4 text-right">{formatChange(from !== null && to !== null ? to - from : null)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AttemptComparison;
@@ -1,17 +1,26 @@
 "use client";
 
 import { useState } from 'react';
-import { CheckCircle, AlertCircle, Trophy, Code, Monitor, Database, Briefcase, Palette } from 'lucide-react';
-import { AssessmentData } from '@/types/resume';
+import { CheckCircle, AlertCircle, Trophy, Code, Monitor, Database, Briefcase, Palette, BarChart3, Gauge, ListChecks } from 'lucide-react';
+import { AssessmentData, ProficiencyLevel } from '@/types/resume';
+import { formatPercentile } from '@/lib/skillBenchmarks';
+
+const PROFICIENCY_STYLES: Record<ProficiencyLevel, { label: string; badge: string; segments: number }> = {
+  beginner: { label: 'Beginner', badge: 'bg-orange-100 text-orange-800', segments: 1 },
+  intermediate: { label: 'Intermediate', badge: 'bg-blue-100 text-blue-800', segments: 2 },
+  advanced: { label: 'Advanced', badge: 'bg-green-100 text-green-800', segments: 3 },
+};
 
 const CareerFeedback: React.FC<{
   assessmentData: AssessmentData;
   onRetakeAssessment: () => void;
-}> = ({ assessmentData }) => {
+  // Opens the answer review on one skill's wrong answers
+  onReviewAnswers?: (skill: string) => void;
+}> = ({ assessmentData, onReviewAnswers }) => {
   const [activeTab, setActiveTab] = useState<'technical' | 'soft'>('technical');
 
-  const { results, skills } = assessmentData;
-  const { overall_score, skill_scores, career_suggestions } = results;
+  const { results, skills, answers } = assessmentData;
+  const { overall_score, skill_scores, career_suggestions, benchmark_source } = results;
 
   // Filter skills based on active tab and limit to 8
   const getFilteredSkills = () => {
@@ -25,6 +34,10 @@ const CareerFeedback: React.FC<{
   };
 
   const filteredSkills = getFilteredSkills();
+  const hasAverages = filteredSkills.some(skill => skill.industryAverage !== undefined);
+  const benchmarkedSkills = skill_scores.filter(skill => skill.percentile !== undefined);
+  const usedGeneralBenchmark = benchmarkedSkills.some(skill => skill.benchmarkMatched === false);
+  const leveledSkills = skill_scores.flatMap(skill => skill.proficiency ? [{ ...skill, proficiency: skill.proficiency }] : []);
 
   const getOverallScoreStatus = () => {
     if (overall_score >= 80) return { text: 'Excellent', color: 'text-green-600', bg: 'bg-green-100' };
@@ -48,6 +61,10 @@ const CareerFeedback: React.FC<{
     return 'low';
   };
 
+  // Improvement areas may differ in casing from the graded topics
+  const getWrongCount = (skill: string) =>
+    answers.filter(answer => answer.skill.toLowerCase() === skill.toLowerCase() && !answer.isCorrect).length;
+
   const status = getOverallScoreStatus();
 
   return (
@@ -76,6 +93,38 @@ const CareerFeedback: React.FC<{
         </div>
       </div>
 
+      {/* Proficiency Levels - Adaptive runs only */}
+      {leveledSkills.length > 0 && (
+        <div className="mt-4 sm:mt-6 bg-white rounded-lg p-4 sm:p-6 shadow-sm">
+          <div className="flex items-center gap-2 mb-1">
+            <Gauge className="text-blue-500" size={20} />
+            <h3 className="text-lg sm:text-xl font-bold">Proficiency by Skill</h3>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">Estimated from the difficulty of the questions you answered correctly</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {leveledSkills.map(skill => {
+              const level = PROFICIENCY_STYLES[skill.proficiency];
+              return (
+                <div key={skill.skill} className="p-3 rounded-lg border border-gray-200">
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <span className="font-medium text-gray-900 truncate">{skill.skill}</span>
+                    <span className={`text-xs font-medium px-2 py-1 rounded-full flex-shrink-0 ${level.badge}`}>{level.label}</span>
+                  </div>
+                  <div className="flex gap-1 mb-2" aria-hidden="true">
+                    {[1, 2, 3].map(segment => (
+                      <div key={segment} className={`h-1.5 flex-1 rounded-full ${segment <= level.segments ? 'bg-blue-500' : 'bg-gray-200'}`} />
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {skill.score ?? 0}% correct · {skill.questionsAsked} question{skill.questionsAsked === 1 ? '' : 's'}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Skill Proficiency Map and Career Suggestions */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6 mt-4 sm:mt-6">
         {/* Skill Proficiency Map */}
@@ -149,6 +198,23 @@ const CareerFeedback: React.FC<{
                     );
                   })}
 
+                  {/* Industry average outline */}
+                  {hasAverages && (
+                    <polygon
+                      points={filteredSkills.map((skill, index) => {
+                        const angle = (index * (360 / filteredSkills.length)) * (Math.PI / 180);
+                        const radius = ((skill.industryAverage ?? 0) / 100) * 120;
+                        const x = 150 + Math.cos(angle - Math.PI / 2) * radius;
+                        const y = 150 + Math.sin(angle - Math.PI / 2) * radius;
+                        return `${x},${y}`;
+                      }).join(' ')}
+                      fill="none"
+                      stroke="#9ca3af"
+                      strokeWidth="2"
+                      strokeDasharray="4 4"
+                    />
+                  )}
+
                   {/* Connecting lines for user scores */}
                   {filteredSkills.length > 0 && (
                     <polygon
@@ -171,6 +237,12 @@ const CareerFeedback: React.FC<{
                     <div className="w-4 h-2 bg-blue-500 rounded"></div>
                     <span className="text-sm">Your Skills</span>
                   </div>
+                  {hasAverages && (
+                    <div className="flex items-center gap-2">
+                      <div className="w-4 h-0 border-t-2 border-dashed border-gray-400"></div>
+                      <span className="text-sm">Industry Average</span>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -277,15 +349,64 @@ const CareerFeedback: React.FC<{
             <h3 className="text-lg sm:text-xl font-bold">Improvement Areas</h3>
           </div>
           <div className="space-y-3 sm:space-y-4">
-            {career_suggestions.improvement_areas.map((improvement, index) => (
-              <div key={index} className="p-3 sm:p-4 bg-orange-50 rounded-lg">
-                <h4 className="font-semibold text-orange-800 mb-2 text-sm sm:text-base">{improvement.skill}</h4>
-                <p className="text-orange-700 text-sm">{improvement.improvement_point}</p>
+            {career_suggestions.improvement_areas.map((improvement, index) => {
+              const wrongCount = getWrongCount(improvement.skill);
+              return (
+                <div key={index} className="p-3 sm:p-4 bg-orange-50 rounded-lg">
+                  <h4 className="font-semibold text-orange-800 mb-2 text-sm sm:text-base">{improvement.skill}</h4>
+                  <p className="text-orange-700 text-sm">{improvement.improvement_point}</p>
+                  {onReviewAnswers && wrongCount > 0 && (
+                    <button
+                      onClick={() => onReviewAnswers(improvement.skill)}
+                      className="mt-2 flex items-center gap-1 text-sm font-medium text-orange-900 hover:underline"
+                    >
+                      <ListChecks className="w-4 h-4" />
+                      Review {wrongCount} missed question{wrongCount === 1 ? '' : 's'}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {/* Benchmark Comparison */}
+      {benchmarkedSkills.length > 0 && (
+        <div className="mt-4 sm:mt-8 bg-white rounded-lg p-4 sm:p-6 shadow-sm">
+          <div className="flex items-center gap-2 mb-4">
+            <BarChart3 className="text-blue-500" size={20} />
+            <h3 className="text-lg sm:text-xl font-bold">How You Compare</h3>
+          </div>
+          <div className="space-y-4">
+            {benchmarkedSkills.map(skill => (
+              <div key={skill.skill}>
+                <div className="flex items-center justify-between gap-4 mb-1 text-sm">
+                  <span className="font-medium text-gray-900 truncate">{skill.skill}</span>
+                  <span className="text-gray-600 flex-shrink-0">
+                    {skill.score ?? 0}% vs {skill.industryAverage}% average ·{' '}
+                    <span className="font-semibold text-gray-900">{formatPercentile(skill.percentile ?? 0)} percentile</span>
+                  </span>
+                </div>
+                {/* Percentile position, with the median marked */}
+                <div className="relative w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full ${(skill.percentile ?? 0) >= 75 ? 'bg-green-500' : (skill.percentile ?? 0) >= 50 ? 'bg-blue-500' : (skill.percentile ?? 0) >= 25 ? 'bg-yellow-500' : 'bg-red-500'}`}
+                    style={{ width: `${skill.percentile}%` }}
+                  />
+                  <div className="absolute top-[-2px] left-1/2 w-px h-3 bg-gray-500" />
+                </div>
               </div>
             ))}
           </div>
+          {benchmark_source && (
+            <p className="text-xs text-gray-500 mt-4 pt-4 border-t border-gray-100">
+              Benchmarks from {benchmark_source.name}, version {benchmark_source.version} (updated {benchmark_source.updated_at}).
+              {usedGeneralBenchmark && ' Skills without their own benchmark are compared with the general distribution.'}
+            </p>
+          )}
         </div>
-      </div>
+      )}
 
       {/* AI Tips */}
       <div className="mt-4 sm:mt-8 p-4 sm:p-6 bg-blue-50 rounded-lg shadow-sm">
@@ -3,7 +3,8 @@ const ProgressStepper: React.FC<{ currentStep: number; totalSteps: number }> = (
         switch (index) {
             case 0: return 'Skill Extraction';
             case 1: return 'Assessment';
-            case 2: return 'Career Feedback';
+            case 2: return 'Answer Review';
+            case 3: return 'Career Feedback';
             default: return `Step ${index + 1}`;
         }
     };
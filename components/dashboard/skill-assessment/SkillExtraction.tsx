@@ -2,11 +2,12 @@
 
 import { useState, useEffect } from 'react';
 import { Code, Users, AlertCircle, ChevronRight, Loader2 } from 'lucide-react';
-import { AssessmentSkill } from '@/types/resume';
+import { AssessmentSkill, AssessmentMode } from '@/types/resume';
 import { useDashboard } from '@/context/DashboardContext';
 import SkillTag from './SkillTag';
 import AddSkillButton from './AddSkillButton';
-import axios from 'axios';
+import { resumeApi, isCancelledError } from '@/services/apiClient';
+import { useAbortSignal } from '@/lib/useAbortSignal';
 
 /**
  * Interface defining the props for the SkillExtraction component
@@ -18,8 +19,17 @@ interface SkillExtractionProps {
     onNext?: () => void;
     /** Loading state for the next button */
     loading?: boolean;
+    /** Assessment mode to start; the picker is hidden without onModeChange */
+    mode?: AssessmentMode;
+    /** Callback function triggered when the user picks a mode */
+    onModeChange?: (mode: AssessmentMode) => void;
 }
 
+const MODE_OPTIONS: { value: AssessmentMode; label: string; description: string }[] = [
+    { value: 'fixed', label: 'Standard', description: 'Every generated question, in order' },
+    { value: 'adaptive', label: 'Adaptive', description: 'Difficulty follows your answers and each skill ends once your level is clear' },
+];
+
 /**
  * SkillExtraction Component
  * 
@@ -40,7 +50,9 @@ interface SkillExtractionProps {
 const SkillExtraction: React.FC<SkillExtractionProps> = ({
     onSkillsChange = () => { },
     onNext = () => { },
-    loading = false
+    loading = false,
+    mode = 'fixed',
+    onModeChange
 }) => {
     // Dashboard context for global skill management
     const { skills: contextSkills, setSkills } = useDashboard();
@@ -49,6 +61,7 @@ const SkillExtraction: React.FC<SkillExtractionProps> = ({
     const [skillLoading, setSkillLoading] = useState<boolean>(false);
     const [currentSkills, setCurrentSkills] = useState<AssessmentSkill[]>([]);
     const [apiError, setApiError] = useState<string | null>(null);
+    const getSignal = useAbortSignal();
 
     /**
      * Transforms raw skill arrays into AssessmentSkill objects with proper structure
@@ -94,13 +107,11 @@ const SkillExtraction: React.FC<SkillExtractionProps> = ({
                 setApiError(null);
 
                 // Make API request to fetch resume analysis
-                const response = await axios.get(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/latest-analysis`, {
-                    withCredentials: true,
-                });
+                const response = await resumeApi.latestAnalysis(getSignal());
 
                 // Extract skills from API response (note: handling typo in API response)
-                const technicalSkills = response.data.resume_analysis?.techinal_skills || [];
-                const softSkills = response.data.resume_analysis?.softSkills || [];
+                const technicalSkills = response.resume_analysis?.techinal_skills || [];
+                const softSkills = response.resume_analysis?.soft_skills || [];
 
                 // Update global context with fetched skills
                 setSkills({
@@ -114,19 +125,17 @@ const SkillExtraction: React.FC<SkillExtractionProps> = ({
                 onSkillsChange(transformedSkills);
 
             } catch (err) {
-                if (axios.isAxiosError(err)) {
-                    // Handle API error specifically
-                    setApiError(err.response?.data?.message || 'Failed to fetch resume data');
-                }
+                // The component unmounted before the request finished
+                if (isCancelledError(err)) return;
+                setApiError(err instanceof Error ? err.message : 'Failed to fetch resume data');
                 setSkills(null);
-            } finally {
-                // Reset loading state
-                setSkillLoading(false);
             }
+            // Reset loading state
+            setSkillLoading(false);
         };
 
         fetchResumeData();
-    }, []); // Empty dependency array to run only once
+    }, [getSignal]); // getSignal is stable, so this still runs only once
 
     /**
      * Backup effect to handle context skills if API fails or for initial load
@@ -341,6 +350,33 @@ const SkillExtraction: React.FC<SkillExtractionProps> = ({
                         </p>
                     )}
 
+                    {/* Assessment Mode Picker */}
+                    {onModeChange && (
+                        <div className="flex flex-col items-stretch sm:items-end gap-1">
+                            <div role="radiogroup" aria-label="Assessment mode" className="flex p-1 bg-gray-100 rounded-lg">
+                                {MODE_OPTIONS.map(option => (
+                                    <button
+                                        key={option.value}
+                                        type="button"
+                                        role="radio"
+                                        aria-checked={mode === option.value}
+                                        onClick={() => onModeChange(option.value)}
+                                        disabled={loading}
+                                        className={`flex-1 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${mode === option.value
+                                            ? 'bg-white text-gray-900 shadow-sm'
+                                            : 'text-gray-600 hover:text-gray-900'
+                                            }`}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-xs text-gray-500 text-center sm:text-right">
+                                {MODE_OPTIONS.find(option => option.value === mode)?.description}
+                            </p>
+                        </div>
+                    )}
+
                     {/* Start Assessment Button */}
                     <button
                         onClick={onNext}
@@ -0,0 +1,84 @@
+"use client";
+
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+
+interface SkillTrendChartProps {
+  skill: string;
+  // One point per attempt that assessed this skill, oldest first
+  points: { attemptNumber: number; date: string; score: number }[];
+}
+
+const WIDTH = 280;
+const HEIGHT = 140;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 32 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+/**
+ * Skill Trend Chart Component
+ * Line chart of one skill's score across the attempts that assessed it
+ */
+const SkillTrendChart: React.FC<SkillTrendChartProps> = ({ skill, points }) => {
+  const latest = points[points.length - 1];
+  const previous = points[points.length - 2];
+  const change = latest && previous ? latest.score - previous.score : null;
+
+  // A single attempt is drawn in the middle rather than on the axis
+  const toX = (index: number) =>
+    PADDING.left + (points.length > 1 ? (index / (points.length - 1)) * PLOT_WIDTH : PLOT_WIDTH / 2);
+  const toY = (score: number) => PADDING.top + (1 - score / 100) * PLOT_HEIGHT;
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-gray-900 truncate">{skill}</h3>
+        {change !== null && (
+          <span className={`flex items-center gap-1 text-sm font-medium ${change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+            {change > 0 ? <TrendingUp className="w-4 h-4" /> : change < 0 ? <TrendingDown className="w-4 h-4" /> : <Minus className="w-4 h-4" />}
+            {change > 0 ? '+' : ''}{change}
+          </span>
+        )}
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${skill} scores over ${points.length} attempts`}>
+        {/* Horizontal grid lines */}
+        {[0, 50, 100].map(score => (
+          <g key={score}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={toY(score)} y2={toY(score)} stroke="#e5e7eb" strokeWidth="1" />
+            <text x={PADDING.left - 6} y={toY(score)} textAnchor="end" dominantBaseline="middle" className="text-[10px] fill-gray-500">
+              {score}
+            </text>
+          </g>
+        ))}
+
+        {/* Score line */}
+        {points.length > 1 && (
+          <polyline
+            points={points.map((point, index) => `${toX(index)},${toY(point.score)}`).join(' ')}
+            fill="none"
+            stroke="#3b82f6"
+            strokeWidth="2"
+          />
+        )}
+
+        {/* Attempt points and labels */}
+        {points.map((point, index) => (
+          <g key={point.attemptNumber}>
+            <circle cx={toX(index)} cy={toY(point.score)} r="4" fill="#3b82f6">
+              <title>{`Attempt #${point.attemptNumber} (${point.date}): ${point.score}%`}</title>
+            </circle>
+            <text x={toX(index)} y={HEIGHT - 6} textAnchor="middle" className="text-[10px] fill-gray-500">
+              #{point.attemptNumber}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      {latest && (
+        <p className="text-xs text-gray-500 mt-1">Latest: {latest.score}% on {latest.date}</p>
+      )}
+    </div>
+  );
+};
+
+export default SkillTrendChart;
@@ -1,44 +1,43 @@
 'use client';
 
 import { createContext, useContext, useEffect, useState } from 'react';
-import axios from 'axios';
-import { useRouter } from 'next/navigation';
-
-type User = {
-    userId: string,
-    email: string,
-    isVerified: boolean,
-};
+import { usePathname, useRouter } from 'next/navigation';
+import { AuthUser } from '@/types/resume';
+import { authApi, isCancelledError } from '@/services/apiClient';
 
 type AuthContextType = {
-    user: User | null;
+    user: AuthUser | null;
     success: boolean;
 };
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
-    const [user, setUser] = useState<User | null>(null);
+    const [user, setUser] = useState<AuthUser | null>(null);
     const [success, setSuccess] = useState<boolean>(false);
     const router = useRouter();
 
-    // Auto-fetch user on load
+    // Signing in or out moves between the public pages and the dashboard without a reload,
+    // so the user is fetched again on each move rather than only on load
+    const inDashboard = usePathname().startsWith('/dashboard');
+
     useEffect(() => {
+        const controller = new AbortController();
         const fetchUser = async () => {
             try {
-                const res = await axios.get(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/auth/check-auth`, {
-                    withCredentials: true,
-                });
-                setUser(res.data.userData);
-                setSuccess(res.data.success);
+                const res = await authApi.checkAuth(controller.signal);
+                setUser(res.userData);
+                setSuccess(res.success);
             } catch (err) {
+                if (isCancelledError(err)) return;
                 setUser(null);
                 router.push('/');
             }
         };
 
         fetchUser();
-    }, []);
+        return () => controller.abort();
+    }, [inDashboard]);
     return (
         <AuthContext.Provider value={{ user, success }}>
             {children}
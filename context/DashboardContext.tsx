@@ -1,7 +1,10 @@
 "use client";
 
-import { createContext, useContext, useState, ReactNode, useRef } from 'react'
+import { createContext, useContext, useState, ReactNode, useRef, useMemo } from 'react'
 import { ResumeAnalysis, ResumeData, ExtractedSkills } from '@/types/resume';
+import { useUndoableState, UndoableControls } from '@/lib/useUndoableState';
+import { validateResume, ResumeValidation } from '@/lib/resumeValidation';
+import { FIT_STEPS, PageFitSettings } from '@/lib/usePageFit';
 
 //Define the context type
 type ContextType = {
@@ -12,6 +15,11 @@ type ContextType = {
     setResumeAnalysisData: (data: ResumeAnalysis | null) => void;
     resumeData: ResumeData;
     setResumeData: React.Dispatch<React.SetStateAction<ResumeData>>;
+    resumeHistory: UndoableControls<ResumeData>;
+    resumeValidation: ResumeValidation;
+    // Fit step the preview settled on, applied to PDF and DOCX exports too
+    pageFit: PageFitSettings;
+    setPageFit: (settings: PageFitSettings) => void;
     skills: ExtractedSkills | null;
     setSkills: React.Dispatch<React.SetStateAction<ExtractedSkills | null>>;
 }
@@ -28,7 +36,7 @@ export const ContextProvider = ({ children }: ContextProviderProps) => {
     const [openDialog, setOpenDialog] = useState<boolean>(false);
     const resumeRef = useRef<HTMLDivElement>(null);
     const [resumeAnalysisData, setResumeAnalysisData] = useState<ResumeAnalysis | null>(null);
-    const [resumeData, setResumeData] = useState<ResumeData>({
+    const [resumeData, setResumeData, resumeHistory] = useUndoableState<ResumeData>({
         _id: '',
         resume_name: '',
         is_primary: false,
@@ -58,13 +66,18 @@ export const ContextProvider = ({ children }: ContextProviderProps) => {
         ats_score: 0
     });
 
+    // Recomputed on every edit so forms, the summary panel and save/export gates agree
+    const resumeValidation = useMemo(() => validateResume(resumeData), [resumeData]);
+
+    const [pageFit, setPageFit] = useState<PageFitSettings>(FIT_STEPS[0]);
+
     const [skills, setSkills] = useState<ExtractedSkills | null>({
         technicalSkills: [],
         softSkills: []
     });
 
     return (
-        <Context.Provider value={{ openDialog, setOpenDialog, resumeAnalysisData, setResumeAnalysisData, resumeData, setResumeData, resumeRef: resumeRef as React.RefObject<HTMLDivElement>, skills, setSkills }}>
+        <Context.Provider value={{ openDialog, setOpenDialog, resumeAnalysisData, setResumeAnalysisData, resumeData, setResumeData, resumeHistory, resumeValidation, pageFit, setPageFit, resumeRef: resumeRef as React.RefObject<HTMLDivElement>, skills, setSkills }}>
             {children}
         </Context.Provider>
     )
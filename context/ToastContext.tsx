@@ -0,0 +1,126 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import ToastStack from '@/components/dashboard/ToastStack';
+
+export type ToastVariant = 'success' | 'error' | 'info' | 'progress';
+
+export interface ToastAction {
+    label: string;
+    onClick: () => void;
+}
+
+export interface ToastOptions {
+    title?: string;
+    // Button such as Retry or Undo; clicking it also dismisses the toast
+    action?: ToastAction;
+    // Milliseconds before the toast closes itself; null keeps it open. Defaults per variant
+    duration?: number | null;
+}
+
+export interface Toast extends ToastOptions {
+    id: string;
+    variant: ToastVariant;
+    message: string;
+}
+
+type ToastContextType = {
+    success: (message: string, options?: ToastOptions) => string;
+    error: (message: string, options?: ToastOptions) => string;
+    info: (message: string, options?: ToastOptions) => string;
+    // Stays open until updated to another variant or dismissed
+    progress: (message: string, options?: ToastOptions) => string;
+    update: (id: string, variant: ToastVariant, message: string, options?: ToastOptions) => void;
+    dismiss: (id: string) => void;
+};
+
+const DEFAULT_DURATIONS: Record<ToastVariant, number | null> = {
+    success: 4000,
+    info: 5000,
+    error: 8000,
+    progress: null,
+};
+
+// Older toasts are dropped once the stack grows past this
+const MAX_VISIBLE_TOASTS = 4;
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+let toastCount = 0;
+
+export const ToastProvider = ({ children }: { children: ReactNode }) => {
+    const [toasts, setToasts] = useState<Toast[]>([]);
+    const timersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+    const clearTimer = useCallback((id: string) => {
+        const timer = timersRef.current.get(id);
+        if (timer) {
+            clearTimeout(timer);
+            timersRef.current.delete(id);
+        }
+    }, []);
+
+    const dismiss = useCallback((id: string) => {
+        clearTimer(id);
+        setToasts(prev => prev.filter(toast => toast.id !== id));
+    }, [clearTimer]);
+
+    const scheduleDismiss = useCallback((toast: Toast) => {
+        clearTimer(toast.id);
+        const duration = toast.duration !== undefined ? toast.duration : DEFAULT_DURATIONS[toast.variant];
+        if (duration !== null) {
+            timersRef.current.set(toast.id, setTimeout(() => dismiss(toast.id), duration));
+        }
+    }, [clearTimer, dismiss]);
+
+    const show = useCallback((variant: ToastVariant, message: string, options: ToastOptions = {}) => {
+        const toast: Toast = { ...options, id: `toast-${++toastCount}`, variant, message };
+        setToasts(prev => {
+            const next = [...prev, toast];
+            next.slice(0, Math.max(0, next.length - MAX_VISIBLE_TOASTS)).forEach(dropped => clearTimer(dropped.id));
+            return next.slice(-MAX_VISIBLE_TOASTS);
+        });
+        scheduleDismiss(toast);
+        return toast.id;
+    }, [clearTimer, scheduleDismiss]);
+
+    const update = useCallback((id: string, variant: ToastVariant, message: string, options: ToastOptions = {}) => {
+        const toast: Toast = { ...options, id, variant, message };
+        setToasts(prev => prev.map(item => item.id === id ? toast : item));
+        scheduleDismiss(toast);
+    }, [scheduleDismiss]);
+
+    // Timers must not fire after the provider is gone
+    useEffect(() => {
+        const timers = timersRef.current;
+        return () => timers.forEach(timer => clearTimeout(timer));
+    }, []);
+
+    const value = useMemo<ToastContextType>(() => ({
+        success: (message, options) => show('success', message, options),
+        error: (message, options) => show('error', message, options),
+        info: (message, options) => show('info', message, options),
+        progress: (message, options) => show('progress', message, options),
+        update,
+        dismiss,
+    }), [show, update, dismiss]);
+
+    const handleAction = (toast: Toast) => {
+        dismiss(toast.id);
+        toast.action?.onClick();
+    };
+
+    return (
+        <ToastContext.Provider value={value}>
+            {children}
+            <ToastStack toasts={toasts} onDismiss={dismiss} onAction={handleAction} />
+        </ToastContext.Provider>
+    );
+};
+
+// Hook for showing toasts from anywhere under the dashboard layout
+export const useToast = (): ToastContextType => {
+    const context = useContext(ToastContext);
+    if (!context) throw new Error('useToast must be used within ToastProvider');
+    return context;
+};
@@ -0,0 +1,149 @@
+import { AssessmentQuestion, ProficiencyLevel } from '@/types/resume';
+
+/**
+ * Adaptive Skill Assessment
+ *
+ * Question selection for adaptive sessions. It runs where the answer keys
+ * are, on the backend (here, the mock backend), which issues one question at
+ * a time; the browser never sees correctness before grading.
+ *
+ * Each skill is assessed on its own difficulty staircase: it starts at
+ * intermediate, moves up a level after a correct answer and down after a
+ * wrong one. Every answer is scored from 0 to 3 (the difficulty it was
+ * answered at, minus one when wrong), and the skill's ability estimate is
+ * the mean of those scores. A skill stops early once the estimate's standard
+ * error is small enough, or when it reaches the question limit or runs out
+ * of questions. Skills take turns, so all of them progress together.
+ */
+
+const LEVELS: ProficiencyLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+// No skill is judged on fewer answers than this, however consistent
+export const MIN_QUESTIONS_PER_SKILL = 3;
+export const MAX_QUESTIONS_PER_SKILL = 6;
+
+// Standard error of the ability estimate (on the 0-3 scale) below which a skill stops
+const CONFIDENT_STANDARD_ERROR = 0.35;
+
+export interface AdaptiveAnswer {
+    question_index: number;
+    difficulty: ProficiencyLevel;
+    // Selected option letter, empty when skipped
+    selected: string;
+    is_correct: boolean;
+}
+
+export interface AdaptiveSkillState {
+    skill: string;
+    // Difficulty of the next question for this skill
+    nextDifficulty: ProficiencyLevel;
+    answers: AdaptiveAnswer[];
+    done: boolean;
+}
+
+type Questions = Pick<AssessmentQuestion, 'topic' | 'difficulty'>[];
+
+const levelValue = (level: ProficiencyLevel): number => LEVELS.indexOf(level) + 1;
+
+const answerScore = (answer: AdaptiveAnswer): number =>
+    levelValue(answer.difficulty) - (answer.is_correct ? 0 : 1);
+
+const hasUnaskedQuestion = (questions: Questions, state: AdaptiveSkillState): boolean => {
+    const asked = new Set(state.answers.map(answer => answer.question_index));
+    return questions.some((question, index) => question.topic === state.skill && !asked.has(index));
+};
+
+/**
+ * Ability estimate for one skill on a 0-3 scale, with its standard error
+ */
+export const estimateAbility = (state: AdaptiveSkillState): { ability: number; standardError: number } => {
+    const scores = state.answers.map(answerScore);
+    if (scores.length === 0) return { ability: levelValue('intermediate'), standardError: Infinity };
+    const ability = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    if (scores.length === 1) return { ability, standardError: Infinity };
+    const variance = scores.reduce((sum, score) => sum + (score - ability) ** 2, 0) / (scores.length - 1);
+    return { ability, standardError: Math.sqrt(variance / scores.length) };
+};
+
+/**
+ * Proficiency level for a skill's current ability estimate
+ */
+export const estimateProficiency = (state: AdaptiveSkillState): ProficiencyLevel => {
+    const { ability } = estimateAbility(state);
+    if (ability >= 2.5) return 'advanced';
+    if (ability >= 1.5) return 'intermediate';
+    return 'beginner';
+};
+
+/**
+ * Starts a staircase for every skill in the question pool, in pool order
+ */
+export const createAdaptiveStates = (questions: Questions): AdaptiveSkillState[] =>
+    Array.from(new Set(questions.map(question => question.topic))).map(skill => ({
+        skill,
+        nextDifficulty: 'intermediate',
+        answers: [],
+        done: false,
+    }));
+
+/**
+ * Records an answer for its skill, moves the staircase and decides whether the skill is finished
+ */
+export const recordAdaptiveAnswer = (
+    states: AdaptiveSkillState[],
+    questions: Questions,
+    answer: AdaptiveAnswer
+): AdaptiveSkillState[] => {
+    const skill = questions[answer.question_index]?.topic;
+    return states.map(state => {
+        if (state.skill !== skill) return state;
+
+        const answers = [...state.answers, answer];
+        const step = answer.is_correct ? 1 : -1;
+        const nextLevel = Math.min(LEVELS.length, Math.max(1, levelValue(answer.difficulty) + step));
+        const updated = { ...state, answers, nextDifficulty: LEVELS[nextLevel - 1] };
+
+        const isConfident = answers.length >= MIN_QUESTIONS_PER_SKILL
+            && estimateAbility(updated).standardError <= CONFIDENT_STANDARD_ERROR;
+        const done = isConfident || answers.length >= MAX_QUESTIONS_PER_SKILL || !hasUnaskedQuestion(questions, updated);
+        return { ...updated, done };
+    });
+};
+
+/**
+ * Picks the next question: the unfinished skill with the fewest answers goes next,
+ * with its unasked question closest to the staircase's difficulty
+ * @returns {number | null} Index into the question pool, or null once every skill is finished
+ */
+export const pickNextQuestion = (states: AdaptiveSkillState[], questions: Questions): number | null => {
+    const candidates = states
+        .filter(state => !state.done && hasUnaskedQuestion(questions, state))
+        .sort((a, b) => a.answers.length - b.answers.length);
+    const state = candidates[0];
+    if (!state) return null;
+
+    const asked = new Set(state.answers.map(answer => answer.question_index));
+    const target = levelValue(state.nextDifficulty);
+    let bestIndex: number | null = null;
+    let bestDistance = Infinity;
+    questions.forEach((question, index) => {
+        if (question.topic !== state.skill || asked.has(index)) return;
+        // Questions without a difficulty are treated as intermediate
+        const distance = Math.abs(levelValue(question.difficulty ?? 'intermediate') - target);
+        if (distance < bestDistance) {
+            bestIndex = index;
+            bestDistance = distance;
+        }
+    });
+    return bestIndex;
+};
+
+/**
+ * Most questions this run can still reach, for the "question n of up to m" counter
+ */
+export const maxQuestionCount = (states: AdaptiveSkillState[], questions: Questions): number =>
+    states.reduce((sum, state) => {
+        if (state.done) return sum + state.answers.length;
+        const available = questions.filter(question => question.topic === state.skill).length;
+        return sum + Math.min(MAX_QUESTIONS_PER_SKILL, available);
+    }, 0);
@@ -0,0 +1,83 @@
+import { AssessmentData, AssessmentGradeResponse, GradedAnswer } from '@/types/resume';
+import { assessmentApi } from '@/services/apiClient';
+import { isMockBackendEnabled } from '@/services/mockBackend';
+
+/**
+ * Skill Assessment Grading
+ *
+ * The backend keeps the answer key for each assessment session: questions
+ * arrive without answers, the raw selections are submitted with the session
+ * id, and the grader returns per-question results and the scores. Adaptive
+ * sessions record each answer as it is given and are graded from those, so
+ * nothing is submitted for them. Only the mock backend sends answer keys for
+ * fixed runs, in which case the browser grades and submits per-skill totals
+ * instead.
+ */
+
+type GradableAssessment = Pick<AssessmentData, 'session_id' | 'questions'>;
+
+// One submitted answer of a fixed run
+export interface SubmittedAnswer {
+    question_index: number;
+    // Selected option letter, empty when skipped
+    answer: string;
+}
+
+/**
+ * Whether a fetched assessment can be graded once it is submitted
+ */
+export const canGradeAssessment = (sessionId?: string): boolean =>
+    Boolean(sessionId) || isMockBackendEnabled();
+
+/**
+ * Grades in the browser against the answer keys sent by the mock backend
+ */
+const gradeLocally = async (
+    questions: AssessmentData['questions'],
+    answers: SubmittedAnswer[]
+): Promise<AssessmentGradeResponse> => {
+    const gradedAnswers: GradedAnswer[] = answers.map(({ question_index, answer }) => {
+        const question = questions[question_index];
+        return {
+            question_index,
+            topic: question.topic,
+            selected: answer,
+            correct_answer: question.answer ?? '',
+            is_correct: Boolean(question.answer) && answer === question.answer,
+            explanation: question.explanation,
+        };
+    });
+
+    // Skipped questions count towards the total, as they do on the backend grader
+    const totals = new Map<string, { total: number; correct: number }>();
+    gradedAnswers.forEach(answer => {
+        const current = totals.get(answer.topic) ?? { total: 0, correct: 0 };
+        totals.set(answer.topic, {
+            total: current.total + 1,
+            correct: current.correct + (answer.is_correct ? 1 : 0),
+        });
+    });
+
+    const response = await assessmentApi.score(Array.from(totals.entries()).map(([skill, scores]) => ({
+        skill,
+        total_questions: scores.total,
+        correct_questions: scores.correct,
+    })));
+    return { ...response, graded_answers: gradedAnswers };
+};
+
+/**
+ * Grades a submitted assessment
+ * @param {GradableAssessment} assessment - Session id and questions as fetched
+ * @param {SubmittedAnswer[]} answers - Every question of a fixed run with its selection; left out for adaptive sessions
+ * @throws {Error} When there is no grading session outside mock mode
+ * @throws {ApiError} When the grading request fails
+ */
+export const gradeAssessment = async (
+    assessment: GradableAssessment,
+    answers?: SubmittedAnswer[]
+): Promise<AssessmentGradeResponse> => {
+    if (assessment.session_id) return assessmentApi.grade(assessment.session_id, answers);
+    if (!isMockBackendEnabled()) throw new Error('This assessment has no grading session. Please start a new one.');
+    return gradeLocally(assessment.questions, answers ?? []);
+};
@@ -0,0 +1,100 @@
+import { AssessmentAttempt } from '@/types/resume';
+import { assessmentApi, isCancelledError } from '@/services/apiClient';
+
+/**
+ * Skill Assessment History
+ *
+ * Every completed assessment is kept in localStorage, under the signed-in
+ * user's id, and sent to the backend. Reading merges both copies, so attempts made offline (or while
+ * the save request failed) still show up, and a local copy fills in when the
+ * backend cannot be reached. Local attempts the backend is missing are sent
+ * again on the next load. A user's local copy is cleared when they log out.
+ */
+
+const STORAGE_KEY_PREFIX = 'skill-assessment-history';
+
+// Shared by every user before history was stored per user; its owner is unknown, so it is dropped, never synced
+const LEGACY_STORAGE_KEY = STORAGE_KEY_PREFIX;
+
+const getStorageKey = (userId: string): string => `${STORAGE_KEY_PREFIX}:${userId}`;
+
+// Oldest local attempts are dropped past this; the backend keeps the full history
+const MAX_LOCAL_ATTEMPTS = 50;
+
+export interface AssessmentHistory {
+    // Oldest first
+    attempts: AssessmentAttempt[];
+    // True when the backend could not be reached and only this device's attempts are shown
+    isLocalOnly: boolean;
+}
+
+const readLocalAttempts = (userId: string): AssessmentAttempt[] => {
+    if (typeof window === 'undefined') return [];
+    window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(getStorageKey(userId)) ?? '[]');
+        return Array.isArray(stored) ? stored : [];
+    } catch {
+        return [];
+    }
+};
+
+const writeLocalAttempts = (userId: string, attempts: AssessmentAttempt[]): void => {
+    window.localStorage.setItem(getStorageKey(userId), JSON.stringify(attempts.slice(-MAX_LOCAL_ATTEMPTS)));
+};
+
+/**
+ * Combines attempt lists, keeping one copy per id, ordered oldest first
+ */
+const mergeAttempts = (...lists: AssessmentAttempt[][]): AssessmentAttempt[] => {
+    const byId = new Map<string, AssessmentAttempt>();
+    lists.flat().forEach(attempt => byId.set(attempt._id, attempt));
+    return [...byId.values()].sort((a, b) => a.completed_at.localeCompare(b.completed_at));
+};
+
+/**
+ * Creates an id for a new attempt; also used by the backend to ignore repeated saves
+ */
+export const createAttemptId = (): string =>
+    `attempt-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Stores a user's completed attempt on this device, then on the backend
+ * @throws {ApiError} When the backend save fails; the local copy is kept either way
+ */
+export const saveAssessmentAttempt = async (userId: string, attempt: AssessmentAttempt): Promise<void> => {
+    writeLocalAttempts(userId, mergeAttempts(readLocalAttempts(userId), [attempt]));
+    await assessmentApi.saveAttempt(attempt);
+};
+
+/**
+ * Loads a user's attempts from the backend merged with the ones they stored on this device
+ * Falls back to the local copy when the backend request fails
+ * @throws {ApiError} Only when the request is cancelled
+ */
+export const loadAssessmentHistory = async (userId: string, signal?: AbortSignal): Promise<AssessmentHistory> => {
+    const local = readLocalAttempts(userId);
+    try {
+        const remote = await assessmentApi.history(signal);
+
+        // Saves are idempotent by id, so resending is safe; failures wait for the next load
+        const remoteIds = new Set(remote.map(attempt => attempt._id));
+        local
+            .filter(attempt => !remoteIds.has(attempt._id))
+            .forEach(attempt => assessmentApi.saveAttempt(attempt).catch(error => console.error('Error syncing assessment attempt:', error)));
+
+        return { attempts: mergeAttempts(local, remote), isLocalOnly: false };
+    } catch (error) {
+        if (isCancelledError(error)) throw error;
+        console.error('Error loading assessment history:', error);
+        return { attempts: mergeAttempts(local), isLocalOnly: true };
+    }
+};
+
+/**
+ * Removes a user's attempts from this device, e.g. when they log out
+ */
+export const clearAssessmentHistory = (userId: string): void => {
+    if (typeof window === 'undefined') return;
+    window.localStorage.removeItem(getStorageKey(userId));
+};
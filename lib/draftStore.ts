@@ -0,0 +1,121 @@
+import { ResumeData } from '@/types/resume';
+
+/**
+ * Resume Draft Store
+ *
+ * Keeps in-progress resume edits in IndexedDB so a page refresh or crash does
+ * not lose them. Drafts belong to the signed-in user and are keyed by user id
+ * and resume _id; a resume that has never been saved uses NEW_RESUME_DRAFT_KEY
+ * in place of the _id. Drafts without a user id, written before drafts were
+ * tied to a user, are never offered.
+ */
+
+const DB_NAME = 'resume-analyser';
+const DB_VERSION = 1;
+const STORE_NAME = 'resume-drafts';
+
+export const NEW_RESUME_DRAFT_KEY = 'new';
+
+export interface ResumeDraft {
+    key: string;
+    user_id: string;
+    data: ResumeData;
+    saved_at: string;
+    // updated_at of the server copy the edits started from, for the conflict check after a restore
+    base_updated_at?: string;
+}
+
+/**
+ * Returns the draft key for a user's resume
+ */
+export const getDraftKey = (userId: string, data: Pick<ResumeData, '_id'>): string =>
+    `${userId}:${data._id || NEW_RESUME_DRAFT_KEY}`;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Runs a single request against the drafts store and resolves with its result
+ */
+const withStore = async <R>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<R>
+): Promise<R> => {
+    const db = await openDatabase();
+    try {
+        return await new Promise<R>((resolve, reject) => {
+            const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+/**
+ * Stores a user's current edits for a resume, replacing any older draft
+ */
+export const saveDraft = async (userId: string, data: ResumeData, baseUpdatedAt?: string): Promise<void> => {
+    const draft: ResumeDraft = {
+        key: getDraftKey(userId, data),
+        user_id: userId,
+        data,
+        saved_at: new Date().toISOString(),
+        base_updated_at: baseUpdatedAt,
+    };
+    await withStore('readwrite', store => store.put(draft));
+};
+
+const loadUserDrafts = async (userId: string): Promise<ResumeDraft[]> => {
+    const drafts = await withStore<ResumeDraft[]>('readonly', store => store.getAll());
+    return drafts.filter(draft => draft.user_id === userId);
+};
+
+/**
+ * Loads a user's draft of a resume, or null when there is none
+ */
+export const loadDraft = async (userId: string, resumeId: string): Promise<ResumeDraft | null> => {
+    const draft = await withStore<ResumeDraft | undefined>('readonly', store => store.get(getDraftKey(userId, { _id: resumeId })));
+    return draft?.user_id === userId ? draft : null;
+};
+
+/**
+ * Loads the user's most recently written draft across all their resumes
+ * Used after a refresh, when the page no longer knows which resume was open
+ */
+export const loadLatestDraft = async (userId: string): Promise<ResumeDraft | null> => {
+    const drafts = await loadUserDrafts(userId);
+    if (drafts.length === 0) return null;
+    return drafts.reduce((latest, draft) => (draft.saved_at > latest.saved_at ? draft : latest));
+};
+
+/**
+ * Removes the draft stored under a key
+ */
+export const deleteDraft = async (key: string): Promise<void> => {
+    await withStore('readwrite', store => store.delete(key));
+};
+
+/**
+ * Removes every draft belonging to a user, e.g. when they log out
+ */
+export const deleteUserDrafts = async (userId: string): Promise<void> => {
+    const drafts = await loadUserDrafts(userId);
+    await Promise.all(drafts.map(draft => deleteDraft(draft.key)));
+};
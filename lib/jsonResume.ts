@@ -0,0 +1,460 @@
+import { ResumeData } from '@/types/resume';
+import { JsonResume, JsonResumeConversion, JsonResumeProfile } from '@/types/jsonResume';
+import { downloadBlob, getExportFileName } from '@/lib/utils';
+import { PRESENT, isPresent, parseResumeDate, toResumeDate } from '@/lib/resumeDates';
+
+/**
+ * JSON Resume Interoperability
+ *
+ * Two-way mapping between the open JSON Resume schema and ResumeData. Fields
+ * that have no counterpart on the other side are collected in `unmapped` so
+ * the UI can tell the user what was left out instead of dropping it silently.
+ */
+
+const JSON_RESUME_SCHEMA = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+// Keys the importer reads or reports itself, nested as in the document; array items share one entry.
+// Every other key found, at any depth, is reported by its path. meta has no counterpart, so all of its keys are.
+interface KeySchema {
+    [key: string]: KeySchema | true;
+}
+
+const IMPORT_KEYS: KeySchema = {
+    $schema: true,
+    meta: {},
+    basics: {
+        name: true, label: true, image: true, email: true, phone: true, url: true, summary: true,
+        location: { address: true, postalCode: true, city: true, countryCode: true, region: true },
+        profiles: { network: true, username: true, url: true },
+    },
+    work: { name: true, position: true, url: true, location: true, startDate: true, endDate: true, summary: true, highlights: true },
+    volunteer: { organization: true, position: true, url: true, startDate: true, endDate: true, summary: true, highlights: true },
+    education: { institution: true, url: true, area: true, studyType: true, startDate: true, endDate: true, score: true, courses: true },
+    awards: { title: true, date: true, awarder: true, summary: true },
+    certificates: { name: true, date: true, issuer: true, url: true },
+    publications: { name: true, publisher: true, releaseDate: true, url: true, summary: true },
+    skills: { name: true, level: true, keywords: true },
+    languages: { language: true, fluency: true },
+    projects: {
+        name: true, description: true, highlights: true, keywords: true, startDate: true, endDate: true,
+        url: true, roles: true, entity: true, type: true,
+    },
+};
+
+/**
+ * Walks a document against a key schema and reports every key it does not know, e.g. "work[0].description"
+ */
+const reportUnknownKeys = (
+    value: unknown,
+    schema: KeySchema,
+    path: string,
+    report: (path: string, value: unknown) => void
+): void => {
+    if (Array.isArray(value)) {
+        value.forEach((item, index) => reportUnknownKeys(item, schema, `${path}[${index}]`, report));
+        return;
+    }
+    if (typeof value !== 'object' || value === null) return;
+
+    Object.entries(value).forEach(([key, field]) => {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const known = Object.prototype.hasOwnProperty.call(schema, key) ? schema[key] : undefined;
+        if (!known) {
+            report(fieldPath, field);
+        } else if (known !== true) {
+            reportUnknownKeys(field, known, fieldPath, report);
+        }
+    });
+};
+
+/**
+ * Converts a builder date such as "2023-01", "Jan 2023", "01/2023" or "2023" to ISO 8601
+ * Returns null when the text is not a recognisable date
+ */
+const toIsoDate = (value: string): string | null => {
+    const text = value.trim();
+    if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+    const date = parseResumeDate(text);
+    return date ? toResumeDate(date) : null;
+};
+
+/**
+ * Converts an ISO 8601 date from JSON Resume to the "YYYY-MM" form stored in entry date ranges
+ */
+const toRangeDate = (value?: string): string => {
+    if (!value) return '';
+    const date = parseResumeDate(value);
+    return date ? toResumeDate(date) : value;
+};
+
+/**
+ * Converts an ISO 8601 date from JSON Resume to the "YYYY-MM-DD" form read by the single-date pickers
+ * Partial dates fall on the first of the month or year; returns null when the text is not a recognisable date
+ */
+const toFullDate = (value: string): string | null => {
+    const text = value.trim();
+    const day = text.match(/^(\d{4}-\d{2}-\d{2})(?:T.*)?$/);
+    if (day) return day[1];
+    const date = parseResumeDate(text);
+    if (!date) return null;
+    return `${date.year}-${String(date.month ?? 1).padStart(2, '0')}-01`;
+};
+
+const isFilled = (value: unknown): boolean => {
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'string') return value.trim().length > 0;
+    return value !== undefined && value !== null;
+};
+
+/**
+ * Maps a JSON Resume document to ResumeData for the builder
+ */
+export const jsonResumeToResumeData = (json: JsonResume): JsonResumeConversion<ResumeData> => {
+    const unmapped: string[] = [];
+    const report = (path: string, value: unknown) => {
+        if (isFilled(value)) unmapped.push(path);
+    };
+
+    // Unreadable dates are reported rather than kept as text the date pickers cannot show
+    const fullDate = (value: string | undefined, path: string): string => {
+        const text = (value ?? '').trim();
+        if (!text) return '';
+        const date = toFullDate(text);
+        if (!date) unmapped.push(`${path} ("${text}")`);
+        return date ?? '';
+    };
+
+    reportUnknownKeys(json, IMPORT_KEYS, '', report);
+
+    const basics = json.basics ?? {};
+    report('basics.label', basics.label);
+    report('basics.image', basics.image);
+
+    const social_links = { linkedin: '', github: '', portfolio: basics.url ?? '' };
+    (basics.profiles ?? []).forEach((profile, index) => {
+        const link = profile.url || profile.username || '';
+        const network = (profile.network ?? '').toLowerCase();
+        if (network.includes('linkedin') && !social_links.linkedin) {
+            social_links.linkedin = link;
+        } else if (network.includes('github') && !social_links.github) {
+            social_links.github = link;
+        } else if (!social_links.portfolio && link) {
+            social_links.portfolio = link;
+        } else {
+            report(`basics.profiles[${index}] (${profile.network || 'profile'})`, link);
+        }
+    });
+
+    const location = basics.location ?? {};
+
+    // An entry without an end date is ongoing
+    const dateRange = (startDate?: string, endDate?: string) => ({
+        start: toRangeDate(startDate),
+        end: endDate ? toRangeDate(endDate) : startDate ? PRESENT : '',
+    });
+
+    const result: ResumeData = {
+        _id: '',
+        resume_name: '',
+        is_primary: false,
+        personal_info: {
+            name: basics.name ?? '',
+            contact_info: {
+                email: basics.email ?? '',
+                mobile: basics.phone ?? '',
+                location: [location.address, location.city, location.region, location.postalCode, location.countryCode].filter(Boolean).join(', '),
+                social_links,
+            },
+            professional_summary: basics.summary ?? '',
+        },
+        educations: (json.education ?? []).map((edu, index) => {
+            report(`education[${index}].url`, edu.url);
+            return {
+                institute_name: edu.institution ?? '',
+                degree: edu.studyType ?? '',
+                specialisation: edu.area ?? '',
+                date: dateRange(edu.startDate, edu.endDate),
+                location: '',
+                gpa: edu.score ?? '',
+                relevant_coursework: edu.courses ?? [],
+            };
+        }),
+        work_experiences: (json.work ?? []).map((work, index) => {
+            report(`work[${index}].url`, work.url);
+            return {
+                company_name: work.name ?? '',
+                job_title: work.position ?? '',
+                date: dateRange(work.startDate, work.endDate),
+                location: work.location ?? '',
+                bullet_points: [work.summary ?? '', ...(work.highlights ?? [])].filter(point => point.trim()),
+            };
+        }),
+        projects: (json.projects ?? []).map((project, index) => {
+            report(`projects[${index}].roles`, project.roles);
+            report(`projects[${index}].type`, project.type);
+            return {
+                title: project.name ?? '',
+                project_link: project.url ?? '',
+                date: dateRange(project.startDate, project.endDate),
+                location: '',
+                organization: project.entity ?? '',
+                bullet_points: [project.description ?? '', ...(project.highlights ?? [])].filter(point => point.trim()),
+                technologies_used: project.keywords ?? [],
+            };
+        }),
+        skills: (json.skills ?? []).map((skill, index) => {
+            report(`skills[${index}].level`, skill.level);
+            const keywords = skill.keywords ?? [];
+            return keywords.length > 0
+                ? { skill_group: skill.name ?? '', skills: keywords }
+                : { skill_group: '', skills: skill.name ? [skill.name] : [] };
+        }),
+        achievements: (json.awards ?? []).map((award, index) => ({
+            title: award.title ?? '',
+            description: award.summary ?? '',
+            date_achieved: fullDate(award.date, `awards[${index}].date`),
+            organization: award.awarder ?? '',
+        })),
+        certifications: (json.certificates ?? []).map((certificate, index) => {
+            report(`certificates[${index}].url`, certificate.url);
+            return {
+                certification_name: certificate.name ?? '',
+                issuing_organisation: certificate.issuer ?? '',
+                date_issued: fullDate(certificate.date, `certificates[${index}].date`),
+                expiry_date: '',
+                description: '',
+            };
+        }),
+        languages: (json.languages ?? []).map(language => ({
+            language: language.language ?? '',
+            proficiency: language.fluency ?? '',
+        })),
+        publications: (json.publications ?? []).map((publication, index) => {
+            report(`publications[${index}].publisher`, publication.publisher);
+            report(`publications[${index}].url`, publication.url);
+            return {
+                title: publication.name ?? '',
+                date: fullDate(publication.releaseDate, `publications[${index}].releaseDate`),
+                description: publication.summary ?? '',
+            };
+        }),
+        extracurriculars: (json.volunteer ?? []).map((volunteer, index) => {
+            report(`volunteer[${index}].url`, volunteer.url);
+            return {
+                title: volunteer.position ?? '',
+                organization_name: volunteer.organization ?? '',
+                role: '',
+                date: dateRange(volunteer.startDate, volunteer.endDate),
+                bullet_points: [volunteer.summary ?? '', ...(volunteer.highlights ?? [])].filter(point => point.trim()),
+                certificate: '',
+                location: '',
+            };
+        }),
+        ats_score: 0,
+    };
+
+    return { result, unmapped };
+};
+
+/**
+ * Maps builder data to a JSON Resume document
+ */
+export const resumeDataToJsonResume = (data: ResumeData): JsonResumeConversion<JsonResume> => {
+    const unmapped: string[] = [];
+    const report = (path: string, value: unknown) => {
+        if (isFilled(value)) unmapped.push(path);
+    };
+
+    // JSON Resume only accepts ISO 8601 dates; free-text dates are reported rather than written invalid
+    const isoDate = (value: string, path: string): string | undefined => {
+        const text = value.trim();
+        if (!text || isPresent(text)) return undefined;
+        const iso = toIsoDate(text);
+        if (!iso) unmapped.push(`${path} ("${text}")`);
+        return iso ?? undefined;
+    };
+
+    const withoutEmpty = <T extends object>(value: T): T => {
+        return Object.fromEntries(Object.entries(value).filter(([, field]) => isFilled(field))) as T;
+    };
+
+    const { personal_info } = data;
+    const { contact_info } = personal_info;
+    const [city, ...region] = contact_info.location.split(',').map(part => part.trim()).filter(Boolean);
+
+    const profiles: JsonResumeProfile[] = [
+        { network: 'LinkedIn', url: contact_info.social_links.linkedin },
+        { network: 'GitHub', url: contact_info.social_links.github },
+    ].filter(profile => profile.url);
+
+    const result: JsonResume = {
+        $schema: JSON_RESUME_SCHEMA,
+        basics: withoutEmpty({
+            name: personal_info.name,
+            email: contact_info.email,
+            phone: contact_info.mobile,
+            url: contact_info.social_links.portfolio,
+            summary: personal_info.professional_summary,
+            location: city ? withoutEmpty({ city, region: region.join(', ') }) : undefined,
+            profiles,
+        }),
+        work: data.work_experiences.map((exp, index) => withoutEmpty({
+            name: exp.company_name,
+            position: exp.job_title,
+            location: exp.location,
+            startDate: isoDate(exp.date.start, `work_experiences[${index}].date.start`),
+            endDate: isoDate(exp.date.end, `work_experiences[${index}].date.end`),
+            highlights: exp.bullet_points.filter(point => point.trim()),
+        })),
+        volunteer: data.extracurriculars.map((activity, index) => {
+            report(`extracurriculars[${index}].location`, activity.location);
+            return withoutEmpty({
+                organization: activity.organization_name,
+                position: activity.role || activity.title,
+                // The activity name only has a home in the summary when a separate role is given
+                summary: activity.role ? activity.title : undefined,
+                startDate: isoDate(activity.date.start, `extracurriculars[${index}].date.start`),
+                endDate: isoDate(activity.date.end, `extracurriculars[${index}].date.end`),
+                highlights: [...activity.bullet_points, activity.certificate].filter(point => point.trim()),
+            });
+        }),
+        education: data.educations.map((edu, index) => {
+            report(`educations[${index}].location`, edu.location);
+            return withoutEmpty({
+                institution: edu.institute_name,
+                area: edu.specialisation,
+                studyType: edu.degree,
+                startDate: isoDate(edu.date.start, `educations[${index}].date.start`),
+                endDate: isoDate(edu.date.end, `educations[${index}].date.end`),
+                score: edu.gpa,
+                courses: edu.relevant_coursework,
+            });
+        }),
+        awards: data.achievements.map((achievement, index) => withoutEmpty({
+            title: achievement.title,
+            date: isoDate(achievement.date_achieved, `achievements[${index}].date_achieved`),
+            awarder: achievement.organization,
+            summary: achievement.description,
+        })),
+        certificates: data.certifications.map((cert, index) => {
+            report(`certifications[${index}].expiry_date`, cert.expiry_date);
+            report(`certifications[${index}].description`, cert.description);
+            return withoutEmpty({
+                name: cert.certification_name,
+                date: isoDate(cert.date_issued, `certifications[${index}].date_issued`),
+                issuer: cert.issuing_organisation,
+            });
+        }),
+        publications: data.publications.map((pub, index) => withoutEmpty({
+            name: pub.title,
+            releaseDate: isoDate(pub.date, `publications[${index}].date`),
+            summary: pub.description,
+        })),
+        skills: data.skills.map(group => withoutEmpty({
+            name: group.skill_group,
+            keywords: group.skills,
+        })),
+        languages: data.languages.filter(language => language.language.trim()).map(language => withoutEmpty({
+            language: language.language,
+            fluency: language.proficiency,
+        })),
+        projects: data.projects.map((project, index) => {
+            report(`projects[${index}].location`, project.location);
+            return withoutEmpty({
+                name: project.title,
+                url: project.project_link,
+                entity: project.organization,
+                startDate: isoDate(project.date.start, `projects[${index}].date.start`),
+                endDate: isoDate(project.date.end, `projects[${index}].date.end`),
+                highlights: project.bullet_points.filter(point => point.trim()),
+                keywords: project.technologies_used,
+            });
+        }),
+        meta: withoutEmpty({ lastModified: data.updated_at }),
+    };
+
+    return { result, unmapped };
+};
+
+// List sections and, per entry, the fields that hold lists of text; the importer maps over all of them
+const LIST_SECTIONS: Record<string, string[]> = {
+    work: ['highlights'],
+    volunteer: ['highlights'],
+    education: ['courses'],
+    awards: [],
+    certificates: [],
+    publications: [],
+    skills: ['keywords'],
+    languages: [],
+    projects: ['highlights', 'keywords', 'roles'],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Checks that every section has the shape the importer reads, returning a message naming the first bad one
+ */
+const findShapeProblem = (json: Record<string, unknown>): string | null => {
+    const { basics } = json;
+    if (basics !== undefined) {
+        if (!isRecord(basics)) return '"basics" should be an object';
+        if (basics.location !== undefined && !isRecord(basics.location)) return '"basics.location" should be an object';
+        if (basics.profiles !== undefined) {
+            if (!Array.isArray(basics.profiles)) return '"basics.profiles" should be a list';
+            const index = basics.profiles.findIndex(profile => !isRecord(profile));
+            if (index >= 0) return `"basics.profiles[${index}]" should be an object`;
+        }
+    }
+
+    for (const [section, listFields] of Object.entries(LIST_SECTIONS)) {
+        const entries = json[section];
+        if (entries === undefined) continue;
+        if (!Array.isArray(entries)) return `"${section}" should be a list`;
+
+        for (const [index, entry] of entries.entries()) {
+            if (!isRecord(entry)) return `"${section}[${index}]" should be an object`;
+            for (const field of listFields) {
+                const list = entry[field];
+                if (list !== undefined && (!Array.isArray(list) || list.some(item => typeof item !== 'string'))) {
+                    return `"${section}[${index}].${field}" should be a list of text`;
+                }
+            }
+        }
+    }
+    return null;
+};
+
+/**
+ * Parses an uploaded .json file as a JSON Resume document
+ * Throws when the file is not JSON, does not look like a JSON Resume or has a section of the wrong shape
+ */
+export const parseJsonResume = (text: string): JsonResume => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+
+    if (!isRecord(parsed) || !['basics', 'work', 'education', 'skills', 'projects'].some(key => key in parsed)) {
+        throw new Error('The file does not look like a JSON Resume document.');
+    }
+
+    const problem = findShapeProblem(parsed);
+    if (problem) throw new Error(`The file is not a valid JSON Resume document: ${problem}.`);
+    return parsed as JsonResume;
+};
+
+/**
+ * Saves the resume as a JSON Resume file and returns the fields that could not be included
+ */
+export const downloadJsonResume = (data: ResumeData): string[] => {
+    const { result, unmapped } = resumeDataToJsonResume(data);
+    downloadBlob(
+        new Blob([JSON.stringify(result, null, 2)], { type: 'application/json' }),
+        getExportFileName(data, 'json')
+    );
+    return unmapped;
+};
@@ -0,0 +1,145 @@
+import { DateRange } from '@/types/resume';
+
+/**
+ * Resume Dates
+ *
+ * Entry dates are stored as "YYYY-MM" strings, or "YYYY" when only the year
+ * is known, and an ongoing entry ends in "Present". Free-text dates saved
+ * before the month/year picker existed are still read where possible and are
+ * shown exactly as typed otherwise.
+ */
+
+export const PRESENT = 'Present';
+const PRESENT_PATTERN = /^(present|current|now|ongoing)$/i;
+
+export const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+export interface MonthYear {
+    year: number;
+    // 1-12, or null for a year-only date
+    month: number | null;
+}
+
+/**
+ * How a template prints dates
+ * short: "Jan 2023", long: "January 2023", numeric: "01/2023", year: "2023"
+ */
+export type ResumeDateFormat = 'short' | 'long' | 'numeric' | 'year';
+
+export const isPresent = (value: string): boolean => PRESENT_PATTERN.test(value.trim());
+
+const toMonth = (name: string): number | null => {
+    const month = MONTH_NAMES.findIndex(monthName => monthName.slice(0, 3).toLowerCase() === name.slice(0, 3).toLowerCase());
+    return month >= 0 ? month + 1 : null;
+};
+
+const isValidMonth = (month: number): boolean => month >= 1 && month <= 12;
+
+/**
+ * Reads a stored or legacy date such as "2023-01", "Jan 2023", "01/2023", "01 2023" or "2023"
+ * Returns null for empty, "Present" or unrecognisable text
+ */
+export const parseResumeDate = (value: string): MonthYear | null => {
+    const text = value.trim();
+
+    const iso = text.match(/^(\d{4})(?:-(\d{2})(?:-\d{2})?)?$/);
+    if (iso) {
+        const month = iso[2] ? Number(iso[2]) : null;
+        return month === null || isValidMonth(month) ? { year: Number(iso[1]), month } : null;
+    }
+
+    const named = text.match(/^([A-Za-z]{3,9})\.?,?\s+(\d{4})$/);
+    if (named) {
+        const month = toMonth(named[1]);
+        return month ? { year: Number(named[2]), month } : null;
+    }
+
+    const numeric = text.match(/^(\d{1,2})\s*[/\-.\s]\s*(\d{4})$/);
+    if (numeric && isValidMonth(Number(numeric[1]))) {
+        return { year: Number(numeric[2]), month: Number(numeric[1]) };
+    }
+    return null;
+};
+
+/**
+ * Serializes a picked date to the stored "YYYY-MM" or "YYYY" form
+ */
+export const toResumeDate = ({ year, month }: MonthYear): string => {
+    return month ? `${year}-${String(month).padStart(2, '0')}` : String(year);
+};
+
+/**
+ * Prints a stored date in a template's format; unreadable text is returned as typed
+ */
+export const formatResumeDate = (value: string, format: ResumeDateFormat = 'short'): string => {
+    const text = value?.trim() ?? '';
+    if (!text) return '';
+    if (isPresent(text)) return PRESENT;
+
+    const date = parseResumeDate(text);
+    if (!date) return text;
+    if (!date.month || format === 'year') return String(date.year);
+
+    switch (format) {
+        case 'long':
+            return `${MONTH_NAMES[date.month - 1]} ${date.year}`;
+        case 'numeric':
+            return `${String(date.month).padStart(2, '0')}/${date.year}`;
+        default:
+            return `${MONTH_NAMES[date.month - 1].slice(0, 3)} ${date.year}`;
+    }
+};
+
+/**
+ * Checks a start/end pair, returning a message for the user or null when valid
+ */
+export const getDateRangeError = (range: DateRange): string | null => {
+    const startText = range.start.trim();
+    const endText = range.end.trim();
+    const start = parseResumeDate(startText);
+    const end = parseResumeDate(endText);
+
+    if (startText && !start) {
+        return isPresent(startText) ? 'Start date cannot be "Present"' : `Start date "${startText}" isn't a valid month and year`;
+    }
+    if (endText && !end && !isPresent(endText)) {
+        return `End date "${endText}" isn't a valid month and year`;
+    }
+    if (start && end) {
+        // Year-only dates are compared by year alone
+        const isBefore = end.year < start.year
+            || (end.year === start.year && end.month !== null && start.month !== null && end.month < start.month);
+        if (isBefore) return 'End date cannot be before the start date';
+    }
+    return null;
+};
+
+// Months since year 0, rounding a year-only date to its last month so it sorts after dated ones in the same year
+const toSortValue = (value: string): number | null => {
+    if (isPresent(value)) return Number.POSITIVE_INFINITY;
+    const date = parseResumeDate(value);
+    return date ? date.year * 12 + (date.month ?? 12) : null;
+};
+
+/**
+ * Indices of the given entries ordered most recent first
+ * Ongoing entries come first, then by end date and start date; undated entries keep their order at the end
+ */
+export const getDateOrder = (items: { date: DateRange }[]): number[] => {
+    const keys = items.map(({ date }) => {
+        const start = toSortValue(date.start);
+        return { end: toSortValue(date.end) ?? start, start };
+    });
+
+    return items
+        .map((_, index) => index)
+        .sort((a, b) => {
+            const endA = keys[a].end ?? Number.NEGATIVE_INFINITY;
+            const endB = keys[b].end ?? Number.NEGATIVE_INFINITY;
+            if (endA !== endB) return endB - endA > 0 ? 1 : -1;
+            const startA = keys[a].start ?? Number.NEGATIVE_INFINITY;
+            const startB = keys[b].start ?? Number.NEGATIVE_INFINITY;
+            if (startA !== startB) return startB - startA > 0 ? 1 : -1;
+            return a - b;
+        });
+};
@@ -0,0 +1,458 @@
+import {
+    AlignmentType,
+    BorderStyle,
+    Document,
+    ExternalHyperlink,
+    HeadingLevel,
+    LevelFormat,
+    Packer,
+    Paragraph,
+    ParagraphChild,
+    ShadingType,
+    Tab,
+    Table,
+    TableBorders,
+    TableCell,
+    TableLayoutType,
+    TableRow,
+    TabStopType,
+    TextRun,
+    WidthType,
+} from 'docx';
+import { ResumeData, ResumeSectionId, ResumeTemplateId } from '@/types/resume';
+import { ResumeTemplateDefinition, getSectionTitle, getVisibleSectionOrder } from '@/components/dashboard/resume-builder/templates';
+import { formatLanguages, hasSectionContent } from '@/components/dashboard/resume-builder/templates/shared';
+import { SIDEBAR_SECTIONS } from '@/components/dashboard/resume-builder/templates/ModernTemplate';
+import { downloadBlob, getExportFileName, toHref } from '@/lib/utils';
+import { ExportEntry, ExportLink, getExportEntries } from '@/lib/resumeExportEntries';
+import { FIT_STEPS, PageFitSettings, getGapScale } from '@/lib/usePageFit';
+
+/**
+ * Resume DOCX Renderer
+ *
+ * Builds an Office Open XML document from ResumeData in the browser. Section
+ * headings use Word's heading styles, bullets are a real numbered list and
+ * links are hyperlinks, so recruiters can edit the file and parsers can read
+ * its structure. Each template gets its own layout, following the preview:
+ * modern is a two-cell table with a tinted sidebar and the academic CV hangs
+ * dates in a margin column. Typography is scaled by the preview's
+ * fit-to-one-page step and sections follow the resume's own order.
+ */
+
+interface DocxTheme {
+    font: string;
+    // Sizes are in half-points, spacing and margins in twips, as Word expects
+    nameSize: number;
+    headingSize: number;
+    bodySize: number;
+    smallSize: number;
+    margin: number;
+    accent: string;
+    centerHeader: boolean;
+    headingRule: boolean;
+}
+
+const TEXT_COLOR = '111827';
+const MUTED_COLOR = '4B5563';
+const RULE_COLOR = '9CA3AF';
+
+// A4 width in twips; dates are right-aligned on a tab stop at the text edge
+const PAGE_WIDTH = 11906;
+const BULLET_REFERENCE = 'resume-bullets';
+const PUBLICATION_REFERENCE = 'resume-publications';
+
+const DOCX_THEMES: Record<ResumeTemplateId, DocxTheme> = {
+    classic: {
+        font: 'Times New Roman', nameSize: 44, headingSize: 24, bodySize: 21, smallSize: 19,
+        margin: 720, accent: TEXT_COLOR, centerHeader: true, headingRule: true,
+    },
+    modern: {
+        font: 'Calibri', nameSize: 44, headingSize: 20, bodySize: 20, smallSize: 18,
+        margin: 800, accent: '1D4ED8', centerHeader: false, headingRule: false,
+    },
+    compact: {
+        font: 'Arial', nameSize: 32, headingSize: 18, bodySize: 18, smallSize: 17,
+        margin: 480, accent: TEXT_COLOR, centerHeader: true, headingRule: true,
+    },
+    academic: {
+        font: 'Times New Roman', nameSize: 44, headingSize: 22, bodySize: 21, smallSize: 19,
+        margin: 880, accent: '1F2937', centerHeader: false, headingRule: true,
+    },
+};
+
+// Word's line spacing unit: 240 is single spacing
+const LINE_SPACING = 260;
+
+/**
+ * Applies a fit step to a theme the same way the preview's CSS variables do
+ */
+const scaleDocxTheme = (theme: DocxTheme, fit: PageFitSettings): DocxTheme => ({
+    ...theme,
+    nameSize: Math.round(theme.nameSize * fit.fontScale),
+    headingSize: Math.round(theme.headingSize * fit.fontScale),
+    bodySize: Math.round(theme.bodySize * fit.fontScale),
+    smallSize: Math.round(theme.smallSize * fit.fontScale),
+    margin: Math.round(theme.margin * fit.marginScale),
+});
+
+// Modern sidebar share of the text width, its tint and the padding inside both table cells
+const SIDEBAR_WIDTH_RATIO = 0.34;
+const SIDEBAR_SHADING = 'F1F5F9';
+const CELL_PADDING = 200;
+// Academic margin column for dates, in twips
+const DATE_COLUMN_WIDTH = 1920;
+
+interface TextOptions {
+    bold?: boolean;
+    italics?: boolean;
+    // Smaller type, e.g. sidebar entries
+    small?: boolean;
+    // Smaller type in the muted color, e.g. descriptions
+    muted?: boolean;
+    color?: string;
+    keepNext?: boolean;
+    indent?: number;
+    spaceBefore?: number;
+}
+
+/**
+ * Builds the Word document for a resume
+ * @param fit typography and margin scaling, full size unless the preview is fitted to one page
+ */
+export const createResumeDocx = (data: ResumeData, template: ResumeTemplateDefinition, fit: PageFitSettings = FIT_STEPS[0]): Document => {
+    const theme = scaleDocxTheme(DOCX_THEMES[template.id], fit);
+    const { personal_info } = data;
+    const { contact_info } = personal_info;
+    const textWidth = PAGE_WIDTH - theme.margin * 2;
+    const sidebarWidth = Math.round(textWidth * SIDEBAR_WIDTH_RATIO);
+    const mainWidth = textWidth - sidebarWidth;
+    // Dates sit on a right tab stop at the text edge, which for modern is inside the main cell
+    const rightTab = template.id === 'modern' ? mainWidth - CELL_PADDING * 2 : textWidth;
+    const dateIndent = template.id === 'academic' ? DATE_COLUMN_WIDTH : 0;
+
+    // Paragraph spacing in twips, shrunk with the fit step
+    const gap = (twips: number) => Math.round(twips * getGapScale(fit));
+
+    // Plain text when the link has no safe URL
+    const link = (label: string, url: string | undefined, size?: number) => url
+        ? new ExternalHyperlink({
+            link: url,
+            children: [new TextRun({ text: label, style: 'Hyperlink', size })],
+        })
+        : new TextRun({ text: label, size });
+
+    // Title text on the left, dates or location on a right-aligned tab stop; kept with what follows
+    const row = (left: string, right: string, { italics = false, spaceBefore = 0 }: { italics?: boolean; spaceBefore?: number } = {}) => new Paragraph({
+        keepNext: true,
+        spacing: { before: spaceBefore },
+        tabStops: [{ type: TabStopType.RIGHT, position: rightTab }],
+        children: [
+            new TextRun({ text: left, bold: !italics, italics }),
+            ...(right ? [new TextRun({ children: [new Tab(), right], size: theme.smallSize, color: MUTED_COLOR })] : []),
+        ],
+    });
+
+    // Bold title and muted subtitle on one line with dates on the right tab stop; compact's entry header
+    const titleRow = (title: string, subtitle: string, dates: string, spaceBefore: number) => new Paragraph({
+        keepNext: true,
+        spacing: { before: spaceBefore },
+        tabStops: [{ type: TabStopType.RIGHT, position: rightTab }],
+        children: [
+            new TextRun({ text: title, bold: true }),
+            ...(subtitle ? [new TextRun({ text: ` — ${subtitle}`, color: MUTED_COLOR })] : []),
+            ...(dates ? [new TextRun({ children: [new Tab(), dates], color: MUTED_COLOR })] : []),
+        ],
+    });
+
+    // Dates in the academic margin column, the title after a tab at the column's edge
+    const datedRow = (dates: string, title: string, spaceBefore: number) => new Paragraph({
+        keepNext: true,
+        spacing: { before: spaceBefore },
+        indent: { left: DATE_COLUMN_WIDTH, hanging: DATE_COLUMN_WIDTH },
+        tabStops: [{ type: TabStopType.LEFT, position: DATE_COLUMN_WIDTH }],
+        children: [
+            new TextRun({ text: dates, color: MUTED_COLOR }),
+            new TextRun({ children: [new Tab(), title], bold: true }),
+        ],
+    });
+
+    const text = (value: string, { bold = false, italics = false, small = false, muted = false, color, keepNext = false, indent = 0, spaceBefore = 0 }: TextOptions = {}) => new Paragraph({
+        keepNext,
+        spacing: spaceBefore ? { before: spaceBefore } : undefined,
+        indent: indent ? { left: indent } : undefined,
+        children: [new TextRun({
+            text: value,
+            bold,
+            italics,
+            size: small || muted ? theme.smallSize : undefined,
+            color: muted ? MUTED_COLOR : color,
+        })],
+    });
+
+    const bullet = (children: ParagraphChild[], indent = 0) => new Paragraph({
+        keepLines: true,
+        numbering: { reference: BULLET_REFERENCE, level: 0 },
+        // Moves the whole list over, e.g. past the academic date column
+        indent: indent ? { left: indent + 360, hanging: 240 } : undefined,
+        children,
+    });
+
+    const bullets = (points: string[], indent = 0) => points
+        .filter(point => point.trim())
+        .map(point => bullet([new TextRun(point.trim())], indent));
+
+    // Space between entries of a section, in twips
+    const entryGap = (index: number) => index > 0 ? gap(120) : 0;
+
+    // Header paragraphs kept with the first bullet, then the bullets, links and details, laid out per template
+    const entryParagraphs = (entry: ExportEntry, index: number): Paragraph[] => {
+        const spaceBefore = entryGap(index);
+        const items = [
+            ...bullets(entry.bullets, dateIndent),
+            ...(entry.link ? [bullet([link(entry.link.label, entry.link.url)], dateIndent)] : []),
+            ...(entry.details ? [text(entry.details, { muted: true, indent: dateIndent })] : []),
+        ];
+
+        switch (template.id) {
+            case 'modern': {
+                const subtitle = [entry.subtitle, entry.location].filter(Boolean).join(' · ');
+                return [
+                    row(entry.title, entry.dates, { spaceBefore }),
+                    ...(subtitle ? [text(subtitle, { color: theme.accent, keepNext: true })] : []),
+                    ...items,
+                ];
+            }
+            case 'compact':
+                return [titleRow(entry.title, [entry.subtitle, entry.location].filter(Boolean).join(', '), entry.dates, spaceBefore), ...items];
+            case 'academic': {
+                const subtitle = [entry.subtitle, entry.location].filter(Boolean).join(', ');
+                return [
+                    datedRow(entry.dates, entry.title, spaceBefore),
+                    ...(subtitle ? [text(subtitle, { italics: true, keepNext: true, indent: dateIndent })] : []),
+                    ...items,
+                ];
+            }
+            default:
+                return [
+                    row(entry.title, entry.dates, { spaceBefore }),
+                    ...(entry.subtitle || entry.location ? [row(entry.subtitle, entry.location, { italics: true })] : []),
+                    ...items,
+                ];
+        }
+    };
+
+    // Short stacked entries for the modern sidebar
+    const sidebarEntryParagraphs = (entry: ExportEntry, index: number): Paragraph[] => [
+        text(entry.title, { bold: true, small: true, keepNext: true, spaceBefore: entryGap(index) }),
+        ...[entry.subtitle, entry.dates].filter(Boolean).map(value => text(value, { muted: true, keepNext: true })),
+    ];
+
+    const sectionParagraphs = (section: ResumeSectionId, inSidebar: boolean): Paragraph[] => {
+        switch (section) {
+            case 'summary':
+                return personal_info.professional_summary
+                    .split(/\n+/)
+                    .filter(paragraph => paragraph.trim())
+                    .map(paragraph => text(paragraph.trim()));
+            case 'skills':
+                if (inSidebar) {
+                    return data.skills.flatMap((group, index) => [
+                        ...(group.skill_group ? [text(group.skill_group, { bold: true, small: true, keepNext: true, spaceBefore: entryGap(index) })] : []),
+                        text(group.skills.join(', '), { muted: true }),
+                    ]);
+                }
+                return data.skills.map(group => new Paragraph({
+                    children: [
+                        ...(group.skill_group ? [new TextRun({ text: `${group.skill_group}: `, bold: true })] : []),
+                        new TextRun(group.skills.join(', ')),
+                    ],
+                }));
+            case 'languages':
+                return [text(formatLanguages(data), { muted: inSidebar })];
+            case 'publications':
+                // The academic CV numbers its publications like a bibliography
+                if (template.id === 'academic') {
+                    return data.publications.map(pub => new Paragraph({
+                        keepLines: true,
+                        numbering: { reference: PUBLICATION_REFERENCE, level: 0 },
+                        children: [
+                            new TextRun({ text: pub.title, bold: true }),
+                            ...(pub.description ? [new TextRun(`. ${pub.description}`)] : []),
+                            ...(pub.date ? [new TextRun({ text: ` (${pub.date})`, color: MUTED_COLOR })] : []),
+                        ],
+                    }));
+                }
+                return getExportEntries(data, section, template).flatMap(entryParagraphs);
+            default:
+                return getExportEntries(data, section, template).flatMap(inSidebar ? sidebarEntryParagraphs : entryParagraphs);
+        }
+    };
+
+    const contact: Record<'location' | 'mobile' | 'email' | 'linkedin' | 'github' | 'portfolio', ExportLink | null> = {
+        location: contact_info.location ? { label: contact_info.location } : null,
+        mobile: contact_info.mobile ? { label: contact_info.mobile, url: `tel:${contact_info.mobile.replace(/[^\d+]/g, '')}` } : null,
+        email: contact_info.email ? { label: contact_info.email, url: `mailto:${contact_info.email}` } : null,
+        linkedin: contact_info.social_links.linkedin ? { label: contact_info.social_links.linkedin, url: toHref(contact_info.social_links.linkedin) } : null,
+        github: contact_info.social_links.github ? { label: contact_info.social_links.github, url: toHref(contact_info.social_links.github) } : null,
+        portfolio: contact_info.social_links.portfolio ? { label: contact_info.social_links.portfolio, url: toHref(contact_info.social_links.portfolio) } : null,
+    };
+    // Contact details in the order a template lists them, linked where they have a safe URL
+    const contactItems = (keys: (keyof typeof contact)[], size?: number): ParagraphChild[] => keys
+        .map(key => contact[key])
+        .filter((item): item is ExportLink => item !== null)
+        .map(item => link(item.label, item.url, size));
+
+    const inline = (items: ParagraphChild[], separator: string) => items.flatMap((item, index) => [
+        ...(index > 0 ? [new TextRun({ text: separator, color: MUTED_COLOR })] : []),
+        item,
+    ]);
+
+    const alignment = theme.centerHeader ? AlignmentType.CENTER : AlignmentType.LEFT;
+    const title = new Paragraph({
+        heading: HeadingLevel.TITLE,
+        alignment,
+        children: [new TextRun(personal_info.name)],
+    });
+
+    // Name and contact details, in the sidebar for modern and across the top otherwise
+    const headerParagraphs = (): Paragraph[] => {
+        switch (template.id) {
+            case 'modern':
+                return [
+                    title,
+                    ...contactItems(['mobile', 'email', 'location', 'linkedin', 'github', 'portfolio'], theme.smallSize)
+                        .map(item => new Paragraph({ children: [item] })),
+                ];
+            case 'academic':
+                return [
+                    title,
+                    ...(contact_info.location ? [text(contact_info.location, { color: MUTED_COLOR })] : []),
+                    new Paragraph({
+                        spacing: { after: gap(200) },
+                        children: inline(contactItems(['email', 'mobile', 'portfolio', 'linkedin', 'github']), ' · '),
+                    }),
+                ];
+            default:
+                return [
+                    title,
+                    new Paragraph({
+                        alignment,
+                        spacing: { after: gap(200) },
+                        children: inline(contactItems(['location', 'mobile', 'email', 'linkedin', 'github', 'portfolio']), '  |  '),
+                    }),
+                ];
+        }
+    };
+
+    const sectionsParagraphs = (sections: ResumeSectionId[], inSidebar = false) => sections.flatMap(section => [
+        new Paragraph({
+            heading: HeadingLevel.HEADING_1,
+            children: [new TextRun(getSectionTitle(template, section))],
+        }),
+        ...sectionParagraphs(section, inSidebar),
+    ]);
+
+    const sections = getVisibleSectionOrder(data, template).filter(section => hasSectionContent(data, section));
+
+    // Modern is a borderless two-cell table: a tinted sidebar beside the main column
+    const cellMargins = { top: CELL_PADDING, bottom: CELL_PADDING, left: CELL_PADDING, right: CELL_PADDING };
+    const body: (Paragraph | Table)[] = template.id === 'modern'
+        ? [new Table({
+            width: { size: textWidth, type: WidthType.DXA },
+            columnWidths: [sidebarWidth, mainWidth],
+            layout: TableLayoutType.FIXED,
+            borders: TableBorders.NONE,
+            rows: [new TableRow({
+                children: [
+                    new TableCell({
+                        width: { size: sidebarWidth, type: WidthType.DXA },
+                        shading: { type: ShadingType.CLEAR, fill: SIDEBAR_SHADING, color: 'auto' },
+                        margins: cellMargins,
+                        children: [
+                            ...headerParagraphs(),
+                            ...sectionsParagraphs(sections.filter(section => SIDEBAR_SECTIONS.includes(section)), true),
+                        ],
+                    }),
+                    new TableCell({
+                        width: { size: mainWidth, type: WidthType.DXA },
+                        margins: cellMargins,
+                        children: sectionsParagraphs(sections.filter(section => !SIDEBAR_SECTIONS.includes(section))),
+                    }),
+                ],
+            })],
+        })]
+        : [...headerParagraphs(), ...sectionsParagraphs(sections)];
+
+    return new Document({
+        title: data.resume_name || `${personal_info.name} Resume`,
+        subject: 'Resume',
+        creator: personal_info.name,
+        keywords: data.skills.flatMap(group => group.skills).filter(Boolean).join(', '),
+        styles: {
+            default: {
+                document: {
+                    run: { font: theme.font, size: theme.bodySize, color: TEXT_COLOR },
+                    paragraph: { spacing: { after: 0, line: Math.round(LINE_SPACING * fit.lineHeightScale) } },
+                },
+                title: {
+                    run: { font: theme.font, size: theme.nameSize, bold: true, color: TEXT_COLOR },
+                    paragraph: { spacing: { after: gap(60) } },
+                },
+                heading1: {
+                    run: { font: theme.font, size: theme.headingSize, bold: true, allCaps: true, color: theme.accent },
+                    paragraph: {
+                        keepNext: true,
+                        spacing: { before: gap(200), after: gap(80) },
+                        border: theme.headingRule
+                            ? { bottom: { style: BorderStyle.SINGLE, size: 4, color: RULE_COLOR, space: 1 } }
+                            : undefined,
+                    },
+                },
+                hyperlink: {
+                    run: { color: theme.accent, underline: {} },
+                },
+            },
+        },
+        numbering: {
+            config: [
+                {
+                    reference: BULLET_REFERENCE,
+                    levels: [{
+                        level: 0,
+                        format: LevelFormat.BULLET,
+                        text: '•',
+                        alignment: AlignmentType.LEFT,
+                        style: { paragraph: { indent: { left: 360, hanging: 240 } } },
+                    }],
+                },
+                {
+                    reference: PUBLICATION_REFERENCE,
+                    levels: [{
+                        level: 0,
+                        format: LevelFormat.DECIMAL,
+                        text: '%1.',
+                        alignment: AlignmentType.LEFT,
+                        style: { paragraph: { indent: { left: 360, hanging: 360 } } },
+                    }],
+                },
+            ],
+        },
+        sections: [{
+            properties: {
+                page: {
+                    size: { width: PAGE_WIDTH, height: 16838 },
+                    margin: { top: theme.margin, right: theme.margin, bottom: theme.margin, left: theme.margin },
+                },
+            },
+            children: body,
+        }],
+    });
+};
+
+/**
+ * Builds a resume document and saves it as a .docx download
+ */
+export const downloadResumeDocx = async (data: ResumeData, template: ResumeTemplateDefinition, fit?: PageFitSettings): Promise<void> => {
+    const blob = await Packer.toBlob(createResumeDocx(data, template, fit));
+    downloadBlob(blob, getExportFileName(data, 'docx'));
+};
@@ -0,0 +1,122 @@
+import { ResumeData, ResumeSectionId } from '@/types/resume';
+import { ResumeTemplateDefinition } from '@/components/dashboard/resume-builder/templates';
+import { formatDateRange } from '@/components/dashboard/resume-builder/templates/shared';
+import { toHref } from '@/lib/utils';
+
+/**
+ * Resume Export Entries
+ *
+ * Flattens the entries of a list section into the same few fields for the PDF
+ * and DOCX renderers, ordered the way the template's preview orders them: the
+ * modern and academic layouts lead with the role, classic and compact with
+ * the organization. Each renderer then lays the fields out per template.
+ */
+
+export interface ExportLink {
+    label: string;
+    // Missing when the text is not a safe URL, in which case it is shown unlinked
+    url?: string;
+}
+
+export interface ExportEntry {
+    title: string;
+    subtitle: string;
+    location: string;
+    dates: string;
+    bullets: string[];
+    link?: ExportLink;
+    // Secondary text such as coursework or a description
+    details: string;
+}
+
+// Sections made of entries; summary, skills and languages are laid out by each renderer
+export type EntrySectionId = Exclude<ResumeSectionId, 'summary' | 'skills' | 'languages'>;
+
+const BLANK_ENTRY: ExportEntry = { title: '', subtitle: '', location: '', dates: '', bullets: [], details: '' };
+
+/**
+ * Entries of one section in the field order the template uses
+ */
+export const getExportEntries = (data: ResumeData, section: EntrySectionId, template: ResumeTemplateDefinition): ExportEntry[] => {
+    const roleFirst = template.id === 'modern' || template.id === 'academic';
+    const range = (start: string, end: string) => formatDateRange(start, end, template.dateFormat);
+
+    switch (section) {
+        case 'education':
+            return data.educations.map(edu => {
+                const degree = [edu.degree, edu.specialisation && `in ${edu.specialisation}`, edu.gpa && `- CGPA ${edu.gpa}`].filter(Boolean).join(' ');
+                // Only the academic CV puts the degree ahead of the institute
+                const [title, subtitle] = template.id === 'academic' ? [degree, edu.institute_name] : [edu.institute_name, degree];
+                return {
+                    ...BLANK_ENTRY,
+                    title,
+                    subtitle,
+                    location: edu.location,
+                    dates: range(edu.date.start, edu.date.end),
+                    details: edu.relevant_coursework.length > 0 ? `Coursework: ${edu.relevant_coursework.join(', ')}` : '',
+                };
+            });
+        case 'experience':
+            return data.work_experiences.map(exp => ({
+                ...BLANK_ENTRY,
+                title: roleFirst ? exp.job_title : exp.company_name,
+                subtitle: roleFirst ? exp.company_name : exp.job_title,
+                location: exp.location,
+                dates: range(exp.date.start, exp.date.end),
+                bullets: exp.bullet_points,
+            }));
+        case 'projects':
+            return data.projects.map(project => {
+                const technologies = project.technologies_used.join(', ');
+                // Classic keeps the technologies on the title line
+                const isClassic = template.id === 'classic';
+                return {
+                    ...BLANK_ENTRY,
+                    title: isClassic ? [project.title, technologies].filter(Boolean).join(' | ') : project.title,
+                    subtitle: isClassic ? '' : technologies,
+                    dates: range(project.date.start, project.date.end),
+                    bullets: project.bullet_points,
+                    link: project.project_link ? { label: project.project_link, url: toHref(project.project_link) } : undefined,
+                };
+            });
+        case 'extracurriculars':
+            return data.extracurriculars.map(activity => ({
+                ...BLANK_ENTRY,
+                title: roleFirst
+                    ? [activity.role, activity.title].filter(Boolean).join(', ')
+                    : [activity.title, activity.organization_name].filter(Boolean).join(' | '),
+                subtitle: roleFirst ? activity.organization_name : activity.role,
+                location: activity.location,
+                dates: range(activity.date.start, activity.date.end),
+                bullets: activity.bullet_points,
+                link: activity.certificate
+                    ? { label: activity.certificate, url: /^(https?:\/\/|www\.)/i.test(activity.certificate) ? toHref(activity.certificate) : undefined }
+                    : undefined,
+            }));
+        case 'certifications':
+            return data.certifications.map(cert => ({
+                ...BLANK_ENTRY,
+                title: cert.certification_name,
+                subtitle: cert.issuing_organisation,
+                dates: range(cert.date_issued, cert.expiry_date),
+                details: cert.description,
+            }));
+        case 'achievements':
+            return data.achievements.map(achievement => ({
+                ...BLANK_ENTRY,
+                title: achievement.title,
+                subtitle: achievement.organization,
+                dates: achievement.date_achieved,
+                details: achievement.description,
+            }));
+        case 'publications':
+            return data.publications.map(pub => ({
+                ...BLANK_ENTRY,
+                title: pub.title,
+                dates: pub.date,
+                details: pub.description,
+            }));
+        default:
+            return [];
+    }
+};
@@ -0,0 +1,645 @@
+import { jsPDF } from 'jspdf';
+import { ResumeData, ResumeSectionId, ResumeTemplateId } from '@/types/resume';
+import { ResumeTemplateDefinition, getSectionTitle, getVisibleSectionOrder } from '@/components/dashboard/resume-builder/templates';
+import { formatLanguages, hasSectionContent } from '@/components/dashboard/resume-builder/templates/shared';
+import { SIDEBAR_SECTIONS } from '@/components/dashboard/resume-builder/templates/ModernTemplate';
+import { getExportFileName, toHref } from '@/lib/utils';
+import { ExportEntry, ExportLink, getExportEntries } from '@/lib/resumeExportEntries';
+import { FIT_STEPS, PageFitSettings, getGapScale } from '@/lib/usePageFit';
+
+/**
+ * Resume PDF Renderer
+ *
+ * Draws ResumeData straight into a jsPDF document as real text, so the output
+ * is selectable and parseable by ATS systems. Each template gets its own
+ * layout, following the preview: classic and compact are single columns,
+ * modern puts contact details and short sections in a tinted sidebar, and the
+ * academic CV sets dates in a margin column. Sections follow the resume's own
+ * order and typography is scaled by the preview's fit-to-one-page step. Entry
+ * headers stay with their first bullet and a bullet is never split across pages. Text is set in embedded DejaVu
+ * fonts, since jsPDF's built-in Times and Helvetica only cover WinAnsi and
+ * garble accented names, other scripts and many symbols.
+ */
+
+type RGB = [number, number, number];
+type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+type FontFamily = 'DejaVuSerif' | 'DejaVuSans';
+
+interface PdfTheme {
+    font: FontFamily;
+    nameSize: number;
+    headingSize: number;
+    bodySize: number;
+    smallSize: number;
+    lineHeight: number;
+    margin: number;
+    sectionGap: number;
+    entryGap: number;
+    accent: RGB;
+    centerHeader: boolean;
+    headingRule: boolean;
+}
+
+const TEXT_COLOR: RGB = [17, 24, 39];
+const MUTED_COLOR: RGB = [75, 85, 99];
+const RULE_COLOR: RGB = [156, 163, 175];
+
+// Typography per template, in points, chosen to match the on-screen layouts
+const PDF_THEMES: Record<ResumeTemplateId, PdfTheme> = {
+    classic: {
+        font: 'DejaVuSerif', nameSize: 22, headingSize: 12, bodySize: 10.5, smallSize: 9.5,
+        lineHeight: 1.2, margin: 36, sectionGap: 10, entryGap: 6, accent: TEXT_COLOR, centerHeader: true, headingRule: true,
+    },
+    modern: {
+        font: 'DejaVuSans', nameSize: 22, headingSize: 10, bodySize: 10, smallSize: 9,
+        lineHeight: 1.25, margin: 40, sectionGap: 12, entryGap: 6, accent: [29, 78, 216], centerHeader: false, headingRule: false,
+    },
+    compact: {
+        font: 'DejaVuSans', nameSize: 16, headingSize: 9, bodySize: 9, smallSize: 8.5,
+        lineHeight: 1.15, margin: 24, sectionGap: 6, entryGap: 3, accent: TEXT_COLOR, centerHeader: true, headingRule: true,
+    },
+    academic: {
+        font: 'DejaVuSerif', nameSize: 22, headingSize: 11, bodySize: 10.5, smallSize: 9.5,
+        lineHeight: 1.2, margin: 44, sectionGap: 10, entryGap: 6, accent: [31, 41, 55], centerHeader: false, headingRule: true,
+    },
+};
+
+const BULLET_INDENT = 12;
+
+// Unicode TTFs for each family and style; literal paths so the bundler emits them as assets
+const getFontUrls = (family: FontFamily): Record<FontStyle, URL> => family === 'DejaVuSerif'
+    ? {
+        normal: new URL('dejavu-fonts-ttf/ttf/DejaVuSerif.ttf', import.meta.url),
+        bold: new URL('dejavu-fonts-ttf/ttf/DejaVuSerif-Bold.ttf', import.meta.url),
+        italic: new URL('dejavu-fonts-ttf/ttf/DejaVuSerif-Italic.ttf', import.meta.url),
+        bolditalic: new URL('dejavu-fonts-ttf/ttf/DejaVuSerif-BoldItalic.ttf', import.meta.url),
+    }
+    : {
+        normal: new URL('dejavu-fonts-ttf/ttf/DejaVuSans.ttf', import.meta.url),
+        bold: new URL('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf', import.meta.url),
+        italic: new URL('dejavu-fonts-ttf/ttf/DejaVuSans-Oblique.ttf', import.meta.url),
+        bolditalic: new URL('dejavu-fonts-ttf/ttf/DejaVuSans-BoldOblique.ttf', import.meta.url),
+    };
+
+// Base64 font files by URL, fetched on the first export and reused after that
+const fontFiles = new Map<string, Promise<string>>();
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    // Chunked so String.fromCharCode never gets more arguments than the engine allows
+    for (let index = 0; index < bytes.length; index += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const loadFontFile = (url: URL): Promise<string> => {
+    const cached = fontFiles.get(url.href);
+    if (cached) return cached;
+
+    const request = fetch(url)
+        .then(response => {
+            if (!response.ok) throw new Error(`Font request failed with status ${response.status}`);
+            return response.arrayBuffer();
+        })
+        .then(toBase64);
+    // A failed download is tried again on the next export
+    request.catch(() => fontFiles.delete(url.href));
+    fontFiles.set(url.href, request);
+    return request;
+};
+
+/**
+ * Adds all four styles of a font family to the document; jsPDF only writes the glyphs used
+ * @throws {Error} when a font file cannot be downloaded
+ */
+const embedFonts = async (doc: jsPDF, family: FontFamily): Promise<void> => {
+    const urls = getFontUrls(family);
+    const styles = Object.keys(urls) as FontStyle[];
+    let files: string[];
+    try {
+        files = await Promise.all(styles.map(style => loadFontFile(urls[style])));
+    } catch (error) {
+        console.error('Error loading PDF fonts:', error);
+        throw new Error('Could not load the fonts for the PDF. Check your connection and try again.');
+    }
+
+    styles.forEach((style, index) => {
+        const fileName = `${family}-${style}.ttf`;
+        doc.addFileToVFS(fileName, files[index]);
+        doc.addFont(fileName, family, style);
+    });
+};
+
+/**
+ * Applies a fit step to a theme the same way the preview's CSS variables do
+ */
+const scalePdfTheme = (theme: PdfTheme, fit: PageFitSettings): PdfTheme => {
+    const gapScale = getGapScale(fit);
+    return {
+        ...theme,
+        nameSize: theme.nameSize * fit.fontScale,
+        headingSize: theme.headingSize * fit.fontScale,
+        bodySize: theme.bodySize * fit.fontScale,
+        smallSize: theme.smallSize * fit.fontScale,
+        lineHeight: theme.lineHeight * fit.lineHeightScale,
+        margin: theme.margin * fit.marginScale,
+        sectionGap: theme.sectionGap * gapScale,
+        entryGap: theme.entryGap * gapScale,
+    };
+};
+
+// A measured piece of content that is drawn in one go and never split across pages
+interface Block {
+    height: number;
+    draw: () => void;
+}
+
+interface EntryBlocks {
+    header: Block[];
+    items: Block[];
+}
+
+// A run of content down the page that breaks onto new pages on its own; modern has two side by side
+interface Column {
+    left: number;
+    width: number;
+    y: number;
+    page: number;
+}
+
+interface TextOptions {
+    size?: number;
+    style?: FontStyle;
+    color?: RGB;
+    indent?: number;
+    url?: string;
+}
+
+// Modern sidebar share of the page width and its tint, matching the preview's slate-100 aside
+const SIDEBAR_WIDTH_RATIO = 0.34;
+const SIDEBAR_COLOR: RGB = [241, 245, 249];
+// Academic margin column for dates, including the gap before the entry body
+const DATE_COLUMN_WIDTH = 96;
+
+/**
+ * Renders a resume into a new jsPDF document
+ * @param fit typography and margin scaling, full size unless the preview is fitted to one page
+ * @throws {Error} when the fonts cannot be downloaded
+ */
+export const createResumePdf = async (data: ResumeData, template: ResumeTemplateDefinition, fit: PageFitSettings = FIT_STEPS[0]): Promise<jsPDF> => {
+    const theme = scalePdfTheme(PDF_THEMES[template.id], fit);
+    const { personal_info } = data;
+    const { contact_info } = personal_info;
+    const isModern = template.id === 'modern';
+
+    const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+    await embedFonts(doc, theme.font);
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const top = theme.margin;
+    const bottom = pageHeight - theme.margin;
+
+    // Modern pads each of its columns by half a margin; the other layouts use one full-width column
+    const sidebarWidth = pageWidth * SIDEBAR_WIDTH_RATIO;
+    const gutter = theme.margin / 2;
+    const sidebar: Column = { left: gutter, width: sidebarWidth - gutter * 2, y: top, page: 1 };
+    const main: Column = isModern
+        ? { left: sidebarWidth + gutter, width: pageWidth - sidebarWidth - gutter * 2, y: top, page: 1 }
+        : { left: theme.margin, width: pageWidth - theme.margin * 2, y: top, page: 1 };
+    let column = main;
+
+    doc.setDocumentProperties({
+        title: data.resume_name || `${personal_info.name} Resume`,
+        subject: 'Resume',
+        author: personal_info.name,
+        keywords: data.skills.flatMap(group => group.skills).filter(Boolean).join(', '),
+        creator: 'Resume Builder',
+    });
+
+    // Paints what sits under the text of a fresh page
+    const decoratePage = () => {
+        if (!isModern) return;
+        doc.setFillColor(...SIDEBAR_COLOR);
+        doc.rect(0, 0, sidebarWidth, pageHeight, 'F');
+    };
+    decoratePage();
+
+    const lineHeightOf = (size: number) => size * theme.lineHeight;
+
+    const setText = (size: number, style: FontStyle = 'normal', color: RGB = TEXT_COLOR) => {
+        doc.setFont(theme.font, style);
+        doc.setFontSize(size);
+        doc.setTextColor(...color);
+    };
+
+    const wrap = (text: string, width: number, size: number, style: FontStyle = 'normal'): string[] => {
+        setText(size, style);
+        return doc.splitTextToSize(text, width) as string[];
+    };
+
+    const drawLines = (lines: string[], x: number, y: number, size: number, align: 'left' | 'right' | 'center' = 'left') => {
+        doc.text(lines, x, y, { baseline: 'top', lineHeightFactor: theme.lineHeight, align });
+    };
+
+    // Makes every wrapped line drawn at the column's cursor a link
+    const linkLines = (lines: string[], x: number, size: number, url: string) => {
+        lines.forEach((line, index) => {
+            doc.link(x, column.y + index * lineHeightOf(size), doc.getTextWidth(line), lineHeightOf(size), { url });
+        });
+    };
+
+    /**
+     * Draws blocks in the current column, moving the column to its next page first if they do not all fit
+     * Blocks taller than a full page are drawn anyway rather than looping forever
+     */
+    const keepTogether = (...blocks: Block[]) => {
+        const height = blocks.reduce((sum, block) => sum + block.height, 0);
+        if (column.y + height > bottom && column.y > top) {
+            column.page += 1;
+            column.y = top;
+            // The other column may already have made this page
+            if (column.page > doc.getNumberOfPages()) {
+                doc.addPage();
+                decoratePage();
+            }
+        }
+        doc.setPage(column.page);
+        blocks.forEach(block => block.draw());
+    };
+
+    const spacer = (height: number): Block => ({ height, draw: () => { column.y += height; } });
+
+    const textBlock = (text: string, { size = theme.bodySize, style = 'normal', color = TEXT_COLOR, indent = 0, url }: TextOptions = {}): Block => {
+        const lines = wrap(text, column.width - indent, size, style);
+        const height = lines.length * lineHeightOf(size);
+        return {
+            height,
+            draw: () => {
+                setText(size, style, url ? theme.accent : color);
+                drawLines(lines, column.left + indent, column.y, size);
+                if (url) linkLines(lines, column.left + indent, size, url);
+                column.y += height;
+            },
+        };
+    };
+
+    // Primary text on the left, dates or location right-aligned on the same line
+    const rowBlock = (
+        leftText: string,
+        rightText: string,
+        { size = theme.bodySize, style = 'bold', color = TEXT_COLOR }: { size?: number; style?: FontStyle; color?: RGB } = {}
+    ): Block => {
+        setText(theme.smallSize, 'normal');
+        const rightWidth = rightText ? doc.getTextWidth(rightText) + 12 : 0;
+        const lines = wrap(leftText, column.width - rightWidth, size, style);
+        const height = Math.max(lines.length, 1) * lineHeightOf(size);
+        return {
+            height,
+            draw: () => {
+                setText(size, style, color);
+                drawLines(lines, column.left, column.y, size);
+                if (rightText) {
+                    setText(theme.smallSize, 'normal', MUTED_COLOR);
+                    drawLines([rightText], column.left + column.width, column.y + (size - theme.smallSize) / 2, theme.smallSize, 'right');
+                }
+                column.y += height;
+            },
+        };
+    };
+
+    // Bold title and muted subtitle sharing one line when they fit, dates right-aligned; compact's entry header
+    const titleRowBlock = (title: string, subtitle: string, dates: string): Block => {
+        const size = theme.bodySize;
+        setText(size, 'normal');
+        const width = column.width - (dates ? doc.getTextWidth(dates) + 12 : 0);
+        const suffix = subtitle ? ` — ${subtitle}` : '';
+        const suffixWidth = doc.getTextWidth(suffix);
+        setText(size, 'bold');
+        const titleWidth = doc.getTextWidth(title);
+        const isOneLine = titleWidth + suffixWidth <= width;
+        const titleLines = isOneLine ? [title] : wrap(title, width, size, 'bold');
+        const subtitleLines = isOneLine || !subtitle ? [] : wrap(subtitle, width, size);
+        const height = (titleLines.length + subtitleLines.length) * lineHeightOf(size);
+        return {
+            height,
+            draw: () => {
+                setText(size, 'bold');
+                drawLines(titleLines, column.left, column.y, size);
+                setText(size, 'normal', MUTED_COLOR);
+                if (isOneLine && suffix) {
+                    drawLines([suffix], column.left + titleWidth, column.y, size);
+                } else if (subtitleLines.length > 0) {
+                    drawLines(subtitleLines, column.left, column.y + titleLines.length * lineHeightOf(size), size);
+                }
+                if (dates) {
+                    drawLines([dates], column.left + column.width, column.y, size, 'right');
+                }
+                column.y += height;
+            },
+        };
+    };
+
+    // Bulleted or numbered item with its text wrapped in a hanging column
+    const bulletBlock = (text: string, { url, marker = '•', indent = 0 }: { url?: string; marker?: string; indent?: number } = {}): Block => {
+        const size = theme.bodySize;
+        const textIndent = indent + BULLET_INDENT * 2;
+        const lines = wrap(text, column.width - textIndent, size);
+        const height = lines.length * lineHeightOf(size);
+        return {
+            height,
+            draw: () => {
+                setText(size, 'normal', url ? theme.accent : TEXT_COLOR);
+                drawLines([marker], column.left + indent + BULLET_INDENT / 2, column.y, size);
+                drawLines(lines, column.left + textIndent, column.y, size);
+                if (url) linkLines(lines, column.left + textIndent, size, url);
+                column.y += height;
+            },
+        };
+    };
+
+    // Zero-height block that writes an academic entry's dates into the margin beside what follows it
+    const marginBlock = (text: string): Block => {
+        const lines = text ? wrap(text, DATE_COLUMN_WIDTH - 12, theme.bodySize) : [];
+        return {
+            height: 0,
+            draw: () => {
+                setText(theme.bodySize, 'normal', MUTED_COLOR);
+                drawLines(lines, column.left, column.y, theme.bodySize);
+            },
+        };
+    };
+
+    // Bold label with its text wrapped in a hanging column to the right, e.g. skill groups
+    const labeledBlock = (label: string, text: string): Block => {
+        const size = theme.bodySize;
+        setText(size, 'bold');
+        const labelWidth = doc.getTextWidth(`${label}: `);
+        const lines = wrap(text, column.width - labelWidth, size);
+        const height = Math.max(lines.length, 1) * lineHeightOf(size);
+        return {
+            height,
+            draw: () => {
+                setText(size, 'bold');
+                drawLines([`${label}:`], column.left, column.y, size);
+                setText(size, 'normal');
+                drawLines(lines, column.left + labelWidth, column.y, size);
+                column.y += height;
+            },
+        };
+    };
+
+    const headingBlock = (section: ResumeSectionId): Block => {
+        const size = theme.headingSize;
+        const title = getSectionTitle(template, section).toUpperCase();
+        const ruleGap = theme.headingRule ? 3 : 0;
+        const height = lineHeightOf(size) + ruleGap + 4;
+        return {
+            height,
+            draw: () => {
+                setText(size, 'bold', theme.accent);
+                drawLines([title], column.left, column.y, size);
+                if (theme.headingRule) {
+                    const ruleY = column.y + lineHeightOf(size) + 1;
+                    doc.setDrawColor(...RULE_COLOR);
+                    doc.setLineWidth(0.5);
+                    doc.line(column.left, ruleY, column.left + column.width, ruleY);
+                }
+                column.y += height;
+            },
+        };
+    };
+
+    const nameBlock = (): Block => {
+        const size = theme.nameSize;
+        const lines = wrap(personal_info.name, column.width, size, 'bold');
+        const height = lines.length * lineHeightOf(size) + 2;
+        return {
+            height,
+            draw: () => {
+                setText(size, 'bold');
+                const x = theme.centerHeader ? column.left + column.width / 2 : column.left;
+                drawLines(lines, x, column.y, size, theme.centerHeader ? 'center' : 'left');
+                column.y += height;
+            },
+        };
+    };
+
+    /**
+     * Lays out items such as contact details on as many lines as needed, linking those with a url
+     */
+    const inlineBlock = (items: ExportLink[], size: number, separator: string): Block => {
+        setText(size, 'normal');
+        const separatorWidth = doc.getTextWidth(separator);
+
+        const lines: ExportLink[][] = [[]];
+        let lineWidth = 0;
+        items.forEach(item => {
+            const width = doc.getTextWidth(item.label);
+            const current = lines[lines.length - 1];
+            if (current.length > 0 && lineWidth + separatorWidth + width > column.width) {
+                lines.push([item]);
+                lineWidth = width;
+            } else {
+                lineWidth += (current.length > 0 ? separatorWidth : 0) + width;
+                current.push(item);
+            }
+        });
+        const filled = lines.filter(line => line.length > 0);
+
+        return {
+            height: filled.length * lineHeightOf(size),
+            draw: () => filled.forEach(line => {
+                setText(size, 'normal');
+                const totalWidth = line.reduce((sum, item, index) => sum + doc.getTextWidth(item.label) + (index > 0 ? separatorWidth : 0), 0);
+                let x = theme.centerHeader ? column.left + (column.width - totalWidth) / 2 : column.left;
+
+                line.forEach((item, index) => {
+                    if (index > 0) {
+                        setText(size, 'normal', MUTED_COLOR);
+                        drawLines([separator], x, column.y, size);
+                        x += separatorWidth;
+                    }
+                    const width = doc.getTextWidth(item.label);
+                    setText(size, 'normal', item.url ? theme.accent : TEXT_COLOR);
+                    drawLines([item.label], x, column.y, size);
+                    if (item.url) {
+                        doc.link(x, column.y, width, lineHeightOf(size), { url: item.url });
+                    }
+                    x += width;
+                });
+                column.y += lineHeightOf(size);
+            }),
+        };
+    };
+
+    const contact: Record<'location' | 'mobile' | 'email' | 'linkedin' | 'github' | 'portfolio', ExportLink | null> = {
+        location: contact_info.location ? { label: contact_info.location } : null,
+        mobile: contact_info.mobile ? { label: contact_info.mobile, url: `tel:${contact_info.mobile.replace(/[^\d+]/g, '')}` } : null,
+        email: contact_info.email ? { label: contact_info.email, url: `mailto:${contact_info.email}` } : null,
+        linkedin: contact_info.social_links.linkedin ? { label: contact_info.social_links.linkedin, url: toHref(contact_info.social_links.linkedin) } : null,
+        github: contact_info.social_links.github ? { label: contact_info.social_links.github, url: toHref(contact_info.social_links.github) } : null,
+        portfolio: contact_info.social_links.portfolio ? { label: contact_info.social_links.portfolio, url: toHref(contact_info.social_links.portfolio) } : null,
+    };
+    // Contact details in the order a template lists them
+    const contactItems = (...keys: (keyof typeof contact)[]): ExportLink[] => keys
+        .map(key => contact[key])
+        .filter((item): item is ExportLink => item !== null);
+
+    // Name and contact details, in the sidebar for modern and across the top otherwise
+    const headerBlocks = (): Block[] => {
+        switch (template.id) {
+            case 'modern':
+                return [
+                    nameBlock(),
+                    spacer(6),
+                    ...contactItems('mobile', 'email', 'location', 'linkedin', 'github', 'portfolio')
+                        .map(item => textBlock(item.label, { size: theme.smallSize, url: item.url })),
+                ];
+            case 'academic':
+                return [
+                    nameBlock(),
+                    ...(contact_info.location ? [textBlock(contact_info.location, { color: MUTED_COLOR })] : []),
+                    inlineBlock(contactItems('email', 'mobile', 'portfolio', 'linkedin', 'github'), theme.bodySize, ' · '),
+                ];
+            default:
+                return [
+                    nameBlock(),
+                    inlineBlock(contactItems('location', 'mobile', 'email', 'linkedin', 'github', 'portfolio'), theme.smallSize, '  |  '),
+                ];
+        }
+    };
+
+    // Title rows that must stay together, then bullets that may move to the next page, laid out per template
+    const entryBlocks = (entry: ExportEntry): EntryBlocks => {
+        const indent = template.id === 'academic' ? DATE_COLUMN_WIDTH : 0;
+        const items = [
+            ...entry.bullets.filter(point => point.trim()).map(point => bulletBlock(point.trim(), { indent })),
+            ...(entry.link ? [bulletBlock(entry.link.label, { url: entry.link.url, indent })] : []),
+            ...(entry.details ? [textBlock(entry.details, { size: theme.smallSize, color: MUTED_COLOR, indent })] : []),
+        ];
+
+        switch (template.id) {
+            case 'modern': {
+                const subtitle = [entry.subtitle, entry.location].filter(Boolean).join(' · ');
+                return {
+                    header: [rowBlock(entry.title, entry.dates), ...(subtitle ? [textBlock(subtitle, { color: theme.accent })] : [])],
+                    items,
+                };
+            }
+            case 'compact':
+                return {
+                    header: [titleRowBlock(entry.title, [entry.subtitle, entry.location].filter(Boolean).join(', '), entry.dates)],
+                    items,
+                };
+            case 'academic': {
+                const subtitle = [entry.subtitle, entry.location].filter(Boolean).join(', ');
+                return {
+                    header: [
+                        marginBlock(entry.dates),
+                        textBlock(entry.title, { style: 'bold', indent }),
+                        ...(subtitle ? [textBlock(subtitle, { style: 'italic', indent })] : []),
+                    ],
+                    items,
+                };
+            }
+            default:
+                return {
+                    header: [
+                        rowBlock(entry.title, entry.dates),
+                        ...(entry.subtitle || entry.location ? [rowBlock(entry.subtitle, entry.location, { style: 'italic' })] : []),
+                    ],
+                    items,
+                };
+        }
+    };
+
+    // Short stacked entries for the modern sidebar
+    const sidebarEntryBlocks = (entry: ExportEntry): EntryBlocks => ({
+        header: [
+            textBlock(entry.title, { size: theme.smallSize, style: 'bold' }),
+            ...[entry.subtitle, entry.dates].filter(Boolean).map(text => textBlock(text, { size: theme.smallSize, color: MUTED_COLOR })),
+        ],
+        items: [],
+    });
+
+    const sectionEntries = (section: ResumeSectionId): EntryBlocks[] => {
+        const inSidebar = column === sidebar;
+
+        switch (section) {
+            case 'summary':
+                return personal_info.professional_summary
+                    .split(/\n+/)
+                    .filter(paragraph => paragraph.trim())
+                    .map(paragraph => ({ header: [textBlock(paragraph.trim())], items: [] }));
+            case 'skills':
+                return data.skills.map(group => ({
+                    header: inSidebar
+                        ? [
+                            ...(group.skill_group ? [textBlock(group.skill_group, { size: theme.smallSize, style: 'bold' })] : []),
+                            textBlock(group.skills.join(', '), { size: theme.smallSize, color: MUTED_COLOR }),
+                        ]
+                        : [group.skill_group ? labeledBlock(group.skill_group, group.skills.join(', ')) : textBlock(group.skills.join(', '))],
+                    items: [],
+                }));
+            case 'languages':
+                return [{
+                    header: [inSidebar ? textBlock(formatLanguages(data), { size: theme.smallSize, color: MUTED_COLOR }) : textBlock(formatLanguages(data))],
+                    items: [],
+                }];
+            case 'publications':
+                // The academic CV numbers its publications like a bibliography
+                if (template.id === 'academic') {
+                    return data.publications.map((pub, index) => ({
+                        header: [bulletBlock(
+                            [pub.title, pub.description].filter(Boolean).join('. ') + (pub.date ? ` (${pub.date})` : ''),
+                            { marker: `${index + 1}.` }
+                        )],
+                        items: [],
+                    }));
+                }
+                return getExportEntries(data, section, template).map(entryBlocks);
+            default:
+                return getExportEntries(data, section, template).map(inSidebar ? sidebarEntryBlocks : entryBlocks);
+        }
+    };
+
+    const drawSections = (sections: ResumeSectionId[]) => {
+        sections.forEach(section => {
+            sectionEntries(section).forEach((entry, entryIndex) => {
+                // The section heading stays with the first entry, and an entry header with its first bullet
+                const leading = entryIndex === 0 ? headingBlock(section) : spacer(theme.entryGap);
+                const [firstItem, ...restItems] = entry.items;
+                keepTogether(leading, ...entry.header, ...(firstItem ? [firstItem] : []));
+                restItems.forEach(item => keepTogether(item));
+            });
+            column.y += theme.sectionGap;
+        });
+    };
+
+    const sections = getVisibleSectionOrder(data, template).filter(section => hasSectionContent(data, section));
+    if (isModern) {
+        // Sidebar first, then the main column starts again from the top of the first page
+        column = sidebar;
+        keepTogether(...headerBlocks());
+        column.y += theme.sectionGap;
+        drawSections(sections.filter(section => SIDEBAR_SECTIONS.includes(section)));
+        column = main;
+        drawSections(sections.filter(section => !SIDEBAR_SECTIONS.includes(section)));
+    } else {
+        keepTogether(...headerBlocks());
+        column.y += theme.sectionGap;
+        drawSections(sections);
+    }
+
+    return doc;
+};
+
+/**
+ * Renders a resume and saves it as a PDF download
+ */
+export const downloadResumePdf = async (data: ResumeData, template: ResumeTemplateDefinition, fit?: PageFitSettings): Promise<void> => {
+    const doc = await createResumePdf(data, template, fit);
+    doc.save(getExportFileName(data, 'pdf'));
+};
@@ -0,0 +1,238 @@
+import { ResumeData } from '@/types/resume';
+import { ResumeTemplateDefinition, getSectionTitle, getVisibleSectionOrder } from '@/components/dashboard/resume-builder/templates';
+import { formatDateRange, formatLanguages, hasSectionContent } from '@/components/dashboard/resume-builder/templates/shared';
+import { downloadBlob, getExportFileName, toHref } from '@/lib/utils';
+
+/**
+ * Resume Text Exporters
+ *
+ * Plain text for pasting into job-portal text boxes and Markdown for keeping
+ * resumes under version control. Both read the same section outline, built in
+ * the resume's section order with bullets normalized to single clean lines.
+ */
+
+interface TextEntry {
+    title: string;
+    dates: string;
+    subtitle: string;
+    details: string[];
+    bullets: string[];
+    link?: string;
+}
+
+interface TextSection {
+    title: string;
+    paragraphs: string[];
+    // "Label: text" lines such as skill groups
+    labeled: { label: string; text: string }[];
+    entries: TextEntry[];
+}
+
+interface ContactItem {
+    label: string;
+    url?: string;
+}
+
+// Markers people paste in front of bullets, removed so every export uses its own
+const BULLET_MARKER = /^\s*(?:[-*•·▪●◦‣–—>]|\d+[.)])\s+/;
+
+/**
+ * Strips any leading bullet marker and collapses whitespace so a bullet is one clean line
+ */
+export const normalizeBullet = (text: string): string => {
+    return text.replace(BULLET_MARKER, '').replace(/\s+/g, ' ').trim();
+};
+
+const entry = (fields: Partial<TextEntry> & Pick<TextEntry, 'title'>): TextEntry => ({
+    dates: '',
+    subtitle: '',
+    details: [],
+    bullets: [],
+    ...fields,
+});
+
+const cleanBullets = (points: string[]): string[] => points.map(normalizeBullet).filter(Boolean);
+
+/**
+ * Collects the content of every visible, non-empty section, in the resume's section order
+ */
+const buildSections = (data: ResumeData, template: ResumeTemplateDefinition): TextSection[] => {
+    return getVisibleSectionOrder(data, template)
+        .filter(section => hasSectionContent(data, section))
+        .map(section => {
+            const outline: TextSection = { title: getSectionTitle(template, section), paragraphs: [], labeled: [], entries: [] };
+
+            switch (section) {
+                case 'summary':
+                    outline.paragraphs = data.personal_info.professional_summary
+                        .split(/\n+/)
+                        .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+                        .filter(Boolean);
+                    break;
+                case 'education':
+                    outline.entries = data.educations.map(edu => entry({
+                        title: edu.institute_name,
+                        dates: formatDateRange(edu.date.start, edu.date.end, template.dateFormat),
+                        subtitle: [
+                            [edu.degree, edu.specialisation && `in ${edu.specialisation}`, edu.gpa && `- CGPA ${edu.gpa}`].filter(Boolean).join(' '),
+                            edu.location,
+                        ].filter(Boolean).join(' | '),
+                        details: edu.relevant_coursework.length > 0 ? [`Coursework: ${edu.relevant_coursework.join(', ')}`] : [],
+                    }));
+                    break;
+                case 'experience':
+                    outline.entries = data.work_experiences.map(exp => entry({
+                        title: exp.company_name,
+                        dates: formatDateRange(exp.date.start, exp.date.end, template.dateFormat),
+                        subtitle: [exp.job_title, exp.location].filter(Boolean).join(' | '),
+                        bullets: cleanBullets(exp.bullet_points),
+                    }));
+                    break;
+                case 'projects':
+                    outline.entries = data.projects.map(project => entry({
+                        title: project.title,
+                        dates: formatDateRange(project.date.start, project.date.end, template.dateFormat),
+                        subtitle: project.technologies_used.join(', '),
+                        bullets: cleanBullets(project.bullet_points),
+                        link: project.project_link || undefined,
+                    }));
+                    break;
+                case 'skills':
+                    outline.labeled = data.skills.map(group => ({ label: group.skill_group, text: group.skills.join(', ') }));
+                    break;
+                case 'extracurriculars':
+                    outline.entries = data.extracurriculars.map(activity => entry({
+                        title: [activity.title, activity.organization_name].filter(Boolean).join(' | '),
+                        dates: formatDateRange(activity.date.start, activity.date.end, template.dateFormat),
+                        subtitle: [activity.role, activity.location].filter(Boolean).join(' | '),
+                        bullets: cleanBullets([...activity.bullet_points, activity.certificate]),
+                    }));
+                    break;
+                case 'certifications':
+                    outline.entries = data.certifications.map(cert => entry({
+                        title: cert.certification_name,
+                        dates: formatDateRange(cert.date_issued, cert.expiry_date, template.dateFormat),
+                        subtitle: cert.issuing_organisation,
+                        details: cert.description ? [cert.description] : [],
+                    }));
+                    break;
+                case 'achievements':
+                    outline.entries = data.achievements.map(achievement => entry({
+                        title: achievement.title,
+                        dates: achievement.date_achieved,
+                        subtitle: achievement.organization,
+                        details: achievement.description ? [achievement.description] : [],
+                    }));
+                    break;
+                case 'publications':
+                    outline.entries = data.publications.map(pub => entry({
+                        title: pub.title,
+                        dates: pub.date,
+                        details: pub.description ? [pub.description] : [],
+                    }));
+                    break;
+                case 'languages':
+                    outline.paragraphs = [formatLanguages(data)];
+                    break;
+            }
+            return outline;
+        });
+};
+
+const buildContactItems = (data: ResumeData): ContactItem[] => {
+    const { contact_info } = data.personal_info;
+    return [
+        contact_info.location ? { label: contact_info.location } : null,
+        contact_info.mobile ? { label: contact_info.mobile } : null,
+        contact_info.email ? { label: contact_info.email, url: `mailto:${contact_info.email}` } : null,
+        ...[contact_info.social_links.linkedin, contact_info.social_links.github, contact_info.social_links.portfolio]
+            .filter(Boolean)
+            .map(link => ({ label: link, url: toHref(link) })),
+    ].filter((item): item is ContactItem => item !== null);
+};
+
+/**
+ * Formats a resume as ATS-friendly plain text with uppercase headings and "-" bullets
+ */
+export const resumeToPlainText = (data: ResumeData, template: ResumeTemplateDefinition): string => {
+    const header = [
+        data.personal_info.name.toUpperCase(),
+        buildContactItems(data).map(item => item.label).join(' | '),
+    ].filter(Boolean).join('\n');
+
+    const sections = buildSections(data, template).map(section => {
+        const entries = section.entries.map(item => [
+            [item.title, item.dates].filter(Boolean).join(' | '),
+            item.subtitle,
+            ...item.details,
+            ...item.bullets.map(point => `- ${point}`),
+            item.link ? `- ${item.link}` : '',
+        ].filter(Boolean).join('\n'));
+
+        const labeled = section.labeled.map(line => line.label ? `${line.label}: ${line.text}` : line.text).join('\n');
+        return [section.title.toUpperCase(), [...section.paragraphs, labeled, ...entries].filter(Boolean).join('\n\n')].join('\n');
+    });
+
+    return [header, ...sections].join('\n\n') + '\n';
+};
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+
+/**
+ * Formats a resume as Markdown, with linked contact details and one "###" heading per entry
+ */
+export const resumeToMarkdown = (data: ResumeData, template: ResumeTemplateDefinition): string => {
+    const contact = buildContactItems(data)
+        .map(item => item.url ? `[${escapeMarkdown(item.label)}](${item.url})` : escapeMarkdown(item.label))
+        .join(' · ');
+    const header = [`# ${escapeMarkdown(data.personal_info.name)}`, contact].filter(Boolean).join('\n\n');
+
+    const sections = buildSections(data, template).map(section => {
+        const labeled = section.labeled
+            .map(line => line.label ? `- **${escapeMarkdown(line.label)}:** ${escapeMarkdown(line.text)}` : `- ${escapeMarkdown(line.text)}`)
+            .join('\n');
+
+        const entries = section.entries.map(item => {
+            const meta = [item.subtitle && `*${escapeMarkdown(item.subtitle)}*`, item.dates && escapeMarkdown(item.dates)].filter(Boolean).join(' · ');
+            const linkHref = item.link ? toHref(item.link) : undefined;
+            const bullets = [
+                ...item.bullets.map(point => `- ${escapeMarkdown(point)}`),
+                ...(item.link ? [linkHref ? `- [${escapeMarkdown(item.link)}](${linkHref})` : `- ${escapeMarkdown(item.link)}`] : []),
+            ].join('\n');
+
+            return [`### ${escapeMarkdown(item.title)}`, meta, ...item.details.map(escapeMarkdown), bullets].filter(Boolean).join('\n\n');
+        });
+
+        return [`## ${escapeMarkdown(section.title)}`, ...section.paragraphs.map(escapeMarkdown), labeled, ...entries].filter(Boolean).join('\n\n');
+    });
+
+    return [header, ...sections].join('\n\n') + '\n';
+};
+
+/**
+ * Saves the plain-text version of a resume as a .txt download
+ */
+export const downloadResumeText = (data: ResumeData, template: ResumeTemplateDefinition): void => {
+    downloadBlob(new Blob([resumeToPlainText(data, template)], { type: 'text/plain;charset=utf-8' }), getExportFileName(data, 'txt'));
+};
+
+/**
+ * Saves the Markdown version of a resume as a .md download
+ */
+export const downloadResumeMarkdown = (data: ResumeData, template: ResumeTemplateDefinition): void => {
+    downloadBlob(new Blob([resumeToMarkdown(data, template)], { type: 'text/markdown;charset=utf-8' }), getExportFileName(data, 'md'));
+};
+
+/**
+ * Copies the plain-text version of a resume, ready to paste into job portals
+ */
+export const copyResumeText = (data: ResumeData, template: ResumeTemplateDefinition): Promise<void> => {
+    return navigator.clipboard.writeText(resumeToPlainText(data, template));
+};
+
+/**
+ * Copies the Markdown version of a resume
+ */
+export const copyResumeMarkdown = (data: ResumeData, template: ResumeTemplateDefinition): Promise<void> => {
+    return navigator.clipboard.writeText(resumeToMarkdown(data, template));
+};
@@ -0,0 +1,297 @@
+import { ResumeData, DateRange } from '@/types/resume';
+import { getDateRangeError } from '@/lib/resumeDates';
+import { toHref } from '@/lib/utils';
+
+/**
+ * Resume Validation
+ *
+ * Checks the whole of ResumeData against a declarative schema: required and
+ * recommended fields per section, email/phone/URL formats, date ranges,
+ * bullet length and duplicate entries. Errors block saving and exporting;
+ * warnings are shown but never block. Only fields an entry can't do without
+ * are required; blank recommended fields, often missing from imports, only
+ * warn. Every issue carries a dotted path such as
+ * "work_experiences.0.company_name" so forms can show it next to the field.
+ */
+
+export type ValidationSeverity = 'error' | 'warning';
+
+// Top-level ResumeData key an issue belongs to, used to jump to the right form
+export type ValidationSectionKey = 'personal_info' | ListKey;
+
+export interface ValidationIssue {
+    path: string;
+    section: ValidationSectionKey;
+    // Where the issue is, e.g. "Personal Info" or "Experience 2"
+    label: string;
+    severity: ValidationSeverity;
+    message: string;
+}
+
+export interface ResumeValidation {
+    issues: ValidationIssue[];
+    errorCount: number;
+    warningCount: number;
+    hasErrors: boolean;
+}
+
+// Bullets longer than this read as paragraphs and get a warning
+export const BULLET_SOFT_LIMIT = 200;
+// Bullets longer than this break most one-page layouts and block export
+export const BULLET_HARD_LIMIT = 400;
+
+type FieldFormat = 'email' | 'phone' | 'url';
+
+interface FieldRules {
+    label: string;
+    // Blank is an error
+    required?: boolean;
+    // Blank is a warning
+    recommended?: boolean;
+    format?: FieldFormat;
+}
+
+type ListKey = 'educations' | 'work_experiences' | 'projects' | 'skills' | 'extracurriculars' | 'certifications' | 'achievements' | 'languages' | 'publications';
+type Entry<K extends ListKey> = ResumeData[K][number];
+
+interface ListSchema<K extends ListKey> {
+    // Singular name used in messages, e.g. "Experience 2"
+    entryLabel: string;
+    fields: { [F in keyof Entry<K>]?: FieldRules };
+    // Parts of an entry that make it the same as another one
+    identity: (entry: Entry<K>) => string[];
+    hasDateRange?: boolean;
+    hasBullets?: boolean;
+}
+
+const PERSONAL_INFO_FIELDS: { path: string; rules: FieldRules; read: (data: ResumeData) => string }[] = [
+    { path: 'personal_info.name', rules: { label: 'Full name', required: true }, read: data => data.personal_info.name },
+    { path: 'personal_info.contact_info.email', rules: { label: 'Email address', required: true, format: 'email' }, read: data => data.personal_info.contact_info.email },
+    { path: 'personal_info.contact_info.mobile', rules: { label: 'Mobile number', recommended: true, format: 'phone' }, read: data => data.personal_info.contact_info.mobile },
+    { path: 'personal_info.contact_info.social_links.linkedin', rules: { label: 'LinkedIn profile', format: 'url' }, read: data => data.personal_info.contact_info.social_links.linkedin },
+    { path: 'personal_info.contact_info.social_links.github', rules: { label: 'GitHub profile', format: 'url' }, read: data => data.personal_info.contact_info.social_links.github },
+    { path: 'personal_info.contact_info.social_links.portfolio', rules: { label: 'Portfolio website', format: 'url' }, read: data => data.personal_info.contact_info.social_links.portfolio },
+];
+
+const RESUME_SCHEMA: { [K in ListKey]: ListSchema<K> } = {
+    educations: {
+        entryLabel: 'Education',
+        fields: {
+            institute_name: { label: 'Institute name', required: true },
+            degree: { label: 'Degree', required: true },
+        },
+        identity: edu => [edu.institute_name, edu.degree],
+        hasDateRange: true,
+    },
+    work_experiences: {
+        entryLabel: 'Experience',
+        fields: {
+            company_name: { label: 'Company name', required: true },
+            job_title: { label: 'Job title', required: true },
+        },
+        identity: exp => [exp.company_name, exp.job_title, exp.date.start],
+        hasDateRange: true,
+        hasBullets: true,
+    },
+    projects: {
+        entryLabel: 'Project',
+        fields: {
+            title: { label: 'Project title', required: true },
+            technologies_used: { label: 'Technologies used', recommended: true },
+            project_link: { label: 'Project link', format: 'url' },
+        },
+        identity: project => [project.title],
+        hasDateRange: true,
+        hasBullets: true,
+    },
+    skills: {
+        entryLabel: 'Skill group',
+        fields: {
+            skill_group: { label: 'Skill group name', required: true },
+        },
+        identity: group => [group.skill_group],
+    },
+    extracurriculars: {
+        entryLabel: 'Activity',
+        fields: {
+            title: { label: 'Activity title', required: true },
+            organization_name: { label: 'Organization name', required: true },
+            role: { label: 'Role', recommended: true },
+        },
+        identity: activity => [activity.title, activity.organization_name],
+        hasDateRange: true,
+        hasBullets: true,
+    },
+    certifications: {
+        entryLabel: 'Certification',
+        fields: {
+            certification_name: { label: 'Certificate name', required: true },
+            issuing_organisation: { label: 'Issuing organization', required: true },
+        },
+        identity: cert => [cert.certification_name, cert.issuing_organisation],
+    },
+    achievements: {
+        entryLabel: 'Achievement',
+        fields: {
+            title: { label: 'Title', required: true },
+        },
+        identity: achievement => [achievement.title],
+    },
+    languages: {
+        entryLabel: 'Language',
+        fields: {
+            language: { label: 'Language', required: true },
+        },
+        identity: lang => [lang.language],
+    },
+    publications: {
+        entryLabel: 'Publication',
+        fields: {
+            title: { label: 'Title', required: true },
+        },
+        identity: pub => [pub.title],
+    },
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+// Digits with an optional leading +, after dropping spaces, dashes, dots and brackets
+const PHONE_PATTERN = /^\+?\d{7,15}$/;
+
+const isValidUrl = (value: string): boolean => {
+    const href = toHref(value);
+    if (!href || /\s/.test(value)) return false;
+    try {
+        const url = new URL(href);
+        return /^https?:$/.test(url.protocol) && url.hostname.includes('.');
+    } catch {
+        return false;
+    }
+};
+
+const FORMAT_CHECKS: Record<FieldFormat, { isValid: (value: string) => boolean; example: string }> = {
+    email: { isValid: value => EMAIL_PATTERN.test(value), example: 'name@example.com' },
+    phone: { isValid: value => PHONE_PATTERN.test(value.replace(/[\s\-.()]/g, '')), example: '+1 555 123 4567' },
+    url: { isValid: isValidUrl, example: 'https://example.com' },
+};
+
+const isBlank = (value: unknown): boolean => {
+    if (Array.isArray(value)) return value.every(item => isBlank(item));
+    return typeof value !== 'string' || value.trim() === '';
+};
+
+/**
+ * Checks one field value against its rules, returning the issue or null
+ */
+const checkField = (value: unknown, rules: FieldRules): { severity: ValidationSeverity; message: string } | null => {
+    if (isBlank(value)) {
+        if (rules.required) return { severity: 'error', message: `${rules.label} is required` };
+        if (rules.recommended) return { severity: 'warning', message: `${rules.label} is missing` };
+        return null;
+    }
+    if (rules.format && typeof value === 'string' && !FORMAT_CHECKS[rules.format].isValid(value.trim())) {
+        return { severity: 'error', message: `${rules.label} should look like ${FORMAT_CHECKS[rules.format].example}` };
+    }
+    return null;
+};
+
+const normalize = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Validates every entry of one list section against its schema
+ */
+const validateList = <K extends ListKey>(key: K, entries: Entry<K>[], schema: ListSchema<K>): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    const seen = new Map<string, number>();
+
+    entries.forEach((entry, index) => {
+        const entryPath = `${key}.${index}`;
+        const label = `${schema.entryLabel} ${index + 1}`;
+        const add = (path: string, severity: ValidationSeverity, message: string) => {
+            issues.push({ path, section: key, label, severity, message });
+        };
+
+        (Object.keys(schema.fields) as (keyof Entry<K>)[]).forEach(field => {
+            const issue = checkField(entry[field], schema.fields[field]!);
+            if (issue) add(`${entryPath}.${String(field)}`, issue.severity, issue.message);
+        });
+
+        if (schema.hasDateRange) {
+            const message = getDateRangeError((entry as { date: DateRange }).date);
+            if (message) add(`${entryPath}.date`, 'error', message);
+        }
+
+        if (schema.hasBullets) {
+            const bulletsSeen = new Set<string>();
+            (entry as { bullet_points: string[] }).bullet_points.forEach((bullet, bulletIndex) => {
+                const bulletPath = `${entryPath}.bullet_points.${bulletIndex}`;
+                const length = bullet.trim().length;
+                if (length > BULLET_HARD_LIMIT) {
+                    add(bulletPath, 'error', `Bullet ${bulletIndex + 1} is ${length} characters; the limit is ${BULLET_HARD_LIMIT}`);
+                } else if (length > BULLET_SOFT_LIMIT) {
+                    add(bulletPath, 'warning', `Bullet ${bulletIndex + 1} is ${length} characters; aim for under ${BULLET_SOFT_LIMIT}`);
+                }
+
+                const text = normalize(bullet);
+                if (text && bulletsSeen.has(text)) {
+                    add(bulletPath, 'warning', `Bullet ${bulletIndex + 1} repeats an earlier bullet`);
+                }
+                bulletsSeen.add(text);
+            });
+        }
+
+        // Entries whose identifying fields are all blank are never treated as duplicates
+        const identity = schema.identity(entry).map(normalize);
+        if (identity.some(Boolean)) {
+            const id = identity.join('|');
+            const firstIndex = seen.get(id);
+            if (firstIndex !== undefined) {
+                add(entryPath, 'warning', `Duplicates ${schema.entryLabel} ${firstIndex + 1}`);
+            } else {
+                seen.set(id, index);
+            }
+        }
+    });
+
+    return issues;
+};
+
+/**
+ * Validates a whole resume; issues are ordered by section, then by field
+ */
+export const validateResume = (data: ResumeData): ResumeValidation => {
+    const issues: ValidationIssue[] = [];
+
+    PERSONAL_INFO_FIELDS.forEach(({ path, rules, read }) => {
+        const issue = checkField(read(data), rules);
+        if (issue) issues.push({ path, section: 'personal_info', label: 'Personal Info', ...issue });
+    });
+
+    (Object.keys(RESUME_SCHEMA) as ListKey[]).forEach(key => {
+        issues.push(...validateList(key, data[key] as Entry<typeof key>[], RESUME_SCHEMA[key] as ListSchema<typeof key>));
+    });
+
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+    return {
+        issues,
+        errorCount,
+        warningCount: issues.length - errorCount,
+        hasErrors: errorCount > 0,
+    };
+};
+
+/**
+ * Most severe issue recorded for exactly this path, if any
+ */
+export const getFieldIssue = (validation: ResumeValidation, path: string): ValidationIssue | undefined => {
+    const matches = validation.issues.filter(issue => issue.path === path);
+    return matches.find(issue => issue.severity === 'error') ?? matches[0];
+};
+
+/**
+ * Most severe issue for each of the given fields of one entry, in field order
+ */
+export const getEntryIssues = (validation: ResumeValidation, entryPath: string, fields: string[]): ValidationIssue[] => {
+    return fields
+        .map(field => getFieldIssue(validation, `${entryPath}.${field}`))
+        .filter((issue): issue is ValidationIssue => issue !== undefined);
+};
@@ -0,0 +1,73 @@
+import { BenchmarkSource, SkillBenchmark } from '@/types/resume';
+import dataset from './skillBenchmarks.json';
+
+/**
+ * Local Skill Benchmarks
+ *
+ * Reads the bundled, versioned dataset of per-skill score distributions.
+ * Skills are matched on a normalized key ("Node.js" and "nodejs" are the
+ * same skill), with a few common aliases; anything else gets the general
+ * distribution and is flagged as unmatched.
+ */
+
+type Band = Omit<SkillBenchmark, 'skill' | 'matched'>;
+
+const skills: Record<string, Band> = dataset.skills;
+const aliases: Record<string, string> = dataset.aliases;
+
+export const LOCAL_BENCHMARK_SOURCE: BenchmarkSource = {
+    name: dataset.name,
+    version: dataset.version,
+    updated_at: dataset.updated_at,
+};
+
+const normalizeSkill = (skill: string): string => {
+    const lower = skill.trim().toLowerCase();
+    // Aliases are checked before stripping so "C++" and "C#" do not both become "c"
+    const alias = aliases[lower] ?? aliases[lower.replace(/[^a-z0-9]/g, '')];
+    return alias ?? lower.replace(/[^a-z0-9]/g, '');
+};
+
+/**
+ * Looks up each skill in the bundled dataset, falling back to the general distribution
+ */
+export const lookupLocalBenchmarks = (skillNames: string[]): SkillBenchmark[] =>
+    skillNames.map(skill => {
+        const band = skills[normalizeSkill(skill)];
+        return { skill, ...(band ?? dataset.default), matched: Boolean(band) };
+    });
+
+/**
+ * Estimates the percentile a score falls at within a skill's distribution
+ * Interpolates linearly between the known bands, pinned at 0 and 100
+ * @returns {number} Whole percentile between 0 and 100
+ */
+export const estimatePercentile = (score: number, band: Band): number => {
+    const points: [number, number][] = [
+        [0, 0],
+        [band.p25, 25],
+        [band.p50, 50],
+        [band.p75, 75],
+        [band.p90, 90],
+        [100, 100],
+    ];
+    const clamped = Math.min(100, Math.max(0, score));
+    for (let i = 1; i < points.length; i++) {
+        const [upperScore, upperPercentile] = points[i];
+        if (clamped > upperScore) continue;
+        const [lowerScore, lowerPercentile] = points[i - 1];
+        if (upperScore === lowerScore) return upperPercentile;
+        return Math.round(lowerPercentile + ((clamped - lowerScore) / (upperScore - lowerScore)) * (upperPercentile - lowerPercentile));
+    }
+    return 100;
+};
+
+/**
+ * Formats a percentile as an ordinal, e.g. 1st, 22nd, 73rd
+ */
+export const formatPercentile = (percentile: number): string => {
+    const lastTwo = percentile % 100;
+    if (lastTwo >= 11 && lastTwo <= 13) return `${percentile}th`;
+    const suffix = ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[percentile % 10] ?? 'th';
+    return `${percentile}${suffix}`;
+};
@@ -0,0 +1,30 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Abort Signal Hook
+ *
+ * Gives a component an AbortSignal that fires when it unmounts, so requests
+ * it started through services/apiClient are cancelled instead of setting
+ * state on a component that is gone. Whichever controller is current at
+ * unmount is aborted, even one made before the mount effect ran, and the next
+ * call after an abort makes a fresh one, which keeps Strict Mode's
+ * mount-unmount-mount cycle working.
+ */
+export const useAbortSignal = (): (() => AbortSignal) => {
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const getSignal = useCallback(() => {
+        if (!controllerRef.current || controllerRef.current.signal.aborted) {
+            controllerRef.current = new AbortController();
+        }
+        return controllerRef.current.signal;
+    }, []);
+
+    useEffect(() => {
+        return () => controllerRef.current?.abort();
+    }, []);
+
+    return getSignal;
+};
@@ -0,0 +1,140 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Autosave Hook
+ *
+ * Debounces saves of a value and tracks whether the latest value has been
+ * persisted. Dirty state is a reference comparison against the last saved
+ * snapshot, so undoing back to the saved value counts as clean again.
+ */
+
+export type AutosaveStatus = 'saved' | 'saving' | 'unsaved' | 'error' | 'conflict';
+
+/**
+ * Thrown by a save function when the server copy changed since it was loaded
+ * Autosave pauses until the conflict is resolved through markSaved or saveNow
+ */
+export class SaveConflictError extends Error {
+    constructor(message = 'The saved copy changed since it was loaded') {
+        super(message);
+        this.name = 'SaveConflictError';
+    }
+}
+
+interface AutosaveOptions {
+    delay?: number;
+    enabled?: boolean;
+}
+
+export interface AutosaveControls<T> {
+    status: AutosaveStatus;
+    isDirty: boolean;
+    lastSavedAt: Date | null;
+    saveNow: (valueOverride?: T) => Promise<void>;
+    markSaved: (savedValue: T) => void;
+}
+
+/**
+ * @param onSave - Persists a value; may resolve with the value as stored (e.g. with a
+ * server-assigned id) when the caller replaced the state with it
+ */
+export const useAutosave = <T>(
+    value: T,
+    onSave: (value: T) => Promise<T | void>,
+    { delay = 2000, enabled = true }: AutosaveOptions = {}
+): AutosaveControls<T> => {
+    const savedRef = useRef<T>(value);
+    const valueRef = useRef<T>(value);
+    const failedRef = useRef<T | null>(null);
+    const onSaveRef = useRef(onSave);
+    const inFlightRef = useRef<Promise<unknown>>(Promise.resolve());
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    const [status, setStatus] = useState<AutosaveStatus>('saved');
+    const statusRef = useRef<AutosaveStatus>('saved');
+    const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+
+    valueRef.current = value;
+    onSaveRef.current = onSave;
+
+    const isDirty = !Object.is(value, savedRef.current);
+
+    const updateStatus = useCallback((next: AutosaveStatus) => {
+        statusRef.current = next;
+        setStatus(next);
+    }, []);
+
+    const cancelTimer = () => {
+        if (timerRef.current) {
+            clearTimeout(timerRef.current);
+            timerRef.current = null;
+        }
+    };
+
+    const saveNow = useCallback(async (valueOverride?: T) => {
+        cancelTimer();
+        const toSave = valueOverride ?? valueRef.current;
+
+        // Saves run one at a time so an older snapshot never lands after a newer one
+        const run = inFlightRef.current.catch(() => undefined).then(async () => {
+            updateStatus('saving');
+            try {
+                const stored = (await onSaveRef.current(toSave)) ?? toSave;
+                savedRef.current = stored;
+                failedRef.current = null;
+                setLastSavedAt(new Date());
+                // Edits made while the request was in flight still need saving
+                updateStatus(Object.is(valueRef.current, stored) ? 'saved' : 'unsaved');
+            } catch (error) {
+                failedRef.current = toSave;
+                updateStatus(error instanceof SaveConflictError ? 'conflict' : 'error');
+                throw error;
+            }
+        });
+        inFlightRef.current = run;
+        return run;
+    }, [updateStatus]);
+
+    const markSaved = useCallback((savedValue: T) => {
+        cancelTimer();
+        savedRef.current = savedValue;
+        failedRef.current = null;
+        setLastSavedAt(new Date());
+        updateStatus(Object.is(valueRef.current, savedValue) ? 'saved' : 'unsaved');
+    }, [updateStatus]);
+
+    // Schedule a save once the value has been quiet for `delay` ms
+    useEffect(() => {
+        if (Object.is(value, savedRef.current)) {
+            // Reached when the saved value arrives after the save finished (see onSave) or an undo returns to it
+            if (statusRef.current === 'unsaved') updateStatus('saved');
+            return;
+        }
+        // A failed snapshot is not retried until the next edit or a manual save
+        if (statusRef.current === 'conflict' || Object.is(value, failedRef.current)) return;
+
+        if (statusRef.current !== 'saving') updateStatus('unsaved');
+        if (!enabled) return;
+
+        timerRef.current = setTimeout(() => {
+            saveNow().catch(error => console.error('Autosave failed:', error));
+        }, delay);
+        return cancelTimer;
+    }, [value, enabled, delay, saveNow, updateStatus]);
+
+    // Warn before leaving the page while changes are not persisted
+    useEffect(() => {
+        if (!isDirty && status !== 'saving') return;
+
+        const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+            e.preventDefault();
+            e.returnValue = '';
+        };
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [isDirty, status]);
+
+    return { status, isDirty, lastSavedAt, saveNow, markSaved };
+};
@@ -0,0 +1,93 @@
+"use client";
+
+import { useCallback, useState } from 'react';
+import { useToast } from '@/context/ToastContext';
+
+/**
+ * Bullet Rewrite Hook
+ *
+ * Tracks pending AI rewrites of single bullets, keyed by "entry.bullet"
+ * position. Each rewrite remembers the text it was made from and is only
+ * returned while the bullet still holds that text, so editing, moving or
+ * removing a bullet quietly retires a rewrite that no longer applies.
+ */
+
+export interface BulletRewrite {
+    original: string;
+    // Null until the first rewrite for this text arrives
+    rewrite: string | null;
+    isLoading: boolean;
+}
+
+export interface BulletRewriteControls {
+    getRewrite: (entryIndex: number, bulletIndex: number, current: string) => BulletRewrite | undefined;
+    requestRewrite: (entryIndex: number, bulletIndex: number, original: string, improve: (bullet: string) => Promise<string>) => Promise<void>;
+    clearRewrite: (entryIndex: number, bulletIndex: number) => void;
+}
+
+const toKey = (entryIndex: number, bulletIndex: number): string => `${entryIndex}.${bulletIndex}`;
+
+export const useBulletRewrite = (): BulletRewriteControls => {
+    const [rewrites, setRewrites] = useState<Record<string, BulletRewrite>>({});
+    const toast = useToast();
+
+    const getRewrite = useCallback((entryIndex: number, bulletIndex: number, current: string) => {
+        const entry = rewrites[toKey(entryIndex, bulletIndex)];
+        return entry && entry.original === current ? entry : undefined;
+    }, [rewrites]);
+
+    const clearRewrite = useCallback((entryIndex: number, bulletIndex: number) => {
+        const key = toKey(entryIndex, bulletIndex);
+        setRewrites(prev => {
+            const next = { ...prev };
+            delete next[key];
+            return next;
+        });
+    }, []);
+
+    /**
+     * Asks for a rewrite of one bullet; a regenerate keeps showing the previous rewrite until the new one lands
+     */
+    const requestRewrite = useCallback(async (
+        entryIndex: number,
+        bulletIndex: number,
+        original: string,
+        improve: (bullet: string) => Promise<string>
+    ) => {
+        const key = toKey(entryIndex, bulletIndex);
+        setRewrites(prev => ({
+            ...prev,
+            [key]: {
+                original,
+                rewrite: prev[key]?.original === original ? prev[key].rewrite : null,
+                isLoading: true,
+            },
+        }));
+
+        try {
+            const rewrite = await improve(original);
+            setRewrites(prev => prev[key]?.original === original
+                ? { ...prev, [key]: { original, rewrite, isLoading: false } }
+                : prev);
+        } catch (error) {
+            console.error('Failed to improve bullet point:', error);
+            toast.error(error instanceof Error ? error.message : 'Could not rewrite this bullet.', {
+                title: 'AI rewrite failed',
+                action: { label: 'Retry', onClick: () => requestRewrite(entryIndex, bulletIndex, original, improve) },
+            });
+            setRewrites(prev => {
+                const entry = prev[key];
+                if (!entry || entry.original !== original) return prev;
+                const next = { ...prev };
+                if (entry.rewrite === null) {
+                    delete next[key];
+                } else {
+                    next[key] = { ...entry, isLoading: false };
+                }
+                return next;
+            });
+        }
+    }, [toast]);
+
+    return { getRewrite, requestRewrite, clearRewrite };
+};
@@ -0,0 +1,139 @@
+"use client";
+
+import { useLayoutEffect, useState } from 'react';
+
+/**
+ * Page Fit Hook
+ *
+ * Measures rendered resume content against A4 page height and, in fit mode,
+ * steps typography and margins down until the content fits on one page. The
+ * scaling is applied as CSS variables on the sheet: Tailwind's text and
+ * spacing utilities read `--text-*` and `--spacing`, and template page
+ * margins are multiplied by `--resume-margin-scale`. The PDF and DOCX exports
+ * take the same settings and scale their own typography to match.
+ */
+
+// A4 height at the CSS reference 96dpi
+export const A4_HEIGHT_PX = (297 * 96) / 25.4;
+
+export interface PageFitSettings {
+    fontScale: number;
+    lineHeightScale: number;
+    marginScale: number;
+}
+
+// Most the preview may shrink before giving up on one page
+const FIT_LIMITS: PageFitSettings = { fontScale: 0.85, lineHeightScale: 0.85, marginScale: 0.5 };
+const FIT_STEP_COUNT = 10;
+
+// Evenly spaced settings from full size (step 0) down to the limits
+export const FIT_STEPS: PageFitSettings[] = Array.from({ length: FIT_STEP_COUNT + 1 }, (_, step) => {
+    const progress = step / FIT_STEP_COUNT;
+    return {
+        fontScale: 1 - (1 - FIT_LIMITS.fontScale) * progress,
+        lineHeightScale: 1 - (1 - FIT_LIMITS.lineHeightScale) * progress,
+        marginScale: 1 - (1 - FIT_LIMITS.marginScale) * progress,
+    };
+});
+
+/**
+ * How much gaps between entries shrink; half as fast as the page margins
+ */
+export const getGapScale = ({ marginScale }: PageFitSettings): number => 1 - (1 - marginScale) / 2;
+
+// Tailwind default size (rem) and line height of each text utility the templates use
+const TEXT_SCALE: Record<string, [number, number]> = {
+    xs: [0.75, 1 / 0.75],
+    sm: [0.875, 1.25 / 0.875],
+    base: [1, 1.5],
+    lg: [1.125, 1.75 / 1.125],
+    xl: [1.25, 1.75 / 1.25],
+    '2xl': [1.5, 2 / 1.5],
+    '3xl': [1.875, 2.25 / 1.875],
+};
+
+/**
+ * CSS variables that apply a fit step to everything rendered inside the sheet
+ */
+export const getPageFitVariables = (settings: PageFitSettings): Record<string, string> => {
+    const { fontScale, lineHeightScale, marginScale } = settings;
+    const variables: Record<string, string> = {
+        '--resume-margin-scale': `${marginScale}`,
+        '--spacing': `${0.25 * getGapScale(settings)}rem`,
+        '--leading-tight': `${1.25 * lineHeightScale}`,
+        '--leading-snug': `${1.375 * lineHeightScale}`,
+    };
+    Object.entries(TEXT_SCALE).forEach(([size, [rem, lineHeight]]) => {
+        variables[`--text-${size}`] = `${rem * fontScale}rem`;
+        variables[`--text-${size}--line-height`] = `${lineHeight * lineHeightScale}`;
+    });
+    return variables;
+};
+
+const countPages = (height: number): number => Math.max(1, Math.ceil((height - 0.5) / A4_HEIGHT_PX));
+
+const applyVariables = (element: HTMLElement, settings: PageFitSettings) => {
+    Object.entries(getPageFitVariables(settings)).forEach(([name, value]) => element.style.setProperty(name, value));
+};
+
+export interface PageFitState {
+    pageCount: number;
+    fitStep: number;
+    // True when fit mode is on but the limits were reached before the content fit
+    isFitExhausted: boolean;
+    variables: Record<string, string>;
+}
+
+/**
+ * @param sheetRef element the CSS variables are set on
+ * @param contentRef element whose natural height is measured
+ * @param isFitEnabled whether to shrink the content onto one page
+ * @param contentKey changes whenever the rendered content may have changed size
+ */
+export const usePageFit = (
+    sheetRef: React.RefObject<HTMLElement | null>,
+    contentRef: React.RefObject<HTMLElement | null>,
+    isFitEnabled: boolean,
+    contentKey: unknown
+): PageFitState => {
+    const [pageCount, setPageCount] = useState(1);
+    const [fitStep, setFitStep] = useState(0);
+
+    // Runs before paint, trying each step in turn with a synchronous re-measure
+    useLayoutEffect(() => {
+        const sheet = sheetRef.current;
+        const content = contentRef.current;
+        if (!sheet || !content) return;
+
+        let step = 0;
+        if (isFitEnabled) {
+            applyVariables(sheet, FIT_STEPS[step]);
+            while (countPages(content.offsetHeight) > 1 && step < FIT_STEPS.length - 1) {
+                step += 1;
+                applyVariables(sheet, FIT_STEPS[step]);
+            }
+        } else {
+            applyVariables(sheet, FIT_STEPS[0]);
+        }
+
+        setFitStep(step);
+        setPageCount(countPages(content.offsetHeight));
+    }, [sheetRef, contentRef, isFitEnabled, contentKey]);
+
+    // Late layout changes such as web fonts loading still update the page count
+    useLayoutEffect(() => {
+        const content = contentRef.current;
+        if (!content || typeof ResizeObserver === 'undefined') return;
+
+        const observer = new ResizeObserver(() => setPageCount(countPages(content.offsetHeight)));
+        observer.observe(content);
+        return () => observer.disconnect();
+    }, [contentRef]);
+
+    return {
+        pageCount,
+        fitStep,
+        isFitExhausted: isFitEnabled && fitStep === FIT_STEPS.length - 1 && pageCount > 1,
+        variables: getPageFitVariables(FIT_STEPS[fitStep]),
+    };
+};
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from 'react';
+
+/**
+ * Reorderable List Hook
+ *
+ * Native HTML drag-and-drop plus keyboard moves for lists edited in the
+ * builder. Items are dragged by a handle and dropped onto another item's
+ * position; arrow keys on the focused handle move an item one step.
+ */
+
+/**
+ * Returns a copy of the list with the item at `from` moved to `to`
+ */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+    if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+    const next = [...items];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    return next;
+};
+
+/**
+ * Re-keys per-index state (AI suggestions, validation errors) to follow a move
+ */
+export const reindexRecord = <R extends object>(record: R, from: number, to: number): R => {
+    const next: Record<number, unknown> = {};
+    Object.entries(record).forEach(([key, value]) => {
+        const index = Number(key);
+        let target = index;
+        if (index === from) {
+            target = to;
+        } else if (from < to && index > from && index <= to) {
+            target = index - 1;
+        } else if (from > to && index >= to && index < from) {
+            target = index + 1;
+        }
+        next[target] = value;
+    });
+    return next as R;
+};
+
+/**
+ * Re-keys per-index state to follow a full reorder, where `order[newIndex]` is the old index
+ */
+export const permuteRecord = <R extends object>(record: R, order: number[]): R => {
+    const next: Record<number, unknown> = {};
+    const source = record as Record<number, unknown>;
+    order.forEach((oldIndex, newIndex) => {
+        if (oldIndex in source) next[newIndex] = source[oldIndex];
+    });
+    return next as R;
+};
+
+export interface ReorderHandleProps {
+    'data-reorder-handle': true;
+    draggable: true;
+    tabIndex: number;
+    role: 'button';
+    'aria-label': string;
+    'aria-keyshortcuts': string;
+    onDragStart: (e: React.DragEvent<HTMLElement>) => void;
+    onDragEnd: () => void;
+    onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => void;
+}
+
+export interface ReorderItemProps {
+    'data-reorder-item': true;
+    onDragOver: (e: React.DragEvent<HTMLElement>) => void;
+    onDrop: (e: React.DragEvent<HTMLElement>) => void;
+}
+
+export const useReorderableList = (
+    length: number,
+    onMove: (from: number, to: number) => void,
+    itemLabel = 'item'
+) => {
+    const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+    const move = (from: number, to: number) => {
+        if (from === to || to < 0 || to >= length) return;
+        onMove(from, to);
+    };
+
+    const resetDrag = () => {
+        setDraggedIndex(null);
+        setDropIndex(null);
+    };
+
+    const getHandleProps = (index: number): ReorderHandleProps => ({
+        'data-reorder-handle': true,
+        draggable: true,
+        tabIndex: 0,
+        role: 'button',
+        'aria-label': `Reorder ${itemLabel} ${index + 1}. Drag, or use the up and down arrow keys`,
+        'aria-keyshortcuts': 'ArrowUp ArrowDown',
+        onDragStart: (e) => {
+            setDraggedIndex(index);
+            e.dataTransfer.effectAllowed = 'move';
+            e.dataTransfer.setData('text/plain', String(index));
+            // Drag the whole entry card rather than just the handle icon
+            const item = e.currentTarget.closest('[data-reorder-item]');
+            if (item instanceof HTMLElement) {
+                e.dataTransfer.setDragImage(item, 16, 16);
+            }
+        },
+        onDragEnd: resetDrag,
+        onKeyDown: (e) => {
+            if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+            e.preventDefault();
+
+            const to = e.key === 'ArrowUp' ? index - 1 : index + 1;
+            if (to < 0 || to >= length) return;
+            move(index, to);
+
+            // Keep focus on the moved item's handle once the list has re-rendered
+            const list = e.currentTarget.closest('[data-reorder-item]')?.parentElement;
+            requestAnimationFrame(() => {
+                list?.querySelectorAll<HTMLElement>(':scope > [data-reorder-item] [data-reorder-handle]')[to]?.focus();
+            });
+        },
+    });
+
+    const getItemProps = (index: number): ReorderItemProps => ({
+        'data-reorder-item': true,
+        onDragOver: (e) => {
+            if (draggedIndex === null) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            if (dropIndex !== index) setDropIndex(index);
+        },
+        onDrop: (e) => {
+            if (draggedIndex === null) return;
+            e.preventDefault();
+            move(draggedIndex, index);
+            resetDrag();
+        },
+    });
+
+    return {
+        draggedIndex,
+        dropIndex,
+        getHandleProps,
+        getItemProps,
+        moveUp: (index: number) => move(index, index - 1),
+        moveDown: (index: number) => move(index, index + 1),
+    };
+};
@@ -0,0 +1,95 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Undoable Delete Hook
+ *
+ * Holds deletes back for an undo window. Scheduled ids are reported as
+ * pending straight away so the caller can hide them, but the delete request
+ * only goes out when the window closes. Undoing inside the window simply
+ * forgets the batch. Batches still waiting when the component unmounts are
+ * sent at once, so leaving the page does not quietly cancel a delete. Closing
+ * or reloading the tab never unmounts, so they are also sent on pagehide, with
+ * keepalive requests that outlive the page.
+ */
+
+export const DEFAULT_UNDO_WINDOW_MS = 6000;
+
+// keepalive is true when the page is going away and requests must outlive it
+type CommitDelete = (keepalive: boolean) => Promise<void>;
+
+interface PendingBatch {
+    ids: string[];
+    timer: ReturnType<typeof setTimeout>;
+    run: CommitDelete;
+}
+
+export interface UndoableDeleteControls {
+    // Ids hidden locally while their delete is held back or in flight
+    pendingIds: ReadonlySet<string>;
+    // Returns a batch id for undo; commit sends the real delete requests
+    scheduleDelete: (ids: string[], commit: CommitDelete) => string;
+    // False when the window already closed and the delete was sent
+    undo: (batchId: string) => boolean;
+}
+
+let batchCount = 0;
+
+export const useUndoableDelete = (undoWindowMs: number = DEFAULT_UNDO_WINDOW_MS): UndoableDeleteControls => {
+    const [pendingIds, setPendingIds] = useState<ReadonlySet<string>>(new Set());
+    const batchesRef = useRef(new Map<string, PendingBatch>());
+
+    const release = useCallback((ids: string[]) => {
+        setPendingIds(prev => {
+            const next = new Set(prev);
+            ids.forEach(id => next.delete(id));
+            return next;
+        });
+    }, []);
+
+    const scheduleDelete = useCallback((ids: string[], commit: CommitDelete) => {
+        const batchId = `delete-${++batchCount}`;
+        setPendingIds(prev => new Set([...prev, ...ids]));
+
+        // The caller removes committed items from its lists; whatever is left reappears
+        const run = async (keepalive: boolean) => {
+            batchesRef.current.delete(batchId);
+            try {
+                await commit(keepalive);
+            } finally {
+                release(ids);
+            }
+        };
+        batchesRef.current.set(batchId, { ids, run, timer: setTimeout(() => run(false), undoWindowMs) });
+        return batchId;
+    }, [release, undoWindowMs]);
+
+    const undo = useCallback((batchId: string) => {
+        const batch = batchesRef.current.get(batchId);
+        if (!batch) return false;
+        clearTimeout(batch.timer);
+        batchesRef.current.delete(batchId);
+        release(batch.ids);
+        return true;
+    }, [release]);
+
+    useEffect(() => {
+        const batches = batchesRef.current;
+        const flush = (keepalive: boolean) => {
+            batches.forEach(batch => {
+                clearTimeout(batch.timer);
+                batch.run(keepalive);
+            });
+        };
+        const handlePageHide = () => flush(true);
+
+        window.addEventListener('pagehide', handlePageHide);
+        return () => {
+            window.removeEventListener('pagehide', handlePageHide);
+            flush(false);
+        };
+    }, []);
+
+    return { pendingIds, scheduleDelete, undo };
+};
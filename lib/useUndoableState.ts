@@ -0,0 +1,151 @@
+"use client";
+
+import { useCallback, useRef, useState } from 'react';
+
+/**
+ * Undoable State Hook
+ *
+ * Drop-in replacement for useState that keeps past/future snapshots so edits
+ * can be undone and redone. Consecutive changes to the same leaf value (e.g.
+ * keystrokes in one input) that land within `groupWindowMs` of each other are
+ * merged into a single history step.
+ */
+
+interface UndoableOptions {
+    limit?: number;
+    groupWindowMs?: number;
+}
+
+export interface UndoableControls<T = unknown> {
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    clearHistory: () => void;
+    // Replaces the state without an undo step and clears history, e.g. when restoring a saved copy
+    reset: (next: T) => void;
+    // Applies a change to the state and every undo/redo snapshot without adding a step,
+    // e.g. an id assigned by the server that undo must not take away again
+    rewrite: (update: (snapshot: T) => T) => void;
+}
+
+/**
+ * Finds the path of the single leaf that differs between two values
+ * Returns null when nothing changed, more than one leaf changed, or the shape changed
+ * (array length, added keys), so structural edits always get their own history step
+ */
+export const getChangedPath = (prev: unknown, next: unknown, path = ''): string | null => {
+    if (Object.is(prev, next)) return null;
+
+    if (typeof prev !== 'object' || typeof next !== 'object' || prev === null || next === null) {
+        return path;
+    }
+
+    if (Array.isArray(prev) !== Array.isArray(next)) return null;
+    if (Array.isArray(prev) && prev.length !== (next as unknown[]).length) return null;
+
+    const prevRecord = prev as Record<string, unknown>;
+    const nextRecord = next as Record<string, unknown>;
+    const keys = new Set([...Object.keys(prevRecord), ...Object.keys(nextRecord)]);
+
+    let changed: string | null = null;
+    for (const key of keys) {
+        if (!(key in prevRecord) || !(key in nextRecord)) return null;
+        if (Object.is(prevRecord[key], nextRecord[key])) continue;
+
+        const childPath = getChangedPath(prevRecord[key], nextRecord[key], `${path}/${key}`);
+        if (childPath === null || changed !== null) return null;
+        changed = childPath;
+    }
+    return changed;
+};
+
+export const useUndoableState = <T>(
+    initialState: T,
+    { limit = 100, groupWindowMs = 1000 }: UndoableOptions = {}
+): [T, React.Dispatch<React.SetStateAction<T>>, UndoableControls<T>] => {
+    const [state, setState] = useState<T>(initialState);
+
+    // Refs mirror the latest values so back-to-back updates in one tick see each other
+    const currentRef = useRef<T>(initialState);
+    const pastRef = useRef<T[]>([]);
+    const futureRef = useRef<T[]>([]);
+    const lastChangeRef = useRef<{ path: string | null; at: number }>({ path: null, at: 0 });
+
+    // Bumped whenever the stacks change so canUndo/canRedo re-render
+    const [, setHistoryVersion] = useState(0);
+
+    const commit = useCallback((next: T) => {
+        currentRef.current = next;
+        setState(next);
+        setHistoryVersion(version => version + 1);
+    }, []);
+
+    const setUndoableState = useCallback<React.Dispatch<React.SetStateAction<T>>>((action) => {
+        const prev = currentRef.current;
+        const next = typeof action === 'function' ? (action as (prevState: T) => T)(prev) : action;
+        if (Object.is(prev, next)) return;
+
+        const now = Date.now();
+        const path = getChangedPath(prev, next);
+        const lastChange = lastChangeRef.current;
+        const isSameBurst = path !== null && path === lastChange.path && now - lastChange.at < groupWindowMs;
+
+        if (!isSameBurst) {
+            pastRef.current = [...pastRef.current, prev].slice(-limit);
+        }
+        futureRef.current = [];
+        lastChangeRef.current = { path, at: now };
+        commit(next);
+    }, [commit, groupWindowMs, limit]);
+
+    const undo = useCallback(() => {
+        const previous = pastRef.current[pastRef.current.length - 1];
+        if (previous === undefined) return;
+
+        pastRef.current = pastRef.current.slice(0, -1);
+        futureRef.current = [currentRef.current, ...futureRef.current];
+        lastChangeRef.current = { path: null, at: 0 };
+        commit(previous);
+    }, [commit]);
+
+    const redo = useCallback(() => {
+        const [following, ...rest] = futureRef.current;
+        if (following === undefined) return;
+
+        futureRef.current = rest;
+        pastRef.current = [...pastRef.current, currentRef.current];
+        lastChangeRef.current = { path: null, at: 0 };
+        commit(following);
+    }, [commit]);
+
+    const clearHistory = useCallback(() => {
+        pastRef.current = [];
+        futureRef.current = [];
+        lastChangeRef.current = { path: null, at: 0 };
+        setHistoryVersion(version => version + 1);
+    }, []);
+
+    const reset = useCallback((next: T) => {
+        pastRef.current = [];
+        futureRef.current = [];
+        lastChangeRef.current = { path: null, at: 0 };
+        commit(next);
+    }, [commit]);
+
+    const rewrite = useCallback((update: (snapshot: T) => T) => {
+        pastRef.current = pastRef.current.map(update);
+        futureRef.current = futureRef.current.map(update);
+        commit(update(currentRef.current));
+    }, [commit]);
+
+    return [state, setUndoableState, {
+        undo,
+        redo,
+        canUndo: pastRef.current.length > 0,
+        canRedo: futureRef.current.length > 0,
+        clearHistory,
+        reset,
+        rewrite,
+    }];
+};
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { Resume, ResumeData } from "@/types/resume"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -16,4 +17,66 @@ export const formatDate = (dateString: string): string => {
 
 export const sortByDate = <T extends { created_at: string }>(items: T[]): T[] => {
   return [...items].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-};
\ No newline at end of file
+};
+
+/**
+ * Maps a stored resume document to the shape the resume builder edits
+ */
+export const resumeToResumeData = (resume: Resume): ResumeData => ({
+  _id: resume._id,
+  resume_name: resume.resume_name,
+  is_primary: resume.is_primary,
+  template_id: resume.template_id,
+  section_order: resume.section_order,
+  hidden_sections: resume.hidden_sections,
+  updated_at: resume.updated_at,
+  personal_info: resume.personal_info,
+  educations: resume.educations,
+  work_experiences: resume.work_experiences,
+  projects: resume.projects,
+  skills: resume.skills,
+  achievements: resume.achievements,
+  certifications: resume.certifications,
+  languages: resume.languages,
+  publications: resume.publications,
+  extracurriculars: resume.extracurriculars,
+  ats_score: resume.ats_score,
+});
+
+/**
+ * Builds a download file name from the resume name, e.g. "Jane_Doe_Resume.pdf"
+ */
+export const getExportFileName = (data: Pick<ResumeData, 'resume_name' | 'personal_info'>, extension: string): string => {
+  const base = (data.resume_name || data.personal_info.name || 'resume')
+    .trim()
+    .replace(/[^\w\- ]+/g, '')
+    .replace(/\s+/g, '_');
+  return `${base || 'resume'}.${extension}`;
+};
+
+const SAFE_LINK_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:'];
+
+/**
+ * Turns a stored link such as "github.com/jane" into an absolute URL for exported documents
+ * @returns {string | undefined} The URL, or undefined for any other scheme (e.g. javascript:), which is shown as plain text
+ */
+export const toHref = (value: string): string | undefined => {
+  const scheme = value.trim().match(/^[a-z][a-z0-9+.-]*:/i)?.[0];
+  if (!scheme) return `https://${value.trim()}`;
+  return SAFE_LINK_SCHEMES.includes(scheme.toLowerCase()) ? value.trim() : undefined;
+};
+
+/**
+ * Saves a generated file through a temporary object URL
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers read the URL after click() returns, so it is revoked later rather than right away
+  setTimeout(() => URL.revokeObjectURL(url), 40_000);
+};
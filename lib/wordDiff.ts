@@ -0,0 +1,62 @@
+/**
+ * Word Diff
+ *
+ * Word-level diff used to show an AI rewrite against the text it replaces.
+ * Words are compared exactly, punctuation included, using the longest
+ * common subsequence so unchanged words stay in place between edits.
+ */
+
+export type WordDiffType = 'equal' | 'added' | 'removed';
+
+export interface WordDiffPart {
+    type: WordDiffType;
+    text: string;
+}
+
+const toWords = (text: string): string[] => text.trim().split(/\s+/).filter(Boolean);
+
+/**
+ * Diffs two strings word by word; consecutive words of the same type are joined into one part
+ */
+export const diffWords = (before: string, after: string): WordDiffPart[] => {
+    const a = toWords(before);
+    const b = toWords(after);
+
+    // lengths[i][j] = longest common subsequence of a[i..] and b[j..]
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const parts: WordDiffPart[] = [];
+    const push = (type: WordDiffType, word: string) => {
+        const last = parts[parts.length - 1];
+        if (last && last.type === type) {
+            last.text += ` ${word}`;
+        } else {
+            parts.push({ type, text: word });
+        }
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            push('equal', a[i]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+
+    return parts;
+};
@@ -1,17 +1,83 @@
-import { Project, WorkExperience, Extracurricular } from '@/types/resume';
-import axios from 'axios';
+import { ResumeData, Project, WorkExperience, Extracurricular, AISuggestionOptions, AISuggestionTone, AIBulletContext } from '@/types/resume';
+import { apiClient, ApiError } from './apiClient';
 
 /**
  * Resume API Service Module
  * 
  * This module provides API functions for generating AI-powered suggestions
  * for different sections of a resume including projects, work experience,
- * and extracurricular activities.
+ * extracurricular activities and the professional summary.
  * 
  * All functions interact with the backend API to generate contextual
- * bullet points and suggestions based on user input data.
+ * bullet points, single-bullet rewrites and summaries based on user input data.
  */
 
+/**
+ * Settings used until the user picks a tone and counts in the AI dialog
+ */
+export const DEFAULT_AI_SUGGESTION_OPTIONS: AISuggestionOptions = {
+  tone: 'concise',
+  bulletCount: 3,
+  variantCount: 3,
+};
+
+/**
+ * Requests several alternative bullet sets from one generation endpoint
+ *
+ * The backend returns a single set per call, so each variant is its own call
+ * made in parallel. Failed calls and sets identical to an earlier one are
+ * dropped, so fewer variants than requested may come back; only when every
+ * call fails is the error thrown.
+ *
+ * @param {string} endpoint - Path under /api/v1/resume, e.g. "project"
+ * @param {Record<string, string | null>} payload - Entry fields the endpoint expects
+ * @param {AISuggestionOptions} options - Tone, bullets per set and number of sets
+ * @returns {Promise<string[][]>} Promise that resolves to the distinct sets that were generated
+ * @throws {ApiError} When every request failed
+ */
+const requestBulletVariants = async (
+  endpoint: string,
+  payload: Record<string, string | null>,
+  options: AISuggestionOptions
+): Promise<string[][]> => {
+  const requests = Array.from({ length: options.variantCount }, (_, variant) =>
+    apiClient.post<{ bullet_points?: string[] }>(`/api/v1/resume/${endpoint}`, {
+      ...payload,
+      num_points: options.bulletCount, // Number of bullet points to write
+      tone: options.tone, // concise | quantified | leadership
+      variant, // Lets the backend vary its sampling between sets
+    }, { encoding: 'form' })
+  );
+
+  const results = await Promise.allSettled(requests);
+
+  // Nothing to show, so surface the first failure for the caller's error toast and retry
+  const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failure && results.every(result => result.status === 'rejected')) {
+    throw failure.reason instanceof ApiError
+      ? failure.reason
+      : new ApiError('server', 'Could not generate suggestions. Please try again.');
+  }
+
+  const seen = new Set<string>();
+  const variants: string[][] = [];
+
+  results.forEach(result => {
+    if (result.status === 'rejected') {
+      console.error(`❌ Error generating ${endpoint} suggestions:`, result.reason);
+      return;
+    }
+    const bullets = result.value.bullet_points ?? [];
+    const key = bullets.join('\n');
+    if (bullets.length > 0 && !seen.has(key)) {
+      seen.add(key);
+      variants.push(bullets);
+    }
+  });
+
+  return variants;
+};
+
 /**
  * Generates AI-powered bullet point suggestions for project descriptions
  * 
@@ -24,7 +90,10 @@ import axios from 'axios';
  * @param {string[]} projectData.technologies_used - Array of technologies used in the project
  * @param {string[]} projectData.bullet_points - Existing bullet points (optional)
  * 
- * @returns {Promise<string[]>} Promise that resolves to an array of suggested bullet points
+ * @param {AISuggestionOptions} options - Tone, bullets per set and number of alternative sets
+ * 
+ * @returns {Promise<string[][]>} Promise that resolves to alternative sets of suggested bullet points
+ * @throws {ApiError} When no set could be generated
  * 
  * @example
  * const suggestions = await generateProjectSuggestions({
@@ -33,32 +102,15 @@ import axios from 'axios';
  *   bullet_points: ["Built responsive UI"]
  * });
  */
-export const generateProjectSuggestions = async (projectData: Project): Promise<string[]> => {
-  const suggestions: string[] = [];
-
-  try {
-    // Make API call to generate project bullet points
-    const res = await axios.post(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/project`, {
-      project_name: projectData.title,
-      tech_stack: projectData.technologies_used.join(", "), // Convert array to comma-separated string
-      bullet_points: projectData.bullet_points?.join('@ ') ?? null, // Join existing points with delimiter
-      num_points: projectData.bullet_points.length || 0, // Count of existing bullet points
-    }, {
-      withCredentials: true, // Include cookies for authentication
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-    });
-
-    // Extract bullet points from API response and add to suggestions array
-    suggestions.push(...res.data.bullet_points);
-    return suggestions;
-
-  } catch (error: any) {
-    // Log detailed error information for debugging
-    console.error("❌ Error generating project suggestions:", error.response?.data || error.message);
-    return []; // Return empty array on error to prevent UI crashes
-  }
+export const generateProjectSuggestions = async (
+  projectData: Project,
+  options: AISuggestionOptions = DEFAULT_AI_SUGGESTION_OPTIONS
+): Promise<string[][]> => {
+  return requestBulletVariants('project', {
+    project_name: projectData.title,
+    tech_stack: projectData.technologies_used.join(", "), // Convert array to comma-separated string
+    bullet_points: projectData.bullet_points?.join('@ ') ?? null, // Join existing points with delimiter
+  }, options);
 };
 
 /**
@@ -74,7 +126,10 @@ export const generateProjectSuggestions = async (projectData: Project): Promise<
  * @param {string} experienceData.location - Work location
  * @param {string[]} experienceData.bullet_points - Existing bullet points (optional)
  * 
- * @returns {Promise<string[]>} Promise that resolves to an array of suggested bullet points
+ * @param {AISuggestionOptions} options - Tone, bullets per set and number of alternative sets
+ * 
+ * @returns {Promise<string[][]>} Promise that resolves to alternative sets of suggested bullet points
+ * @throws {ApiError} When no set could be generated
  * 
  * @example
  * const suggestions = await generateExperienceResponsibilities({
@@ -84,34 +139,16 @@ export const generateProjectSuggestions = async (projectData: Project): Promise<
  *   bullet_points: ["Developed web applications"]
  * });
  */
-export const generateExperienceResponsibilities = async (experienceData: WorkExperience): Promise<string[]> => {
-
-  const suggestions: string[] = [];
-
-  try {
-    // Make API call to generate work experience bullet points
-    const res = await axios.post(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/experience`, {
-      organisation_name: experienceData.company_name,
-      position: experienceData.job_title,
-      location: experienceData.location,
-      bullet_points: experienceData.bullet_points?.join('@ ') ?? null, // Join existing points with delimiter
-      num_points: experienceData.bullet_points.length || 0, // Count of existing bullet points
-    }, {
-      withCredentials: true, // Include cookies for authentication
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-    });
-
-    // Extract bullet points from API response and add to suggestions array
-    suggestions.push(...res.data.bullet_points);
-    return suggestions;
-
-  } catch (error) {
-    // Log error for debugging (should be more specific error message)
-    console.error("Error generating project suggestions:", error);
-    return []; // Return empty array on error to prevent UI crashes
-  }
+export const generateExperienceResponsibilities = async (
+  experienceData: WorkExperience,
+  options: AISuggestionOptions = DEFAULT_AI_SUGGESTION_OPTIONS
+): Promise<string[][]> => {
+  return requestBulletVariants('experience', {
+    organisation_name: experienceData.company_name,
+    position: experienceData.job_title,
+    location: experienceData.location,
+    bullet_points: experienceData.bullet_points?.join('@ ') ?? null, // Join existing points with delimiter
+  }, options);
 };
 
 /**
@@ -127,7 +164,10 @@ export const generateExperienceResponsibilities = async (experienceData: WorkExp
  * @param {string} activityData.location - Activity location
  * @param {string[]} activityData.bullet_points - Existing bullet points (optional)
  * 
- * @returns {Promise<string[]>} Promise that resolves to an array of suggested bullet points
+ * @param {AISuggestionOptions} options - Tone, bullets per set and number of alternative sets
+ * 
+ * @returns {Promise<string[][]>} Promise that resolves to alternative sets of suggested bullet points
+ * @throws {ApiError} When no set could be generated
  * 
  * @example
  * const suggestions = await generateExtracurricularResponsibilities({
@@ -137,32 +177,98 @@ export const generateExperienceResponsibilities = async (experienceData: WorkExp
  *   bullet_points: ["Organized events"]
  * });
  */
-export const generateExtracurricularResponsibilities = async (activityData: Extracurricular): Promise<string[]> => {
-  
-  const suggestions: string[] = [];
+export const generateExtracurricularResponsibilities = async (
+  activityData: Extracurricular,
+  options: AISuggestionOptions = DEFAULT_AI_SUGGESTION_OPTIONS
+): Promise<string[][]> => {
+  return requestBulletVariants('extracurricular', {
+    organisation_name: activityData.organization_name,
+    position: activityData.role,
+    location: activityData.location,
+    bullet_points: activityData.bullet_points?.join('@ ') ?? null, // Join existing points with delimiter
+  }, options);
+};
 
+/**
+ * Rewrites a single bullet point to read stronger while keeping its meaning
+ * 
+ * Sends one existing bullet with a short description of the entry it belongs
+ * to, so the rewrite stays accurate to the role or project.
+ * 
+ * @param {string} bulletPoint - The bullet point text to improve
+ * @param {AIBulletContext} context - Section and heading of the entry the bullet belongs to
+ * @param {AISuggestionTone} tone - Tone to write the rewrite in
+ * 
+ * @returns {Promise<string>} Promise that resolves to the rewritten bullet point
+ * 
+ * @example
+ * const rewrite = await improveBulletPoint("Worked on the checkout page", {
+ *   section: "experience",
+ *   heading: "Software Engineer at Tech Corp"
+ * });
+ */
+export const improveBulletPoint = async (
+  bulletPoint: string,
+  context: AIBulletContext,
+  tone: AISuggestionTone = DEFAULT_AI_SUGGESTION_OPTIONS.tone
+): Promise<string> => {
   try {
-    // Make API call to generate extracurricular activity bullet points
-    const res = await axios.post(`${process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL}/api/v1/resume/extracurricular`, {
-      organisation_name: activityData.organization_name,
-      position: activityData.role,
-      location: activityData.location,
-      bullet_points: activityData.bullet_points?.join('@ ') ?? null, // Join existing points with delimiter
-      num_points: activityData.bullet_points.length || 0, // Count of existing bullet points
-    }, {
-      withCredentials: true, // Include cookies for authentication
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-    });
+    const response = await apiClient.post<{ bullet_point?: string }>('/api/v1/resume/improve-bullet', {
+      bullet_point: bulletPoint,
+      section: context.section, // project | experience | extracurricular
+      context: context.heading, // e.g. "Software Engineer at Tech Corp"
+      tone,
+    }, { encoding: 'form' });
 
-    // Extract bullet points from API response and add to suggestions array
-    suggestions.push(...res.data.bullet_points);
-    return suggestions;
+    const rewrite = (response.bullet_point ?? '').trim();
+    if (!rewrite) {
+      throw new Error('No rewrite returned');
+    }
+    return rewrite;
+  } catch (error) {
+    // Log and rethrow so the form can keep showing the original bullet
+    console.error("❌ Error improving bullet point:", error);
+    throw error;
+  }
+};
+
+/**
+ * Drafts professional summaries from the rest of the resume
+ * 
+ * Sends the resume's experience, education, projects, skills and other
+ * sections (contact details are left out) and asks for a few alternative
+ * summaries, optionally aimed at a target job title.
+ * 
+ * @param {ResumeData} resumeData - The whole resume the summaries should reflect
+ * @param {string} targetJobTitle - Role to aim the summaries at; empty for a general summary
+ * @param {AISuggestionTone} tone - Tone to write the summaries in
+ * @param {number} count - Number of alternative drafts to ask for
+ * 
+ * @returns {Promise<string[]>} Promise that resolves to the distinct drafts that came back
+ * 
+ * @example
+ * const drafts = await generateProfessionalSummaries(resumeData, "Frontend Engineer");
+ */
+export const generateProfessionalSummaries = async (
+  resumeData: ResumeData,
+  targetJobTitle: string = '',
+  tone: AISuggestionTone = DEFAULT_AI_SUGGESTION_OPTIONS.tone,
+  count: number = 3
+): Promise<string[]> => {
+  try {
+    const { educations, work_experiences, projects, skills, extracurriculars, certifications, achievements, publications, languages } = resumeData;
+    const response = await apiClient.post<{ summaries?: string[] }>('/api/v1/resume/summary', {
+      resume_content: JSON.stringify({ educations, work_experiences, projects, skills, extracurriculars, certifications, achievements, publications, languages }),
+      target_job_title: targetJobTitle.trim() || null,
+      num_summaries: count, // Number of alternative drafts
+      tone,
+    }, { encoding: 'form' });
 
+    const summaries = response.summaries ?? [];
+    return Array.from(new Set(summaries.map(summary => summary.trim()).filter(Boolean)));
   } catch (error) {
-    // Log error for debugging (should be more specific error message)
-    console.error("Error generating project suggestions:", error);
-    return []; // Return empty array on error to prevent UI crashes
+    // Log and rethrow so the form can tell the user nothing was generated
+    console.error("❌ Error generating professional summaries:", error);
+    throw error;
   }
-};
\ No newline at end of file
+};
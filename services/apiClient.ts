@@ -0,0 +1,382 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import {
+  Resume,
+  ResumeData,
+  ResumeAnalysis,
+  ResumeResponse,
+  ResumeUpdateResponse,
+  JobMatch,
+  LatestAnalysisResponse,
+  AtsScoreResponse,
+  UserProfile,
+  UserProfileResponse,
+  AuthMessageResponse,
+  CheckAuthResponse,
+  AssessmentQuestionsResponse,
+  AssessmentGradeResponse,
+  AdaptiveAnswerResponse,
+  AssessmentMode,
+  AssessmentAttempt,
+  AssessmentHistoryResponse,
+  SkillBenchmarkResponse,
+  APIResponse,
+} from '@/types/resume';
+import { isMockBackendEnabled, mockAdapter } from './mockBackend';
+
+/**
+ * API Client Module
+ *
+ * Single entry point for every backend request. Wraps axios with the two
+ * backend base URLs, cookie credentials and per-request body encoding, and
+ * turns every failure into an ApiError with a readable message.
+ *
+ * Idempotent GETs are retried with exponential backoff on network errors,
+ * timeouts and 5xx responses. Any request can be cancelled through an
+ * AbortSignal (see lib/useAbortSignal for cancelling on unmount). A 401 from
+ * a protected endpoint sends the user to sign-in once, however many
+ * requests fail together.
+ *
+ * When the mock backend is switched on (see services/mockBackend), the same
+ * requests are answered in the browser instead of by the two services.
+ */
+
+// Express auth service and FastAPI resume service
+export type ApiService = 'auth' | 'fastapi';
+
+// How a request body is sent; existing endpoints expect all three
+export type ApiEncoding = 'json' | 'form' | 'multipart';
+
+export type ApiErrorKind = 'network' | 'timeout' | 'cancelled' | 'unauthorized' | 'not_found' | 'client' | 'server';
+
+export interface ApiRequestOptions {
+  service?: ApiService;
+  encoding?: ApiEncoding;
+  signal?: AbortSignal;
+  // Extra attempts for GETs; ignored for other methods
+  retries?: number;
+  // For auth endpoints where a 401 means bad credentials rather than an expired session
+  skipAuthRedirect?: boolean;
+  // Sends through fetch with keepalive so the request outlives the page, e.g. from a pagehide handler
+  keepalive?: boolean;
+}
+
+/**
+ * Normalized error thrown by every API call
+ * `message` is safe to show to the user; `data` keeps the raw response body
+ */
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status: number | null;
+  data: unknown;
+
+  constructor(kind: ApiErrorKind, message: string, status: number | null = null, data: unknown = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.data = data;
+  }
+}
+
+const BASE_URLS: Record<ApiService, string | undefined> = {
+  auth: process.env.NEXT_PUBLIC_BACKEND_URL,
+  fastapi: process.env.NEXT_PUBLIC_BACKEND_FASTAPI_URL,
+};
+
+const CONTENT_TYPES: Record<ApiEncoding, string> = {
+  json: 'application/json',
+  form: 'application/x-www-form-urlencoded',
+  multipart: 'multipart/form-data',
+};
+
+const SIGN_IN_PATH = '/signin';
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 400;
+
+const FALLBACK_MESSAGES: Record<ApiErrorKind, string> = {
+  network: 'Could not reach the server. Check your connection and try again.',
+  timeout: 'The server took too long to respond. Please try again.',
+  cancelled: 'The request was cancelled.',
+  unauthorized: 'Your session has expired. Please sign in again.',
+  not_found: 'The requested item could not be found.',
+  client: 'The request could not be completed.',
+  server: 'Something went wrong on our side. Please try again.',
+};
+
+/**
+ * Returns true when the error comes from a request cancelled on purpose
+ * Callers usually ignore these, since the component that asked is gone
+ */
+export const isCancelledError = (error: unknown): boolean =>
+  error instanceof ApiError && error.kind === 'cancelled';
+
+/**
+ * Reads a user-facing message from the error shapes our two backends send
+ * Express uses { message } or { error }; FastAPI uses { detail }
+ */
+const readErrorMessage = (data: unknown): string | null => {
+  if (!data || typeof data !== 'object') return null;
+  const body = data as { message?: unknown; detail?: unknown; error?: unknown };
+  const message = [body.message, body.detail, body.error].find(value => typeof value === 'string' && value.trim());
+  return typeof message === 'string' ? message : null;
+};
+
+/**
+ * Converts whatever axios threw into an ApiError
+ */
+const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (axios.isCancel(error)) {
+    return new ApiError('cancelled', FALLBACK_MESSAGES.cancelled);
+  }
+  if (!axios.isAxiosError(error)) {
+    return new ApiError('network', error instanceof Error ? error.message : FALLBACK_MESSAGES.network);
+  }
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new ApiError('timeout', FALLBACK_MESSAGES.timeout);
+  }
+  if (!error.response) {
+    return new ApiError('network', FALLBACK_MESSAGES.network);
+  }
+
+  const { status, data } = error.response;
+  const kind: ApiErrorKind = status === 401 ? 'unauthorized'
+    : status === 404 ? 'not_found'
+    : status >= 500 ? 'server'
+    : 'client';
+  return new ApiError(kind, readErrorMessage(data) ?? FALLBACK_MESSAGES[kind], status, data);
+};
+
+let isRedirectingToSignIn = false;
+
+/**
+ * Sends the user to sign-in after an expired session
+ * Only the first of several concurrent 401s redirects
+ */
+const handleUnauthorized = (): void => {
+  if (isRedirectingToSignIn || typeof window === 'undefined') return;
+  if (window.location.pathname.startsWith(SIGN_IN_PATH)) return;
+  isRedirectingToSignIn = true;
+  window.location.assign(SIGN_IN_PATH);
+};
+
+const isRetryable = (error: ApiError): boolean =>
+  error.kind === 'network' || error.kind === 'timeout' || error.kind === 'server' || error.status === 429;
+
+/**
+ * Waits before the next retry, ending early if the request is cancelled
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError('cancelled', FALLBACK_MESSAGES.cancelled));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError('cancelled', FALLBACK_MESSAGES.cancelled));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Sends one request and returns the response body
+ * @throws {ApiError} For every failure, including cancellation
+ */
+const request = async <T>(
+  method: 'get' | 'post' | 'patch' | 'delete',
+  path: string,
+  body: unknown,
+  { service = 'fastapi', encoding = 'json', signal, retries = DEFAULT_GET_RETRIES, skipAuthRedirect = false, keepalive = false }: ApiRequestOptions = {}
+): Promise<T> => {
+  const config: AxiosRequestConfig = {
+    method,
+    url: `${BASE_URLS[service]}${path}`,
+    data: body,
+    signal,
+    withCredentials: true, // Include cookies for authentication
+    headers: body !== undefined ? { 'Content-Type': CONTENT_TYPES[encoding] } : undefined,
+    adapter: isMockBackendEnabled() ? mockAdapter : keepalive ? 'fetch' : undefined,
+    fetchOptions: keepalive ? { keepalive: true } : undefined,
+  };
+  const maxAttempts = method === 'get' ? retries + 1 : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await axios.request<T>(config);
+      return response.data;
+    } catch (rawError) {
+      const error = toApiError(rawError);
+      if (error.kind === 'unauthorized' && !skipAuthRedirect) {
+        handleUnauthorized();
+      }
+      if (attempt >= maxAttempts || !isRetryable(error)) {
+        throw error;
+      }
+      await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+    }
+  }
+};
+
+export const apiClient = {
+  get: <T>(path: string, options?: ApiRequestOptions) => request<T>('get', path, undefined, options),
+  post: <T>(path: string, body?: unknown, options?: ApiRequestOptions) => request<T>('post', path, body ?? {}, options),
+  patch: <T>(path: string, body?: unknown, options?: ApiRequestOptions) => request<T>('patch', path, body ?? {}, options),
+  delete: <T = void>(path: string, options?: ApiRequestOptions) => request<T>('delete', path, undefined, options),
+};
+
+/**
+ * Resume endpoints on the FastAPI service
+ */
+export const resumeApi = {
+  list: async (signal?: AbortSignal): Promise<Resume[]> => {
+    const data = await apiClient.get<{ resume: Resume[] }>('/api/v1/resume', { signal });
+    return data.resume ?? [];
+  },
+
+  get: async (id: string, signal?: AbortSignal): Promise<ResumeData> => {
+    const data = await apiClient.get<{ resume: ResumeData }>(`/api/v1/resume/resume/${id}`, { signal });
+    return data.resume;
+  },
+
+  // Creates the resume when its _id is empty; the response carries the stored _id and updated_at
+  update: (resume: ResumeData): Promise<ResumeUpdateResponse> =>
+    apiClient.patch<ResumeUpdateResponse>('/api/v1/resume', {
+      resume_update_data: JSON.stringify(resume),
+    }, { encoding: 'form' }),
+
+  remove: (id: string, keepalive = false): Promise<void> => apiClient.delete(`/api/v1/resume/${id}`, { keepalive }),
+
+  // Parses an uploaded PDF/DOC/DOCX into builder data
+  upload: (file: File): Promise<ResumeResponse> => {
+    const formData = new FormData();
+    formData.append('resume_file', file);
+    return apiClient.post<ResumeResponse>('/api/v1/resume/', formData, { encoding: 'multipart' });
+  },
+
+  atsScore: (resume: ResumeData): Promise<AtsScoreResponse> =>
+    apiClient.post<AtsScoreResponse>('/api/v1/resume/ats-score', {
+      resume_json: JSON.stringify(resume),
+    }, { encoding: 'multipart' }),
+
+  // Scores an uploaded resume file against a job description
+  analyse: (file: File, jobTitle: string, jobDescription: string): Promise<ResumeAnalysis> => {
+    const formData = new FormData();
+    formData.append('resume_file', file);
+    formData.append('job_description', jobDescription);
+    formData.append('job_title', jobTitle);
+    return apiClient.post<ResumeAnalysis>('/api/v1/resume/analyse', formData, { encoding: 'multipart' });
+  },
+
+  latestAnalysis: (signal?: AbortSignal): Promise<LatestAnalysisResponse> =>
+    apiClient.get<LatestAnalysisResponse>('/api/v1/resume/latest-analysis', { signal }),
+
+  listAnalyses: async (signal?: AbortSignal): Promise<JobMatch[]> => {
+    const data = await apiClient.get<{ resume_analysis: JobMatch[] }>('/api/v1/resume/resume-analysis', { signal });
+    return data.resume_analysis ?? [];
+  },
+
+  getAnalysis: (id: string, signal?: AbortSignal): Promise<ResumeAnalysis> =>
+    apiClient.get<ResumeAnalysis>(`/api/v1/resume/resume-analysis/${id}`, { signal }),
+
+  removeAnalysis: (id: string, keepalive = false): Promise<void> =>
+    apiClient.delete(`/api/v1/resume/resume-analysis/${id}`, { keepalive }),
+};
+
+/**
+ * Skill assessment endpoints on the FastAPI service
+ */
+export const assessmentApi = {
+  // Adaptive mode starts a session that returns its first question only
+  questions: (technicalSkills: string[], softSkills: string[], mode: AssessmentMode = 'fixed'): Promise<AssessmentQuestionsResponse> =>
+    apiClient.post<AssessmentQuestionsResponse>('/api/v1/resume/skill-assessment', {
+      technical_skills: JSON.stringify(technicalSkills),
+      soft_skills: JSON.stringify(softSkills),
+      mode,
+    }, { encoding: 'form' }),
+
+  // Records the answer to the adaptive session's current question (once) and returns the question the backend picks next
+  answerAdaptive: (sessionId: string, answer: string): Promise<AdaptiveAnswerResponse> =>
+    apiClient.post<AdaptiveAnswerResponse>('/api/v1/resume/skill-assessment/adaptive/answer', {
+      session_id: sessionId,
+      answer,
+    }, { encoding: 'form' }),
+
+  // Adaptive sessions are graded from the answers recorded as they were given, so none are sent
+  grade: (sessionId: string, answers?: { question_index: number; answer: string }[]): Promise<AssessmentGradeResponse> =>
+    apiClient.post<AssessmentGradeResponse>('/api/v1/resume/skill-assessment/grade', {
+      session_id: sessionId,
+      ...(answers ? { answers: JSON.stringify(answers) } : {}),
+    }, { encoding: 'form' }),
+
+  // Scores client-graded totals; only used with the mock backend, which sends answer keys
+  score: (scores: { skill: string; total_questions: number; correct_questions: number }[]): Promise<APIResponse> =>
+    apiClient.post<APIResponse>('/api/v1/resume/skill-assessment-score', {
+      skills: JSON.stringify(scores),
+    }, { encoding: 'form' }),
+
+  history: async (signal?: AbortSignal): Promise<AssessmentAttempt[]> => {
+    const data = await apiClient.get<AssessmentHistoryResponse>('/api/v1/resume/skill-assessment/history', { signal });
+    return data.attempts ?? [];
+  },
+
+  saveAttempt: (attempt: AssessmentAttempt): Promise<AuthMessageResponse> =>
+    apiClient.post<AuthMessageResponse>('/api/v1/resume/skill-assessment/history', {
+      attempt: JSON.stringify(attempt),
+    }, { encoding: 'form' }),
+
+  benchmarks: (skills: string[], signal?: AbortSignal): Promise<SkillBenchmarkResponse> =>
+    apiClient.post<SkillBenchmarkResponse>('/api/v1/resume/skill-benchmarks', {
+      skills: JSON.stringify(skills),
+    }, { encoding: 'form', signal }),
+};
+
+/**
+ * User profile endpoints on the FastAPI service
+ */
+export const userApi = {
+  get: (signal?: AbortSignal): Promise<UserProfileResponse> =>
+    apiClient.get<UserProfileResponse>('/api/v1/user/', { signal }),
+
+  update: (profile: UserProfile): Promise<AuthMessageResponse> =>
+    apiClient.patch<AuthMessageResponse>('/api/v1/user/', {
+      user_details: JSON.stringify(profile),
+    }, { encoding: 'form' }),
+};
+
+// Auth endpoints answer 401 for bad credentials, so they never trigger the sign-in redirect
+const AUTH_OPTIONS: ApiRequestOptions = { service: 'auth', skipAuthRedirect: true };
+
+/**
+ * Session and account endpoints on the auth service
+ */
+export const authApi = {
+  checkAuth: (signal?: AbortSignal): Promise<CheckAuthResponse> =>
+    apiClient.get<CheckAuthResponse>('/api/auth/check-auth', { ...AUTH_OPTIONS, signal }),
+
+  login: (email: string, password: string): Promise<AuthMessageResponse> =>
+    apiClient.post<AuthMessageResponse>('/api/auth/login', { email, password }, AUTH_OPTIONS),
+
+  signup: (name: string, email: string, password: string): Promise<AuthMessageResponse> =>
+    apiClient.post<AuthMessageResponse>('/api/auth/signup', { name, email, password }, AUTH_OPTIONS),
+
+  // Ends the session, so it is not retried even though it is a GET
+  logout: (): Promise<AuthMessageResponse> =>
+    apiClient.get<AuthMessageResponse>('/api/auth/logout', { ...AUTH_OPTIONS, retries: 0 }),
+
+  verifyEmail: (email: string, code: string): Promise<AuthMessageResponse> =>
+    apiClient.post<AuthMessageResponse>('/api/auth/verify-email', { email, code }, AUTH_OPTIONS),
+
+  resendVerification: (email: string): Promise<AuthMessageResponse> =>
+    apiClient.post<AuthMessageResponse>('/api/auth/regenerate-verification-token', { email }, AUTH_OPTIONS),
+
+  forgotPassword: (email: string): Promise<AuthMessageResponse> =>
+    apiClient.post<AuthMessageResponse>('/api/auth/forgot-password', { email }, AUTH_OPTIONS),
+
+  resetPassword: (token: string, password: string): Promise<AuthMessageResponse> =>
+    apiClient.post<AuthMessageResponse>(`/api/auth/reset-password/${token}`, { password }, AUTH_OPTIONS),
+};
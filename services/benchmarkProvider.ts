@@ -0,0 +1,65 @@
+import { BenchmarkSource, SkillBenchmark } from '@/types/resume';
+import { LOCAL_BENCHMARK_SOURCE, lookupLocalBenchmarks } from '@/lib/skillBenchmarks';
+import { assessmentApi, isCancelledError } from './apiClient';
+
+/**
+ * Skill Benchmark Provider Module
+ *
+ * Assessment results are compared against per-skill score distributions
+ * supplied by a BenchmarkProvider. The bundled dataset is used by default;
+ * setting NEXT_PUBLIC_BENCHMARK_SOURCE=api reads them from the backend
+ * instead, falling back to the bundled dataset when that request fails.
+ * Every result carries the source and version it came from.
+ */
+
+export interface SkillBenchmarks {
+  source: BenchmarkSource;
+  // Same order as the requested skills
+  benchmarks: SkillBenchmark[];
+}
+
+export interface BenchmarkProvider {
+  getBenchmarks: (skills: string[], signal?: AbortSignal) => Promise<SkillBenchmarks>;
+}
+
+/**
+ * Reads benchmarks from the versioned dataset bundled with the app
+ */
+export const localBenchmarkProvider: BenchmarkProvider = {
+  getBenchmarks: async (skills) => ({
+    source: LOCAL_BENCHMARK_SOURCE,
+    benchmarks: lookupLocalBenchmarks(skills),
+  }),
+};
+
+/**
+ * Reads benchmarks from the backend endpoint
+ */
+export const apiBenchmarkProvider: BenchmarkProvider = {
+  getBenchmarks: async (skills, signal) => {
+    const response = await assessmentApi.benchmarks(skills, signal);
+    return { source: response.source, benchmarks: response.benchmarks };
+  },
+};
+
+/**
+ * Returns the provider picked by NEXT_PUBLIC_BENCHMARK_SOURCE ("local" by default)
+ */
+export const getBenchmarkProvider = (): BenchmarkProvider =>
+  process.env.NEXT_PUBLIC_BENCHMARK_SOURCE === 'api' ? apiBenchmarkProvider : localBenchmarkProvider;
+
+/**
+ * Loads benchmarks for the given skills from the configured provider
+ * Falls back to the bundled dataset when a remote provider fails
+ * @throws {ApiError} Only when the request is cancelled
+ */
+export const loadSkillBenchmarks = async (skills: string[], signal?: AbortSignal): Promise<SkillBenchmarks> => {
+  const provider = getBenchmarkProvider();
+  try {
+    return await provider.getBenchmarks(skills, signal);
+  } catch (error) {
+    if (isCancelledError(error) || provider === localBenchmarkProvider) throw error;
+    console.error('Error loading skill benchmarks:', error);
+    return localBenchmarkProvider.getBenchmarks(skills, signal);
+  }
+};
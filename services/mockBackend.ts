@@ -0,0 +1,779 @@
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosResponse,
+  CanceledError,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import {
+  Resume,
+  ResumeData,
+  ResumeAnalysis,
+  ResumeResponse,
+  LatestAnalysis,
+  UserProfile,
+  AssessmentAttempt,
+  AssessmentQuestion,
+  GradedAnswer,
+} from '@/types/resume';
+import {
+  MOCK_USER,
+  MockJobMatch,
+  createMockResume,
+  createMockResumeData,
+  createMockJobMatch,
+  createMockQuestions,
+  createMockCareerSuggestions,
+} from './mockFixtures';
+import { LOCAL_BENCHMARK_SOURCE, lookupLocalBenchmarks } from '@/lib/skillBenchmarks';
+import {
+  AdaptiveSkillState,
+  createAdaptiveStates,
+  estimateProficiency,
+  maxQuestionCount,
+  pickNextQuestion,
+  recordAdaptiveAnswer,
+} from '@/lib/adaptiveAssessment';
+
+/**
+ * Mock Backend Module
+ *
+ * An axios adapter that answers every request apiClient sends without a
+ * running backend, for local development and demos. Data lives in
+ * localStorage, so resumes, analyses and profile edits survive a reload.
+ *
+ * Turn it on with NEXT_PUBLIC_MOCK_BACKEND=true, or per browser by opening
+ * any page with ?mock=1 (and off again with ?mock=0). The per-browser switch
+ * only works in development builds or with NEXT_PUBLIC_MOCK_BACKEND_TOGGLE=true,
+ * so a shared link can't send a production user's requests to local data.
+ * Responses are delayed slightly and can be cancelled, so loading states
+ * behave as they do live.
+ */
+
+const ENABLED_KEY = 'mockBackend:enabled';
+const CAN_TOGGLE = process.env.NODE_ENV !== 'production' || process.env.NEXT_PUBLIC_MOCK_BACKEND_TOGGLE === 'true';
+const DB_KEY = 'mockBackend:db';
+// Bump when the stored shape changes so old copies are reseeded
+const DB_VERSION = 3;
+const MOCK_LATENCY_MS = 300;
+
+interface MockDb {
+  version: number;
+  loggedIn: boolean;
+  user: UserProfile;
+  resumes: Resume[];
+  analyses: MockJobMatch[];
+  assessments: AssessmentAttempt[];
+  adaptiveSessions: MockAdaptiveSession[];
+}
+
+// An adaptive run in progress; its pool and answer keys never leave the mock server
+interface MockAdaptiveSession {
+  _id: string;
+  pool: AssessmentQuestion[];
+  states: AdaptiveSkillState[];
+  // Pool indexes in the order they were issued; the last one awaits an answer while answers is shorter
+  issued: number[];
+  answers: string[];
+}
+
+interface RouteContext {
+  params: string[];
+  body: Record<string, unknown>;
+  db: MockDb;
+}
+
+interface MockRoute {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  pattern: RegExp;
+  // Fastapi routes need a session, like the real service
+  requiresAuth: boolean;
+  handle: (context: RouteContext) => unknown;
+}
+
+/**
+ * Error thrown by a route handler; becomes an axios error with this status
+ */
+class MockHttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'MockHttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * Returns true when requests should be answered by the mock backend
+ * Where the per-browser switch is allowed, a ?mock=1 or ?mock=0 query parameter switches it for this browser
+ */
+export const isMockBackendEnabled = (): boolean => {
+  if (process.env.NEXT_PUBLIC_MOCK_BACKEND === 'true') return true;
+  // A flag stored before the switch was disabled is ignored too
+  if (!CAN_TOGGLE || typeof window === 'undefined') return false;
+
+  const param = new URLSearchParams(window.location.search).get('mock');
+  if (param === '1' || param === '0') {
+    setMockBackendEnabled(param === '1');
+  }
+  return window.localStorage.getItem(ENABLED_KEY) === 'true';
+};
+
+export const setMockBackendEnabled = (enabled: boolean): void => {
+  if (enabled) {
+    window.localStorage.setItem(ENABLED_KEY, 'true');
+  } else {
+    window.localStorage.removeItem(ENABLED_KEY);
+  }
+};
+
+/**
+ * Drops all mock data so the next request starts from the fixtures again
+ */
+export const resetMockBackend = (): void => {
+  window.localStorage.removeItem(DB_KEY);
+};
+
+const createId = (prefix: string): string =>
+  `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const seedDb = (): MockDb => {
+  const now = new Date().toISOString();
+  const resume = createMockResume('mock-resume-1', 'Jane Doe - Frontend', now);
+  return {
+    version: DB_VERSION,
+    loggedIn: true,
+    user: MOCK_USER,
+    resumes: [resume],
+    analyses: [createMockJobMatch('mock-analysis-1', resume._id, 'jane-doe-frontend', 'Senior Frontend Engineer', now)],
+    assessments: [],
+    adaptiveSessions: [],
+  };
+};
+
+const loadDb = (): MockDb => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(DB_KEY) ?? 'null') as MockDb | null;
+    if (stored?.version === DB_VERSION) return stored;
+  } catch (error) {
+    console.warn('Mock backend data was unreadable, reseeding:', error);
+  }
+  return seedDb();
+};
+
+const saveDb = (db: MockDb): void => {
+  window.localStorage.setItem(DB_KEY, JSON.stringify(db));
+};
+
+/**
+ * Reads the request body whichever encoding apiClient used
+ * Axios has already serialized it, so JSON and form bodies arrive as strings
+ */
+const readBody = (data: unknown): Record<string, unknown> => {
+  if (typeof FormData !== 'undefined' && data instanceof FormData) {
+    return Object.fromEntries(data.entries());
+  }
+  if (typeof data === 'string') {
+    try {
+      const parsed: unknown = JSON.parse(data);
+      if (parsed && typeof parsed === 'object') return parsed as Record<string, unknown>;
+    } catch {
+      // Not JSON, so it is a form-encoded body
+    }
+    return Object.fromEntries(new URLSearchParams(data));
+  }
+  return data && typeof data === 'object' ? data as Record<string, unknown> : {};
+};
+
+// Form fields that carry JSON, e.g. resume_update_data
+const readJsonField = <T>(value: unknown, fallback: T): T => {
+  if (typeof value !== 'string') return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new MockHttpError(422, 'Request body contains invalid JSON');
+  }
+};
+
+const readString = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const clampScore = (score: number): number => Math.max(0, Math.min(100, Math.round(score)));
+
+const pickRandom = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+/**
+ * Deterministic ATS score from how complete and quantified a resume is
+ */
+const scoreResume = (resume: Partial<ResumeData>) => {
+  const bullets = [
+    ...(resume.work_experiences ?? []),
+    ...(resume.projects ?? []),
+    ...(resume.extracurriculars ?? []),
+  ].flatMap(entry => entry.bullet_points ?? []);
+  const quantified = bullets.filter(bullet => /\d/.test(bullet)).length;
+  const filledSections = [resume.educations, resume.work_experiences, resume.projects, resume.skills, resume.certifications, resume.achievements]
+    .filter(section => (section?.length ?? 0) > 0).length;
+  const skillCount = (resume.skills ?? []).flatMap(group => group.skills).length;
+
+  const format_compliance = clampScore(50 + filledSections * 8);
+  const keyword_optimization = clampScore(40 + skillCount * 4);
+  const readability = clampScore(60 + (bullets.length > 0 ? (quantified / bullets.length) * 40 : 0));
+  return {
+    ats_score: clampScore((format_compliance + keyword_optimization + readability) / 3),
+    format_compliance,
+    keyword_optimization,
+    readability,
+  };
+};
+
+// Same mapping the resume manager uses to open a stored job match
+const toResumeAnalysis = (match: MockJobMatch, message: string): ResumeAnalysis => ({
+  success: true,
+  message,
+  resume_metadata: match.resume_metadata,
+  resume_analysis: {
+    ats_score: match.ats_score,
+    job_match_score: match.job_match_score,
+    skill_match_percent: match.skill_match_percent,
+    technical_skills: match.technical_skills.flatMap(group => group.skills),
+    soft_skills: match.soft_skills.flatMap(group => group.skills),
+    matched_skills: match.matched_skills,
+    missing_skills: match.missing_skills,
+    nlp_analysis: {
+      word_count: 420,
+      entities: ['Brightline Labs', 'Northwind Software', 'University of Texas at Austin'],
+      keywords: match.matched_skills,
+      role_match_score: match.job_match_score,
+      role_matched: match.job_title || null,
+    },
+    llm_analysis: match.llm_analysis,
+    job_title: match.job_title,
+  },
+});
+
+const toLatestAnalysis = (match: MockJobMatch): LatestAnalysis => ({
+  _id: match._id,
+  resume_id: match.resume_id,
+  updated_at: match.updated_at,
+  resume_metadata: { resume_name: match.resume_metadata.resume_name },
+  ats_score: { ats_score: match.ats_score.ats_score },
+  job_match_score: match.job_match_score,
+  llm_analysis: match.llm_analysis,
+  techinal_skills: match.technical_skills.flatMap(group => group.skills),
+  soft_skills: match.soft_skills.flatMap(group => group.skills),
+  job_title: match.job_title,
+});
+
+const findResume = (db: MockDb, id: string): Resume => {
+  const resume = db.resumes.find(item => item._id === id);
+  if (!resume) throw new MockHttpError(404, 'Resume not found');
+  return resume;
+};
+
+const findAnalysis = (db: MockDb, id: string): MockJobMatch => {
+  const analysis = db.analyses.find(item => item._id === id);
+  if (!analysis) throw new MockHttpError(404, 'Analysis not found');
+  return analysis;
+};
+
+// Uploaded files are named after the file, without its extension
+const readFileName = (value: unknown): string => {
+  const name = typeof File !== 'undefined' && value instanceof File ? value.name : 'resume.pdf';
+  return name.replace(/\.[^.]+$/, '');
+};
+
+/**
+ * Scores per-skill totals the way /skill-assessment-score does
+ */
+const scoreSkillTotals = (results: { skill: string; total_questions: number; correct_questions: number }[]) => {
+  const scores = results.map(({ skill, total_questions, correct_questions }) => ({
+    skill,
+    score: total_questions > 0 ? clampScore((correct_questions / total_questions) * 100) : 0,
+  }));
+  const overall = scores.length > 0 ? scores.reduce((sum, item) => sum + item.score, 0) / scores.length : 0;
+  return {
+    status: true,
+    message: 'Assessment scored successfully',
+    overall_score: clampScore(overall),
+    skill_wise_scores: scores,
+    career_suggestions: createMockCareerSuggestions(scores),
+  };
+};
+
+// Questions are issued without their answer key or explanation
+const toIssuedQuestion = ({ topic, question, options, difficulty }: AssessmentQuestion): AssessmentQuestion =>
+  ({ topic, question, options, difficulty });
+
+const getAdaptiveProgress = (session: MockAdaptiveSession) => ({
+  answered: session.answers.length,
+  max_questions: maxQuestionCount(session.states, session.pool),
+});
+
+const findAdaptiveSession = (db: MockDb, id: string): MockAdaptiveSession => {
+  const session = db.adaptiveSessions.find(item => item._id === id);
+  if (!session) throw new MockHttpError(404, 'Assessment session not found');
+  return session;
+};
+
+const BULLET_TEMPLATES: Record<string, string[]> = {
+  concise: [
+    'Built {subject} features used daily by the team',
+    'Improved {subject} reliability through focused refactoring',
+    'Delivered {subject} work on schedule with clear documentation',
+    'Automated repetitive {subject} tasks',
+    'Reviewed and shipped {subject} changes with peers',
+  ],
+  quantified: [
+    'Cut {subject} processing time by 35% by removing redundant steps',
+    'Grew {subject} adoption to 1,200 weekly users within 3 months',
+    'Reduced {subject} defects by 40% by adding automated tests',
+    'Saved 10 hours per week by automating {subject} reporting',
+    'Handled 3x more {subject} requests without extra infrastructure',
+  ],
+  leadership: [
+    'Led a team of 4 to deliver {subject} ahead of schedule',
+    'Mentored 2 new members on {subject} best practices',
+    'Coordinated {subject} planning across design and engineering',
+    'Championed code reviews that raised {subject} quality',
+    'Set the technical direction for {subject}',
+  ],
+};
+
+/**
+ * Writes bullets for a project, experience or activity entry
+ * Each variant starts at a different template so compared sets differ
+ */
+const createBullets = (body: Record<string, unknown>): string[] => {
+  const subject = readString(body.title) || readString(body.job_title) || readString(body.organization_name) || 'project';
+  const templates = BULLET_TEMPLATES[readString(body.tone)] ?? BULLET_TEMPLATES.concise;
+  const count = Math.max(1, Math.min(templates.length, Number(body.num_points) || 3));
+  const offset = Number(body.variant) || 0;
+  return Array.from({ length: count }, (_, index) =>
+    templates[(index + offset) % templates.length].replace('{subject}', subject)
+  );
+};
+
+const improveBullet = (bullet: string, tone: string): string => {
+  const base = bullet.trim().replace(/[.\s]+$/, '').replace(/^(responsible for|worked on|helped (to )?)/i, '').trim();
+  const capitalized = base.charAt(0).toUpperCase() + base.slice(1);
+  if (tone === 'quantified') {
+    return /\d/.test(capitalized) ? capitalized : `${capitalized}, ${pickRandom(['cutting turnaround time by 25%', 'serving 5,000+ users', 'reducing errors by 30%'])}`;
+  }
+  if (tone === 'leadership') {
+    return `${pickRandom(['Led', 'Drove', 'Owned'])} the effort to ${capitalized.charAt(0).toLowerCase()}${capitalized.slice(1)}`;
+  }
+  return capitalized.split(/\s+/).filter(word => !/^(very|really|successfully|various)$/i.test(word)).join(' ');
+};
+
+const createSummaries = (body: Record<string, unknown>): string[] => {
+  const content = readJsonField<Partial<ResumeData>>(body.resume_content, {});
+  const role = readString(body.target_job_title) || content.work_experiences?.[0]?.job_title || 'professional';
+  const skills = (content.skills ?? []).flatMap(group => group.skills).slice(0, 3).join(', ') || 'modern tools';
+  const count = Math.max(1, Number(body.num_summaries) || 3);
+  const drafts = [
+    `${role} with hands-on experience in ${skills}, known for shipping reliable work and measurable results.`,
+    `Results-driven ${role} who combines ${skills} with clear communication to deliver products users love.`,
+    `${role} focused on quality and impact, bringing practical ${skills} experience and a habit of mentoring others.`,
+    `Adaptable ${role} experienced in ${skills}, looking to grow into larger ownership on a collaborative team.`,
+  ];
+  return drafts.slice(0, count);
+};
+
+const ROUTES: MockRoute[] = [
+  // Resumes
+  {
+    method: 'get', pattern: /^\/api\/v1\/resume\/?$/, requiresAuth: true,
+    handle: ({ db }) => ({ resume: db.resumes }),
+  },
+  {
+    method: 'patch', pattern: /^\/api\/v1\/resume\/?$/, requiresAuth: true,
+    handle: ({ db, body }) => {
+      const update = readJsonField<Partial<ResumeData> | null>(body.resume_update_data, null);
+      if (!update) throw new MockHttpError(422, 'resume_update_data is required');
+      const now = new Date().toISOString();
+      const index = db.resumes.findIndex(item => item._id === update._id);
+      if (index === -1) {
+        const id = createId('resume');
+        db.resumes.push({ ...createMockResume(id, update.resume_name || 'Untitled Resume', now), ...update, _id: id, updated_at: now });
+        return { success: true, message: 'Resume created successfully', _id: id, updated_at: now };
+      }
+      db.resumes[index] = { ...db.resumes[index], ...update, _id: db.resumes[index]._id, updated_at: now };
+      return { success: true, message: 'Resume updated successfully', _id: db.resumes[index]._id, updated_at: now };
+    },
+  },
+  {
+    method: 'delete', pattern: /^\/api\/v1\/resume\/([^/]+)$/, requiresAuth: true,
+    handle: ({ db, params: [id] }) => {
+      findResume(db, id);
+      db.resumes = db.resumes.filter(item => item._id !== id);
+      return { success: true, message: 'Resume deleted successfully' };
+    },
+  },
+  {
+    method: 'get', pattern: /^\/api\/v1\/resume\/resume\/([^/]+)$/, requiresAuth: true,
+    handle: ({ db, params: [id] }) => ({ resume: findResume(db, id) }),
+  },
+  {
+    method: 'post', pattern: /^\/api\/v1\/resume\/?$/, requiresAuth: true,
+    handle: ({ db, body }): ResumeResponse => {
+      const now = new Date().toISOString();
+      const resumeName = readFileName(body.resume_file);
+      const resume = { ...createMockResume(createId('resume'), resumeName, now), ats_score: 0 };
+      resume.ats_score = scoreResume(resume).ats_score;
+      db.resumes.push(resume);
+      return {
+        success: true,
+        message: 'Resume parsed successfully',
+        resume_metadata: { resume_name: resumeName, is_primary: false },
+        resume_details: { ...createMockResumeData(resumeName), _id: resume._id, ats_score: resume.ats_score, updated_at: now },
+      };
+    },
+  },
+  {
+    method: 'post', pattern: /^\/api\/v1\/resume\/ats-score$/, requiresAuth: true,
+    handle: ({ body }) => ({ ats_score: scoreResume(readJsonField<Partial<ResumeData>>(body.resume_json, {})) }),
+  },
+
+  // Job-match analyses
+  {
+    method: 'post', pattern: /^\/api\/v1\/resume\/analyse$/, requiresAuth: true,
+    handle: ({ db, body }) => {
+      const jobDescription = readString(body.job_description).toLowerCase();
+      if (!jobDescription) throw new MockHttpError(422, 'job_description is required');
+      const now = new Date().toISOString();
+      const resumeName = readFileName(body.resume_file);
+      const match = createMockJobMatch(createId('analysis'), db.resumes[0]?._id ?? '', resumeName, readString(body.job_title) || 'Not specified', now);
+
+      // Score against the skills the posting actually mentions
+      const resumeSkills = match.technical_skills.flatMap(group => group.skills);
+      const matched = resumeSkills.filter(skill => jobDescription.includes(skill.toLowerCase()));
+      match.matched_skills = matched;
+      match.skill_match_percent = clampScore((matched.length / (matched.length + match.missing_skills.length)) * 100);
+      match.job_match_score = clampScore(45 + match.skill_match_percent / 2);
+
+      db.analyses.push(match);
+      return toResumeAnalysis(match, 'Resume analysed successfully');
+    },
+  },
+  {
+    method: 'get', pattern: /^\/api\/v1\/resume\/latest-analysis$/, requiresAuth: true,
+    handle: ({ db }) => {
+      const latest = [...db.analyses].sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0];
+      if (!latest) throw new MockHttpError(404, 'No analysis found');
+      return { success: true, resume_analysis: toLatestAnalysis(latest), user_name: db.user.name };
+    },
+  },
+  {
+    method: 'get', pattern: /^\/api\/v1\/resume\/resume-analysis$/, requiresAuth: true,
+    handle: ({ db }) => ({ resume_analysis: db.analyses }),
+  },
+  {
+    method: 'get', pattern: /^\/api\/v1\/resume\/resume-analysis\/([^/]+)$/, requiresAuth: true,
+    handle: ({ db, params: [id] }) => toResumeAnalysis(findAnalysis(db, id), 'Analysis retrieved successfully'),
+  },
+  {
+    method: 'delete', pattern: /^\/api\/v1\/resume\/resume-analysis\/([^/]+)$/, requiresAuth: true,
+    handle: ({ db, params: [id] }) => {
+      findAnalysis(db, id);
+      db.analyses = db.analyses.filter(item => item._id !== id);
+      return { success: true, message: 'Analysis deleted successfully' };
+    },
+  },
+
+  // Skill assessment; fixed runs get their answer keys and are graded in the browser,
+  // adaptive runs are served one question at a time from a session, like the real backend
+  {
+    method: 'post', pattern: /^\/api\/v1\/resume\/skill-assessment$/, requiresAuth: true,
+    handle: ({ db, body }) => {
+      const skills = [
+        ...readJsonField<string[]>(body.technical_skills, []),
+        ...readJsonField<string[]>(body.soft_skills, []),
+      ];
+      if (skills.length === 0) throw new MockHttpError(422, 'Select at least one skill');
+      if (body.mode !== 'adaptive') return { success: true, questions: createMockQuestions(skills) };
+
+      const pool = createMockQuestions(skills, 'adaptive');
+      const states = createAdaptiveStates(pool);
+      const first = pickNextQuestion(states, pool) ?? 0;
+      const session: MockAdaptiveSession = { _id: createId('assessment'), pool, states, issued: [first], answers: [] };
+      db.adaptiveSessions = [...db.adaptiveSessions, session];
+      return {
+        success: true,
+        session_id: session._id,
+        questions: [toIssuedQuestion(pool[first])],
+        progress: getAdaptiveProgress(session),
+      };
+    },
+  },
+  {
+    method: 'post', pattern: /^\/api\/v1\/resume\/skill-assessment\/adaptive\/answer$/, requiresAuth: true,
+    handle: ({ db, body }) => {
+      const session = findAdaptiveSession(db, readString(body.session_id));
+      // Each issued question takes one answer; a repeat can't probe the key
+      if (session.answers.length >= session.issued.length) {
+        throw new MockHttpError(409, 'The current question has already been answered');
+      }
+
+      const questionIndex = session.issued[session.answers.length];
+      const question = session.pool[questionIndex];
+      const answer = readString(body.answer);
+      session.answers.push(answer);
+      session.states = recordAdaptiveAnswer(session.states, session.pool, {
+        question_index: questionIndex,
+        difficulty: question.difficulty ?? 'intermediate',
+        selected: answer,
+        is_correct: Boolean(question.answer) && answer === question.answer,
+      });
+
+      const next = pickNextQuestion(session.states, session.pool);
+      if (next !== null) session.issued.push(next);
+      return {
+        success: true,
+        next_question: next === null ? null : toIssuedQuestion(session.pool[next]),
+        progress: getAdaptiveProgress(session),
+      };
+    },
+  },
+  {
+    // Only adaptive sessions are graded here; fixed mock runs have no session
+    method: 'post', pattern: /^\/api\/v1\/resume\/skill-assessment\/grade$/, requiresAuth: true,
+    handle: ({ db, body }) => {
+      const session = findAdaptiveSession(db, readString(body.session_id));
+
+      // Every issued question counts; one still awaiting an answer (e.g. when time ran out) is skipped
+      const gradedAnswers: GradedAnswer[] = session.issued.map((poolIndex, order) => {
+        const question = session.pool[poolIndex];
+        const selected = session.answers[order] ?? '';
+        return {
+          question_index: order,
+          topic: question.topic,
+          selected,
+          correct_answer: question.answer ?? '',
+          is_correct: Boolean(question.answer) && selected === question.answer,
+          explanation: question.explanation,
+        };
+      });
+      const totals = session.states
+        .map(state => ({
+          skill: state.skill,
+          total_questions: gradedAnswers.filter(answer => answer.topic === state.skill).length,
+          correct_questions: gradedAnswers.filter(answer => answer.topic === state.skill && answer.is_correct).length,
+        }))
+        .filter(total => total.total_questions > 0);
+
+      // A session is graded once
+      db.adaptiveSessions = db.adaptiveSessions.filter(item => item._id !== session._id);
+      return {
+        ...scoreSkillTotals(totals),
+        graded_answers: gradedAnswers,
+        proficiency: session.states
+          .filter(state => state.answers.length > 0)
+          .map(state => ({ skill: state.skill, level: estimateProficiency(state), questions_asked: state.answers.length })),
+      };
+    },
+  },
+  {
+    method: 'post', pattern: /^\/api\/v1\/resume\/skill-assessment-score$/, requiresAuth: true,
+    handle: ({ body }) => scoreSkillTotals(
+      readJsonField<{ skill: string; total_questions: number; correct_questions: number }[]>(body.skills, [])
+    ),
+  },
+  {
+    method: 'get', pattern: /^\/api\/v1\/resume\/skill-assessment\/history$/, requiresAuth: true,
+    handle: ({ db }) => ({ success: true, attempts: db.assessments }),
+  },
+  {
+    method: 'post', pattern: /^\/api\/v1\/resume\/skill-assessment\/history$/, requiresAuth: true,
+    handle: ({ db, body }) => {
+      const attempt = readJsonField<AssessmentAttempt | null>(body.attempt, null);
+      if (!attempt?._id) throw new MockHttpError(422, 'attempt is required');
+      // Saving the same attempt twice replaces it, so client retries are safe
+      db.assessments = [...db.assessments.filter(item => item._id !== attempt._id), attempt];
+      return { success: true, message: 'Assessment saved' };
+    },
+  },
+  {
+    // Serves the bundled dataset, so the API provider can be exercised without a backend
+    method: 'post', pattern: /^\/api\/v1\/resume\/skill-benchmarks$/, requiresAuth: true,
+    handle: ({ body }) => ({
+      success: true,
+      source: LOCAL_BENCHMARK_SOURCE,
+      benchmarks: lookupLocalBenchmarks(readJsonField<string[]>(body.skills, [])),
+    }),
+  },
+
+  // AI writing helpers
+  {
+    method: 'post', pattern: /^\/api\/v1\/resume\/(project|experience|extracurricular)$/, requiresAuth: true,
+    handle: ({ body }) => ({ bullet_points: createBullets(body) }),
+  },
+  {
+    method: 'post', pattern: /^\/api\/v1\/resume\/improve-bullet$/, requiresAuth: true,
+    handle: ({ body }) => {
+      const bullet = readString(body.bullet_point);
+      if (!bullet) throw new MockHttpError(422, 'bullet_point is required');
+      return { bullet_point: improveBullet(bullet, readString(body.tone)) };
+    },
+  },
+  {
+    method: 'post', pattern: /^\/api\/v1\/resume\/summary$/, requiresAuth: true,
+    handle: ({ body }) => ({ summaries: createSummaries(body) }),
+  },
+
+  // User profile
+  {
+    method: 'get', pattern: /^\/api\/v1\/user\/?$/, requiresAuth: true,
+    handle: ({ db }) => ({
+      success: true,
+      user: db.user,
+      total_resumes: db.resumes.length,
+      best_score: Math.max(0, ...db.resumes.map(resume => resume.ats_score ?? 0)),
+    }),
+  },
+  {
+    method: 'patch', pattern: /^\/api\/v1\/user\/?$/, requiresAuth: true,
+    handle: ({ db, body }) => {
+      const details = readJsonField<Partial<UserProfile>>(body.user_details, {});
+      db.user = { ...db.user, ...details, _id: db.user._id, email: db.user.email, updatedAt: new Date().toISOString() };
+      return { success: true, message: 'Profile updated successfully' };
+    },
+  },
+
+  // Auth service
+  {
+    method: 'get', pattern: /^\/api\/auth\/check-auth$/, requiresAuth: true,
+    handle: ({ db }) => ({
+      success: true,
+      userData: { userId: db.user._id, email: db.user.email, isVerified: db.user.isVerified },
+    }),
+  },
+  {
+    method: 'post', pattern: /^\/api\/auth\/login$/, requiresAuth: false,
+    handle: ({ db, body }) => {
+      const email = readString(body.email).toLowerCase();
+      if (!email || !readString(body.password)) throw new MockHttpError(400, 'Email and password are required');
+      if (email !== db.user.email.toLowerCase()) {
+        throw new MockHttpError(401, `Invalid credentials. The mock account is ${db.user.email} with any password.`);
+      }
+      db.loggedIn = true;
+      return { success: true, message: 'Logged in successfully' };
+    },
+  },
+  {
+    method: 'post', pattern: /^\/api\/auth\/signup$/, requiresAuth: false,
+    handle: ({ db, body }) => {
+      const name = readString(body.name);
+      const email = readString(body.email);
+      if (!name || !email || !readString(body.password)) throw new MockHttpError(400, 'All fields are required');
+      db.user = { ...db.user, name, email, isVerified: false, updatedAt: new Date().toISOString() };
+      db.loggedIn = true;
+      return { success: true, message: 'Account created. Enter any 6-digit code to verify.' };
+    },
+  },
+  {
+    method: 'get', pattern: /^\/api\/auth\/logout$/, requiresAuth: false,
+    handle: ({ db }) => {
+      db.loggedIn = false;
+      return { success: true, message: 'Logged out successfully' };
+    },
+  },
+  {
+    method: 'post', pattern: /^\/api\/auth\/verify-email$/, requiresAuth: false,
+    handle: ({ db, body }) => {
+      if (!/^\d{6}$/.test(readString(body.code))) throw new MockHttpError(400, 'Invalid or expired verification code');
+      db.user = { ...db.user, isVerified: true };
+      return { success: true, message: 'Email verified successfully' };
+    },
+  },
+  {
+    method: 'post', pattern: /^\/api\/auth\/regenerate-verification-token$/, requiresAuth: false,
+    handle: () => ({ success: true, message: 'A new verification code has been sent' }),
+  },
+  {
+    method: 'post', pattern: /^\/api\/auth\/forgot-password$/, requiresAuth: false,
+    handle: ({ body }) => {
+      if (!readString(body.email)) throw new MockHttpError(400, 'Email is required');
+      return { success: true, message: 'Password reset link sent to your email' };
+    },
+  },
+  {
+    method: 'post', pattern: /^\/api\/auth\/reset-password\/([^/]+)$/, requiresAuth: false,
+    handle: ({ body }) => {
+      if (readString(body.password).length < 6) throw new MockHttpError(400, 'Password must be at least 6 characters');
+      return { success: true, message: 'Password reset successfully' };
+    },
+  },
+];
+
+/**
+ * Waits like a network round trip, rejecting as axios would if cancelled
+ */
+const simulateLatency = (config: InternalAxiosRequestConfig): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const { signal } = config;
+    if (signal?.aborted) {
+      reject(new CanceledError(undefined, undefined, config));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, MOCK_LATENCY_MS);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError(undefined, undefined, config));
+    };
+    signal?.addEventListener?.('abort', onAbort, { once: true });
+  });
+
+const toErrorResponse = (config: InternalAxiosRequestConfig, status: number, message: string): AxiosError => {
+  const response: AxiosResponse = {
+    // FastAPI's error shape; apiClient reads `detail` as the message
+    data: { success: false, detail: message },
+    status,
+    statusText: message,
+    headers: {},
+    config,
+  };
+  return new AxiosError(
+    message,
+    status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    null,
+    response
+  );
+};
+
+/**
+ * Axios adapter that routes a request to the matching mock handler
+ * Paths are matched from /api onwards, so the configured base URLs do not matter
+ */
+export const mockAdapter: AxiosAdapter = async config => {
+  // Keepalive requests are sent as the page goes away, so they can't wait out the latency
+  if (!config.fetchOptions?.keepalive) await simulateLatency(config);
+
+  const method = (config.method ?? 'get').toLowerCase();
+  const url = (config.url ?? '').split('?')[0];
+  const path = url.slice(Math.max(0, url.indexOf('/api/')));
+  const route = ROUTES.find(item => item.method === method && item.pattern.test(path));
+  if (!route) {
+    throw toErrorResponse(config, 404, `Mock backend has no handler for ${method.toUpperCase()} ${path}`);
+  }
+
+  const db = loadDb();
+  if (route.requiresAuth && !db.loggedIn) {
+    throw toErrorResponse(config, 401, 'Not authenticated');
+  }
+
+  try {
+    const data = route.handle({ params: path.match(route.pattern)?.slice(1) ?? [], body: readBody(config.data), db });
+    saveDb(db);
+    return { data, status: 200, statusText: 'OK', headers: {}, config };
+  } catch (error) {
+    if (error instanceof MockHttpError) {
+      throw toErrorResponse(config, error.status, error.message);
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,289 @@
+import {
+  Resume,
+  ResumeData,
+  JobMatch,
+  ResumeAnalysis,
+  AssessmentQuestion,
+  AssessmentMode,
+  ProficiencyLevel,
+  UserProfile,
+  SectionAnalysis,
+} from '@/types/resume';
+
+/**
+ * Mock Backend Fixtures
+ *
+ * Realistic seed data for the in-browser mock backend (see mockBackend.ts).
+ * Shapes follow the real FastAPI and auth responses so screens render the
+ * same way against either. Everything here is only read when seeding or
+ * building a response; the mock store keeps its own copy in localStorage.
+ */
+
+export const MOCK_USER_ID = 'mock-user-1';
+
+export const MOCK_USER: UserProfile = {
+  _id: MOCK_USER_ID,
+  email: 'jane.doe@example.com',
+  name: 'Jane Doe',
+  isVerified: true,
+  current_profession: 'Frontend Engineer',
+  mobile_number: '+1 555 123 4567',
+  location: 'Austin, TX',
+  github: 'https://github.com/janedoe',
+  linkedin: 'https://linkedin.com/in/janedoe',
+  portfolio: 'https://janedoe.dev',
+  createdAt: '2024-09-02T10:15:00.000Z',
+  updatedAt: '2025-05-20T16:40:00.000Z',
+};
+
+/**
+ * Resume content shared by the seeded resume and by parsed uploads
+ */
+export const createMockResumeData = (resumeName: string): Omit<ResumeData, '_id'> => ({
+  resume_name: resumeName,
+  is_primary: false,
+  template_id: 'classic',
+  personal_info: {
+    name: MOCK_USER.name,
+    contact_info: {
+      email: MOCK_USER.email,
+      mobile: MOCK_USER.mobile_number ?? '',
+      location: MOCK_USER.location,
+      social_links: {
+        linkedin: MOCK_USER.linkedin ?? '',
+        github: MOCK_USER.github ?? '',
+        portfolio: MOCK_USER.portfolio ?? '',
+      },
+    },
+    professional_summary: 'Frontend engineer with four years of experience building accessible React and TypeScript applications, with a focus on performance and design systems.',
+  },
+  educations: [{
+    institute_name: 'University of Texas at Austin',
+    degree: 'B.S. Computer Science',
+    specialisation: 'Human-Computer Interaction',
+    date: { start: '2016-08', end: '2020-05' },
+    location: 'Austin, TX',
+    gpa: '3.8',
+    relevant_coursework: ['Data Structures', 'Algorithms', 'Web Programming'],
+  }],
+  work_experiences: [{
+    company_name: 'Brightline Labs',
+    job_title: 'Frontend Engineer',
+    date: { start: '2022-03', end: 'Present' },
+    location: 'Austin, TX',
+    bullet_points: [
+      'Led the migration of a 120-page dashboard from Create React App to Next.js, cutting load time by 38%',
+      'Built a shared component library adopted by 5 product teams',
+      'Mentored 3 junior engineers through code reviews and pairing sessions',
+    ],
+  }, {
+    company_name: 'Northwind Software',
+    job_title: 'Junior Web Developer',
+    date: { start: '2020-06', end: '2022-02' },
+    location: 'Remote',
+    bullet_points: [
+      'Shipped checkout flow improvements that raised conversion by 6%',
+      'Wrote end-to-end tests covering the order pipeline',
+    ],
+  }],
+  projects: [{
+    title: 'Budget Buddy',
+    project_link: 'https://github.com/janedoe/budget-buddy',
+    date: { start: '2023-01', end: '2023-06' },
+    location: '',
+    organization: 'Personal',
+    bullet_points: [
+      'Designed an offline-first budgeting app with IndexedDB sync',
+      'Reached 2,000 monthly active users after launch on Product Hunt',
+    ],
+    technologies_used: ['React', 'TypeScript', 'IndexedDB', 'Tailwind CSS'],
+  }],
+  skills: [
+    { skill_group: 'Languages', skills: ['TypeScript', 'JavaScript', 'Python'] },
+    { skill_group: 'Frameworks', skills: ['React', 'Next.js', 'Node.js'] },
+    { skill_group: 'Tools', skills: ['Git', 'Jest', 'Playwright', 'Figma'] },
+  ],
+  achievements: [{
+    title: 'Hackathon Winner',
+    description: 'First place at HackTX for an accessibility auditing tool',
+    date_achieved: '2019-10',
+    organization: 'HackTX',
+  }],
+  certifications: [{
+    certification_name: 'AWS Certified Cloud Practitioner',
+    issuing_organisation: 'Amazon Web Services',
+    date_issued: '2023-04',
+    expiry_date: '2026-04',
+    description: '',
+  }],
+  languages: [
+    { language: 'English', proficiency: 'Native' },
+    { language: 'Spanish', proficiency: 'Professional' },
+  ],
+  publications: [],
+  extracurriculars: [{
+    title: 'Women Who Code',
+    organization_name: 'Women Who Code Austin',
+    role: 'Chapter Volunteer',
+    date: { start: '2021-01', end: 'Present' },
+    bullet_points: ['Organize monthly frontend study groups for 40+ members'],
+    certificate: '',
+    location: 'Austin, TX',
+  }],
+  ats_score: 78,
+});
+
+export const createMockResume = (id: string, resumeName: string, now: string): Resume => ({
+  ...createMockResumeData(resumeName),
+  _id: id,
+  user_id: MOCK_USER_ID,
+  created_at: now,
+  updated_at: now,
+  keywords: ['React', 'TypeScript', 'Next.js', 'Design Systems'],
+  last_analyzed: null,
+});
+
+const sectionAnalysis = (good: string, bad: string, improvement: string): SectionAnalysis => ({
+  good: [good],
+  bad: [bad],
+  improvements: [improvement],
+  overall_review: `${good}. ${improvement}.`,
+  description: good,
+});
+
+/**
+ * LLM feedback attached to every mock analysis
+ */
+export const MOCK_LLM_ANALYSIS: ResumeAnalysis['resume_analysis']['llm_analysis'] = {
+  overall_analysis: {
+    overall_strengths: [
+      { description: 'Clear, quantified impact in recent roles', weightage: 30 },
+      { description: 'Modern frontend stack that matches most postings', weightage: 25 },
+    ],
+    areas_for_improvement: [
+      { description: 'Few details on testing and quality practices', weightage: 20 },
+      { description: 'Summary could name the target role explicitly', weightage: 10 },
+    ],
+    ats_optimization_suggestions: [
+      { description: 'Add the exact job title from the posting to the summary', weightage: 15 },
+      { description: 'List GraphQL if you have used it; the posting asks for it', weightage: 10 },
+    ],
+    job_fit_assessment: {
+      score: 74,
+      notes: 'Strong React and TypeScript background; backend exposure is lighter than the role asks for.',
+    },
+    recommendation_score: 76,
+    resume_summary: 'A frontend engineer with solid React experience, measurable results and some leadership through mentoring.',
+  },
+  section_wise_analysis: {
+    education: sectionAnalysis('Relevant degree with strong GPA', 'Coursework list is short', 'Add one or two advanced courses'),
+    projects: sectionAnalysis('Project shows product thinking and real users', 'Only one project listed', 'Add a project that uses the posting\'s backend stack'),
+    experience: sectionAnalysis('Bullets lead with outcomes and numbers', 'Older role has thin detail', 'Expand the Northwind role with one more result'),
+    skills: sectionAnalysis('Skills are grouped and easy to scan', 'No cloud or database skills', 'Add the databases you have worked with'),
+    extracurricular: sectionAnalysis('Community work shows initiative', 'Impact is not measured', 'Mention attendance growth or outcomes'),
+  },
+};
+
+const MOCK_TECHNICAL_SKILLS = ['React', 'TypeScript', 'Next.js', 'Node.js', 'Jest', 'Tailwind CSS'];
+const MOCK_SOFT_SKILLS = ['Mentoring', 'Communication', 'Collaboration'];
+const MOCK_MISSING_SKILLS = ['GraphQL', 'PostgreSQL', 'AWS Lambda'];
+
+// Stored analyses remember which resume they scored, as the real collection does
+export type MockJobMatch = JobMatch & { resume_id: string };
+
+/**
+ * One stored job-match analysis for a resume file and posting
+ */
+export const createMockJobMatch = (id: string, resumeId: string, resumeName: string, jobTitle: string, now: string): MockJobMatch => ({
+  _id: id,
+  resume_id: resumeId,
+  resume_metadata: { resume_name: resumeName, is_primary: false },
+  created_at: now,
+  updated_at: now,
+  ats_score: { ats_score: 78, format_compliance: 85, keyword_optimization: 70, readability: 80 },
+  job_match_score: 72,
+  skill_match_percent: 67,
+  technical_skills: [{ skill_group: 'Technical', skills: MOCK_TECHNICAL_SKILLS }],
+  soft_skills: [{ skill_group: 'Soft', skills: MOCK_SOFT_SKILLS }],
+  matched_skills: ['React', 'TypeScript', 'Next.js', 'Jest'],
+  missing_skills: MOCK_MISSING_SKILLS,
+  llm_analysis: MOCK_LLM_ANALYSIS,
+  job_title: jobTitle,
+});
+
+// Question templates filled in per skill; the first option is always correct and options are rotated per question
+const QUESTION_TEMPLATES: { question: (skill: string) => string; options: (skill: string) => string[]; explanation: (skill: string) => string }[] = [
+  {
+    question: skill => `Which practice best shows day-to-day proficiency in ${skill}?`,
+    options: skill => [`Applying ${skill} to solve a real problem end to end`, `Listing ${skill} on a resume`, `Reading one tutorial about ${skill}`, `Avoiding ${skill} in favour of manual work`],
+    explanation: skill => `Proficiency shows in results: using ${skill} to deliver a working solution says more than listing or reading about it.`,
+  },
+  {
+    question: skill => `A teammate is stuck on a ${skill} problem. What is the most effective first step?`,
+    options: skill => [`Reproduce the issue and narrow down where ${skill} behaves unexpectedly`, 'Rewrite the feature from scratch', 'Wait for the next sprint', 'Escalate to management immediately'],
+    explanation: () => 'Reproducing and isolating the problem comes before any fix; the other options skip understanding what is wrong.',
+  },
+  {
+    question: skill => `How would you keep your ${skill} knowledge current?`,
+    options: skill => [`Build small projects and review recent ${skill} changes`, 'Rely only on what you learned at school', 'Copy answers without reading them', 'Stop using it once a task is done'],
+    explanation: skill => `Regular hands-on practice with recent ${skill} changes is the only option that keeps knowledge up to date.`,
+  },
+];
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D'];
+
+// Adaptive pools repeat every template at each difficulty, framed by this scenario
+const DIFFICULTY_SCENARIOS: Record<ProficiencyLevel, string> = {
+  beginner: 'On a small personal project:',
+  intermediate: 'On a production team project:',
+  advanced: 'On a large system with many teams depending on it:',
+};
+
+const createMockQuestion = (skill: string, templateIndex: number, difficulty?: ProficiencyLevel): AssessmentQuestion => {
+  const template = QUESTION_TEMPLATES[templateIndex];
+  const options = template.options(skill);
+  const shift = (templateIndex + (difficulty ? Object.keys(DIFFICULTY_SCENARIOS).indexOf(difficulty) : 0)) % options.length;
+  const rotated = [...options.slice(shift), ...options.slice(0, shift)];
+  // Options are lettered like the real backend's, and the answer is the correct option's letter
+  return {
+    topic: skill,
+    question: difficulty ? `${DIFFICULTY_SCENARIOS[difficulty]} ${template.question(skill)}` : template.question(skill),
+    options: rotated.map((option, position) => `${OPTION_LETTERS[position]}. ${option}`),
+    answer: OPTION_LETTERS[rotated.indexOf(options[0])],
+    explanation: template.explanation(skill),
+    difficulty,
+  };
+};
+
+/**
+ * Builds a short multiple-choice quiz covering every skill
+ * Adaptive pools hold every question at each difficulty
+ */
+export const createMockQuestions = (skills: string[], mode: AssessmentMode = 'fixed'): AssessmentQuestion[] =>
+  skills.flatMap(skill => QUESTION_TEMPLATES.flatMap((_, index) => mode === 'adaptive'
+    ? (Object.keys(DIFFICULTY_SCENARIOS) as ProficiencyLevel[]).map(difficulty => createMockQuestion(skill, index, difficulty))
+    : [createMockQuestion(skill, index)]));
+
+const MOCK_ROLES = ['Frontend Engineer', 'Full Stack Developer', 'UI Engineer', 'Software Engineer'];
+
+/**
+ * Career suggestions matching the shape of /skill-assessment-score
+ */
+export const createMockCareerSuggestions = (scores: { skill: string; score: number }[]) => {
+  const sorted = [...scores].sort((a, b) => b.score - a.score);
+  const average = scores.length > 0 ? scores.reduce((sum, item) => sum + item.score, 0) / scores.length : 0;
+  return {
+    suggestions: MOCK_ROLES.map((role_name, index) => ({
+      role_name,
+      match_percent: `${Math.max(30, Math.round(average - index * 8))}%`,
+    })),
+    strengths: sorted.slice(0, 2).map(({ skill }) => ({
+      skill,
+      strength_point: `You answered most ${skill} questions correctly; keep using it on real projects.`,
+    })),
+    improvement_areas: sorted.slice(-2).reverse().map(({ skill }) => ({
+      skill,
+      improvement_point: `Review the fundamentals of ${skill} and practise with a small project.`,
+    })),
+  };
+};
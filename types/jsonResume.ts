@@ -0,0 +1,134 @@
+/**
+ * Subset of the JSON Resume schema (https://jsonresume.org/schema) that the
+ * builder reads and writes. Every field is optional in the schema.
+ */
+
+export interface JsonResumeLocation {
+    address?: string;
+    postalCode?: string;
+    city?: string;
+    countryCode?: string;
+    region?: string;
+}
+
+export interface JsonResumeProfile {
+    network?: string;
+    username?: string;
+    url?: string;
+}
+
+export interface JsonResumeBasics {
+    name?: string;
+    label?: string;
+    image?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: JsonResumeLocation;
+    profiles?: JsonResumeProfile[];
+}
+
+export interface JsonResumeWork {
+    name?: string;
+    position?: string;
+    url?: string;
+    location?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+}
+
+export interface JsonResumeVolunteer {
+    organization?: string;
+    position?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+}
+
+export interface JsonResumeEducation {
+    institution?: string;
+    url?: string;
+    area?: string;
+    studyType?: string;
+    startDate?: string;
+    endDate?: string;
+    score?: string;
+    courses?: string[];
+}
+
+export interface JsonResumeAward {
+    title?: string;
+    date?: string;
+    awarder?: string;
+    summary?: string;
+}
+
+export interface JsonResumeCertificate {
+    name?: string;
+    date?: string;
+    issuer?: string;
+    url?: string;
+}
+
+export interface JsonResumePublication {
+    name?: string;
+    publisher?: string;
+    releaseDate?: string;
+    url?: string;
+    summary?: string;
+}
+
+export interface JsonResumeSkill {
+    name?: string;
+    level?: string;
+    keywords?: string[];
+}
+
+export interface JsonResumeLanguage {
+    language?: string;
+    fluency?: string;
+}
+
+export interface JsonResumeProject {
+    name?: string;
+    description?: string;
+    highlights?: string[];
+    keywords?: string[];
+    startDate?: string;
+    endDate?: string;
+    url?: string;
+    roles?: string[];
+    entity?: string;
+    type?: string;
+}
+
+export interface JsonResume {
+    $schema?: string;
+    basics?: JsonResumeBasics;
+    work?: JsonResumeWork[];
+    volunteer?: JsonResumeVolunteer[];
+    education?: JsonResumeEducation[];
+    awards?: JsonResumeAward[];
+    certificates?: JsonResumeCertificate[];
+    publications?: JsonResumePublication[];
+    skills?: JsonResumeSkill[];
+    languages?: JsonResumeLanguage[];
+    interests?: { name?: string; keywords?: string[] }[];
+    references?: { name?: string; reference?: string }[];
+    projects?: JsonResumeProject[];
+    meta?: { canonical?: string; version?: string; lastModified?: string };
+}
+
+/**
+ * Result of converting between JSON Resume and ResumeData
+ * `unmapped` lists fields that had no counterpart in the target shape, by source path
+ */
+export interface JsonResumeConversion<T> {
+    result: T;
+    unmapped: string[];
+}
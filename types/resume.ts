@@ -77,14 +77,20 @@ export interface PersonalInfo {
     professional_summary: string;
 }
 
+/**
+ * Start and end of an entry as "YYYY-MM" (or "YYYY"), with "Present" ending an ongoing entry
+ * Older resumes may still hold free text, see lib/resumeDates
+ */
+export interface DateRange {
+    start: string;
+    end: string;
+}
+
 export interface Education {
     institute_name: string;
     degree: string;
     specialisation: string;
-    date: {
-        start: string;
-        end: string;
-    };
+    date: DateRange;
     location: string;
     gpa: string;
     relevant_coursework: string[];
@@ -93,10 +99,7 @@ export interface Education {
 export interface Project {
     title: string;
     project_link: string;
-    date: {
-        start: string;
-        end: string;
-    };
+    date: DateRange;
     location: string;
     organization: string;
     bullet_points: string[];
@@ -106,10 +109,7 @@ export interface Project {
 export interface WorkExperience {
     company_name: string;
     job_title: string;
-    date: {
-        start: string;
-        end: string;
-    };
+    date: DateRange;
     location: string;
     bullet_points: string[];
 }
@@ -150,10 +150,7 @@ export interface Extracurricular {
     title: string;
     organization_name: string;
     role: string;
-    date: {
-        start: string;
-        end: string;
-    };
+    date: DateRange;
     bullet_points: string[];
 
     //ISKO ADD KARO
@@ -161,10 +158,31 @@ export interface Extracurricular {
     location: string
 }
 
+export type ResumeTemplateId = 'classic' | 'modern' | 'compact' | 'academic';
+
+export type ResumeSectionId =
+    | 'summary'
+    | 'education'
+    | 'experience'
+    | 'projects'
+    | 'skills'
+    | 'extracurriculars'
+    | 'certifications'
+    | 'achievements'
+    | 'publications'
+    | 'languages';
+
 export interface ResumeData {
     _id: string,
     resume_name: string,
     is_primary: boolean,
+    // Layout used by the builder preview and exports; older resumes fall back to 'classic'
+    template_id?: ResumeTemplateId,
+    // Per-resume section layout; when absent the template's default order is used and every section shows
+    section_order?: ResumeSectionId[],
+    hidden_sections?: ResumeSectionId[],
+    // Server timestamp of the copy this data was loaded from, used to detect edits made elsewhere
+    updated_at?: string,
     personal_info: PersonalInfo;
     educations: Education[];
     work_experiences: WorkExperience[];
@@ -190,6 +208,14 @@ export interface ResumeResponse {
     resume_details: ResumeData;
 }
 
+// PATCH /resume creates the resume when _id is empty or unknown, so it returns the id it stored under
+export interface ResumeUpdateResponse {
+    success: boolean;
+    message: string;
+    _id: string;
+    updated_at: string;
+}
+
 export interface LoadingStates {
     [projectId: string]: boolean;
 }
@@ -198,10 +224,28 @@ export interface AISuggestions {
     [projectId: string]: string[] | null;
 }
 
+export type AISuggestionTone = 'concise' | 'quantified' | 'leadership';
+
+export interface AISuggestionOptions {
+    tone: AISuggestionTone;
+    // Bullets per suggested set
+    bulletCount: number;
+    // Alternative sets to compare
+    variantCount: number;
+}
+
+// Entry a single bullet belongs to, sent along when asking for a rewrite
+export interface AIBulletContext {
+    section: 'project' | 'experience' | 'extracurricular';
+    // Short description of the entry, e.g. "Software Engineer at Tech Corp"
+    heading: string;
+}
+
 export interface AIDialogState {
     isOpen: boolean;
     projectId: number | null;
-    suggestions: string[];
+    // One list of bullets per alternative set
+    variants: string[][];
 }
 
 export interface ExperienceLoadingStates {
@@ -223,11 +267,32 @@ export interface AssessmentSkill {
     type: 'technical' | 'soft';
 }
 
+// Fixed runs every question; adaptive picks questions per skill by difficulty and stops early
+export type AssessmentMode = 'fixed' | 'adaptive';
+
+// Used both as a question's difficulty and as the proficiency estimated for a skill
+export type ProficiencyLevel = 'beginner' | 'intermediate' | 'advanced';
+
 export interface AssessmentQuestion {
     topic: string;
     question: string;
     options: string[];
-    answer: string;
+    // Letter of the correct option; left out when the backend grades the session
+    answer?: string;
+    explanation?: string;
+    // Only set on adaptive questions
+    difficulty?: ProficiencyLevel;
+}
+
+// Grader's verdict on one question, in question order
+export interface GradedAnswer {
+    question_index: number;
+    topic: string;
+    // Letter the user picked, empty when skipped
+    selected: string;
+    correct_answer: string;
+    is_correct: boolean;
+    explanation?: string;
 }
 
 export interface SkillScore {
@@ -236,6 +301,31 @@ export interface SkillScore {
     industryAverage: number;
 }
 
+// Score distribution for one skill; bands are the scores at each percentile
+export interface SkillBenchmark {
+    skill: string;
+    average: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p90: number;
+    // False when the skill is not in the dataset and the general distribution was used
+    matched: boolean;
+}
+
+// Where benchmark numbers came from, shown next to every comparison
+export interface BenchmarkSource {
+    name: string;
+    version: string;
+    updated_at: string;
+}
+
+export interface SkillBenchmarkResponse {
+    success: boolean;
+    source: BenchmarkSource;
+    benchmarks: SkillBenchmark[];
+}
+
 export interface CareerSuggestion {
     role: string;
     match: number;
@@ -267,11 +357,17 @@ export interface AssessmentData {
         type: 'technical' | 'soft';
     }[];
 
+    // Set when the backend holds the answer key and grades the submission
+    session_id?: string;
+    mode?: AssessmentMode;
+
     questions: {
         id: string;
         question: string;
         options: string[];
-        answer: string;
+        answer?: string;
+        explanation?: string;
+        difficulty?: ProficiencyLevel;
         topic: string;
         type: 'multiple-choice';
     }[];
@@ -281,6 +377,8 @@ export interface AssessmentData {
         answer: string;
         isCorrect: boolean;
         skill: string;
+        correctAnswer?: string;
+        explanation?: string;
     }[];
 
     // Results structure
@@ -290,7 +388,14 @@ export interface AssessmentData {
             skill: string;
             score: number | null;
             industryAverage?: number;
+            // Share of benchmarked candidates scoring at or below this score
+            percentile?: number;
+            benchmarkMatched?: boolean;
+            // Adaptive mode only
+            proficiency?: ProficiencyLevel;
+            questionsAsked?: number;
         }[];
+        benchmark_source?: BenchmarkSource;
         career_suggestions: {
             suggestions: {
                 role_name: string;
@@ -333,6 +438,145 @@ export interface APIResponse {
     };
 }
 
+// One completed skill assessment, kept so scores can be compared over time
+export interface AssessmentAttempt {
+    _id: string;
+    completed_at: string;
+    overall_score: number;
+    skills: AssessmentData['skills'];
+    skill_scores: {
+        skill: string;
+        score: number;
+    }[];
+    career_suggestions: AssessmentData['results']['career_suggestions'];
+}
+
+export interface AssessmentHistoryResponse {
+    success: boolean;
+    attempts: AssessmentAttempt[];
+}
+
+// Latest job-match analysis as returned by /resume/latest-analysis
+export interface LatestAnalysis {
+    _id: string;
+    resume_id: string;
+    updated_at: string;
+    resume_metadata: {
+        resume_name?: string;
+    };
+    ats_score: {
+        ats_score: number;
+    };
+    job_match_score: number;
+    llm_analysis: {
+        overall_analysis: {
+            overall_strengths: AnalysisItem[];
+            areas_for_improvement: AnalysisItem[];
+            ats_optimization_suggestions: AnalysisItem[];
+            job_fit_assessment: {
+                score: number;
+                notes: string;
+            };
+            recommendation_score: number;
+            resume_summary: string;
+        };
+    };
+    // Spelled as the backend sends it
+    techinal_skills: string[];
+    soft_skills: string[];
+    job_title: string;
+}
+
+export interface LatestAnalysisResponse {
+    success: boolean;
+    resume_analysis: LatestAnalysis | null;
+    user_name?: string;
+}
+
+export interface AtsScoreResponse {
+    ats_score: {
+        ats_score: number;
+        format_compliance: number;
+        keyword_optimization: number;
+        readability: number;
+    };
+}
+
+// How far an adaptive session has got, sent with each question it issues
+export interface AdaptiveProgress {
+    answered: number;
+    // Most questions the run can still reach, for the "question n of up to m" counter
+    max_questions: number;
+}
+
+export interface AssessmentQuestionsResponse {
+    success: boolean;
+    // Present when the backend grades the assessment; questions then come without answers
+    session_id?: string;
+    // Adaptive sessions send only their first question; the rest come one answer at a time
+    questions: AssessmentQuestion[];
+    progress?: AdaptiveProgress;
+}
+
+// Reply to an adaptive answer; next_question is null once every skill has finished
+export interface AdaptiveAnswerResponse {
+    success: boolean;
+    next_question: AssessmentQuestion | null;
+    progress: AdaptiveProgress;
+}
+
+export interface SkillProficiency {
+    skill: string;
+    level: ProficiencyLevel;
+    questions_asked: number;
+}
+
+export interface AssessmentGradeResponse extends APIResponse {
+    // Adaptive sessions grade every question they issued, in the order issued
+    graded_answers: GradedAnswer[];
+    // Adaptive sessions only
+    proficiency?: SkillProficiency[];
+}
+
+export interface UserProfile {
+    _id: string;
+    email: string;
+    name: string;
+    isVerified: boolean;
+    current_profession: string | null;
+    mobile_number: string | null;
+    location: string;
+    github: string | null;
+    linkedin: string | null;
+    portfolio: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface UserProfileResponse {
+    success: boolean;
+    user: UserProfile;
+    total_resumes: number;
+    best_score: number;
+}
+
+export interface AuthUser {
+    userId: string;
+    email: string;
+    isVerified: boolean;
+}
+
+export interface CheckAuthResponse {
+    success: boolean;
+    userData: AuthUser;
+}
+
+// Shape of most auth and profile mutation responses
+export interface AuthMessageResponse {
+    success?: boolean;
+    message?: string;
+}
+
 export interface LatestResumeData {
     id: string;
     resumeId: string;
@@ -401,4 +645,7 @@ export interface Resume {
     keywords: string[];
     last_analyzed: string | null;
     ats_score: number;
+    template_id?: ResumeTemplateId;
+    section_order?: ResumeSectionId[];
+    hidden_sections?: ResumeSectionId[];
 }